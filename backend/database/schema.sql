@@ -18,10 +18,14 @@ CREATE TABLE IF NOT EXISTS files (
     download_count INTEGER DEFAULT 0,
     is_active BOOLEAN DEFAULT true,
     encrypted_metadata TEXT, -- Base64 encoded encrypted metadata (Wormhole-inspired)
+    owner_token_hash VARCHAR(64), -- SHA-256 of the uploader's owner token (never stored in plaintext)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Columns added after the initial release
+ALTER TABLE files ADD COLUMN IF NOT EXISTS owner_token_hash VARCHAR(64);
+
 -- Download logs table
 CREATE TABLE IF NOT EXISTS download_logs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -41,8 +45,16 @@ CREATE INDEX IF NOT EXISTS idx_download_logs_file_id ON download_logs(file_id);
 CREATE INDEX IF NOT EXISTS idx_download_logs_downloaded_at ON download_logs(downloaded_at);
 CREATE INDEX IF NOT EXISTS idx_download_logs_ip_address ON download_logs(ip_address);
 
+-- Range-resume: SHA-256 of the single-use token held by whoever started the
+-- download, and how far into the file the server had sent when it stopped
+ALTER TABLE download_logs ADD COLUMN IF NOT EXISTS resume_token_hash VARCHAR(64);
+ALTER TABLE download_logs ADD COLUMN IF NOT EXISTS resume_offset BIGINT;
+CREATE INDEX IF NOT EXISTS idx_download_logs_resume_token ON download_logs(resume_token_hash) WHERE resume_token_hash IS NOT NULL;
+
 -- Active files view for easier querying
-CREATE OR REPLACE VIEW active_files AS
+-- (dropped first: CREATE OR REPLACE can't insert the new files columns ahead of is_expired)
+DROP VIEW IF EXISTS active_files;
+CREATE VIEW active_files AS
 SELECT
     *,
     (expires_at < CURRENT_TIMESTAMP) AS is_expired
@@ -115,6 +127,7 @@ CREATE TABLE IF NOT EXISTS banned_ips (
     banned_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     expires_at TIMESTAMP WITH TIME ZONE,
     is_active BOOLEAN DEFAULT true,
+    banned_by VARCHAR(50), -- admin username for manual bans, NULL when automatic
 
     -- Constraints
     CONSTRAINT check_temporary_ban_expiry CHECK (
@@ -122,11 +135,16 @@ CREATE TABLE IF NOT EXISTS banned_ips (
     )
 );
 
+-- Columns added after the initial release
+ALTER TABLE banned_ips ADD COLUMN IF NOT EXISTS banned_by VARCHAR(50);
+
 -- Create indexes for banned_ips
 CREATE INDEX IF NOT EXISTS idx_banned_ips_ip ON banned_ips (ip);
 CREATE INDEX IF NOT EXISTS idx_banned_ips_active ON banned_ips (is_active);
 CREATE INDEX IF NOT EXISTS idx_banned_ips_expires ON banned_ips (expires_at);
 CREATE INDEX IF NOT EXISTS idx_banned_ips_type ON banned_ips (ban_type);
+-- Bans can cover a CIDR range; lookups test containment (client <<= ip)
+CREATE INDEX IF NOT EXISTS idx_banned_ips_range ON banned_ips USING gist (ip inet_ops);
 
 -- Admin users table for authentication
 CREATE TABLE IF NOT EXISTS admin_users (
@@ -137,6 +155,7 @@ CREATE TABLE IF NOT EXISTS admin_users (
     mfa_secret VARCHAR(64),
     mfa_enabled BOOLEAN DEFAULT false,
     mfa_backup_codes TEXT[], -- Array of backup codes
+    role VARCHAR(20) NOT NULL DEFAULT 'viewer', -- viewer, operator, security or superadmin
     is_active BOOLEAN DEFAULT true,
     last_login TIMESTAMP WITH TIME ZONE,
     failed_login_attempts INTEGER DEFAULT 0,
@@ -167,10 +186,35 @@ CREATE TABLE IF NOT EXISTS admin_audit_log (
     user_agent TEXT,
     success BOOLEAN NOT NULL,
     error_message TEXT,
+    permission VARCHAR(50), -- permission the action was authorised under
     metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    seq BIGSERIAL,          -- write order; the hash chain and cursors follow it
+    prev_hash CHAR(64),     -- entry_hash of the previous entry
+    entry_hash CHAR(64)     -- SHA-256 over this entry and prev_hash
+);
+
+-- Runtime settings editable from the admin panel. Append-only: every change
+-- or rollback adds a full snapshot, and the highest version is live.
+CREATE TABLE IF NOT EXISTS runtime_config (
+    version SERIAL PRIMARY KEY,
+    settings JSONB NOT NULL,
+    changed_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+    changed_by_username VARCHAR(50),
+    comment TEXT,
+    rolled_back_from INTEGER REFERENCES runtime_config(version),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Admin columns added after the initial release; existing admins keep full access
+ALTER TABLE admin_users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'superadmin';
+-- The backfill above is for admins that predate roles only; new admins start least-privileged
+ALTER TABLE admin_users ALTER COLUMN role SET DEFAULT 'viewer';
+ALTER TABLE admin_audit_log ADD COLUMN IF NOT EXISTS permission VARCHAR(50);
+ALTER TABLE admin_audit_log ADD COLUMN IF NOT EXISTS seq BIGSERIAL;
+ALTER TABLE admin_audit_log ADD COLUMN IF NOT EXISTS prev_hash CHAR(64);
+ALTER TABLE admin_audit_log ADD COLUMN IF NOT EXISTS entry_hash CHAR(64);
+
 -- Indexes for admin tables
 CREATE INDEX IF NOT EXISTS idx_admin_users_username ON admin_users(username);
 CREATE INDEX IF NOT EXISTS idx_admin_users_email ON admin_users(email);
@@ -180,6 +224,7 @@ CREATE INDEX IF NOT EXISTS idx_admin_sessions_expires_at ON admin_sessions(expir
 CREATE INDEX IF NOT EXISTS idx_admin_audit_log_user_id ON admin_audit_log(user_id);
 CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at);
 CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action ON admin_audit_log(action);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_audit_log_seq ON admin_audit_log(seq);
 
 -- Trigger for admin_users updated_at
 DROP TRIGGER IF EXISTS update_admin_users_updated_at ON admin_users;
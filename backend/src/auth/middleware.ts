@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { JWTManager, JWTPayload } from './jwt';
 import { AdminUserRepository, AdminSessionRepository, AdminAuditRepository } from '../database/models/AdminUser';
+import { AdminRole, Permission, hasPermission } from './permissions';
 
 // Extend Express Request interface to include admin user info
 declare global {
@@ -9,6 +10,8 @@ declare global {
       admin?: {
         user: JWTPayload;
         sessionId: string;
+        role: AdminRole;
+        permission?: Permission; // set by requirePermission, recorded by logAction
       };
     }
   }
@@ -18,6 +21,8 @@ export interface AuthenticatedRequest extends Request {
   admin: {
     user: JWTPayload;
     sessionId: string;
+    role: AdminRole;
+    permission?: Permission;
   };
 }
 
@@ -122,7 +127,8 @@ export class AuthMiddleware {
       // Attach admin info to request
       req.admin = {
         user: payload,
-        sessionId: session.id
+        sessionId: session.id,
+        role: user.role
       };
 
       // Refresh token if needed
@@ -143,12 +149,51 @@ export class AuthMiddleware {
   };
 
   /**
-   * Middleware to require specific admin permissions (future extension)
+   * Middleware to require a permission from the admin's role. Must follow
+   * requireAuth; the permission is remembered for logAction to record.
    */
-  static requirePermission = (permission: string) => {
+  static requirePermission = (permission: Permission): RequestHandler => {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-      // For now, all authenticated admins have all permissions
-      // This can be extended later with role-based access control
+      if (!req.admin) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'This endpoint requires authentication'
+        });
+        return;
+      }
+
+      if (!hasPermission(req.admin.role, permission)) {
+        try {
+          await AuthMiddleware.auditRepo.logAction({
+            userId: req.admin.user.userId,
+            username: req.admin.user.username,
+            action: 'PERMISSION_DENIED',
+            resource: 'admin_auth',
+            ipAddress: AuthMiddleware.getClientIP(req),
+            userAgent: req.headers['user-agent'],
+            success: false,
+            errorMessage: `Role ${req.admin.role} lacks ${permission}`,
+            permission,
+            metadata: {
+              method: req.method,
+              path: req.path,
+              role: req.admin.role,
+              sessionId: req.admin.sessionId
+            }
+          });
+        } catch (error) {
+          console.error('Failed to log permission denial:', error);
+        }
+
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `Your role (${req.admin.role}) does not allow this action`,
+          permission
+        });
+        return;
+      }
+
+      req.admin.permission = permission;
       next();
     };
   };
@@ -189,11 +234,15 @@ export class AuthMiddleware {
               userAgent: req.headers['user-agent'],
               success,
               errorMessage,
+              permission: authReq.admin.permission,
               metadata: {
                 method: req.method,
                 path: req.path,
                 statusCode: res.statusCode,
-                sessionId: authReq.admin.sessionId
+                sessionId: authReq.admin.sessionId,
+                role: authReq.admin.role,
+                // Handlers may name what they acted on, e.g. the address a ban covers
+                ...(res.locals.audit || {})
               }
             });
           } catch (auditError) {
@@ -225,7 +274,8 @@ export class AuthMiddleware {
             if (user && user.isActive && (!user.lockedUntil || user.lockedUntil <= new Date())) {
               req.admin = {
                 user: payload,
-                sessionId: session.id
+                sessionId: session.id,
+                role: user.role
               };
             }
           }
@@ -341,6 +391,7 @@ export function withAuth(handler: AuthenticatedRequestHandler): RequestHandler {
 
 // Export commonly used middleware combinations
 export const requireAuth = AuthMiddleware.requireAuth;
+export const requirePermission = AuthMiddleware.requirePermission;
 export const optionalAuth = AuthMiddleware.optionalAuth;
 export const logAction = AuthMiddleware.logAction;
 export const authRateLimit = AuthMiddleware.authRateLimit;
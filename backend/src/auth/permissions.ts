@@ -0,0 +1,54 @@
+/**
+ * Admin roles and the permissions each one grants. Every admin route names
+ * the single permission it needs (see AuthMiddleware.requirePermission);
+ * roles are checked against the database on each request, so a change made
+ * with the admin CLI applies without waiting for tokens to expire.
+ */
+
+export const ADMIN_ROLES = ['viewer', 'operator', 'security', 'superadmin'] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export type Permission =
+  | 'account:self'        // own session, profile and MFA setup
+  | 'stats:view'
+  | 'security:view'
+  | 'bans:view'           // individual bans, with addresses
+  | 'bans:manage'         // ban, unban, make permanent
+  | 'audit:view'          // admin audit log, its export and chain verification
+  | 'config:view'
+  | 'config:update'
+  | 'files:view'          // listing, detail and download logs
+  | 'files:manage'        // expire, extend, hard-delete
+  | 'files:cleanup'
+  | 'ct-monitor:view'
+  | 'ct-monitor:run'
+  | 'ct-monitor:manage';
+
+const VIEWER: Permission[] = [
+  'account:self',
+  'stats:view',
+  'security:view',
+  'config:view',
+  'files:view',
+  'ct-monitor:view'
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  // Read-only: on-call staff who need to see what is happening
+  viewer: VIEWER,
+  // Day-to-day storage upkeep
+  operator: [...VIEWER, 'files:manage', 'files:cleanup', 'ct-monitor:run'],
+  // Threat response (including taking down abusive files) and certificate monitoring
+  security: [...VIEWER, 'audit:view', 'bans:view', 'bans:manage', 'files:manage', 'ct-monitor:run', 'ct-monitor:manage'],
+  superadmin: [
+    ...VIEWER, 'audit:view', 'bans:view', 'bans:manage', 'config:update', 'files:manage', 'files:cleanup', 'ct-monitor:run', 'ct-monitor:manage'
+  ]
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
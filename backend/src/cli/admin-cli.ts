@@ -10,6 +10,7 @@ import QRCode from 'qrcode';
 import dotenv from 'dotenv';
 import { DatabaseConnection } from '../database/connection';
 import { AdminUserRepository, AdminAuditRepository } from '../database/models/AdminUser';
+import { ADMIN_ROLES, AdminRole, ROLE_PERMISSIONS, isAdminRole } from '../auth/permissions';
 
 // Load environment variables
 dotenv.config();
@@ -32,6 +33,7 @@ interface FileSystemUser {
   mfaSecret?: string;
   mfaEnabled: boolean;
   mfaBackupCodes?: string[];
+  role?: AdminRole; // absent on users created before roles, who are superadmins
   isActive: boolean;
   lastLogin?: string;
   failedLoginAttempts: number;
@@ -83,6 +85,16 @@ class AdminCLI {
     }
   }
 
+  private async promptRole(defaultRole: AdminRole): Promise<AdminRole | null> {
+    console.log(chalk.gray(`Roles: ${ADMIN_ROLES.join(', ')}`));
+    const answer = (await this.prompt(`Role (default ${defaultRole}): `)).trim().toLowerCase() || defaultRole;
+    if (!isAdminRole(answer)) {
+      console.log(chalk.red(`❌ Unknown role '${answer}'`));
+      return null;
+    }
+    return answer;
+  }
+
   async prompt(question: string): Promise<string> {
     return new Promise((resolve) => {
       rl.question(question, resolve);
@@ -159,13 +171,18 @@ class AdminCLI {
     const enableMfa = await this.prompt('Enable MFA? (y/N): ');
     const mfaEnabled = enableMfa.toLowerCase() === 'y' || enableMfa.toLowerCase() === 'yes';
 
+    // New users start read-only unless given more
+    const role = await this.promptRole('viewer');
+    if (!role) return;
+
     try {
       if (this.useDatabase) {
         const user = await this.userRepo.createUser({
           username: username.trim(),
           email: email.trim(),
           password,
-          mfaEnabled
+          mfaEnabled,
+          role
         });
 
         await this.auditRepo.logAction({
@@ -173,7 +190,7 @@ class AdminCLI {
           action: 'CREATE_USER',
           resource: `user:${user.username}`,
           success: true,
-          metadata: { userId: user.id, mfaEnabled }
+          metadata: { userId: user.id, mfaEnabled, role }
         });
 
         console.log(chalk.green(`✅ User '${user.username}' created successfully`));
@@ -183,14 +200,14 @@ class AdminCLI {
         }
       } else {
         // Filesystem implementation
-        await this.createUserInFile(username.trim(), email.trim(), password, mfaEnabled);
+        await this.createUserInFile(username.trim(), email.trim(), password, mfaEnabled, role);
       }
     } catch (error) {
       console.log(chalk.red(`❌ Error creating user: ${(error as Error).message}`));
     }
   }
 
-  private async createUserInFile(username: string, email: string, password: string, mfaEnabled: boolean): Promise<void> {
+  private async createUserInFile(username: string, email: string, password: string, mfaEnabled: boolean, role: AdminRole): Promise<void> {
     const bcrypt = require('bcrypt');
     const speakeasy = require('speakeasy');
     const { v4: uuidv4 } = require('uuid');
@@ -226,6 +243,7 @@ class AdminCLI {
       mfaSecret,
       mfaEnabled,
       mfaBackupCodes,
+      role,
       isActive: true,
       failedLoginAttempts: 0,
       createdAt: new Date().toISOString(),
@@ -287,9 +305,10 @@ class AdminCLI {
       const status = user.isActive ? chalk.green('Active') : chalk.red('Inactive');
       const mfa = user.mfaEnabled ? chalk.green('Enabled') : chalk.gray('Disabled');
       const lastLogin = user.lastLogin ? new Date(user.lastLogin).toLocaleString() : 'Never';
+      const role = user.role || 'superadmin';
 
       console.log(`${chalk.bold(user.username)} (${user.email})`);
-      console.log(`  Status: ${status} | MFA: ${mfa} | Last Login: ${lastLogin}`);
+      console.log(`  Role: ${chalk.cyan(role)} | Status: ${status} | MFA: ${mfa} | Last Login: ${lastLogin}`);
       console.log(`  Created: ${new Date(user.createdAt).toLocaleString()}`);
       console.log('');
     });
@@ -451,6 +470,75 @@ class AdminCLI {
     }
   }
 
+  async setRole(): Promise<void> {
+    console.log(chalk.blue('\n🎭 Set User Role\n'));
+
+    const username = await this.prompt('Username: ');
+    if (!username.trim()) {
+      console.log(chalk.red('❌ Username is required'));
+      return;
+    }
+
+    const role = await this.promptRole('viewer');
+    if (!role) return;
+
+    try {
+      if (this.useDatabase) {
+        const user = await this.userRepo.findByUsername(username.trim());
+        if (!user) {
+          console.log(chalk.red('❌ User not found'));
+          return;
+        }
+
+        // Someone must always be able to change configuration
+        if (user.role === 'superadmin' && role !== 'superadmin') {
+          const superadmins = (await this.userRepo.listUsers()).filter(u => u.role === 'superadmin' && u.isActive);
+          if (superadmins.length <= 1) {
+            console.log(chalk.red('❌ Cannot demote the last active superadmin'));
+            return;
+          }
+        }
+
+        await this.userRepo.updateUser(user.id, { role });
+
+        await this.auditRepo.logAction({
+          username: 'CLI',
+          action: 'SET_ROLE',
+          resource: `user:${user.username}`,
+          success: true,
+          metadata: { userId: user.id, previousRole: user.role, role }
+        });
+
+        console.log(chalk.green(`✅ User '${user.username}' is now ${role}`));
+      } else {
+        await this.setRoleInFile(username.trim(), role);
+      }
+      console.log(chalk.gray(`   Permissions: ${ROLE_PERMISSIONS[role].join(', ')}`));
+    } catch (error) {
+      console.log(chalk.red(`❌ Error setting role: ${(error as Error).message}`));
+    }
+  }
+
+  private async setRoleInFile(username: string, role: AdminRole): Promise<void> {
+    const users: FileSystemUser[] = JSON.parse(fs.readFileSync(USERS_FILE, 'utf8'));
+
+    const user = users.find(u => u.username === username);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if ((user.role || 'superadmin') === 'superadmin' && role !== 'superadmin' &&
+        users.filter(u => (u.role || 'superadmin') === 'superadmin' && u.isActive).length <= 1) {
+      throw new Error('Cannot demote the last active superadmin');
+    }
+
+    user.role = role;
+    user.updatedAt = new Date().toISOString();
+
+    fs.writeFileSync(USERS_FILE, JSON.stringify(users, null, 2));
+    console.log(chalk.green(`✅ User '${username}' is now ${role}`));
+  }
+
   async deleteUser(): Promise<void> {
     console.log(chalk.blue('\n🗑️  Delete User\n'));
 
@@ -539,6 +627,9 @@ class AdminCLI {
       if (log.resource) {
         console.log(`  Resource: ${log.resource}`);
       }
+      if (log.permission) {
+        console.log(`  Permission: ${log.permission}`);
+      }
       if (log.errorMessage) {
         console.log(`  Error: ${chalk.red(log.errorMessage)}`);
       }
@@ -546,6 +637,43 @@ class AdminCLI {
     });
   }
 
+  /**
+   * Recompute the audit log's hash chain. Returns false when it is broken,
+   * so scripts can fail on it.
+   */
+  async verifyAuditChain(): Promise<boolean> {
+    console.log(chalk.blue('\n🔗 Verify Audit Log\n'));
+
+    if (!this.useDatabase) {
+      console.log(chalk.yellow('⚠️  The audit chain is kept in the database only'));
+      return false;
+    }
+
+    try {
+      const report = await this.auditRepo.verifyChain();
+      if (report.unchained > 0) {
+        console.log(chalk.gray(`${report.unchained} entries predate the hash chain and cannot be verified`));
+      }
+
+      if (!report.valid && report.firstInvalid) {
+        console.log(chalk.red(`❌ Chain broken at entry #${report.firstInvalid.sequence} (${report.firstInvalid.id})`));
+        console.log(chalk.red(`   ${report.firstInvalid.reason}`));
+        console.log(`   ${report.checked} entries verified before it`);
+        return false;
+      }
+
+      console.log(chalk.green(`✅ ${report.checked} chained entries verified`));
+      if (report.head) {
+        console.log(`Head: #${report.head.sequence} ${chalk.bold(report.head.hash)}`);
+        console.log(chalk.gray('Keep this head somewhere outside the database; a later head that no longer builds on it means entries were cut from the end.'));
+      }
+      return true;
+    } catch (error) {
+      console.log(chalk.red(`❌ Error verifying audit log: ${(error as Error).message}`));
+      return false;
+    }
+  }
+
   async initializeDatabase(): Promise<void> {
     console.log(chalk.blue('\n🗄️  Initialize Database\n'));
 
@@ -621,6 +749,14 @@ async function main() {
       cli.close();
     });
 
+  program
+    .command('set-role')
+    .description('Change a user\'s role (viewer, operator, security, superadmin)')
+    .action(async () => {
+      await cli.setRole();
+      cli.close();
+    });
+
   program
     .command('delete-user')
     .description('Delete an admin user')
@@ -637,6 +773,15 @@ async function main() {
       cli.close();
     });
 
+  program
+    .command('verify-audit')
+    .description('Verify the audit log hash chain')
+    .action(async () => {
+      const valid = await cli.verifyAuditChain();
+      cli.close();
+      if (!valid) process.exitCode = 1;
+    });
+
   program
     .command('init-db')
     .description('Initialize database schema')
@@ -661,6 +806,8 @@ async function main() {
         console.log('5. Delete user');
         console.log('6. Show audit log');
         console.log('7. Initialize database');
+        console.log('8. Set role');
+        console.log('9. Verify audit log');
         console.log('0. Exit');
 
         const choice = await cli.prompt('\nSelect option: ');
@@ -687,6 +834,12 @@ async function main() {
           case '7':
             await cli.initializeDatabase();
             break;
+          case '8':
+            await cli.setRole();
+            break;
+          case '9':
+            await cli.verifyAuditChain();
+            break;
           case '0':
             console.log(chalk.green('👋 Goodbye!'));
             cli.close();
@@ -39,7 +39,8 @@ async function createAdminUser() {
       username: 'admin',
       email: 'admin@whirlcrypt.local',
       password: 'whirlcrypt123!',
-      mfaEnabled: false
+      mfaEnabled: false,
+      role: 'superadmin' as const
     };
 
     console.log('Creating default admin user:');
@@ -47,6 +48,7 @@ async function createAdminUser() {
     console.log(`Email: ${defaultUser.email}`);
     console.log(`Password: ${defaultUser.password}`);
     console.log(`MFA: ${defaultUser.mfaEnabled ? 'Enabled' : 'Disabled'}`);
+    console.log(`Role: ${defaultUser.role}`);
     console.log('');
 
     const user = await userRepo.createUser(defaultUser);
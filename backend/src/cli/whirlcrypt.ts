@@ -0,0 +1,473 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { randomBytes } from 'crypto';
+import { RFC8188EncryptStream, RFC8188DecryptStream, STREAM_RECORD_SIZE } from '../encryption/rfc8188';
+import { encodeEnvelopeHeader, EnvelopeDecodeStream, EnvelopeMetadata } from '../encryption/envelope';
+import { ShareLink, ParsedShareLink, PassphraseKdf, WrongPassphraseError } from '../encryption/share-link';
+import { combineShares, sameSplit, MAX_SHARES } from '../encryption/shamir';
+import { SALT_LENGTH, KEY_LENGTH, UploadResponse } from '../types';
+
+/**
+ * whirlcrypt — command-line client for scripts and CI.
+ *
+ * Encrypts and decrypts locally with the same RFC 8188 envelope as the
+ * browser, so links work in both directions: `send` prints a link anyone can
+ * open in a browser, and `receive` opens links made in one. Neither the key
+ * nor the passphrase is ever sent to the server.
+ *
+ * Status goes to stderr; stdout carries only the share link (send) or the
+ * file contents with `-o -` (receive), so both compose in pipelines.
+ */
+
+const program = new Command();
+
+// Stored name for the ciphertext; the real filename is inside the envelope
+const UPLOAD_FILENAME = 'whirlcrypt.bin';
+const FALLBACK_FILENAME = 'whirlcrypt-download';
+
+class CLIError extends Error {}
+
+const info = (message: string) => process.stderr.write(`${message}\n`);
+
+function defaultServer(): string | undefined {
+  return process.env.WHIRLCRYPT_SERVER;
+}
+
+function requestModule(url: URL): typeof http | typeof https {
+  return url.protocol === 'https:' ? https : http;
+}
+
+/**
+ * Collect a JSON error body from a failed response
+ */
+async function responseError(res: http.IncomingMessage): Promise<CLIError> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of res) chunks.push(chunk as Buffer);
+  let message = `HTTP ${res.statusCode}`;
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (body?.error) message += `: ${body.error}`;
+  } catch {
+    // Not JSON — the status code is all we have
+  }
+  return new CLIError(message);
+}
+
+/**
+ * Read a passphrase without echoing it (mirrors the admin CLI prompt)
+ */
+function promptPassphrase(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(new CLIError('A passphrase is required; pass --passphrase <value> or set WHIRLCRYPT_PASSPHRASE'));
+  }
+
+  return new Promise((resolve) => {
+    process.stderr.write(question);
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.setEncoding('utf8');
+
+    let passphrase = '';
+    const onData = (data: string) => {
+      for (const char of data) {
+        switch (char) {
+          case '\n':
+          case '\r':
+          case '\u0004':
+            process.stdin.setRawMode(false);
+            process.stdin.pause();
+            process.stdin.removeListener('data', onData);
+            process.stderr.write('\n');
+            resolve(passphrase);
+            return;
+          case '\u0003':
+            process.exit(130);
+            break;
+          case '\u007f': // Backspace
+            if (passphrase.length > 0) {
+              passphrase = passphrase.slice(0, -1);
+              process.stderr.write('\b \b');
+            }
+            break;
+          default:
+            passphrase += char;
+            process.stderr.write('*');
+            break;
+        }
+      }
+    };
+
+    process.stdin.on('data', onData);
+  });
+}
+
+/**
+ * `--passphrase` may carry a value, or be given bare to use
+ * WHIRLCRYPT_PASSPHRASE or an interactive prompt
+ */
+async function resolvePassphrase(option: string | boolean | undefined, confirm: boolean): Promise<string | undefined> {
+  if (typeof option === 'string') return option;
+  if (!option) return undefined;
+  if (process.env.WHIRLCRYPT_PASSPHRASE) return process.env.WHIRLCRYPT_PASSPHRASE;
+
+  const passphrase = await promptPassphrase('Passphrase: ');
+  if (confirm && passphrase !== await promptPassphrase('Confirm passphrase: ')) {
+    throw new CLIError('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+    throw new CLIError(`${name} must be a positive integer`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Report progress on stderr when it is a terminal
+ */
+function progressMeter(label: string, total: number): Transform {
+  let seen = 0;
+  let lastShown = -1;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      seen += chunk.length;
+      const percent = total > 0 ? Math.floor((seen / total) * 100) : 100;
+      if (process.stderr.isTTY && percent !== lastShown) {
+        process.stderr.write(`\r${label} ${percent}%`);
+        lastShown = percent;
+      }
+      callback(null, chunk);
+    },
+    flush(callback) {
+      if (process.stderr.isTTY && lastShown >= 0) process.stderr.write('\n');
+      callback();
+    }
+  });
+}
+
+interface SendOptions {
+  server?: string;
+  expires?: string;
+  maxDownloads?: string;
+  passphrase?: string | boolean;
+  kdf: string;
+  split?: string;
+}
+
+/**
+ * `--split K/N`: N links, any K of which open the file
+ */
+function parseSplit(value: string): { threshold: number; total: number } {
+  const match = /^(\d+)\/(\d+)$/.exec(value);
+  const threshold = match ? parseInt(match[1], 10) : NaN;
+  const total = match ? parseInt(match[2], 10) : NaN;
+  if (!(threshold >= 2 && threshold <= total && total <= MAX_SHARES)) {
+    throw new CLIError(`--split must be K/N with 2 <= K <= N <= ${MAX_SHARES}, e.g. 2/3`);
+  }
+  return { threshold, total };
+}
+
+/**
+ * Encrypt a file and upload it to POST /api/upload
+ */
+async function send(file: string, options: SendOptions): Promise<void> {
+  const server = options.server ?? defaultServer();
+  if (!server) {
+    throw new CLIError('No server given; pass --server <url> or set WHIRLCRYPT_SERVER');
+  }
+  const baseUrl = server.replace(/\/+$/, '');
+
+  const stat = await fs.promises.stat(file).catch(() => null);
+  if (!stat?.isFile()) {
+    throw new CLIError(`Not a file: ${file}`);
+  }
+
+  const retentionHours = options.expires ? parsePositiveInt(options.expires, '--expires') : undefined;
+  const maxDownloads = options.maxDownloads ? parsePositiveInt(options.maxDownloads, '--max-downloads') : undefined;
+  if (options.kdf !== 'argon2id' && options.kdf !== 'pbkdf2') {
+    throw new CLIError('--kdf must be argon2id or pbkdf2');
+  }
+  const passphraseKdf: PassphraseKdf = options.kdf === 'pbkdf2' ? ShareLink.DEFAULT_PBKDF2 : ShareLink.DEFAULT_ARGON2ID;
+  const split = options.split ? parseSplit(options.split) : undefined;
+  const passphrase = await resolvePassphrase(options.passphrase, true);
+
+  const key = randomBytes(KEY_LENGTH);
+  const salt = randomBytes(SALT_LENGTH);
+  const metadata: EnvelopeMetadata = {
+    filename: path.basename(file),
+    contentType: 'application/octet-stream'
+  };
+  const envelopeHeader = encodeEnvelopeHeader(metadata);
+  const encryptedSize = RFC8188EncryptStream.encryptedLength(envelopeHeader.length + stat.size, STREAM_RECORD_SIZE, true);
+
+  // Fields precede the file part so multer has parsed them when the file arrives
+  const boundary = `----whirlcrypt${randomBytes(12).toString('hex')}`;
+  let preamble = '';
+  const field = (name: string, value: string) => {
+    preamble += `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`;
+  };
+  if (retentionHours !== undefined) field('retentionHours', String(retentionHours));
+  if (maxDownloads !== undefined) field('maxDownloads', String(maxDownloads));
+  preamble += `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${UPLOAD_FILENAME}"\r\n` +
+    'Content-Type: application/octet-stream\r\n\r\n';
+  const epilogue = `\r\n--${boundary}--\r\n`;
+
+  const url = new URL(`${baseUrl}/api/upload`);
+  const req = requestModule(url).request(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': `multipart/form-data; boundary=${boundary}`,
+      'Content-Length': Buffer.byteLength(preamble) + encryptedSize + Buffer.byteLength(epilogue)
+    }
+  });
+  const response = new Promise<http.IncomingMessage>((resolve, reject) => {
+    req.on('response', resolve);
+    req.on('error', reject);
+  });
+
+  const plaintext = Readable.from((async function* () {
+    yield envelopeHeader;
+    yield* fs.createReadStream(file);
+  })());
+  const body = Readable.from((async function* () {
+    yield Buffer.from(preamble);
+    yield* plaintext.pipe(new RFC8188EncryptStream(key, salt, { committed: true }));
+    yield Buffer.from(epilogue);
+  })());
+
+  info(`Encrypting and uploading ${metadata.filename} (${stat.size.toLocaleString()} bytes)`);
+  // The server may answer (e.g. 413) before the body is sent; prefer its reply
+  const uploaded = pipeline(body, progressMeter('Uploading', encryptedSize), req).catch(() => undefined);
+  const res = await response;
+  await uploaded;
+  if (res.statusCode !== 200) {
+    throw await responseError(res);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of res) chunks.push(chunk as Buffer);
+  const result = JSON.parse(Buffer.concat(chunks).toString('utf8')) as UploadResponse;
+
+  const linkOptions = { passphrase, passphraseKdf, committed: true };
+  const links = split
+    ? await ShareLink.buildSplit(result.id, key, salt, baseUrl, split.threshold, split.total, linkOptions)
+    : [await ShareLink.build(result.id, key, salt, baseUrl, linkOptions)];
+  info(chalk.green(`Uploaded; expires ${new Date(result.expiresAt).toLocaleString()}`));
+  if (passphrase) info(`Passphrase-locked (${ShareLink.describeKdf(passphraseKdf)})`);
+  if (split) info(`Key split across ${split.total} links, one per line; any ${split.threshold} open the file`);
+  if (result.ownerToken) info(`Owner token (for /api/files/${result.id}): ${result.ownerToken}`);
+  process.stdout.write(`${links.join('\n')}\n`);
+}
+
+interface ReceiveOptions {
+  output?: string;
+  passphrase?: string | boolean;
+  signer?: string;
+  force?: boolean;
+}
+
+/**
+ * Reduce a sender-chosen filename to a single safe path component
+ */
+function safeFilename(name: string): string {
+  const base = path.basename(name.replace(/\\/g, '/')).replace(/[\x00-\x1f\x7f]/g, '');
+  return base === '' || base === '.' || base === '..' ? FALLBACK_FILENAME : base;
+}
+
+/**
+ * Rebuild a split link's `k` value from its share and those in `links`,
+ * which must be other links of the same split
+ */
+function combineLinkShares(parsed: ParsedShareLink, links: string[]): Buffer {
+  const shares = [parsed.share!];
+  for (const link of links) {
+    const other = ShareLink.parse(link);
+    const share = other?.fileId === parsed.fileId ? other.share : null;
+    if (!share) throw new CLIError(`Not a share link for file ${parsed.fileId}: ${link}`);
+    if (!sameSplit(share, shares[0])) throw new CLIError(`From a different split of this file: ${link}`);
+    if (!shares.some(s => s.x === share.x)) shares.push(share);
+  }
+  const { threshold, total } = shares[0];
+  if (shares.length < threshold) {
+    throw new CLIError(`The key is split across ${total} links; pass any ${threshold} of them (got ${shares.length})`);
+  }
+  info(`Key rebuilt from ${threshold} of ${total} share links`);
+  return combineShares(shares);
+}
+
+/**
+ * Download and decrypt a share link, with the same checks as the browser:
+ * attestation first, then the passphrase, and only then the download
+ */
+async function receive(link: string, shareLinks: string[], options: ReceiveOptions): Promise<void> {
+  const parsed = ShareLink.parse(link);
+  if (!parsed) {
+    throw new CLIError('Not a valid whirlcrypt link (expected …/download/<id>#v=3&k=…&s=…)');
+  }
+  if (!parsed.share && shareLinks.length > 0) {
+    throw new CLIError('Extra links are only needed for a split key, and this link carries the whole key');
+  }
+  if (parsed.ephemeralPubkey) {
+    throw new CLIError('This link is sealed to a recipient key; open it in the browser that holds that key');
+  }
+
+  // Checked against the decrypted envelope; only set once the signature over it verifies
+  let contentDigest: Buffer | null = null;
+  if (parsed.attestation) {
+    const fingerprint = ShareLink.fingerprint(parsed.attestation.pubkey);
+    let rotatedFrom: string | null = null;
+    if (ShareLink.verifyAttestation(parsed.fileId, parsed.attestation)) {
+      // The name is unsigned; only the fingerprint identifies the sender
+      const claimed = parsed.attestation.name ? ` (calls itself "${parsed.attestation.name}")` : '';
+      info(chalk.green(`Signed by sender ${fingerprint}${claimed}`));
+      contentDigest = parsed.attestation.contentDigest ?? null;
+      if (contentDigest) info('The signature covers the contents; checking them while decrypting');
+      const rotation = parsed.attestation.rotation;
+      if (rotation) {
+        if (ShareLink.verifyRotation(parsed.attestation.pubkey, rotation)) {
+          rotatedFrom = ShareLink.fingerprint(rotation.previousPubkey);
+          info(chalk.green(`Sender key rotated from ${rotatedFrom}`));
+        } else {
+          info(chalk.red('Key-rotation statement did NOT verify — ignoring it'));
+        }
+      }
+    } else {
+      info(chalk.red('Sender signature did NOT verify — this attestation is forged or corrupt'));
+      if (options.signer) throw new CLIError('Refusing to download: signature is invalid');
+    }
+    // A signer who rotated is still accepted under the fingerprint the user pinned
+    const signer = options.signer?.toLowerCase();
+    if (signer && signer !== fingerprint && signer !== rotatedFrom) {
+      throw new CLIError(`Refusing to download: signed by ${fingerprint}, expected ${options.signer}`);
+    }
+  } else if (options.signer) {
+    throw new CLIError('Refusing to download: the link carries no sender signature');
+  }
+
+  const keyOrWrapped = parsed.share ? combineLinkShares(parsed, shareLinks) : parsed.keyOrWrapped!;
+  let key = keyOrWrapped;
+  if (parsed.passphraseWrap) {
+    const passphrase = await resolvePassphrase(options.passphrase ?? true, false);
+    info(`Deriving key (${ShareLink.describeKdf(parsed.passphraseWrap.kdf)})…`);
+    try {
+      key = await ShareLink.unwrapKeyWithPassphrase(keyOrWrapped, passphrase!, parsed.passphraseWrap);
+    } catch (error) {
+      if (error instanceof WrongPassphraseError) throw new CLIError('Wrong passphrase');
+      throw error;
+    }
+  }
+
+  const url = new URL(`${parsed.baseUrl}/api/download/${encodeURIComponent(parsed.fileId)}`);
+  const res = await new Promise<http.IncomingMessage>((resolve, reject) => {
+    requestModule(url).get(url, resolve).on('error', reject);
+  });
+  if (res.statusCode !== 200) {
+    throw await responseError(res);
+  }
+
+  const toStdout = options.output === '-';
+  const outputDir = options.output && !toStdout && fs.existsSync(options.output) && fs.statSync(options.output).isDirectory()
+    ? options.output
+    : undefined;
+  const fixedPath = options.output && !toStdout && !outputDir ? options.output : undefined;
+  const partPath = path.join(
+    fixedPath ? path.dirname(fixedPath) : outputDir ?? '.',
+    `.${parsed.fileId}.whirlcrypt-part`
+  );
+
+  if (fixedPath && !options.force && fs.existsSync(fixedPath)) {
+    res.destroy();
+    throw new CLIError(`${fixedPath} already exists; pass --force to overwrite`);
+  }
+
+  const envelope = new EnvelopeDecodeStream({ contentDigest });
+  envelope.on('metadata', (value: EnvelopeMetadata) => {
+    const kind = value.manifest ? ` (folder, ${value.manifest.length} files)` : value.message ? ' (text message)' : '';
+    info(`Receiving ${value.filename}${kind}`);
+  });
+
+  const total = parseInt(res.headers['content-length'] ?? '0', 10);
+  const sink = toStdout ? process.stdout : fs.createWriteStream(partPath, { mode: 0o600 });
+  try {
+    await pipeline(
+      res,
+      progressMeter('Downloading', total),
+      new RFC8188DecryptStream(key, { salt: parsed.salt, committed: parsed.committed }),
+      envelope,
+      sink
+    );
+  } catch (error) {
+    if (!toStdout) await fs.promises.rm(partPath, { force: true });
+    const message = (error as Error).message;
+    // A legacy passphrase wrap can only be checked against the first record
+    if (parsed.passphraseWrap?.version === 0 && /^Record 0 /.test(message)) {
+      throw new CLIError('Wrong passphrase (or the file is corrupted)');
+    }
+    if (message === 'Content digest mismatch') {
+      throw new CLIError(toStdout
+        ? 'The decrypted file does not match what the sender signed; discard everything written to stdout'
+        : 'The decrypted file does not match what the sender signed; nothing was saved');
+    }
+    throw new CLIError(`Decryption failed: ${message}`);
+  }
+  if (toStdout) return;
+
+  const filename = safeFilename(envelope.envelopeMetadata?.filename ?? FALLBACK_FILENAME);
+  const finalPath = fixedPath ?? path.join(outputDir ?? '.', filename);
+  if (!options.force && fs.existsSync(finalPath)) {
+    await fs.promises.rm(partPath, { force: true });
+    throw new CLIError(`${finalPath} already exists; pass --force to overwrite`);
+  }
+  await fs.promises.rename(partPath, finalPath);
+  info(chalk.green(`Saved ${finalPath}`));
+}
+
+async function main() {
+  program
+    .name('whirlcrypt')
+    .description('Send and receive end-to-end encrypted files from the command line')
+    .version('2.0.0');
+
+  program
+    .command('send')
+    .description('Encrypt a file locally, upload it and print the share link')
+    .argument('<file>', 'file to send')
+    .option('-s, --server <url>', 'whirlcrypt server (default: $WHIRLCRYPT_SERVER)')
+    .option('-e, --expires <hours>', 'hours until the file expires (server default if omitted)')
+    .option('-m, --max-downloads <n>', 'delete after this many downloads')
+    .option('-p, --passphrase [passphrase]', 'lock the link with a passphrase (prompted, or $WHIRLCRYPT_PASSPHRASE, if no value)')
+    .option('--kdf <name>', 'passphrase KDF: argon2id or pbkdf2', 'argon2id')
+    .option('--split <K/N>', 'split the key across N links, any K of which open the file')
+    .action(send);
+
+  program
+    .command('receive')
+    .description('Download and decrypt a share link')
+    .argument('<url>', 'share link, including the #fragment')
+    .argument('[shares...]', 'other links of a split key, until enough are given')
+    .option('-o, --output <path>', 'output file or directory; "-" for stdout (default: the sent filename)')
+    .option('-p, --passphrase [passphrase]', 'passphrase for a locked link (prompted, or $WHIRLCRYPT_PASSPHRASE, if no value)')
+    .option('--signer <fingerprint>', 'require a valid sender signature with this fingerprint')
+    .option('-f, --force', 'overwrite an existing output file')
+    .action(receive);
+
+  await program.parseAsync(process.argv);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    const message = error instanceof CLIError ? error.message : `Fatal error: ${error.message}`;
+    console.error(chalk.red(`❌ ${message}`));
+    process.exit(1);
+  });
+}
@@ -32,6 +32,7 @@ export interface StorageConfig {
     secretAccessKey: string;
     endpoint?: string;
     prefix?: string;
+    forcePathStyle?: boolean;
   };
 }
 
@@ -85,7 +86,10 @@ export const config: AppConfig = {
       accessKeyId: process.env.S3_ACCESS_KEY_ID!,
       secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
       endpoint: process.env.S3_ENDPOINT,
-      prefix: process.env.S3_PREFIX
+      prefix: process.env.S3_PREFIX,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : undefined
     } : undefined
   },
 
@@ -1,8 +1,9 @@
 import { Pool } from 'pg';
 import bcrypt from 'bcrypt';
 import speakeasy from 'speakeasy';
-import { randomBytes } from 'crypto';
+import { createHash, randomBytes } from 'crypto';
 import { DatabaseConnection } from '../connection';
+import { AdminRole } from '../../auth/permissions';
 
 export interface AdminUser {
   id: string;
@@ -12,6 +13,7 @@ export interface AdminUser {
   mfaSecret?: string;
   mfaEnabled: boolean;
   mfaBackupCodes?: string[];
+  role: AdminRole;
   isActive: boolean;
   lastLogin?: Date;
   failedLoginAttempts: number;
@@ -25,12 +27,14 @@ export interface CreateAdminUserData {
   email: string;
   password: string;
   mfaEnabled?: boolean;
+  role?: AdminRole;
 }
 
 export interface UpdateAdminUserData {
   email?: string;
   password?: string;
   mfaEnabled?: boolean;
+  role?: AdminRole;
   isActive?: boolean;
   failedLoginAttempts?: number;
   lockedUntil?: Date;
@@ -57,8 +61,72 @@ export interface AdminAuditLog {
   userAgent?: string;
   success: boolean;
   errorMessage?: string;
+  permission?: string;
   metadata?: any;
   createdAt: Date;
+  sequence: number;
+  prevHash?: string;  // entryHash of the previous chained entry
+  entryHash?: string; // absent on entries written before the chain existed
+}
+
+export interface AuditLogQuery {
+  username?: string;
+  action?: string;
+  success?: boolean;
+  ipAddress?: string;  // an address, or a CIDR range containing it
+  startDate?: Date;
+  endDate?: Date;
+  before?: number;     // sequence cursor: only entries older than this
+  limit?: number;
+}
+
+export interface AuditChainReport {
+  valid: boolean;
+  checked: number;     // chained entries whose hashes were recomputed
+  unchained: number;   // entries older than the chain, which it cannot vouch for
+  head: { sequence: number; hash: string } | null;
+  firstInvalid?: { sequence: number; id: string; reason: string };
+}
+
+// prev_hash of the first chained entry
+export const AUDIT_CHAIN_GENESIS = '0'.repeat(64);
+
+const AUDIT_VERIFY_BATCH = 1000;
+
+/**
+ * SHA-256 over an entry's content and its predecessor's hash, so editing,
+ * removing or reordering any entry breaks every hash after it. user_id is
+ * left out because deleting an admin nulls it; username is kept instead.
+ */
+export function computeAuditHash(entry: AdminAuditLog, prevHash: string): string {
+  const content = canonicalJson({
+    sequence: entry.sequence,
+    id: entry.id,
+    username: entry.username ?? null,
+    action: entry.action,
+    resource: entry.resource ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    success: entry.success,
+    errorMessage: entry.errorMessage ?? null,
+    permission: entry.permission ?? null,
+    metadata: entry.metadata ?? null,
+    createdAt: new Date(entry.createdAt).toISOString(),
+    prevHash
+  });
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// JSON with object keys sorted, since JSONB does not keep the order they were written in
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
 }
 
 export class AdminUserRepository {
@@ -89,9 +157,9 @@ export class AdminUserRepository {
 
     const query = `
       INSERT INTO admin_users (
-        username, email, password_hash, mfa_secret, mfa_enabled, mfa_backup_codes
+        username, email, password_hash, mfa_secret, mfa_enabled, mfa_backup_codes, role
       )
-      VALUES ($1, $2, $3, $4, $5, $6)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
       RETURNING *
     `;
 
@@ -101,7 +169,8 @@ export class AdminUserRepository {
       passwordHash,
       mfaSecret,
       data.mfaEnabled || false,
-      mfaBackupCodes
+      mfaBackupCodes,
+      data.role || 'viewer'
     ];
 
     const result = await this.pool.query(query, values);
@@ -152,6 +221,11 @@ export class AdminUserRepository {
       values.push(data.mfaEnabled);
     }
 
+    if (data.role !== undefined) {
+      updates.push(`role = $${paramCount++}`);
+      values.push(data.role);
+    }
+
     if (data.isActive !== undefined) {
       updates.push(`is_active = $${paramCount++}`);
       values.push(data.isActive);
@@ -261,6 +335,7 @@ export class AdminUserRepository {
       mfaSecret: row.mfa_secret,
       mfaEnabled: row.mfa_enabled,
       mfaBackupCodes: row.mfa_backup_codes,
+      role: row.role,
       isActive: row.is_active,
       lastLogin: row.last_login,
       failedLoginAttempts: row.failed_login_attempts,
@@ -354,14 +429,15 @@ export class AdminAuditRepository {
     userAgent?: string;
     success: boolean;
     errorMessage?: string;
+    permission?: string;
     metadata?: any;
   }): Promise<AdminAuditLog> {
     const query = `
       INSERT INTO admin_audit_log (
         user_id, username, action, resource, ip_address, user_agent,
-        success, error_message, metadata
+        success, error_message, permission, metadata, prev_hash
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       RETURNING *
     `;
 
@@ -374,11 +450,112 @@ export class AdminAuditRepository {
       data.userAgent,
       data.success,
       data.errorMessage,
+      data.permission,
       data.metadata ? JSON.stringify(data.metadata) : null
     ];
 
-    const result = await this.pool.query(query, values);
-    return this.mapRowToAuditLog(result.rows[0]);
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      // One writer at a time, so each entry links to the one before it
+      await client.query('LOCK TABLE admin_audit_log IN EXCLUSIVE MODE');
+
+      const previous = await client.query(
+        'SELECT entry_hash FROM admin_audit_log WHERE entry_hash IS NOT NULL ORDER BY seq DESC LIMIT 1'
+      );
+      const prevHash: string = previous.rows[0]?.entry_hash ?? AUDIT_CHAIN_GENESIS;
+
+      // Hash the row as stored, so verification sees the same values
+      const inserted = await client.query(query, [...values, prevHash]);
+      const entry = this.mapRowToAuditLog(inserted.rows[0]);
+      entry.entryHash = computeAuditHash(entry, prevHash);
+      await client.query('UPDATE admin_audit_log SET entry_hash = $1 WHERE id = $2', [entry.entryHash, entry.id]);
+
+      await client.query('COMMIT');
+      return entry;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Filtered entries, newest first. Pass the last entry's sequence as
+   * `before` to get the next page.
+   */
+  async queryAuditLogs(options: AuditLogQuery = {}): Promise<AdminAuditLog[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    const add = (condition: string, value: any) => {
+      values.push(value);
+      conditions.push(condition.replace('?', `$${values.length}`));
+    };
+
+    if (options.username) add('username = ?', options.username);
+    if (options.action) add('action = ?', options.action);
+    if (options.success !== undefined) add('success = ?', options.success);
+    if (options.ipAddress) add('ip_address <<= ?::inet', options.ipAddress);
+    if (options.startDate) add('created_at >= ?', options.startDate);
+    if (options.endDate) add('created_at <= ?', options.endDate);
+    if (options.before !== undefined) add('seq < ?', options.before);
+
+    values.push(options.limit ?? 100);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.pool.query(
+      `SELECT * FROM admin_audit_log ${where} ORDER BY seq DESC LIMIT $${values.length}`,
+      values
+    );
+    return result.rows.map(row => this.mapRowToAuditLog(row));
+  }
+
+  /**
+   * Walk the whole log oldest first, recomputing every hash. Stops at the
+   * first entry that does not match. Truncating the newest entries cannot
+   * be seen from the chain alone; compare `head` with one recorded earlier.
+   */
+  async verifyChain(): Promise<AuditChainReport> {
+    let expectedPrev = AUDIT_CHAIN_GENESIS;
+    let head: AuditChainReport['head'] = null;
+    let checked = 0;
+    let unchained = 0;
+    let after = 0;
+
+    for (;;) {
+      const result = await this.pool.query(
+        'SELECT * FROM admin_audit_log WHERE seq > $1 ORDER BY seq ASC LIMIT $2',
+        [after, AUDIT_VERIFY_BATCH]
+      );
+      if (result.rows.length === 0) break;
+
+      for (const row of result.rows) {
+        const entry = this.mapRowToAuditLog(row);
+        after = entry.sequence;
+        const fail = (reason: string): AuditChainReport => ({
+          valid: false, checked, unchained, head, firstInvalid: { sequence: entry.sequence, id: entry.id, reason }
+        });
+
+        if (!entry.entryHash) {
+          // Entries from before the chain may only precede it
+          if (head) return fail('Entry has no hash but follows chained entries');
+          unchained++;
+          continue;
+        }
+        if (entry.prevHash !== expectedPrev) {
+          return fail('Previous hash does not match; an entry before this one was removed or altered');
+        }
+        if (computeAuditHash(entry, expectedPrev) !== entry.entryHash) {
+          return fail('Entry content does not match its hash');
+        }
+
+        checked++;
+        expectedPrev = entry.entryHash;
+        head = { sequence: entry.sequence, hash: entry.entryHash };
+      }
+    }
+
+    return { valid: true, checked, unchained, head };
   }
 
   async getAuditLogs(options: {
@@ -440,8 +617,12 @@ export class AdminAuditRepository {
       userAgent: row.user_agent,
       success: row.success,
       errorMessage: row.error_message,
+      permission: row.permission,
       metadata: row.metadata ? (typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata) : null,
-      createdAt: row.created_at
+      createdAt: row.created_at,
+      sequence: Number(row.seq),
+      prevHash: row.prev_hash ?? undefined,
+      entryHash: row.entry_hash ?? undefined
     };
   }
 }
@@ -12,12 +12,14 @@ export interface CreateFileData {
   expiresAt: Date;
   maxDownloads?: number;
   encryptedMetadata?: string; // Base64 encoded encrypted metadata
+  ownerTokenHash?: string; // SHA-256 hex of the uploader's owner token
 }
 
 export interface UpdateFileData {
   downloadCount?: number;
   isActive?: boolean;
   maxDownloads?: number;
+  expiresAt?: Date;
 }
 
 export interface DownloadLogData {
@@ -26,8 +28,43 @@ export interface DownloadLogData {
   userAgent?: string;
   success: boolean;
   errorMessage?: string;
+  resumeTokenHash?: string; // SHA-256 hex of the token that lets this download resume
 }
 
+export interface DownloadLog {
+  id: string;
+  fileId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  success: boolean;
+  errorMessage?: string;
+  downloadedAt: Date;
+}
+
+export type FileStatusFilter = 'active' | 'expired' | 'inactive' | 'all';
+export type FileSortField = 'created' | 'expires' | 'size' | 'downloads';
+
+export interface FileSearchOptions {
+  status?: FileStatusFilter;          // default 'all'; 'expired' is still active but past expiry
+  expiringWithinHours?: number;
+  minSize?: number;
+  maxSize?: number;
+  provider?: string;
+  minDownloads?: number;
+  maxDownloads?: number;
+  sort?: FileSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+const SORT_COLUMNS: Record<FileSortField, string> = {
+  created: 'created_at',
+  expires: 'expires_at',
+  size: 'original_size',
+  downloads: 'download_count'
+};
+
 export class FileRepository {
   private pool: Pool;
 
@@ -39,9 +76,10 @@ export class FileRepository {
     const query = `
       INSERT INTO files (
         filename, original_size, encrypted_size, content_type,
-        storage_path, storage_provider, expires_at, max_downloads, encrypted_metadata
+        storage_path, storage_provider, expires_at, max_downloads, encrypted_metadata,
+        owner_token_hash
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING *
     `;
 
@@ -54,7 +92,8 @@ export class FileRepository {
       data.storageProvider,
       data.expiresAt,
       data.maxDownloads,
-      data.encryptedMetadata
+      data.encryptedMetadata,
+      data.ownerTokenHash
     ];
 
     const result = await this.pool.query(query, values);
@@ -117,6 +156,12 @@ export class FileRepository {
       paramIndex++;
     }
 
+    if (data.expiresAt !== undefined) {
+      setParts.push(`expires_at = $${paramIndex}`);
+      values.push(data.expiresAt);
+      paramIndex++;
+    }
+
     if (setParts.length === 0) {
       return this.findById(id);
     }
@@ -139,36 +184,132 @@ export class FileRepository {
     return this.mapRowToFileMetadata(result.rows[0]);
   }
 
-  async incrementDownloadCount(id: string): Promise<FileMetadata | null> {
+  /**
+   * Atomically claim one download slot. The limit is re-checked under the row
+   * lock, so concurrent requests can't both take the last slot, and taking the
+   * last slot deactivates the file in the same statement. Returns null when
+   * the file is gone, expired or out of downloads.
+   */
+  async reserveDownloadSlot(id: string): Promise<FileMetadata | null> {
     const query = `
-      UPDATE files 
-      SET download_count = download_count + 1
-      WHERE id = $1
+      UPDATE files
+      SET download_count = download_count + 1,
+          is_active = (max_downloads IS NULL OR download_count + 1 < max_downloads)
+      WHERE id = $1 AND is_active = TRUE AND expires_at > CURRENT_TIMESTAMP
+      AND (max_downloads IS NULL OR download_count < max_downloads)
       RETURNING *
     `;
 
     const result = await this.pool.query(query, [id]);
-    
+
     if (result.rows.length === 0) {
       return null;
     }
-    
+
     return this.mapRowToFileMetadata(result.rows[0]);
   }
 
-  async logDownload(data: DownloadLogData): Promise<void> {
+  /**
+   * Give back a slot taken by reserveDownloadSlot when the download failed.
+   * Reactivates the file only if that slot was the one that exhausted it;
+   * a file revoked or expired meanwhile has expires_at in the past and
+   * stays off.
+   */
+  async releaseDownloadSlot(id: string): Promise<FileMetadata | null> {
     const query = `
-      INSERT INTO download_logs (file_id, ip_address, user_agent, success, error_message)
-      VALUES ($1, $2, $3, $4, $5)
+      UPDATE files
+      SET download_count = download_count - 1,
+          is_active = is_active OR (
+            max_downloads IS NOT NULL AND download_count = max_downloads
+            AND expires_at > CURRENT_TIMESTAMP
+          )
+      WHERE id = $1 AND download_count > 0
+      RETURNING *
     `;
 
-    await this.pool.query(query, [
+    const result = await this.pool.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToFileMetadata(result.rows[0]);
+  }
+
+  /**
+   * Record a download attempt; returns the log row's id
+   */
+  async logDownload(data: DownloadLogData): Promise<string> {
+    const query = `
+      INSERT INTO download_logs (file_id, ip_address, user_agent, success, error_message, resume_token_hash)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `;
+
+    const result = await this.pool.query(query, [
       data.fileId,
       data.ipAddress,
       data.userAgent,
       data.success,
-      data.errorMessage
+      data.errorMessage,
+      data.resumeTokenHash
     ]);
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * Spend a download's resume token on a request starting at byte `start`,
+   * swapping in the hash of its successor. Succeeds once per token, only
+   * after the previous response has recorded where it stopped, and only if
+   * `start` is no more than `slackBytes` before that point, so a resume can't
+   * fetch the file again. The file must still be unexpired, and either
+   * active or deactivated by using up its downloads. Returns the log row's
+   * id, or null if the token can't be used.
+   */
+  async claimResume(
+    fileId: string,
+    tokenHash: string,
+    nextTokenHash: string,
+    start: number,
+    slackBytes: number,
+    windowMinutes: number
+  ): Promise<string | null> {
+    const query = `
+      UPDATE download_logs dl
+      SET resume_token_hash = $3, resume_offset = NULL
+      FROM files f
+      WHERE f.id = dl.file_id AND dl.file_id = $1 AND dl.resume_token_hash = $2
+      AND dl.success = TRUE AND dl.resume_offset IS NOT NULL
+      AND $4::bigint + $5::bigint >= dl.resume_offset
+      AND dl.downloaded_at > NOW() - make_interval(mins => $6)
+      AND f.expires_at > CURRENT_TIMESTAMP
+      AND (f.is_active = TRUE OR (f.max_downloads IS NOT NULL AND f.download_count >= f.max_downloads))
+      RETURNING dl.id
+    `;
+
+    const result = await this.pool.query(query, [fileId, tokenHash, nextTokenHash, start, slackBytes, windowMinutes]);
+    return result.rows.length > 0 ? result.rows[0].id : null;
+  }
+
+  /**
+   * Record how far into the file a download's latest response got
+   */
+  async setResumeOffset(downloadId: string, offset: number): Promise<void> {
+    await this.pool.query(
+      'UPDATE download_logs SET resume_offset = $2 WHERE id = $1 AND resume_token_hash IS NOT NULL',
+      [downloadId, offset]
+    );
+  }
+
+  /**
+   * Stop a download from being resumed
+   */
+  async revokeResume(downloadId: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE download_logs SET resume_token_hash = NULL, resume_offset = NULL WHERE id = $1',
+      [downloadId]
+    );
   }
 
   async cleanupExpiredFiles(): Promise<number> {
@@ -215,14 +356,112 @@ export class FileRepository {
   async findExpiringSoon(hours: number = 1): Promise<FileMetadata[]> {
     const query = `
       SELECT * FROM active_files 
-      WHERE expires_at BETWEEN NOW() AND NOW() + INTERVAL '${hours} hours'
+      WHERE expires_at BETWEEN NOW() AND NOW() + make_interval(hours => $1)
       AND is_expired = FALSE
     `;
     
-    const result = await this.pool.query(query);
+    const result = await this.pool.query(query, [hours]);
     return result.rows.map((row: any) => this.mapRowToFileMetadata(row));
   }
 
+  /**
+   * Filtered, paginated file listing for the admin panel, with the total
+   * number of matches for paging
+   */
+  async search(options: FileSearchOptions = {}): Promise<{ files: FileMetadata[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    switch (options.status) {
+      case 'active':
+        conditions.push('is_active = TRUE AND expires_at > CURRENT_TIMESTAMP');
+        break;
+      case 'expired':
+        conditions.push('is_active = TRUE AND expires_at <= CURRENT_TIMESTAMP');
+        break;
+      case 'inactive':
+        conditions.push('is_active = FALSE');
+        break;
+    }
+
+    if (options.expiringWithinHours !== undefined) {
+      conditions.push(`is_active = TRUE AND expires_at BETWEEN NOW() AND NOW() + make_interval(hours => $${paramCount++})`);
+      values.push(options.expiringWithinHours);
+    }
+
+    if (options.minSize !== undefined) {
+      conditions.push(`original_size >= $${paramCount++}`);
+      values.push(options.minSize);
+    }
+
+    if (options.maxSize !== undefined) {
+      conditions.push(`original_size <= $${paramCount++}`);
+      values.push(options.maxSize);
+    }
+
+    if (options.provider) {
+      conditions.push(`storage_provider = $${paramCount++}`);
+      values.push(options.provider);
+    }
+
+    if (options.minDownloads !== undefined) {
+      conditions.push(`download_count >= $${paramCount++}`);
+      values.push(options.minDownloads);
+    }
+
+    if (options.maxDownloads !== undefined) {
+      conditions.push(`download_count <= $${paramCount++}`);
+      values.push(options.maxDownloads);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const sort = SORT_COLUMNS[options.sort || 'created'];
+    const order = options.order === 'asc' ? 'ASC' : 'DESC';
+
+    const countResult = await this.pool.query(`SELECT COUNT(*) AS total FROM files ${where}`, values);
+
+    const query = `
+      SELECT * FROM files ${where}
+      ORDER BY ${sort} ${order}, id
+      LIMIT $${paramCount++} OFFSET $${paramCount++}
+    `;
+    const result = await this.pool.query(query, [...values, options.limit ?? 50, options.offset ?? 0]);
+
+    return {
+      files: result.rows.map((row: any) => this.mapRowToFileMetadata(row)),
+      total: parseInt(countResult.rows[0].total)
+    };
+  }
+
+  async findDownloadLogs(fileId: string, limit: number = 100): Promise<DownloadLog[]> {
+    const query = `
+      SELECT * FROM download_logs
+      WHERE file_id = $1
+      ORDER BY downloaded_at DESC
+      LIMIT $2
+    `;
+
+    const result = await this.pool.query(query, [fileId, limit]);
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      fileId: row.file_id,
+      ipAddress: row.ip_address ?? undefined,
+      userAgent: row.user_agent ?? undefined,
+      success: row.success,
+      errorMessage: row.error_message ?? undefined,
+      downloadedAt: row.downloaded_at
+    }));
+  }
+
+  /**
+   * Remove a file's row outright; its download logs go with it
+   */
+  async hardDelete(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM files WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
   private mapRowToFileMetadata(row: any): FileMetadata {
     return {
       id: row.id,
@@ -240,7 +479,8 @@ export class FileRepository {
       isActive: row.is_active,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
-      encryptedMetadata: row.encrypted_metadata
+      encryptedMetadata: row.encrypted_metadata,
+      ownerTokenHash: row.owner_token_hash
     };
   }
 }
\ No newline at end of file
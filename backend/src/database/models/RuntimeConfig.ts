@@ -0,0 +1,129 @@
+import { Pool } from 'pg';
+import { DatabaseConnection } from '../connection';
+
+/**
+ * Admin-editable settings. Stored whole in every version, so any version
+ * can be restored on its own.
+ */
+export interface RuntimeSettings {
+  retention: {
+    defaultRetentionHours: number;
+    maxRetentionHours: number;
+    maxFileSize: number;
+    allowedExtensions: string[] | null; // null allows every extension
+  };
+  rateLimiting: {
+    windowMs: number;
+    maxRequests: number;
+  };
+}
+
+export interface RuntimeConfigVersion {
+  version: number;
+  settings: RuntimeSettings;
+  changedBy?: string;
+  changedByUsername?: string;
+  comment?: string;
+  rolledBackFrom?: number; // the version restored, for a rollback
+  createdAt: Date;
+}
+
+export interface CreateRuntimeConfigData {
+  settings: RuntimeSettings;
+  changedBy?: string;
+  changedByUsername?: string;
+  comment?: string;
+  rolledBackFrom?: number;
+}
+
+// NOTIFY channel announcing a new version to every instance
+export const RUNTIME_CONFIG_CHANNEL = 'runtime_config_changed';
+
+export class RuntimeConfigRepository {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = DatabaseConnection.getPool();
+  }
+
+  async findLatest(): Promise<RuntimeConfigVersion | null> {
+    const result = await this.pool.query('SELECT * FROM runtime_config ORDER BY version DESC LIMIT 1');
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToVersion(result.rows[0]);
+  }
+
+  async findByVersion(version: number): Promise<RuntimeConfigVersion | null> {
+    const result = await this.pool.query('SELECT * FROM runtime_config WHERE version = $1', [version]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToVersion(result.rows[0]);
+  }
+
+  async listVersions(limit: number = 50): Promise<RuntimeConfigVersion[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM runtime_config ORDER BY version DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows.map(row => this.mapRowToVersion(row));
+  }
+
+  /**
+   * Insert a new version and announce it, in one transaction so listeners
+   * never hear of a version they cannot read yet. With `expectedVersion`,
+   * returns null instead if another change landed first.
+   */
+  async createVersion(data: CreateRuntimeConfigData, expectedVersion?: number): Promise<RuntimeConfigVersion | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      // Serialise writers so versions and the expected-version check agree
+      await client.query('LOCK TABLE runtime_config IN EXCLUSIVE MODE');
+
+      if (expectedVersion !== undefined) {
+        const current = await client.query('SELECT MAX(version) AS version FROM runtime_config');
+        if ((current.rows[0].version ?? 0) !== expectedVersion) {
+          await client.query('ROLLBACK');
+          return null;
+        }
+      }
+
+      const result = await client.query(
+        `
+        INSERT INTO runtime_config (settings, changed_by, changed_by_username, comment, rolled_back_from)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+        `,
+        [JSON.stringify(data.settings), data.changedBy, data.changedByUsername, data.comment, data.rolledBackFrom]
+      );
+      const created = this.mapRowToVersion(result.rows[0]);
+
+      await client.query('SELECT pg_notify($1, $2)', [RUNTIME_CONFIG_CHANNEL, String(created.version)]);
+      await client.query('COMMIT');
+      return created;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToVersion(row: any): RuntimeConfigVersion {
+    return {
+      version: row.version,
+      settings: typeof row.settings === 'string' ? JSON.parse(row.settings) : row.settings,
+      changedBy: row.changed_by ?? undefined,
+      changedByUsername: row.changed_by_username ?? undefined,
+      comment: row.comment ?? undefined,
+      rolledBackFrom: row.rolled_back_from ?? undefined,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { createHash, Hash, timingSafeEqual } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+/**
+ * Envelope carried inside the encrypted stream, as written by ClientCrypto:
+ *
+ *     [ 4-byte BE length N ] [ N bytes of UTF-8 JSON metadata ] [ file bytes ]
+ *
+ * The filename and MIME type only become visible after decryption; the
+ * server stores them nowhere in the clear.
+ */
+
+// Same cap as the browser client: room for a large folder manifest
+export const MAX_METADATA_LENGTH = 0x1000000;
+
+export interface ManifestEntry {
+  path: string;
+  size: number;
+  type: string;
+}
+
+export interface EnvelopeMetadata {
+  filename: string;
+  contentType: string;
+  manifest?: ManifestEntry[]; // present when the body is a folder archive
+  message?: boolean; // a typed text secret, which the browser shows inline
+}
+
+/**
+ * Length-prefixed metadata block that starts the plaintext stream
+ */
+export function encodeEnvelopeHeader(metadata: EnvelopeMetadata): Buffer {
+  const json = Buffer.from(JSON.stringify(metadata), 'utf8');
+  if (json.length > MAX_METADATA_LENGTH) {
+    throw new Error('Envelope metadata too large');
+  }
+  const prefix = Buffer.alloc(4);
+  prefix.writeUInt32BE(json.length, 0);
+  return Buffer.concat([prefix, json]);
+}
+
+export interface EnvelopeDecodeOptions {
+  /** SHA-256 the whole envelope (header and body) must hash to, from a signed link */
+  contentDigest?: Buffer | null;
+}
+
+/**
+ * Splits a decrypted envelope stream: emits 'metadata' once the header has
+ * been read, then passes the file bytes through unchanged. With a
+ * `contentDigest`, the stream fails at the end unless the envelope matches.
+ */
+export class EnvelopeDecodeStream extends Transform {
+  private header: Buffer = Buffer.alloc(0);
+  private metadataLength = -1;
+  private metadata: EnvelopeMetadata | null = null;
+  private readonly contentDigest: Buffer | null;
+  private readonly hash: Hash | null;
+
+  constructor(options: EnvelopeDecodeOptions = {}) {
+    super();
+    this.contentDigest = options.contentDigest ?? null;
+    this.hash = this.contentDigest ? createHash('sha256') : null;
+  }
+
+  get envelopeMetadata(): EnvelopeMetadata | null {
+    return this.metadata;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.hash?.update(chunk);
+    if (this.metadata) {
+      callback(null, chunk);
+      return;
+    }
+
+    try {
+      this.header = Buffer.concat([this.header, chunk]);
+      if (this.metadataLength < 0 && this.header.length >= 4) {
+        this.metadataLength = this.header.readUInt32BE(0);
+        if (this.metadataLength > MAX_METADATA_LENGTH) {
+          throw new Error(`Envelope metadata length implausibly large: ${this.metadataLength}`);
+        }
+      }
+      if (this.metadataLength < 0 || this.header.length < 4 + this.metadataLength) {
+        callback();
+        return;
+      }
+
+      const json = this.header.subarray(4, 4 + this.metadataLength).toString('utf8');
+      let parsed: EnvelopeMetadata;
+      try {
+        parsed = JSON.parse(json);
+      } catch (error) {
+        throw new Error(`Envelope metadata is not valid JSON: ${(error as Error).message}`);
+      }
+      if (typeof parsed?.filename !== 'string' || typeof parsed.contentType !== 'string') {
+        throw new Error('Envelope metadata is missing filename or content type');
+      }
+
+      this.metadata = parsed;
+      this.emit('metadata', parsed);
+      const rest = this.header.subarray(4 + this.metadataLength);
+      this.header = Buffer.alloc(0);
+      callback(null, rest.length > 0 ? rest : undefined);
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (!this.metadata) {
+      callback(new Error('Stream ended before the envelope metadata was complete'));
+      return;
+    }
+    if (this.hash && this.contentDigest) {
+      const actual = this.hash.digest();
+      if (actual.length !== this.contentDigest.length || !timingSafeEqual(actual, this.contentDigest)) {
+        callback(new Error('Content digest mismatch'));
+        return;
+      }
+    }
+    callback();
+  }
+}
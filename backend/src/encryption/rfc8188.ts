@@ -1,4 +1,5 @@
-import { createHash, createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { createHash, createHmac, createCipheriv, createDecipheriv, randomBytes, timingSafeEqual } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
 import { ECEHeader, DEFAULT_RECORD_SIZE, SALT_LENGTH, KEY_LENGTH, KEYID_LENGTH, TAG_LENGTH } from '../types';
 
 /**
@@ -6,10 +7,27 @@ import { ECEHeader, DEFAULT_RECORD_SIZE, SALT_LENGTH, KEY_LENGTH, KEYID_LENGTH,
  * Implementation of AES128GCM encryption for streaming content
  */
 
+/** Size-hiding padding policy; see ClientCrypto in the frontend */
+export type PaddingPolicy = 'none' | 'pow2' | 'padme';
+
+/** Record size used by the browser client, and the default for the streams below */
+export const STREAM_RECORD_SIZE = 65536;
+
+/** Largest record size a decrypt stream accepts unless told otherwise */
+export const MAX_STREAM_RECORD_SIZE = 1024 * 1024;
+
+/** Length of the key commitment carried in the key-id field of committed streams */
+export const KEY_COMMITMENT_LENGTH = 32;
+
+const MIN_RECORD_SIZE = TAG_LENGTH + 2; // RFC 8188 §2: a record must hold a delimiter and one octet
+const HEADER_LENGTH = SALT_LENGTH + 5;
+
 export class RFC8188Crypto {
   private static readonly ALGORITHM = 'aes-128-gcm';
   private static readonly INFO_CONTENT_ENCODING = Buffer.from('Content-Encoding: aes128gcm\0');
-  private static readonly INFO_NONCE = Buffer.from('nonce\0');
+  private static readonly INFO_NONCE = Buffer.from('Content-Encoding: nonce\0');
+  private static readonly INFO_COMMITMENT = Buffer.from('whirlcrypt: key commitment\0');
+  private static readonly COMMITMENT_LABEL = Buffer.from('whirlcrypt:commit1');
 
   /**
    * Generate encryption key and salt
@@ -83,11 +101,14 @@ export class RFC8188Crypto {
   }
 
   /**
-   * Encrypt data using RFC 8188 format
+   * Encrypt data using RFC 8188 format. Full records end in a 0x01
+   * delimiter; the last record (present even for empty data) ends in 0x02.
    */
   static encrypt(data: Buffer, key: Buffer, salt: Buffer, recordSize: number = DEFAULT_RECORD_SIZE): Buffer {
-    const contentKey = this.deriveKey(salt, key);
-    const nonceBase = this.deriveNonce(salt, key);
+    if (!Number.isInteger(recordSize) || recordSize < MIN_RECORD_SIZE || recordSize > 0xffffffff) {
+      throw new Error(`Invalid record size: ${recordSize}`);
+    }
+    const { contentKey, nonceBase } = this.deriveStreamKeys(salt, key);
     
     // Create header
     const recordSizeBuffer = Buffer.alloc(4);
@@ -100,30 +121,16 @@ export class RFC8188Crypto {
     ]);
 
     const chunks: Buffer[] = [header];
+    const dataBudget = recordSize - TAG_LENGTH - 1;
     let seq = 0;
     let offset = 0;
 
-    while (offset < data.length) {
-      const isLast = offset + recordSize >= data.length;
-      const chunkSize = isLast ? data.length - offset : recordSize;
-      const chunk = data.subarray(offset, offset + chunkSize);
-
-      const nonce = this.createNonce(nonceBase, seq);
-      const cipher = createCipheriv(this.ALGORITHM, contentKey, nonce);
-
-      // Add padding byte for last record (RFC 8188 requires padding delimiter)
-      const plaintext = isLast ? Buffer.concat([chunk, Buffer.from([2])]) : chunk;
-      
-      const encrypted = cipher.update(plaintext);
-      cipher.final();
-      const tag = cipher.getAuthTag();
-
-      // Combine encrypted data and authentication tag (like Web Crypto API does)
-      chunks.push(Buffer.concat([encrypted, tag]));
-      
-      offset += chunkSize;
-      seq++;
+    while (data.length - offset >= dataBudget) {
+      const plaintext = Buffer.concat([data.subarray(offset, offset + dataBudget), Buffer.from([1])]);
+      chunks.push(this.sealRecord(contentKey, nonceBase, seq++, plaintext));
+      offset += dataBudget;
     }
+    chunks.push(this.sealRecord(contentKey, nonceBase, seq, Buffer.concat([data.subarray(offset), Buffer.from([2])])));
 
     return Buffer.concat(chunks);
   }
@@ -132,66 +139,112 @@ export class RFC8188Crypto {
    * Decrypt data using RFC 8188 format
    */
   static decrypt(encryptedData: Buffer, key: Buffer): Buffer {
-    // Parse header
-    if (encryptedData.length < SALT_LENGTH + 5) {
-      throw new Error('Invalid encrypted data: header too short');
+    const { salt, recordSize, keyId } = this.parseHeader(encryptedData);
+    if (recordSize < MIN_RECORD_SIZE) {
+      throw new Error(`Invalid record size in header: ${recordSize}`);
     }
-
-    const salt = encryptedData.subarray(0, SALT_LENGTH);
-    const keyIdLength = encryptedData.readUInt8(SALT_LENGTH + 4);
-    const recordSize = encryptedData.readUInt32BE(SALT_LENGTH);
-    const headerLength = SALT_LENGTH + 5 + keyIdLength;
     
-    const contentKey = this.deriveKey(salt, key);
-    const nonceBase = this.deriveNonce(salt, key);
+    const { contentKey, nonceBase } = this.deriveStreamKeys(Buffer.from(salt), key);
     
     const chunks: Buffer[] = [];
     let seq = 0;
-    let offset = headerLength;
+    let offset = HEADER_LENGTH + keyId.length;
 
     while (offset < encryptedData.length) {
-      const remainingData = encryptedData.length - offset;
-      const isLastChunk = remainingData <= recordSize + TAG_LENGTH + 1; // +1 for potential padding
-
-      // Last chunk might have padding, so it can be up to recordSize + 1 + TAG_LENGTH
-      const maxChunkSize = isLastChunk ? recordSize + TAG_LENGTH + 1 : recordSize + TAG_LENGTH;
-      const expectedChunkSize = Math.min(maxChunkSize, remainingData);
-
-      if (expectedChunkSize <= TAG_LENGTH) {
-        throw new Error('Invalid encrypted data: chunk too small');
+      const record = encryptedData.subarray(offset, offset + recordSize);
+      const { data, isLast } = this.openRecord(contentKey, nonceBase, seq, record);
+      if (!isLast && record.length !== recordSize) {
+        throw new Error(`Record ${seq} is truncated`);
       }
+      chunks.push(data);
+      offset += record.length;
+      seq++;
 
-      const encryptedChunk = encryptedData.subarray(offset, offset + expectedChunkSize - TAG_LENGTH);
-      const tag = encryptedData.subarray(offset + expectedChunkSize - TAG_LENGTH, offset + expectedChunkSize);
-      
-      const nonce = this.createNonce(nonceBase, seq);
-      const decipher = createDecipheriv(this.ALGORITHM, contentKey, nonce);
-      decipher.setAuthTag(tag);
-      
-      const decrypted = Buffer.concat([
-        decipher.update(encryptedChunk),
-        decipher.final()
-      ]);
-      
-      // Remove padding from last record
-      const isLast = offset + expectedChunkSize >= encryptedData.length;
-      if (isLast && decrypted.length > 0) {
-        // Remove last byte if it's padding (value 2)
-        const lastByte = decrypted[decrypted.length - 1];
-        if (lastByte === 2) {
-          chunks.push(decrypted.subarray(0, -1));
-        } else {
-          chunks.push(decrypted);
+      if (isLast) {
+        if (offset < encryptedData.length) {
+          throw new Error('Data after terminal record');
         }
-      } else {
-        chunks.push(decrypted);
+        return Buffer.concat(chunks);
       }
-      
-      offset += expectedChunkSize;
-      seq++;
     }
 
-    return Buffer.concat(chunks);
+    throw new Error('Encrypted data ended without a terminal record');
+  }
+
+  /**
+   * Encrypt one record; `plaintext` already holds data, delimiter and padding
+   */
+  static sealRecord(contentKey: Buffer, nonceBase: Buffer, seq: number, plaintext: Buffer): Buffer {
+    const cipher = createCipheriv(this.ALGORITHM, contentKey, this.createNonce(nonceBase, seq));
+    const encrypted = cipher.update(plaintext);
+    cipher.final();
+    return Buffer.concat([encrypted, cipher.getAuthTag()]);
+  }
+
+  /**
+   * Decrypt one record and strip its padding and delimiter. `isLast` is set
+   * for a 0x02 (terminal) delimiter.
+   */
+  static openRecord(contentKey: Buffer, nonceBase: Buffer, seq: number, record: Buffer): { data: Buffer; isLast: boolean } {
+    if (record.length <= TAG_LENGTH) {
+      throw new Error(`Record ${seq} is too short`);
+    }
+
+    const decipher = createDecipheriv(this.ALGORITHM, contentKey, this.createNonce(nonceBase, seq));
+    decipher.setAuthTag(record.subarray(record.length - TAG_LENGTH));
+    let decrypted: Buffer;
+    try {
+      decrypted = Buffer.concat([decipher.update(record.subarray(0, record.length - TAG_LENGTH)), decipher.final()]);
+    } catch {
+      throw new Error(`Record ${seq} failed authentication`);
+    }
+
+    // Strip trailing zero padding, then expect a delimiter
+    let end = decrypted.length;
+    while (end > 0 && decrypted[end - 1] === 0) end--;
+    if (end === 0) {
+      throw new Error(`Record ${seq} has no delimiter`);
+    }
+    const delimiter = decrypted[end - 1];
+    if (delimiter !== 1 && delimiter !== 2) {
+      throw new Error(`Record ${seq} has invalid delimiter 0x${delimiter.toString(16)}`);
+    }
+
+    return { data: decrypted.subarray(0, end - 1), isLast: delimiter === 2 };
+  }
+
+  /**
+   * Length a plaintext of `length` bytes is padded to under `policy`
+   * (same buckets as ClientCrypto.paddedLength)
+   */
+  static paddedLength(length: number, policy: PaddingPolicy): number {
+    if (policy === 'none' || length < 2) return length;
+    if (policy === 'pow2') return 2 ** Math.ceil(Math.log2(length));
+    // Padmé: keep only the top floor(log2(E)) + 1 bits of the exponent E
+    const e = Math.floor(Math.log2(length));
+    const s = Math.floor(Math.log2(e)) + 1;
+    const step = 2 ** (e - s);
+    return Math.ceil(length / step) * step;
+  }
+
+  /**
+   * Derive the content encryption key and nonce base for a stream
+   */
+  static deriveStreamKeys(salt: Buffer, key: Buffer): { contentKey: Buffer; nonceBase: Buffer } {
+    return {
+      contentKey: this.deriveKey(salt, key),
+      nonceBase: this.deriveNonce(salt, key)
+    };
+  }
+
+  /**
+   * Key commitment for committed streams (v3 links). AES-GCM is not
+   * key-committing; this binds the ciphertext to a single key. Same
+   * derivation as ClientCrypto.keyCommitment.
+   */
+  static keyCommitment(salt: Buffer, key: Buffer): Buffer {
+    const commitmentKey = this.hkdf(salt, key, this.INFO_COMMITMENT, KEY_COMMITMENT_LENGTH);
+    return createHmac('sha256', commitmentKey).update(this.COMMITMENT_LABEL).digest();
   }
 
   /**
@@ -209,4 +262,275 @@ export class RFC8188Crypto {
 
     return { salt, recordSize, keyId };
   }
-}
\ No newline at end of file
+}
+
+export interface EncryptStreamOptions {
+  recordSize?: number;
+  padding?: PaddingPolicy;
+  /** Put the key commitment in the header's key-id field (for v3 links) */
+  committed?: boolean;
+}
+
+/**
+ * Streaming RFC 8188 encryption. Write plaintext in, read the header and
+ * encrypted records out. Memory use is one record regardless of input size,
+ * and the output is byte-for-byte what ClientCrypto.encryptStream produces
+ * for the same key, salt, record size and padding.
+ */
+export class RFC8188EncryptStream extends Transform {
+  private readonly contentKey: Buffer;
+  private readonly nonceBase: Buffer;
+  private readonly recordSize: number;
+  private readonly dataBudget: number;
+  private readonly padding: PaddingPolicy;
+  private readonly plain: Buffer;
+  private readonly header: Buffer;
+  private dataInPlain = 0;
+  private padInPlain = 0;
+  private seq = 0;
+  private totalBytes = 0;
+  private headerSent = false;
+
+  constructor(key: Buffer, salt: Buffer, options: EncryptStreamOptions = {}) {
+    super();
+    const recordSize = options.recordSize ?? STREAM_RECORD_SIZE;
+    if (!Number.isInteger(recordSize) || recordSize < MIN_RECORD_SIZE || recordSize > 0xffffffff) {
+      throw new Error(`Invalid record size: ${recordSize}`);
+    }
+    if (salt.length !== SALT_LENGTH) {
+      throw new Error('Invalid salt length');
+    }
+
+    const { contentKey, nonceBase } = RFC8188Crypto.deriveStreamKeys(salt, key);
+    this.contentKey = contentKey;
+    this.nonceBase = nonceBase;
+    this.recordSize = recordSize;
+    // Ciphertext of a full record is exactly rs: data || delimiter, plus the tag
+    this.dataBudget = recordSize - TAG_LENGTH - 1;
+    this.padding = options.padding ?? 'none';
+    this.plain = Buffer.alloc(recordSize - TAG_LENGTH);
+
+    const keyId = options.committed ? RFC8188Crypto.keyCommitment(salt, key) : Buffer.alloc(0);
+    const header = Buffer.alloc(HEADER_LENGTH + keyId.length);
+    salt.copy(header, 0);
+    header.writeUInt32BE(recordSize, SALT_LENGTH);
+    header.writeUInt8(keyId.length, SALT_LENGTH + 4);
+    keyId.copy(header, HEADER_LENGTH);
+    this.header = header;
+  }
+
+  /**
+   * Exact output length for `plaintextLength` bytes without padding: full
+   * records, then a terminal record holding the remainder (possibly none)
+   */
+  static encryptedLength(plaintextLength: number, recordSize: number = STREAM_RECORD_SIZE, committed = false): number {
+    const dataBudget = recordSize - TAG_LENGTH - 1;
+    const fullRecords = Math.floor(plaintextLength / dataBudget);
+    const headerLength = HEADER_LENGTH + (committed ? KEY_COMMITMENT_LENGTH : 0);
+    return headerLength + fullRecords * recordSize + (plaintextLength % dataBudget) + 1 + TAG_LENGTH;
+  }
+
+  /** Number of plaintext bytes consumed so far */
+  get bytesIn(): number {
+    return this.totalBytes;
+  }
+
+  private sendHeader(): void {
+    if (!this.headerSent) {
+      this.push(this.header);
+      this.headerSent = true;
+    }
+  }
+
+  private sealRecord(isLast: boolean): void {
+    const end = this.dataInPlain + 1 + this.padInPlain;
+    this.plain[this.dataInPlain] = isLast ? 2 : 1;
+    this.plain.fill(0, this.dataInPlain + 1, end);
+
+    this.push(RFC8188Crypto.sealRecord(this.contentKey, this.nonceBase, this.seq, this.plain.subarray(0, end)));
+
+    this.seq++;
+    this.dataInPlain = 0;
+    this.padInPlain = 0;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.sendHeader();
+      let offset = 0;
+      while (offset < chunk.length) {
+        const take = Math.min(this.dataBudget - this.dataInPlain, chunk.length - offset);
+        chunk.copy(this.plain, this.dataInPlain, offset, offset + take);
+        this.dataInPlain += take;
+        this.totalBytes += take;
+        offset += take;
+        if (this.dataInPlain === this.dataBudget) {
+          this.sealRecord(false);
+        }
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.sendHeader();
+
+      // Padding fills the current record, then whole records, like data would
+      let remainingPad = RFC8188Crypto.paddedLength(this.totalBytes, this.padding) - this.totalBytes;
+      while (remainingPad > 0) {
+        const take = Math.min(this.dataBudget - this.dataInPlain - this.padInPlain, remainingPad);
+        this.padInPlain += take;
+        remainingPad -= take;
+        if (this.dataInPlain + this.padInPlain === this.dataBudget) {
+          this.sealRecord(false);
+        }
+      }
+
+      // The terminal record is always present, even for empty input
+      this.sealRecord(true);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+}
+
+export interface DecryptStreamOptions {
+  /** When given, the header salt must match (e.g. the salt from a share link) */
+  salt?: Buffer;
+  /** Upper bound on the header's record size; bounds memory use */
+  maxRecordSize?: number;
+  /** Require the header to carry this key's commitment (v3 links) */
+  committed?: boolean;
+}
+
+/**
+ * Streaming RFC 8188 decryption. Write the encrypted stream in (header
+ * first), read plaintext out with delimiters and padding removed. Holds at
+ * most one record in memory. Fails on:
+ *
+ *   - a record size below 18 or above `maxRecordSize`
+ *   - a salt that differs from `options.salt`
+ *   - a missing or wrong key commitment, when `options.committed` is set
+ *   - an authentication failure or a record without a valid delimiter
+ *   - a short record that is not the terminal record
+ *   - data after the terminal record, or input ending without one
+ */
+export class RFC8188DecryptStream extends Transform {
+  private readonly key: Buffer;
+  private readonly expectedSalt?: Buffer;
+  private readonly maxRecordSize: number;
+  private readonly committed: boolean;
+  private contentKey: Buffer | null = null;
+  private nonceBase: Buffer | null = null;
+  private recordSize = 0;
+  private pending: Buffer = Buffer.alloc(0);
+  private seq = 0;
+  private totalBytes = 0;
+  private sawTerminal = false;
+
+  constructor(key: Buffer, options: DecryptStreamOptions = {}) {
+    super();
+    this.key = key;
+    this.expectedSalt = options.salt;
+    this.maxRecordSize = options.maxRecordSize ?? MAX_STREAM_RECORD_SIZE;
+    this.committed = options.committed ?? false;
+  }
+
+  /** Number of plaintext bytes produced so far */
+  get bytesOut(): number {
+    return this.totalBytes;
+  }
+
+  private parseHeader(): boolean {
+    if (this.pending.length < HEADER_LENGTH) return false;
+
+    const { salt, recordSize, keyId } = RFC8188Crypto.parseHeader(this.pending);
+    if (recordSize < MIN_RECORD_SIZE || recordSize > this.maxRecordSize) {
+      throw new Error(`Invalid record size in header: ${recordSize}`);
+    }
+    const headerLength = HEADER_LENGTH + this.pending.readUInt8(SALT_LENGTH + 4);
+    if (this.pending.length < headerLength) return false;
+
+    if (this.expectedSalt && !this.expectedSalt.equals(Buffer.from(salt))) {
+      throw new Error('Salt mismatch');
+    }
+    if (this.committed) {
+      const commitment = RFC8188Crypto.keyCommitment(Buffer.from(salt), this.key);
+      if (keyId.length !== KEY_COMMITMENT_LENGTH || !timingSafeEqual(Buffer.from(keyId), commitment)) {
+        throw new Error('Key commitment mismatch');
+      }
+    }
+
+    const keys = RFC8188Crypto.deriveStreamKeys(Buffer.from(salt), this.key);
+    this.contentKey = keys.contentKey;
+    this.nonceBase = keys.nonceBase;
+    this.recordSize = recordSize;
+    this.pending = this.pending.subarray(headerLength);
+    return true;
+  }
+
+  private openRecord(record: Buffer): void {
+    const { data, isLast } = RFC8188Crypto.openRecord(this.contentKey!, this.nonceBase!, this.seq, record);
+    if (!isLast && record.length !== this.recordSize) {
+      throw new Error(`Record ${this.seq} is truncated`);
+    }
+
+    if (data.length > 0) {
+      this.push(data);
+      this.totalBytes += data.length;
+    }
+    this.sawTerminal = isLast;
+    this.seq++;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      if (this.sawTerminal) {
+        throw new Error('Data after terminal record');
+      }
+      this.pending = this.pending.length ? Buffer.concat([this.pending, chunk]) : chunk;
+
+      if (!this.contentKey && !this.parseHeader()) {
+        callback();
+        return;
+      }
+
+      // A full-size record may be the terminal one; its delimiter says so
+      let offset = 0;
+      while (!this.sawTerminal && this.pending.length - offset >= this.recordSize) {
+        this.openRecord(this.pending.subarray(offset, offset + this.recordSize));
+        offset += this.recordSize;
+      }
+      if (this.sawTerminal && offset < this.pending.length) {
+        throw new Error('Data after terminal record');
+      }
+      // Copy the remainder so a large input chunk is not kept alive by it
+      this.pending = Buffer.from(this.pending.subarray(offset));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      if (!this.contentKey) {
+        throw new Error('Invalid encrypted data: header too short');
+      }
+      if (!this.sawTerminal && this.pending.length > 0) {
+        this.openRecord(this.pending);
+        this.pending = Buffer.alloc(0);
+      }
+      if (!this.sawTerminal) {
+        throw new Error('Stream ended without terminal record');
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Shamir secret sharing over GF(2^8), as the browser client splits link keys
+ * (see frontend/src/crypto/shamir.ts). Each byte of the secret is the
+ * constant term of a random polynomial of degree K-1, and share `x` holds
+ * every polynomial evaluated at `x`; any K shares rebuild the secret.
+ *
+ * Wire form of a share (base64url in a link's `share` param):
+ *
+ *     [ set id (8) ] [ K (1) ] [ N (1) ] [ x (1) ] [ y (secret length) ]
+ *
+ * The field uses the AES polynomial x^8 + x^4 + x^3 + x + 1. Must stay
+ * byte-compatible with the browser.
+ */
+
+export interface KeyShare {
+  setId: Buffer;
+  threshold: number;
+  total: number;
+  x: number;
+  y: Buffer;
+}
+
+export const SHARE_SET_ID_LENGTH = 8;
+export const MAX_SHARES = 255;
+const SHARE_HEADER_LENGTH = SHARE_SET_ID_LENGTH + 3;
+
+// log/exp tables for GF(2^8) with generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = EXP[i + 255] = value;
+    LOG[value] = i;
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+  }
+}
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split `secret` into `total` shares, any `threshold` of which rebuild it
+ */
+export function splitSecret(secret: Buffer, threshold: number, total: number): KeyShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(total) || threshold < 2 || threshold > total || total > MAX_SHARES) {
+    throw new Error(`Need 2 <= threshold <= shares <= ${MAX_SHARES}`);
+  }
+  const setId = randomBytes(SHARE_SET_ID_LENGTH);
+  const shares: KeyShare[] = [];
+  for (let x = 1; x <= total; x++) {
+    shares.push({ setId, threshold, total, x, y: Buffer.alloc(secret.length) });
+  }
+  // Coefficients 1..K-1 of each byte's polynomial; the constant term is the byte itself
+  const coefficients = randomBytes(secret.length * (threshold - 1));
+  for (let i = 0; i < secret.length; i++) {
+    for (const share of shares) {
+      let y = 0;
+      for (let j = threshold - 2; j >= 0; j--) {
+        y = mul(y, share.x) ^ coefficients[i * (threshold - 1) + j];
+      }
+      share.y[i] = mul(y, share.x) ^ secret[i];
+    }
+  }
+  return shares;
+}
+
+/**
+ * Whether two shares come from the same split
+ */
+export function sameSplit(a: KeyShare, b: KeyShare): boolean {
+  return a.setId.equals(b.setId) && a.threshold === b.threshold && a.total === b.total && a.y.length === b.y.length;
+}
+
+/**
+ * Rebuild the secret from at least `threshold` shares of one split
+ */
+export function combineShares(shares: KeyShare[]): Buffer {
+  if (shares.length === 0) throw new Error('No shares');
+  const [first] = shares;
+  if (!shares.every(share => sameSplit(share, first))) throw new Error('Shares belong to different splits');
+  if (new Set(shares.map(s => s.x)).size !== shares.length) throw new Error('Duplicate share');
+  if (shares.length < first.threshold) {
+    throw new Error(`Need ${first.threshold} shares, have ${shares.length}`);
+  }
+
+  // Lagrange interpolation at x = 0 over exactly K shares
+  const used = shares.slice(0, first.threshold);
+  const secret = Buffer.alloc(first.y.length);
+  for (const share of used) {
+    let basis = 1;
+    for (const other of used) {
+      if (other.x !== share.x) basis = mul(basis, div(other.x, other.x ^ share.x));
+    }
+    for (let i = 0; i < secret.length; i++) secret[i] ^= mul(basis, share.y[i]);
+  }
+  return secret;
+}
+
+export function encodeShare(share: KeyShare): Buffer {
+  return Buffer.concat([share.setId, Buffer.from([share.threshold, share.total, share.x]), share.y]);
+}
+
+/**
+ * Parse a serialised share; null unless well-formed with a `secretLength`-byte value
+ */
+export function decodeShare(bytes: Buffer, secretLength: number): KeyShare | null {
+  if (bytes.length !== SHARE_HEADER_LENGTH + secretLength) return null;
+  const threshold = bytes[SHARE_SET_ID_LENGTH];
+  const total = bytes[SHARE_SET_ID_LENGTH + 1];
+  const x = bytes[SHARE_SET_ID_LENGTH + 2];
+  if (threshold < 2 || threshold > total || x < 1 || x > total) return null;
+  return {
+    setId: bytes.subarray(0, SHARE_SET_ID_LENGTH),
+    threshold,
+    total,
+    x,
+    y: bytes.subarray(SHARE_HEADER_LENGTH)
+  };
+}
@@ -0,0 +1,460 @@
+import { createCipheriv, createDecipheriv, createHash, createPublicKey, pbkdf2, randomBytes, verify } from 'crypto';
+import { promisify } from 'util';
+import { SALT_LENGTH, KEY_LENGTH, TAG_LENGTH } from '../types';
+import { KeyShare, splitSecret, encodeShare, decodeShare } from './shamir';
+
+const pbkdf2Async = promisify(pbkdf2);
+
+/**
+ * Share links in the v2/v3 format the browser client writes and reads
+ * (see ClientCrypto.generateShareUrl / extractKeysFromUrl):
+ *
+ *   /download/<id>#v=2&k=<key>&s=<salt>
+ *     [&ps=<pp_salt>[&pw=1&kdf=argon2id&km=..&kt=..&kp=.. | &pw=1&kdf=pbkdf2&ki=..]]
+ *     [&epk=<ephemeral>]  [&pk=<pubkey>&sig=<sig>]
+ *
+ * A link from a split key carries `share=<share>` in place of `k`: one Shamir
+ * share of the `k` value (see ./shamir.ts), with every other parameter the
+ * same across the split's links.
+ *
+ * v=3 takes the same parameters and marks a file whose header carries a key
+ * commitment (RFC8188Crypto.keyCommitment), which the reader must check.
+ *
+ * Everything after '#' stays on the client. This is the Node counterpart used
+ * by server-side tools; it must stay byte-compatible with the browser.
+ */
+
+export type PassphraseKdf =
+  | { name: 'pbkdf2'; iterations: number }
+  | { name: 'argon2id'; memoryKiB: number; iterations: number; parallelism: number };
+
+export interface PassphraseWrap {
+  version: number; // 0 = legacy XOR, 1 = AES-GCM
+  kdf: PassphraseKdf;
+  salt: Buffer;
+}
+
+export interface Attestation {
+  pubkey: Buffer;
+  signature: Buffer;
+  /** Statement from a previous key handing over to `pubkey`, if the sender rotated */
+  rotation?: RotationStatement | null;
+  /** SHA-256 of the envelope plaintext, covered by the signature when present */
+  contentDigest?: Buffer | null;
+  /** Display name the sender chose; unsigned, a hint only */
+  name?: string | null;
+}
+
+export interface RotationStatement {
+  previousPubkey: Buffer;
+  signature: Buffer;
+}
+
+export interface ParsedShareLink {
+  baseUrl: string;
+  fileId: string;
+  /** null for a link from a split key; combine `share` with others to get it */
+  keyOrWrapped: Buffer | null;
+  share: KeyShare | null;
+  salt: Buffer;
+  committed: boolean;
+  passphraseWrap: PassphraseWrap | null;
+  ephemeralPubkey: Buffer | null;
+  attestation: Attestation | null;
+}
+
+export interface BuildOptions {
+  passphrase?: string;
+  passphraseKdf?: PassphraseKdf;
+  attestation?: Attestation;
+  committed?: boolean;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export class ShareLink {
+  static readonly COMMITTED_LINK_VERSION = 3;
+  static readonly PASSPHRASE_SALT_LENGTH = 16;
+  static readonly PASSPHRASE_WRAP_VERSION = 1;
+  static readonly LEGACY_PBKDF2_ITERATIONS = 600_000;
+  static readonly DEFAULT_ARGON2ID: PassphraseKdf = { name: 'argon2id', memoryKiB: 65536, iterations: 3, parallelism: 1 };
+  static readonly DEFAULT_PBKDF2: PassphraseKdf = { name: 'pbkdf2', iterations: 600_000 };
+  static readonly SEALED_KEY_LENGTH = KEY_LENGTH + TAG_LENGTH;
+  static readonly X25519_KEY_LENGTH = 32;
+  static readonly SENDER_NAME_MAX_LENGTH = 64;
+  static readonly CONTENT_DIGEST_LENGTH = 32;
+
+  /**
+   * Base64url without padding
+   */
+  static toBase64Url(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString('base64url');
+  }
+
+  static fromBase64Url(value: string): Buffer {
+    return Buffer.from(value, 'base64url');
+  }
+
+  /**
+   * Same bounds the browser applies to KDF parameters read from a link
+   */
+  private static kdfWithinBounds(kdf: PassphraseKdf): boolean {
+    if (kdf.name === 'pbkdf2') {
+      return kdf.iterations >= 100_000 && kdf.iterations <= 10_000_000;
+    }
+    return kdf.memoryKiB >= 8192 && kdf.memoryKiB <= 1_048_576 &&
+      kdf.iterations >= 1 && kdf.iterations <= 16 &&
+      kdf.parallelism >= 1 && kdf.parallelism <= 8;
+  }
+
+  private static kdfDescriptor(kdf: PassphraseKdf): string {
+    return kdf.name === 'pbkdf2'
+      ? `pbkdf2-sha256|i=${kdf.iterations}`
+      : `argon2id|m=${kdf.memoryKiB}|t=${kdf.iterations}|p=${kdf.parallelism}`;
+  }
+
+  static describeKdf(kdf: PassphraseKdf): string {
+    return kdf.name === 'pbkdf2'
+      ? `PBKDF2-SHA256, ${kdf.iterations.toLocaleString()} iterations`
+      : `Argon2id, ${Math.round(kdf.memoryKiB / 1024)} MiB, ${kdf.iterations} passes`;
+  }
+
+  /**
+   * Derive `length` bytes from a passphrase (NFKC-normalised, as in the browser)
+   */
+  static async derivePassphraseKey(
+    passphrase: string,
+    salt: Buffer,
+    kdf: PassphraseKdf,
+    length: number = KEY_LENGTH
+  ): Promise<Buffer> {
+    const passphraseBytes = Buffer.from(passphrase.normalize('NFKC'), 'utf8');
+
+    if (kdf.name === 'argon2id') {
+      const { argon2id } = await import('hash-wasm');
+      const derived = await argon2id({
+        password: passphraseBytes,
+        salt,
+        parallelism: kdf.parallelism,
+        iterations: kdf.iterations,
+        memorySize: kdf.memoryKiB,
+        hashLength: length,
+        outputType: 'binary'
+      });
+      return Buffer.from(derived);
+    }
+
+    return pbkdf2Async(passphraseBytes, salt, kdf.iterations, length, 'sha256');
+  }
+
+  private static wrapAad(wrap: PassphraseWrap): Buffer {
+    return Buffer.from(`whirlcrypt:pw${wrap.version}|${this.kdfDescriptor(wrap.kdf)}`, 'utf8');
+  }
+
+  /**
+   * Wrap a file key under a passphrase (current wrap version). The wrap key
+   * comes from a fresh salt and is used once, so the all-zero IV is safe.
+   */
+  static async wrapKeyWithPassphrase(
+    fileKey: Buffer,
+    passphrase: string,
+    kdf: PassphraseKdf = this.DEFAULT_ARGON2ID
+  ): Promise<{ wrapped: Buffer; wrap: PassphraseWrap }> {
+    const wrap: PassphraseWrap = {
+      version: this.PASSPHRASE_WRAP_VERSION,
+      kdf,
+      salt: randomBytes(this.PASSPHRASE_SALT_LENGTH)
+    };
+    const wrapKey = await this.derivePassphraseKey(passphrase, wrap.salt, kdf, 32);
+    const cipher = createCipheriv('aes-256-gcm', wrapKey, Buffer.alloc(12));
+    cipher.setAAD(this.wrapAad(wrap));
+    const wrapped = Buffer.concat([cipher.update(fileKey), cipher.final(), cipher.getAuthTag()]);
+    return { wrapped, wrap };
+  }
+
+  /**
+   * Recover the file key. Version 1 throws WrongPassphraseError on a wrong
+   * passphrase; legacy XOR wraps cannot tell and yield a key that fails on
+   * the first record instead.
+   */
+  static async unwrapKeyWithPassphrase(wrapped: Buffer, passphrase: string, wrap: PassphraseWrap): Promise<Buffer> {
+    if (wrap.version === 0) {
+      const wrapKey = await this.derivePassphraseKey(passphrase, wrap.salt, wrap.kdf);
+      const fileKey = Buffer.alloc(wrapped.length);
+      for (let i = 0; i < wrapped.length; i++) {
+        fileKey[i] = wrapped[i] ^ wrapKey[i];
+      }
+      return fileKey;
+    }
+
+    const wrapKey = await this.derivePassphraseKey(passphrase, wrap.salt, wrap.kdf, 32);
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', wrapKey, Buffer.alloc(12));
+      decipher.setAAD(this.wrapAad(wrap));
+      decipher.setAuthTag(wrapped.subarray(wrapped.length - TAG_LENGTH));
+      return Buffer.concat([decipher.update(wrapped.subarray(0, wrapped.length - TAG_LENGTH)), decipher.final()]);
+    } catch {
+      throw new WrongPassphraseError();
+    }
+  }
+
+  private static passphraseWrapParams(wrap: PassphraseWrap): string {
+    let params = `&ps=${this.toBase64Url(wrap.salt)}`;
+    if (wrap.version === 0) return params;
+    params += `&pw=${wrap.version}&kdf=${wrap.kdf.name}`;
+    if (wrap.kdf.name === 'pbkdf2') {
+      params += `&ki=${wrap.kdf.iterations}`;
+    } else {
+      params += `&km=${wrap.kdf.memoryKiB}&kt=${wrap.kdf.iterations}&kp=${wrap.kdf.parallelism}`;
+    }
+    return params;
+  }
+
+  private static parsePassphraseWrap(params: URLSearchParams, salt: Buffer): PassphraseWrap | null {
+    const pw = params.get('pw');
+    if (pw === null) {
+      return { version: 0, kdf: { name: 'pbkdf2', iterations: this.LEGACY_PBKDF2_ITERATIONS }, salt };
+    }
+    if (pw !== String(this.PASSPHRASE_WRAP_VERSION)) return null;
+
+    const int = (name: string): number => {
+      const value = params.get(name);
+      return value !== null && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    };
+    let kdf: PassphraseKdf;
+    switch (params.get('kdf')) {
+      case 'pbkdf2':
+        kdf = { name: 'pbkdf2', iterations: int('ki') };
+        break;
+      case 'argon2id':
+        kdf = { name: 'argon2id', memoryKiB: int('km'), iterations: int('kt'), parallelism: int('kp') };
+        break;
+      default:
+        return null;
+    }
+    if (!this.kdfWithinBounds(kdf)) return null;
+    return { version: this.PASSPHRASE_WRAP_VERSION, kdf, salt };
+  }
+
+  /**
+   * Build a share link for an uploaded file
+   */
+  static async build(
+    fileId: string,
+    key: Buffer,
+    salt: Buffer,
+    baseUrl: string,
+    options: BuildOptions = {}
+  ): Promise<string> {
+    const { kBytes, extra } = await this.linkParams(key, options);
+    const v = options.committed ? this.COMMITTED_LINK_VERSION : 2;
+    return `${baseUrl}/download/${fileId}#v=${v}&k=${this.toBase64Url(kBytes)}&s=${this.toBase64Url(salt)}${extra}`;
+  }
+
+  /**
+   * Build `total` links for an uploaded file, any `threshold` of which open
+   * it; each carries one share of the `k` value
+   */
+  static async buildSplit(
+    fileId: string,
+    key: Buffer,
+    salt: Buffer,
+    baseUrl: string,
+    threshold: number,
+    total: number,
+    options: BuildOptions = {}
+  ): Promise<string[]> {
+    const { kBytes, extra } = await this.linkParams(key, options);
+    const v = options.committed ? this.COMMITTED_LINK_VERSION : 2;
+    return splitSecret(kBytes, threshold, total).map(share =>
+      `${baseUrl}/download/${fileId}#v=${v}&share=${this.toBase64Url(encodeShare(share))}&s=${this.toBase64Url(salt)}${extra}`);
+  }
+
+  private static async linkParams(key: Buffer, options: BuildOptions): Promise<{ kBytes: Buffer; extra: string }> {
+    let kBytes = key;
+    let extra = '';
+    if (options.passphrase) {
+      const { wrapped, wrap } = await this.wrapKeyWithPassphrase(key, options.passphrase, options.passphraseKdf);
+      kBytes = wrapped;
+      extra += this.passphraseWrapParams(wrap);
+    }
+    if (options.attestation) {
+      extra += `&pk=${this.toBase64Url(options.attestation.pubkey)}`;
+      extra += `&sig=${this.toBase64Url(options.attestation.signature)}`;
+      const rotation = options.attestation.rotation;
+      if (rotation) {
+        extra += `&rot=${this.toBase64Url(Buffer.concat([rotation.previousPubkey, rotation.signature]))}`;
+      }
+      const digest = options.attestation.contentDigest;
+      if (digest) extra += `&h=${this.toBase64Url(digest)}`;
+      const name = this.senderName(options.attestation.name);
+      if (name) extra += `&sn=${encodeURIComponent(name)}`;
+    }
+    return { kBytes, extra };
+  }
+
+  /**
+   * Parse a share link. Returns null for anything the browser would also
+   * refuse: no /download/<id> path, a missing or malformed v2/v3 fragment, or
+   * out-of-bounds passphrase parameters.
+   */
+  static parse(link: string): ParsedShareLink | null {
+    let url: URL;
+    try {
+      url = new URL(link);
+    } catch {
+      return null;
+    }
+
+    const match = /^(.*)\/download\/([^/]+)\/?$/.exec(url.pathname);
+    if (!match) return null;
+    const params = new URLSearchParams(url.hash.substring(1));
+    const v = params.get('v');
+    if (v !== '2' && v !== String(this.COMMITTED_LINK_VERSION)) return null;
+    const k = params.get('k');
+    const shareParam = params.get('share');
+    const s = params.get('s');
+    // Exactly one of the key and a share of it
+    if (!k === !shareParam || !s) return null;
+
+    const salt = this.fromBase64Url(s);
+    if (salt.length !== SALT_LENGTH) return null;
+
+    const epkParam = params.get('epk');
+    const psParam = params.get('ps');
+    let ephemeralPubkey: Buffer | null = null;
+    if (epkParam) {
+      if (psParam) return null;
+      ephemeralPubkey = this.fromBase64Url(epkParam);
+      if (ephemeralPubkey.length !== this.X25519_KEY_LENGTH) return null;
+    }
+    let passphraseWrap: PassphraseWrap | null = null;
+    if (psParam) {
+      const passphraseSalt = this.fromBase64Url(psParam);
+      if (passphraseSalt.length !== this.PASSPHRASE_SALT_LENGTH) return null;
+      passphraseWrap = this.parsePassphraseWrap(params, passphraseSalt);
+      if (!passphraseWrap) return null;
+    }
+    const expectedKeyLength = ephemeralPubkey || (passphraseWrap && passphraseWrap.version > 0)
+      ? this.SEALED_KEY_LENGTH
+      : KEY_LENGTH;
+    const keyOrWrapped = k ? this.fromBase64Url(k) : null;
+    if (keyOrWrapped && keyOrWrapped.length !== expectedKeyLength) return null;
+    const share = shareParam ? decodeShare(this.fromBase64Url(shareParam), expectedKeyLength) : null;
+    if (shareParam && !share) return null;
+
+    const pkParam = params.get('pk');
+    const sigParam = params.get('sig');
+    let attestation: Attestation | null = null;
+    if (pkParam && sigParam) {
+      const pubkey = this.fromBase64Url(pkParam);
+      const signature = this.fromBase64Url(sigParam);
+      if (pubkey.length === 32 && signature.length === 64) {
+        // A malformed rotation statement is dropped, like a malformed attestation
+        const rotParam = params.get('rot');
+        const rot = rotParam ? this.fromBase64Url(rotParam) : null;
+        const rotation = rot && rot.length === 96
+          ? { previousPubkey: rot.subarray(0, 32), signature: rot.subarray(32) }
+          : null;
+        // A malformed digest drops the attestation: the signature can't be checked without it
+        const hParam = params.get('h');
+        const contentDigest = hParam ? this.fromBase64Url(hParam) : null;
+        if (!contentDigest || contentDigest.length === this.CONTENT_DIGEST_LENGTH) {
+          attestation = { pubkey, signature, rotation, contentDigest, name: this.senderName(params.get('sn')) };
+        }
+      }
+    }
+
+    return {
+      baseUrl: `${url.origin}${match[1]}`,
+      fileId: decodeURIComponent(match[2]),
+      keyOrWrapped,
+      share,
+      salt,
+      committed: v !== '2',
+      passphraseWrap,
+      ephemeralPubkey,
+      attestation
+    };
+  }
+
+  /**
+   * Normalise a sender display name: trimmed, at most SENDER_NAME_MAX_LENGTH
+   * characters and free of control characters, otherwise null
+   */
+  static senderName(name: string | null | undefined): string | null {
+    const trimmed = name?.trim();
+    if (!trimmed || Array.from(trimmed).length > this.SENDER_NAME_MAX_LENGTH) return null;
+    return /[\u0000-\u001f\u007f-\u009f]/.test(trimmed) ? null : trimmed;
+  }
+
+  /**
+   * Canonical attestation bytes; the pubkey is bound in so a signature
+   * cannot be replayed next to a different key, and the content digest, when
+   * the link carries one, under a separate label
+   */
+  private static attestationBytes(fileId: string, pubkey: Buffer, contentDigest?: Buffer | null): Buffer {
+    const message = contentDigest
+      ? `whirlcrypt:attest2|${fileId}|${this.toBase64Url(pubkey)}|${this.toBase64Url(contentDigest)}`
+      : `whirlcrypt:v2|${fileId}|${this.toBase64Url(pubkey)}`;
+    return Buffer.from(message, 'utf8');
+  }
+
+  /**
+   * Canonical rotation bytes: the old key vouches for the new one
+   */
+  private static rotationBytes(previousPubkey: Buffer, pubkey: Buffer): Buffer {
+    return Buffer.from(
+      `whirlcrypt:rotate1|${this.toBase64Url(previousPubkey)}|${this.toBase64Url(pubkey)}`,
+      'utf8'
+    );
+  }
+
+  private static ed25519Verify(pubkey: Buffer, signature: Buffer, message: Buffer): boolean {
+    try {
+      const publicKey = createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: this.toBase64Url(pubkey) },
+        format: 'jwk'
+      });
+      return verify(null, message, publicKey, signature);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Verify a sender's Ed25519 attestation over (fileId, pubkey)
+   */
+  static verifyAttestation(fileId: string, attestation: Attestation): boolean {
+    return this.ed25519Verify(
+      attestation.pubkey,
+      attestation.signature,
+      this.attestationBytes(fileId, attestation.pubkey, attestation.contentDigest)
+    );
+  }
+
+  /**
+   * Verify that `rotation.previousPubkey` signed the hand-over to `pubkey`
+   */
+  static verifyRotation(pubkey: Buffer, rotation: RotationStatement): boolean {
+    return this.ed25519Verify(
+      rotation.previousPubkey,
+      rotation.signature,
+      this.rotationBytes(rotation.previousPubkey, pubkey)
+    );
+  }
+
+  /**
+   * Display fingerprint of a public key: first 8 bytes of SHA-256 as
+   * dash-separated groups of 4 hex characters
+   */
+  static fingerprint(pubkey: Buffer): string {
+    const hex = createHash('sha256').update(pubkey).digest('hex').slice(0, 16);
+    return hex.match(/.{4}/g)!.join('-');
+  }
+}
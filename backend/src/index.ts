@@ -14,6 +14,7 @@ import { FileManager } from './storage/fileManager';
 import { DatabaseConnection } from './database/connection';
 import { setFileManager } from './services/fileManagerService';
 import { certificateMonitoringJob } from './jobs/certificateMonitoring';
+import { runtimeConfig } from './services/RuntimeConfig';
 import {
   cspMiddleware,
   rateLimitMiddleware,
@@ -25,8 +26,13 @@ import {
 
 // Import routes
 import uploadRouter from './routes/upload';
+import uploadSessionsRouter from './routes/upload-sessions';
+import filesRouter from './routes/files';
 import downloadRouter from './routes/download';
 import adminRouter from './routes/admin';
+import adminFilesRouter from './routes/admin-files';
+import adminBansRouter from './routes/admin-bans';
+import adminAuditRouter from './routes/admin-audit';
 import adminAuthRouter from './routes/admin-auth';
 import securityRouter from './routes/security';
 
@@ -62,8 +68,9 @@ app.use(AttackDetectionMiddleware.detect());
 app.use(cors({
   origin: config.corsOrigin,
   credentials: false,
-  methods: ['GET', 'POST', 'PUT', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'x-encryption-key']
+  methods: ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'x-encryption-key', 'Range', 'If-Range', 'Upload-Offset', 'X-Owner-Token', 'X-Resume-Token'],
+  exposedHeaders: ['Accept-Ranges', 'Content-Range', 'ETag', 'Location', 'Upload-Offset', 'Upload-Length', 'X-Resume-Token']
 }));
 
 // Body parsing
@@ -115,8 +122,13 @@ app.get('/api/health', async (req, res) => {
 
 // Routes
 app.use('/api/upload', uploadRateLimitMiddleware, uploadRouter);
+app.use('/api/upload-sessions', uploadSessionsRouter); // rate-limited per session, not per chunk
 app.use('/api/download', downloadRouter);
+app.use('/api/files', filesRouter); // uploader-side management, authenticated by owner token
 app.use('/api/admin/auth', adminAuthRouter);
+app.use('/api/admin/files', adminFilesRouter);
+app.use('/api/admin/bans', adminBansRouter);
+app.use('/api/admin/audit', adminAuditRouter);
 app.use('/api/admin', adminRouter);
 app.use('/api/security', securityRouter); // Now only /api/security/csp-report; public dashboard retired
 
@@ -183,6 +195,10 @@ cron.schedule(cleanupCron, async () => {
     const cleanedCount = await fileManager.cleanupExpiredFiles();
     console.log(`🧹 File cleanup completed: ${cleanedCount} expired files removed`);
 
+    const { uploadSessionManager } = await import('./services/UploadSessionManager');
+    const abandonedSessions = await uploadSessionManager.cleanupAbandonedSessions();
+    console.log(`🧹 Upload session cleanup completed: ${abandonedSessions} abandoned sessions removed`);
+
     // Also cleanup security logs and expired bans
     const { AttackLogger } = await import('./services/AttackLogger');
     const { BanManager } = await import('./services/BanManager');
@@ -223,6 +239,14 @@ async function initializeApp() {
       fileManager = new FileManagerV2();
       await fileManager.initialize();
       setFileManager(fileManager);
+
+      // Admin-edited settings override the environment's
+      try {
+        await runtimeConfig.initialize();
+        console.log(`✅ Runtime configuration version ${runtimeConfig.getCurrent()?.version} applied`);
+      } catch (error) {
+        console.warn('⚠️ Runtime configuration store unavailable - using environment settings:', (error as Error).message);
+      }
     } else {
       console.warn('⚠️ Database not available - falling back to FileManager (filesystem only)');
       console.warn('⚠️ For full functionality, set up PostgreSQL and configure DB_* environment variables');
@@ -250,6 +274,9 @@ const gracefulShutdown = async () => {
       await fileManager.cleanup();
     }
     
+    // Release the configuration listener's connection before closing the pool
+    await runtimeConfig.stop();
+
     // Close database connection
     await DatabaseConnection.close();
     console.log('✅ Cleanup completed');
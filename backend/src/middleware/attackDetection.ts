@@ -315,9 +315,9 @@ export class AttackDetectionMiddleware {
   }
 
   /**
-   * Get client IP address (handles proxies)
+   * Get client IP address (handles proxies); the address bans are checked against
    */
-  private static getClientIP(req: Request): string {
+  static getClientIP(req: Request): string {
     return (
       req.get('CF-Connecting-IP') ||
       req.get('X-Forwarded-For')?.split(',')[0] ||
@@ -23,7 +23,7 @@ export const cspMiddleware = (req: Request, res: Response, next: NextFunction) =
   // Set strict CSP headers
   const cspDirectives = [
     "default-src 'self'",
-    `script-src 'self' 'nonce-${nonce}' 'strict-dynamic'`,
+    `script-src 'self' 'nonce-${nonce}' 'strict-dynamic' 'wasm-unsafe-eval'`,
     `style-src 'self' 'nonce-${nonce}' https://fonts.googleapis.com`,
     "img-src 'self' data: blob:",
     "connect-src 'self'",
@@ -43,7 +43,7 @@ export const cspMiddleware = (req: Request, res: Response, next: NextFunction) =
   // Also set report-only header for monitoring (without upgrade-insecure-requests)
   const reportOnlyDirectives = [
     "default-src 'self'",
-    `script-src 'self' 'nonce-${nonce}' 'strict-dynamic'`,
+    `script-src 'self' 'nonce-${nonce}' 'strict-dynamic' 'wasm-unsafe-eval'`,
     `style-src 'self' 'nonce-${nonce}' https://fonts.googleapis.com`,
     "img-src 'self' data: blob:",
     "connect-src 'self'",
@@ -94,9 +94,11 @@ export const handleCSPViolation = (req: Request, res: Response) => {
 };
 
 /**
- * Rate limiting middleware
+ * Rate limiting middleware. The limiter is rebuilt when an admin changes the
+ * window or ceiling (see services/RuntimeConfig), which starts every client's
+ * count afresh.
  */
-export const rateLimitMiddleware = rateLimit({
+const buildRateLimiter = () => rateLimit({
   windowMs: config.rateLimiting.windowMs,
   max: config.rateLimiting.maxRequests,
   message: {
@@ -121,10 +123,24 @@ export const rateLimitMiddleware = rateLimit({
            req.path.endsWith('.css') ||
            req.path.endsWith('.png') ||
            req.path.endsWith('.ico') ||
-           (req.method === 'GET' && req.path.startsWith('/api/download/'));
+           (req.method === 'GET' && req.path.startsWith('/api/download/')) ||
+           // Resumable upload chunks; session creation is limited by uploadRateLimitMiddleware
+           ((req.method === 'PATCH' || req.method === 'HEAD') && req.path.startsWith('/api/upload-sessions/'));
   }
 });
 
+let rateLimiter = buildRateLimiter();
+let rateLimiterSettings = { ...config.rateLimiting };
+
+export const rateLimitMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  if (rateLimiterSettings.windowMs !== config.rateLimiting.windowMs ||
+      rateLimiterSettings.maxRequests !== config.rateLimiting.maxRequests) {
+    rateLimiter = buildRateLimiter();
+    rateLimiterSettings = { ...config.rateLimiting };
+  }
+  return rateLimiter(req, res, next);
+};
+
 /**
  * Upload rate limiting (stricter)
  */
@@ -0,0 +1,166 @@
+import { Router, Request, Response } from 'express';
+import { isIP } from 'net';
+import { requireAuth, requirePermission, logAction, withAuth, AuthenticatedRequest } from '../auth/middleware';
+import { AdminAuditLog, AdminAuditRepository, AuditLogQuery } from '../database/models/AdminUser';
+
+const router = Router();
+const auditRepo = new AdminAuditRepository();
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const EXPORT_BATCH = 1000;
+const FORMATS = ['json', 'csv', 'jsonl'] as const;
+type ExportFormat = typeof FORMATS[number];
+
+const CSV_COLUMNS: (keyof AdminAuditLog)[] = [
+  'sequence', 'createdAt', 'username', 'action', 'resource', 'permission', 'success',
+  'ipAddress', 'userAgent', 'errorMessage', 'metadata', 'id', 'prevHash', 'entryHash'
+];
+
+/**
+ * Build the repository query from request filters; throws on garbage
+ */
+function parseFilters(req: Request): AuditLogQuery {
+  const text = (name: string) => {
+    const value = req.query[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  const date = (name: string) => {
+    const value = text(name);
+    if (value === undefined) return undefined;
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) throw new RangeError(`${name} must be an ISO 8601 date`);
+    return parsed;
+  };
+
+  const success = text('success');
+  if (success !== undefined && success !== 'true' && success !== 'false') {
+    throw new RangeError('success must be true or false');
+  }
+
+  const ip = text('ip');
+  if (ip !== undefined) {
+    const [address, prefix, ...rest] = ip.split('/');
+    const family = isIP(address);
+    if (!family || rest.length > 0) {
+      throw new RangeError('ip must be an IP address or CIDR range');
+    }
+    const maximum = family === 4 ? 32 : 128;
+    if (prefix !== undefined && (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maximum)) {
+      throw new RangeError(`IPv${family} prefix must be from /0 to /${maximum}`);
+    }
+  }
+
+  return {
+    username: text('user'),
+    action: text('action')?.toUpperCase(),
+    success: success === undefined ? undefined : success === 'true',
+    ipAddress: ip,
+    startDate: date('from'),
+    endDate: date('to')
+  };
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = value instanceof Date ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value)
+    : String(value);
+  // Keep spreadsheets from running attacker-supplied text such as a user agent
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Query the admin audit log, newest first
+ * GET /api/admin/audit?user=&action=&success=&ip=&from=&to=&limit=&cursor=&format=
+ *
+ * format=json (default) returns one page and a nextCursor; csv and jsonl
+ * download every matching entry.
+ */
+router.get('/', requireAuth, requirePermission('audit:view'), logAction('VIEW_AUDIT_LOG', 'admin_audit_log'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  let filters: AuditLogQuery;
+  let format: ExportFormat;
+  let limit: number;
+  try {
+    filters = parseFilters(req);
+    format = ((req.query.format as string) || 'json') as ExportFormat;
+    if (!FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of ${FORMATS.join(', ')}` });
+    }
+
+    limit = req.query.limit === undefined ? DEFAULT_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return res.status(400).json({ error: `limit must be a whole number from 1 to ${MAX_LIMIT}` });
+    }
+    if (req.query.cursor !== undefined) {
+      const cursor = Number(req.query.cursor);
+      if (!Number.isInteger(cursor) || cursor < 1) {
+        return res.status(400).json({ error: 'cursor must come from a previous nextCursor' });
+      }
+      filters.before = cursor;
+    }
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+  res.locals.audit = { filters: { ...filters }, format };
+
+  try {
+    if (format === 'json') {
+      // One extra row tells us whether another page exists
+      const entries = await auditRepo.queryAuditLogs({ ...filters, limit: limit + 1 });
+      const page = entries.slice(0, limit);
+      return res.json({
+        entries: page,
+        nextCursor: entries.length > limit ? String(page[page.length - 1].sequence) : null
+      });
+    }
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="admin-audit-${stamp}.${format}"`);
+    if (format === 'csv') {
+      res.write(CSV_COLUMNS.join(',') + '\n');
+    }
+
+    // Page through with the cursor so a large export never sits in memory
+    let before = filters.before;
+    for (;;) {
+      const batch = await auditRepo.queryAuditLogs({ ...filters, before, limit: EXPORT_BATCH });
+      for (const entry of batch) {
+        res.write(format === 'csv'
+          ? CSV_COLUMNS.map(column => csvField(entry[column])).join(',') + '\n'
+          : JSON.stringify(entry) + '\n');
+      }
+      if (batch.length < EXPORT_BATCH) break;
+      before = batch[batch.length - 1].sequence;
+    }
+    res.end();
+  } catch (error) {
+    console.error('Audit log query error:', error);
+    if (res.headersSent) {
+      // Too late for a status code; cut the download short so it is visibly incomplete
+      res.destroy(error as Error);
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Failed to query audit log';
+    res.status(500).json({ error: message });
+  }
+}));
+
+/**
+ * Recompute the audit log's hash chain
+ * GET /api/admin/audit/verify
+ */
+router.get('/verify', requireAuth, requirePermission('audit:view'), logAction('VERIFY_AUDIT_CHAIN', 'admin_audit_log'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const report = await auditRepo.verifyChain();
+    res.json(report);
+  } catch (error) {
+    console.error('Audit chain verification error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to verify audit log';
+    res.status(500).json({ error: message });
+  }
+}));
+
+export default router;
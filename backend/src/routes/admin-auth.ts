@@ -1,8 +1,9 @@
 import express from 'express';
 import { Request, Response } from 'express';
 import { JWTManager } from '../auth/jwt';
-import { authRateLimit, requireAuth, logAction, withAuth, AuthenticatedRequest } from '../auth/middleware';
+import { authRateLimit, requireAuth, requirePermission, logAction, withAuth, AuthenticatedRequest } from '../auth/middleware';
 import { AdminUserRepository, AdminSessionRepository, AdminAuditRepository } from '../database/models/AdminUser';
+import { ROLE_PERMISSIONS } from '../auth/permissions';
 import QRCode from 'qrcode';
 
 const router = express.Router();
@@ -193,7 +194,8 @@ router.post('/login', loginRateLimit, async (req: Request, res: Response) => {
           id: user.id,
           username: user.username,
           email: user.email,
-          mfaEnabled: user.mfaEnabled
+          mfaEnabled: user.mfaEnabled,
+          role: user.role
         }
       });
     }
@@ -318,7 +320,8 @@ router.post('/verify-mfa', loginRateLimit, async (req: Request, res: Response) =
         id: user.id,
         username: user.username,
         email: user.email,
-        mfaEnabled: user.mfaEnabled
+        mfaEnabled: user.mfaEnabled,
+        role: user.role
       }
     });
   } catch (error) {
@@ -334,7 +337,7 @@ router.post('/verify-mfa', loginRateLimit, async (req: Request, res: Response) =
  * POST /api/admin/auth/logout
  * Logout and invalidate session
  */
-router.post('/logout', requireAuth, logAction('LOGOUT'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/logout', requireAuth, requirePermission('account:self'), logAction('LOGOUT'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const token = JWTManager.extractTokenFromHeader(req.headers.authorization);
     if (token) {
@@ -358,7 +361,7 @@ router.post('/logout', requireAuth, logAction('LOGOUT'), withAuth(async (req: Au
  * POST /api/admin/auth/logout-all
  * Logout from all sessions
  */
-router.post('/logout-all', requireAuth, logAction('LOGOUT_ALL'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/logout-all', requireAuth, requirePermission('account:self'), logAction('LOGOUT_ALL'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const deletedCount = await sessionRepo.deleteUserSessions(req.admin.user.userId);
 
@@ -379,7 +382,7 @@ router.post('/logout-all', requireAuth, logAction('LOGOUT_ALL'), withAuth(async
  * GET /api/admin/auth/me
  * Get current user info
  */
-router.get('/me', requireAuth, withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/me', requireAuth, requirePermission('account:self'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const user = await userRepo.findById(req.admin.user.userId);
     if (!user) {
@@ -395,6 +398,8 @@ router.get('/me', requireAuth, withAuth(async (req: AuthenticatedRequest, res: R
         username: user.username,
         email: user.email,
         mfaEnabled: user.mfaEnabled,
+        role: user.role,
+        permissions: ROLE_PERMISSIONS[user.role],
         lastLogin: user.lastLogin,
         createdAt: user.createdAt
       }
@@ -412,7 +417,7 @@ router.get('/me', requireAuth, withAuth(async (req: AuthenticatedRequest, res: R
  * POST /api/admin/auth/refresh
  * Refresh authentication token
  */
-router.post('/refresh', requireAuth, withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/refresh', requireAuth, requirePermission('account:self'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const user = await userRepo.findById(req.admin.user.userId);
     if (!user || !user.isActive) {
@@ -443,7 +448,7 @@ router.post('/refresh', requireAuth, withAuth(async (req: AuthenticatedRequest,
  * GET /api/admin/auth/sessions
  * Get active sessions for current user
  */
-router.get('/sessions', requireAuth, withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/sessions', requireAuth, requirePermission('account:self'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     // This would require extending the session repository to get user sessions
     // For now, return basic info
@@ -467,7 +472,7 @@ router.get('/sessions', requireAuth, withAuth(async (req: AuthenticatedRequest,
  * GET /api/admin/auth/mfa/setup
  * Get MFA setup information (QR code, backup codes)
  */
-router.get('/mfa/setup', requireAuth, withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/mfa/setup', requireAuth, requirePermission('account:self'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const user = await userRepo.findById(req.admin.user.userId);
     if (!user) {
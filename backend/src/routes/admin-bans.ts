@@ -0,0 +1,139 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth, requirePermission, logAction, withAuth, AuthenticatedRequest } from '../auth/middleware';
+import { AttackDetectionMiddleware } from '../middleware/attackDetection';
+import { BanManager, BanError, BanListOptions, BanStatusFilter } from '../services/BanManager';
+
+const router = Router();
+
+const STATUSES: BanStatusFilter[] = ['active', 'inactive', 'all'];
+const MAX_PAGE_SIZE = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const banManager = new BanManager();
+
+function sendBanError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof BanError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  const message = error instanceof Error ? error.message : fallback;
+  return res.status(500).json({ error: message });
+}
+
+/**
+ * Parse an optional positive integer query parameter; throws on garbage
+ */
+const optionalPositive = (req: Request, name: string): number | undefined => {
+  const raw = req.query[name];
+  if (raw === undefined || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new RangeError(`${name} must be a positive integer`);
+  }
+  return value;
+};
+
+/**
+ * List bans
+ * GET /api/admin/bans?search=&status=&type=&page=&pageSize=
+ */
+router.get('/', requireAuth, requirePermission('bans:view'), logAction('LIST_BANS', 'bans'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  let options: BanListOptions;
+  let page: number;
+  let pageSize: number;
+  try {
+    const status = (req.query.status as string) || 'active';
+    const type = req.query.type as string | undefined;
+    if (!STATUSES.includes(status as BanStatusFilter)) {
+      return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}` });
+    }
+    if (type && type !== 'permanent' && type !== 'temporary') {
+      return res.status(400).json({ error: 'type must be permanent or temporary' });
+    }
+
+    page = optionalPositive(req, 'page') ?? 1;
+    pageSize = Math.min(optionalPositive(req, 'pageSize') ?? 50, MAX_PAGE_SIZE);
+    options = {
+      search: (req.query.search as string)?.trim() || undefined,
+      status: status as BanStatusFilter,
+      banType: type as BanListOptions['banType'],
+      limit: pageSize,
+      offset: (page - 1) * pageSize
+    };
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  try {
+    const { bans, total } = await banManager.listBans(options);
+    res.json({ bans, page, pageSize, total, totalPages: Math.ceil(total / pageSize) });
+  } catch (error) {
+    sendBanError(res, error, 'Failed to list bans');
+  }
+}));
+
+/**
+ * Ban an address or CIDR range
+ * POST /api/admin/bans
+ *
+ * Body: { ip, reason, durationMinutes? } — without a duration the ban is permanent.
+ */
+router.post('/', requireAuth, requirePermission('bans:manage'), logAction('BAN_IP', 'bans'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  const { ip, reason, durationMinutes } = req.body;
+  res.locals.audit = { target: ip, durationMinutes: durationMinutes ?? null };
+
+  if (typeof ip !== 'string' || typeof reason !== 'string') {
+    return res.status(400).json({ error: 'ip and reason are required' });
+  }
+
+  try {
+    const ban = await banManager.manualBan(ip, {
+      reason,
+      durationMinutes: durationMinutes === undefined || durationMinutes === null ? undefined : durationMinutes,
+      bannedBy: req.admin.user.username,
+      protectIP: AttackDetectionMiddleware.getClientIP(req)
+    });
+    res.locals.audit = { target: ban.ip, banId: ban.id, banType: ban.banType };
+    res.status(201).json(ban);
+  } catch (error) {
+    sendBanError(res, error, 'Failed to ban');
+  }
+}));
+
+/**
+ * Make a temporary ban permanent
+ * POST /api/admin/bans/:id/permanent
+ */
+router.post('/:id/permanent', requireAuth, requirePermission('bans:manage'), logAction('MAKE_BAN_PERMANENT', 'bans'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  if (!UUID_PATTERN.test(req.params.id)) {
+    return res.status(404).json({ error: 'Ban not found' });
+  }
+
+  try {
+    const ban = await banManager.makePermanent(req.params.id);
+    res.locals.audit = { target: ban.ip, banId: ban.id };
+    res.json(ban);
+  } catch (error) {
+    sendBanError(res, error, 'Failed to make ban permanent');
+  }
+}));
+
+/**
+ * Lift a ban
+ * DELETE /api/admin/bans/:id
+ */
+router.delete('/:id', requireAuth, requirePermission('bans:manage'), logAction('UNBAN_IP', 'bans'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  if (!UUID_PATTERN.test(req.params.id)) {
+    return res.status(404).json({ error: 'Ban not found' });
+  }
+
+  try {
+    const ban = await banManager.liftBan(req.params.id);
+    res.locals.audit = { target: ban.ip, banId: ban.id };
+    res.json(ban);
+  } catch (error) {
+    sendBanError(res, error, 'Failed to lift ban');
+  }
+}));
+
+export default router;
@@ -0,0 +1,243 @@
+import { Router, Request, Response } from 'express';
+import { config } from '../config/config';
+import { getFileManager } from '../services/fileManagerService';
+import { requireAuth, requirePermission, logAction, withAuth, AuthenticatedRequest } from '../auth/middleware';
+import { FileManagerV2 } from '../storage/FileManagerV2';
+import { FileSearchOptions, FileSortField, FileStatusFilter } from '../database/models/File';
+import { FileMetadata } from '../types';
+
+const router = Router();
+
+const STATUSES: FileStatusFilter[] = ['active', 'expired', 'inactive', 'all'];
+const SORT_FIELDS: FileSortField[] = ['created', 'expires', 'size', 'downloads'];
+const MAX_PAGE_SIZE = 200;
+const DOWNLOAD_LOG_LIMIT = 100;
+
+/**
+ * The database-backed file manager, or send 501 and return null
+ */
+const requireFileManagerV2 = (res: Response): FileManagerV2 | null => {
+  const fileManager = getFileManager();
+  if (!(fileManager instanceof FileManagerV2)) {
+    res.status(501).json({ error: 'File management requires the database-backed file manager' });
+    return null;
+  }
+  return fileManager;
+};
+
+// What an admin sees of a file: never the owner token hash or the sealed metadata
+const toAdminFile = (metadata: FileMetadata) => {
+  const isExpired = new Date(metadata.expiresAt).getTime() <= Date.now();
+  return {
+    id: metadata.id,
+    size: metadata.size,
+    encryptedSize: metadata.encryptedSize,
+    storageProvider: metadata.storageProvider,
+    createdAt: metadata.createdAt,
+    expiresAt: metadata.expiresAt,
+    downloadCount: metadata.downloadCount,
+    maxDownloads: metadata.maxDownloads ?? null,
+    isActive: !!metadata.isActive && !isExpired,
+    isExpired,
+    hasOwnerToken: !!metadata.ownerTokenHash
+  };
+};
+
+/**
+ * Parse an optional non-negative integer query parameter; throws on garbage
+ */
+const optionalCount = (req: Request, name: string): number | undefined => {
+  const raw = req.query[name];
+  if (raw === undefined || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new RangeError(`${name} must be a non-negative integer`);
+  }
+  return value;
+};
+
+/**
+ * List files
+ * GET /api/admin/files?status=&expiringWithinHours=&minSize=&maxSize=&provider=
+ *   &minDownloads=&maxDownloads=&sort=&order=&page=&pageSize=
+ */
+router.get('/', requireAuth, requirePermission('files:view'), logAction('LIST_FILES', 'files'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  const fileManager = requireFileManagerV2(res);
+  if (!fileManager) return;
+
+  let options: FileSearchOptions;
+  let page: number;
+  let pageSize: number;
+  try {
+    const status = (req.query.status as string) || 'all';
+    const sort = (req.query.sort as string) || 'created';
+    if (!STATUSES.includes(status as FileStatusFilter)) {
+      return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}` });
+    }
+    if (!SORT_FIELDS.includes(sort as FileSortField)) {
+      return res.status(400).json({ error: `sort must be one of ${SORT_FIELDS.join(', ')}` });
+    }
+
+    page = Math.max(optionalCount(req, 'page') ?? 1, 1);
+    pageSize = Math.min(Math.max(optionalCount(req, 'pageSize') ?? 50, 1), MAX_PAGE_SIZE);
+    options = {
+      status: status as FileStatusFilter,
+      expiringWithinHours: optionalCount(req, 'expiringWithinHours'),
+      minSize: optionalCount(req, 'minSize'),
+      maxSize: optionalCount(req, 'maxSize'),
+      provider: (req.query.provider as string) || undefined,
+      minDownloads: optionalCount(req, 'minDownloads'),
+      maxDownloads: optionalCount(req, 'maxDownloads'),
+      sort: sort as FileSortField,
+      order: req.query.order === 'asc' ? 'asc' : 'desc',
+      limit: pageSize,
+      offset: (page - 1) * pageSize
+    };
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  try {
+    const { files, total } = await fileManager.searchFiles(options);
+    res.json({
+      files: files.map(toAdminFile),
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize)
+    });
+  } catch (error) {
+    console.error('Admin file list error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to list files';
+    res.status(500).json({ error: message });
+  }
+}));
+
+/**
+ * File detail with its most recent download attempts
+ * GET /api/admin/files/:id
+ */
+router.get('/:id', requireAuth, requirePermission('files:view'), logAction('VIEW_FILE', 'files'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  const fileManager = requireFileManagerV2(res);
+  if (!fileManager) return;
+
+  try {
+    const metadata = await fileManager.getMetadata(req.params.id);
+    if (!metadata) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const [downloadLogs, integrity] = await Promise.all([
+      fileManager.getDownloadLogs(metadata.id, DOWNLOAD_LOG_LIMIT),
+      fileManager.checkFileIntegrity(metadata.id)
+    ]);
+
+    res.json({
+      ...toAdminFile(metadata),
+      inStorage: integrity.storage,
+      downloadLogs
+    });
+  } catch (error) {
+    console.error('Admin file detail error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to get file';
+    res.status(500).json({ error: message });
+  }
+}));
+
+/**
+ * Expire a file now: it stops downloading and its stored bytes are removed
+ * POST /api/admin/files/:id/expire
+ */
+router.post('/:id/expire', requireAuth, requirePermission('files:manage'), logAction('EXPIRE_FILE', 'files'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  const fileManager = requireFileManagerV2(res);
+  if (!fileManager) return;
+
+  try {
+    const updated = await fileManager.expireFile(req.params.id);
+    if (!updated) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    res.json(toAdminFile(updated));
+  } catch (error) {
+    console.error('Admin file expire error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to expire file';
+    res.status(500).json({ error: message });
+  }
+}));
+
+/**
+ * Push a live file's expiry later, up to the maximum retention from now
+ * POST /api/admin/files/:id/extend
+ *
+ * Body: { expiresAt } or { hours } to add to the current expiry.
+ */
+router.post('/:id/extend', requireAuth, requirePermission('files:manage'), logAction('EXTEND_FILE', 'files'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  const fileManager = requireFileManagerV2(res);
+  if (!fileManager) return;
+
+  try {
+    const metadata = await fileManager.getMetadata(req.params.id);
+    if (!metadata) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    if (!toAdminFile(metadata).isActive) {
+      return res.status(409).json({ error: 'Only a live file can be extended' });
+    }
+
+    const currentExpiry = new Date(metadata.expiresAt).getTime();
+    let expiresAt: Date;
+    if (req.body.expiresAt !== undefined) {
+      expiresAt = new Date(req.body.expiresAt);
+      if (isNaN(expiresAt.getTime())) {
+        return res.status(400).json({ error: 'expiresAt must be an ISO 8601 date' });
+      }
+    } else if (Number.isInteger(req.body.hours) && req.body.hours > 0) {
+      expiresAt = new Date(currentExpiry + req.body.hours * 60 * 60 * 1000);
+    } else {
+      return res.status(400).json({ error: 'Provide expiresAt or a positive whole number of hours' });
+    }
+
+    if (expiresAt.getTime() <= currentExpiry) {
+      return res.status(400).json({ error: 'New expiry must be later than the current one' });
+    }
+    const latest = Date.now() + config.retention.maxRetentionHours * 60 * 60 * 1000;
+    if (expiresAt.getTime() > latest) {
+      return res.status(400).json({
+        error: `Expiry cannot be more than ${config.retention.maxRetentionHours} hours from now`
+      });
+    }
+
+    const updated = await fileManager.updateFileLimits(metadata.id, { expiresAt });
+    if (!updated) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    res.json(toAdminFile(updated));
+  } catch (error) {
+    console.error('Admin file extend error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to extend file';
+    res.status(500).json({ error: message });
+  }
+}));
+
+/**
+ * Delete a file outright: stored bytes, record and download logs
+ * DELETE /api/admin/files/:id
+ */
+router.delete('/:id', requireAuth, requirePermission('files:manage'), logAction('DELETE_FILE', 'files'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  const fileManager = requireFileManagerV2(res);
+  if (!fileManager) return;
+
+  try {
+    const deleted = await fileManager.hardDeleteFile(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    res.json({ message: 'File deleted', id: req.params.id });
+  } catch (error) {
+    console.error('Admin file delete error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete file';
+    res.status(500).json({ error: message });
+  }
+}));
+
+export default router;
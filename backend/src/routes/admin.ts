@@ -1,10 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { config } from '../config/config';
 import { getFileManager } from '../services/fileManagerService';
-import { requireAuth, logAction, withAuth, AuthenticatedRequest } from '../auth/middleware';
+import { requireAuth, requirePermission, logAction, withAuth, AuthenticatedRequest } from '../auth/middleware';
 import { certificateMonitoringJob } from '../jobs/certificateMonitoring';
 import { AttackLogger } from '../services/AttackLogger';
 import { BanManager } from '../services/BanManager';
+import { runtimeConfig, RuntimeConfigError, RuntimeSettingsPatch } from '../services/RuntimeConfig';
 
 const router = Router();
 
@@ -12,7 +13,7 @@ const router = Router();
  * Get storage statistics
  * GET /api/admin/stats
  */
-router.get('/stats', requireAuth, logAction('VIEW_STATS'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/stats', requireAuth, requirePermission('stats:view'), logAction('VIEW_STATS'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const fileManager = getFileManager();
     const stats = await fileManager.getStats();
@@ -58,7 +59,7 @@ router.get('/stats', requireAuth, logAction('VIEW_STATS'), withAuth(async (req:
  * Replaces the retired public /security dashboard.
  * GET /api/admin/security-summary
  */
-router.get('/security-summary', requireAuth, logAction('VIEW_SECURITY'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/security-summary', requireAuth, requirePermission('security:view'), logAction('VIEW_SECURITY'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const attackLogger = new AttackLogger();
     const banManager = new BanManager();
@@ -90,7 +91,7 @@ router.get('/security-summary', requireAuth, logAction('VIEW_SECURITY'), withAut
  * Trigger cleanup of expired files
  * POST /api/admin/cleanup
  */
-router.post('/cleanup', requireAuth, logAction('CLEANUP_FILES'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/cleanup', requireAuth, requirePermission('files:cleanup'), logAction('CLEANUP_FILES'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const fileManager = getFileManager();
     const cleanedCount = await fileManager.cleanupExpiredFiles();
@@ -107,50 +108,117 @@ router.post('/cleanup', requireAuth, logAction('CLEANUP_FILES'), withAuth(async
   }
 }));
 
+function sendConfigError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof RuntimeConfigError) {
+    return res.status(error.statusCode).json({
+      error: error.message,
+      ...(error.details.length > 0 ? { details: error.details } : {})
+    });
+  }
+  console.error(`${fallback}:`, error);
+  const message = error instanceof Error ? error.message : fallback;
+  return res.status(500).json({ error: message });
+}
+
 /**
- * Get current retention configuration
+ * Get current runtime configuration and the version it came from
  * GET /api/admin/config
  */
-router.get('/config', requireAuth, logAction('VIEW_CONFIG'), withAuth((req: AuthenticatedRequest, res: Response) => {
+router.get('/config', requireAuth, requirePermission('config:view'), logAction('VIEW_CONFIG'), withAuth((req: AuthenticatedRequest, res: Response) => {
+  const current = runtimeConfig.getCurrent();
   res.json({
     retention: config.retention,
     rateLimiting: config.rateLimiting,
-    maxFileSize: config.retention.maxFileSize
+    maxFileSize: config.retention.maxFileSize,
+    persisted: runtimeConfig.isAvailable(),
+    version: current?.version ?? null,
+    updatedAt: current?.createdAt ?? null,
+    updatedBy: current?.changedByUsername ?? null
   });
 }));
 
 /**
- * Update retention configuration (in memory only)
+ * Update runtime configuration. Saved as a new version and applied on every
+ * instance. Accepts `retention` and `rateLimiting` objects, the older flat
+ * retention fields, an optional `comment`, and `version` to refuse the
+ * change if someone else saved first.
  * PUT /api/admin/config
  */
-router.put('/config', requireAuth, logAction('UPDATE_CONFIG'), withAuth((req: AuthenticatedRequest, res: Response) => {
+router.put('/config', requireAuth, requirePermission('config:update'), logAction('UPDATE_CONFIG'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { defaultRetentionHours, maxRetentionHours, maxFileSize } = req.body;
-    
-    if (defaultRetentionHours && defaultRetentionHours > 0) {
-      config.retention.defaultRetentionHours = Math.min(
-        defaultRetentionHours, 
-        config.retention.maxRetentionHours
-      );
-    }
-    
-    if (maxRetentionHours && maxRetentionHours > 0) {
-      config.retention.maxRetentionHours = maxRetentionHours;
-    }
-    
-    if (maxFileSize && maxFileSize > 0) {
-      config.retention.maxFileSize = maxFileSize;
+    const { retention, rateLimiting, comment, version } = req.body;
+    const { defaultRetentionHours, maxRetentionHours, maxFileSize, allowedExtensions } = req.body;
+
+    const patch: RuntimeSettingsPatch = {
+      retention: { defaultRetentionHours, maxRetentionHours, maxFileSize, allowedExtensions, ...retention },
+      rateLimiting
+    };
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ error: 'version must be an integer' });
     }
-    
+
+    const saved = await runtimeConfig.update(
+      patch,
+      { userId: req.admin.user.userId, username: req.admin.user.username },
+      typeof comment === 'string' ? comment.slice(0, 500) : undefined,
+      version
+    );
+
     res.json({
       message: 'Configuration updated',
-      retention: config.retention
+      version: saved.version,
+      retention: config.retention,
+      rateLimiting: config.rateLimiting
     });
-    
+
   } catch (error) {
-    console.error('Config update error:', error);
-    const message = error instanceof Error ? error.message : 'Failed to update config';
-    res.status(500).json({ error: message });
+    sendConfigError(res, error, 'Failed to update config');
+  }
+}));
+
+/**
+ * List configuration versions, newest first
+ * GET /api/admin/config/history?limit=50
+ */
+router.get('/config/history', requireAuth, requirePermission('config:view'), logAction('VIEW_CONFIG_HISTORY'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
+    const versions = await runtimeConfig.history(limit);
+    res.json({
+      current: runtimeConfig.getCurrent()?.version ?? null,
+      versions
+    });
+  } catch (error) {
+    sendConfigError(res, error, 'Failed to get config history');
+  }
+}));
+
+/**
+ * Restore an earlier configuration version
+ * POST /api/admin/config/rollback
+ */
+router.post('/config/rollback', requireAuth, requirePermission('config:update'), logAction('ROLLBACK_CONFIG'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { version, comment } = req.body;
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ error: 'version must be a positive integer' });
+    }
+
+    const saved = await runtimeConfig.rollback(
+      version,
+      { userId: req.admin.user.userId, username: req.admin.user.username },
+      typeof comment === 'string' ? comment.slice(0, 500) : undefined
+    );
+
+    res.json({
+      message: `Configuration rolled back to version ${version}`,
+      version: saved.version,
+      retention: config.retention,
+      rateLimiting: config.rateLimiting
+    });
+
+  } catch (error) {
+    sendConfigError(res, error, 'Failed to roll back config');
   }
 }));
 
@@ -158,7 +226,7 @@ router.put('/config', requireAuth, logAction('UPDATE_CONFIG'), withAuth((req: Au
  * Get Certificate Transparency monitoring status
  * GET /api/admin/ct-monitor/status
  */
-router.get('/ct-monitor/status', requireAuth, logAction('VIEW_CT_MONITOR'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/ct-monitor/status', requireAuth, requirePermission('ct-monitor:view'), logAction('VIEW_CT_MONITOR'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const stats = certificateMonitoringJob.getStatistics();
 
@@ -183,7 +251,7 @@ router.get('/ct-monitor/status', requireAuth, logAction('VIEW_CT_MONITOR'), with
  * Force run Certificate Transparency monitoring
  * POST /api/admin/ct-monitor/run
  */
-router.post('/ct-monitor/run', requireAuth, logAction('RUN_CT_MONITOR'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/ct-monitor/run', requireAuth, requirePermission('ct-monitor:run'), logAction('RUN_CT_MONITOR'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     // Run monitoring in background
     certificateMonitoringJob.forceRun().catch(error => {
@@ -206,7 +274,7 @@ router.post('/ct-monitor/run', requireAuth, logAction('RUN_CT_MONITOR'), withAut
  * Add domain to CT monitoring
  * POST /api/admin/ct-monitor/domains
  */
-router.post('/ct-monitor/domains', requireAuth, logAction('ADD_CT_DOMAIN'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/ct-monitor/domains', requireAuth, requirePermission('ct-monitor:manage'), logAction('ADD_CT_DOMAIN'), withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { domain } = req.body;
 
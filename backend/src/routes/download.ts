@@ -1,13 +1,123 @@
 import { Router, Request, Response } from 'express';
-import { createReadStream } from 'fs';
+import { createHash } from 'crypto';
+import { Transform } from 'stream';
 import { pipeline } from 'stream/promises';
 import { getFileManager } from '../services/fileManagerService';
 
 const router = Router();
 
+// How long after a download starts its holder may keep resuming it with
+// Range requests, even if that download used up the file's last slot.
+const RESUME_WINDOW_MINUTES = 60;
+
+// A response can end with bytes already written but never delivered (socket
+// and client buffers), so a resume may start this far before the point the
+// server recorded. Anything earlier would be fetching the file again.
+const RESUME_SLACK_BYTES = 4 * 1024 * 1024;
+
+// Handed out with every counted response; sent back to continue that download
+const RESUME_TOKEN_HEADER = 'X-Resume-Token';
+
+interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+/**
+ * Parse a `Range` header against a resource of `size` bytes.
+ * Returns `null` when the header should be ignored (absent, malformed, not
+ * bytes, or multiple ranges — we serve the full body in those cases, which
+ * RFC 9110 permits), or `'unsatisfiable'` for a well-formed range that lies
+ * entirely outside the file.
+ */
+function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, startStr, endStr] = match;
+  if (startStr === '' && endStr === '') return null;
+
+  if (startStr === '') {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(endStr, 10);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = parseInt(startStr, 10);
+  const end = endStr === '' ? size - 1 : Math.min(parseInt(endStr, 10), size - 1);
+  if (endStr !== '' && parseInt(endStr, 10) < start) return null;
+  if (start >= size) return 'unsatisfiable';
+
+  return { start, end };
+}
+
+/**
+ * Strong validator for the stored ciphertext. Blobs are immutable once
+ * uploaded, so id + size + upload time identifies the exact bytes.
+ */
+function computeETag(id: string, size: number, uploadDate: Date): string {
+  const digest = createHash('sha256')
+    .update(`${id}:${size}:${new Date(uploadDate).getTime()}`)
+    .digest('hex');
+  return `"${digest.slice(0, 32)}"`;
+}
+
+function setCommonHeaders(res: Response, size: number, etag: string): void {
+  // NOTE: Don't set filename in Content-Disposition - frontend will determine it after decryption
+  res.setHeader('Content-Disposition', 'attachment');
+  res.setHeader('Content-Type', 'application/octet-stream'); // Always binary for encrypted data
+  res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
+  res.setHeader('Pragma', 'no-cache');
+  res.setHeader('Expires', '0');
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', etag);
+  res.setHeader('Content-Length', size.toString());
+}
+
+/**
+ * Download headers only (size, ETag, range support)
+ * HEAD /api/download/:id
+ *
+ * Lets resuming clients check the validator before asking for the rest of
+ * the file. Never counts as a download.
+ */
+router.head('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const fileManager = getFileManager();
+
+    const isAvailable = await fileManager.isFileAvailable(id);
+    if (!isAvailable) {
+      return res.status(404).end();
+    }
+
+    const metadata = await fileManager.getMetadata(id);
+    if (!metadata) {
+      return res.status(404).end();
+    }
+
+    const size = metadata.encryptedSize || metadata.size;
+    setCommonHeaders(res, size, computeETag(id, size, metadata.uploadDate));
+    res.status(200).end();
+  } catch (error) {
+    console.error('Download HEAD error for file ID:', req.params.id, error);
+    res.status(500).end();
+  }
+});
+
 /**
- * Download and decrypt file
+ * Download encrypted file (client decrypts)
  * GET /api/download/:id
+ *
+ * Supports single byte ranges (`Range: bytes=N-`) with `If-Range` so
+ * interrupted downloads can resume. A logical download is counted once: a
+ * request atomically reserves a download slot, which is released again if
+ * the file can't be streamed. Its response carries a single-use resume token;
+ * a later ranged request presenting it within the resume window continues on
+ * that slot without taking another, and gets the next token.
  */
 router.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -19,61 +129,132 @@ router.get('/:id', async (req: Request, res: Response) => {
     // the URL fragment and never transmits it — the server has no business
     // seeing it — so the gate has been removed.)
 
-    // Check if file exists and is available
-    const isAvailable = await fileManager.isFileAvailable(id);
-    if (!isAvailable) {
-      return res.status(404).json({ error: 'File not found or expired' });
-    }
-
     // Get file metadata first
     const metadata = await fileManager.getMetadata(id);
     if (!metadata) {
       return res.status(404).json({ error: 'File not found' });
     }
 
-    // Increment download counter and log download (if supported by the file manager)
-    if ('incrementDownloadCount' in fileManager) {
-      await fileManager.incrementDownloadCount(id, req.ip, req.get('User-Agent'));
-    }
-
-    // Set response headers for encrypted file
-    // NOTE: Don't set filename in Content-Disposition - frontend will determine it after decryption
-    res.setHeader('Content-Disposition', 'attachment');
-    res.setHeader('Content-Type', 'application/octet-stream'); // Always binary for encrypted data
-    res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
-    res.setHeader('Pragma', 'no-cache');
-    res.setHeader('Expires', '0');
-
-    // For FileManagerV2 with database, try to stream if possible
-    if ('getFileStream' in fileManager && typeof fileManager.getFileStream === 'function') {
-      try {
-        const stream = await fileManager.getFileStream(id);
-        if (stream) {
-          // Set content length if we have the size
-          if (metadata.encryptedSize || metadata.size) {
-            res.setHeader('Content-Length', (metadata.encryptedSize || metadata.size).toString());
-          }
-
-          // Stream the file
-          await pipeline(stream, res);
-          return;
-        }
-      } catch (streamError) {
-        console.warn('Streaming failed, falling back to buffer method:', streamError);
+    const size = metadata.encryptedSize || metadata.size;
+    const etag = computeETag(id, size, metadata.uploadDate);
+
+    // If-Range: only honour Range when the client's copy is of these exact
+    // bytes. HTTP-date validators are treated as a mismatch (full response).
+    let range = parseRange(req.get('Range'), size);
+    const ifRange = req.get('If-Range');
+    if (range && ifRange !== undefined && ifRange !== etag) {
+      range = null;
+    }
+
+    // A request starting past byte 0 only rides on an earlier slot if it
+    // brings that download's resume token and asks for bytes not yet sent;
+    // anything else is counted as a new download, so a Range header can't be
+    // used to dodge the limit. The legacy manager keeps no download log to
+    // check, so there every request is a new download.
+    let downloadId: string | null = null;
+    let resumeToken: string | null = null;
+    const presentedToken = req.get(RESUME_TOKEN_HEADER);
+    if (range && range !== 'unsatisfiable' && range.start > 0 && presentedToken && 'resumeDownload' in fileManager) {
+      const resumed = await fileManager.resumeDownload(id, presentedToken, range.start, RESUME_SLACK_BYTES, RESUME_WINDOW_MINUTES);
+      if (resumed) {
+        ({ downloadId, resumeToken } = resumed);
+      }
+    }
+    const isContinuation = downloadId !== null;
+
+    // Check if file exists and is available. A genuine continuation stays
+    // allowed even if its download consumed the last slot.
+    const isAvailable = isContinuation || await fileManager.isFileAvailable(id);
+    if (!isAvailable) {
+      return res.status(404).json({ error: 'File not found or expired' });
+    }
+
+    if (range === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${size}`);
+      return res.status(416).json({ error: 'Requested range not satisfiable' });
+    }
+
+    const userAgent = req.get('User-Agent');
+
+    // Claim a download slot before touching storage. The reservation is a
+    // single conditional UPDATE, so concurrent requests can't over-serve
+    // maxDownloads the way a check-then-increment would; the check above is
+    // only a fast path. Verified continuations ride on the slot their first
+    // request took.
+    let reserved = false;
+    if (!isContinuation && 'reserveDownloadSlot' in fileManager) {
+      const reservation = await fileManager.reserveDownloadSlot(id, req.ip, userAgent);
+      if (!reservation) {
+        return res.status(404).json({ error: 'File not found or expired' });
       }
+      reserved = true;
+      ({ downloadId, resumeToken } = reservation);
     }
 
-    // Fallback: Get file data as buffer (for compatibility with existing FileManager)
-    const encryptedData = await fileManager.getFileData(id);
-    if (!encryptedData) {
+    // A server-side failure gives the slot back and ends the download for good
+    const releaseSlot = async (reason: string) => {
+      if (downloadId && 'revokeResume' in fileManager) {
+        await fileManager.revokeResume(downloadId);
+        downloadId = null;
+      }
+      if (reserved && 'releaseDownloadSlot' in fileManager) {
+        reserved = false;
+        await fileManager.releaseDownloadSlot(id, reason, req.ip, userAgent);
+      }
+    };
+
+    // Never buffer the whole ciphertext — this works the same for local and
+    // remote providers. A missing blob gives the slot back.
+    const stream = await fileManager.getFileStream(id, range ?? undefined);
+    if (!stream) {
+      await releaseSlot('Stored file could not be opened');
       return res.status(404).json({ error: 'File not found' });
     }
 
-    // Set content length
-    res.setHeader('Content-Length', encryptedData.length.toString());
+    // The legacy filesystem manager has no download limits to reserve against
+    if (!isContinuation && !('reserveDownloadSlot' in fileManager)) {
+      await fileManager.incrementDownloadCount(id);
+    }
 
-    // Send encrypted file (client will decrypt)
-    res.send(encryptedData);
+    if (range) {
+      setCommonHeaders(res, range.end - range.start + 1, etag);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+      res.status(206);
+    } else {
+      setCommonHeaders(res, size, etag);
+    }
+    if (resumeToken) {
+      res.setHeader(RESUME_TOKEN_HEADER, resumeToken);
+    }
+
+    // Where this response stopped is where the next resume may start
+    const start = range ? range.start : 0;
+    let sent = 0;
+    const countSent = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        sent += chunk.length;
+        callback(null, chunk);
+      }
+    });
+    const recordResumeOffset = async () => {
+      if (downloadId && 'recordResumeOffset' in fileManager) {
+        await fileManager.recordResumeOffset(downloadId, start + sent);
+      }
+    };
+
+    try {
+      await pipeline(stream, countSent, res);
+    } catch (error) {
+      // A client that hangs up keeps its slot and may resume with Range;
+      // a storage failure mid-stream gives the slot back.
+      if ((error as NodeJS.ErrnoException).code === 'ERR_STREAM_PREMATURE_CLOSE') {
+        await recordResumeOffset();
+      } else {
+        await releaseSlot(error instanceof Error ? error.message : 'Stream failed');
+      }
+      throw error;
+    }
+    await recordResumeOffset();
 
   } catch (error) {
     console.error('Download error for file ID:', req.params.id, error);
@@ -87,6 +268,12 @@ router.get('/:id', async (req: Request, res: Response) => {
       });
     }
 
+    // Once bytes are on the wire the status can't change; just cut the connection
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+
     const message = error instanceof Error ? error.message : 'Download failed';
     res.status(500).json({ error: message });
   }
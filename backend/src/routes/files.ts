@@ -0,0 +1,166 @@
+import { Router, Request, Response } from 'express';
+import { getFileManager } from '../services/fileManagerService';
+import { FileMetadata } from '../types';
+import { FileManagerV2 } from '../storage/FileManagerV2';
+
+const router = Router();
+
+// The token returned by POST /api/upload, sent back by the uploader
+const OWNER_TOKEN_HEADER = 'X-Owner-Token';
+
+/**
+ * Resolve the file for an owner-authenticated request, or send the error
+ * response and return null. A wrong token gets the same 404 as a missing
+ * file so the endpoint can't be used to probe tokens.
+ */
+const loadOwnedFile = async (
+  req: Request,
+  res: Response
+): Promise<{ fileManager: FileManagerV2; metadata: FileMetadata } | null> => {
+  const fileManager = getFileManager();
+  if (!('getOwnedMetadata' in fileManager)) {
+    res.status(501).json({ error: 'File management requires the database-backed file manager' });
+    return null;
+  }
+
+  const ownerToken = req.get(OWNER_TOKEN_HEADER);
+  if (!ownerToken) {
+    res.status(401).json({ error: `Missing ${OWNER_TOKEN_HEADER} header` });
+    return null;
+  }
+
+  const metadata = await fileManager.getOwnedMetadata(req.params.id, ownerToken);
+  if (!metadata) {
+    res.status(404).json({ error: 'File not found' });
+    return null;
+  }
+
+  return { fileManager, metadata };
+};
+
+const toStatus = (metadata: FileMetadata) => {
+  const isExpired = new Date(metadata.expiresAt).getTime() <= Date.now();
+  return {
+    id: metadata.id,
+    uploadDate: metadata.uploadDate,
+    expiresAt: metadata.expiresAt,
+    downloadCount: metadata.downloadCount,
+    maxDownloads: metadata.maxDownloads ?? null,
+    isActive: !!metadata.isActive && !isExpired,
+    isExpired
+  };
+};
+
+/**
+ * Get the status of an uploaded file (owner only)
+ * GET /api/files/:id/status
+ */
+router.get('/:id/status', async (req: Request, res: Response) => {
+  try {
+    const owned = await loadOwnedFile(req, res);
+    if (!owned) return;
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(toStatus(owned.metadata));
+  } catch (error) {
+    console.error('File status error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to get file status';
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * Tighten an uploaded file's limits (owner only)
+ * PATCH /api/files/:id
+ *
+ * Body: { expiresAt?, maxDownloads? }. Limits can only be made stricter:
+ * the expiry moved earlier, maxDownloads lowered.
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const owned = await loadOwnedFile(req, res);
+    if (!owned) return;
+    const { fileManager, metadata } = owned;
+
+    if (!toStatus(metadata).isActive) {
+      return res.status(409).json({ error: 'File is no longer available' });
+    }
+
+    const limits: { expiresAt?: Date; maxDownloads?: number } = {};
+
+    if (req.body.expiresAt !== undefined) {
+      const expiresAt = new Date(req.body.expiresAt);
+      if (isNaN(expiresAt.getTime())) {
+        return res.status(400).json({ error: 'expiresAt must be an ISO 8601 date' });
+      }
+      if (expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ error: 'expiresAt must be in the future; delete the file to revoke it now' });
+      }
+      if (expiresAt.getTime() > new Date(metadata.expiresAt).getTime()) {
+        return res.status(400).json({ error: 'Expiry can only be shortened' });
+      }
+      limits.expiresAt = expiresAt;
+    }
+
+    if (req.body.maxDownloads !== undefined) {
+      const maxDownloads = parseInt(req.body.maxDownloads, 10);
+      if (!Number.isFinite(maxDownloads) || maxDownloads < 1 || maxDownloads > 1000) {
+        return res.status(400).json({
+          error: 'maxDownloads must be a positive integer between 1 and 1000'
+        });
+      }
+      if (metadata.maxDownloads != null && maxDownloads > metadata.maxDownloads) {
+        return res.status(400).json({ error: 'maxDownloads can only be lowered' });
+      }
+      limits.maxDownloads = maxDownloads;
+    }
+
+    if (limits.expiresAt === undefined && limits.maxDownloads === undefined) {
+      return res.status(400).json({ error: 'Nothing to update: provide expiresAt and/or maxDownloads' });
+    }
+
+    const updated = await fileManager.updateFileLimits(metadata.id, limits);
+    if (!updated) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    res.json(toStatus(updated));
+  } catch (error) {
+    console.error('File update error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update file';
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * Revoke an uploaded file: remove it from storage and disable the link (owner only)
+ * DELETE /api/files/:id
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const owned = await loadOwnedFile(req, res);
+    if (!owned) return;
+
+    // Already revoked (which expires the record) or swept: nothing left to delete.
+    // Records revoked before that rule have no stored bytes behind them instead.
+    const { fileManager, metadata } = owned;
+    const isGone = new Date(metadata.expiresAt).getTime() <= Date.now() ||
+      (!metadata.isActive && !(await fileManager.checkFileIntegrity(metadata.id)).storage);
+    if (isGone) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const deleted = await fileManager.deleteFile(metadata.id);
+    if (!deleted) {
+      return res.status(500).json({ error: 'Failed to delete file' });
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('File delete error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete file';
+    res.status(500).json({ error: message });
+  }
+});
+
+export default router;
@@ -0,0 +1,242 @@
+import { Router, Request, Response } from 'express';
+import { promises as fsp } from 'fs';
+import { config } from '../config/config';
+import { UploadResponse } from '../types';
+import { getFileManager } from '../services/fileManagerService';
+import { OwnerToken } from '../services/OwnerToken';
+import { uploadSessionManager, UploadSessionError } from '../services/UploadSessionManager';
+import { uploadRateLimitMiddleware } from '../middleware/security';
+
+const router = Router();
+
+// Chunks are raw ciphertext bytes appended at Upload-Offset (tus convention)
+const CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+// Sessions carry no filename; the real name travels inside the encrypted envelope
+const SESSION_FILENAME = 'whirlcrypt.bin';
+const SESSION_MIMETYPE = 'application/octet-stream';
+
+const parseNonNegativeInt = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) && value >= 0 ? value : undefined;
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    const parsed = parseInt(value, 10);
+    return Number.isSafeInteger(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+const setSessionHeaders = (res: Response, offset: number, uploadLength?: number) => {
+  res.setHeader('Upload-Offset', offset.toString());
+  if (uploadLength !== undefined) {
+    res.setHeader('Upload-Length', uploadLength.toString());
+  }
+  res.setHeader('Cache-Control', 'no-store');
+};
+
+const sendSessionError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof UploadSessionError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  const message = error instanceof Error ? error.message : fallback;
+  res.status(500).json({ error: message });
+};
+
+/**
+ * Create a resumable upload session
+ * POST /api/upload-sessions
+ *
+ * Body: { uploadLength?, retentionHours?, maxDownloads? }. uploadLength may
+ * be omitted when the client streams ciphertext whose final size is not yet
+ * known; the upload is then complete whenever the client finalizes it.
+ * Counts against the upload rate limit — the individual chunks do not.
+ */
+router.post('/', uploadRateLimitMiddleware, async (req: Request, res: Response) => {
+  try {
+    let uploadLength: number | undefined;
+    if (req.body.uploadLength !== undefined && req.body.uploadLength !== null) {
+      uploadLength = parseNonNegativeInt(req.body.uploadLength);
+      if (uploadLength === undefined || uploadLength === 0) {
+        return res.status(400).json({ error: 'uploadLength must be a positive integer' });
+      }
+      if (uploadLength > config.retention.maxFileSize) {
+        return res.status(413).json({ error: 'File too large' });
+      }
+    }
+
+    let retentionHours = config.retention.defaultRetentionHours;
+    if (req.body.retentionHours !== undefined && req.body.retentionHours !== null && req.body.retentionHours !== '') {
+      const parsed = parseNonNegativeInt(req.body.retentionHours);
+      if (parsed === undefined || parsed === 0) {
+        return res.status(400).json({ error: 'retentionHours must be a positive integer' });
+      }
+      retentionHours = parsed;
+    }
+
+    if (retentionHours > config.retention.maxRetentionHours) {
+      return res.status(400).json({
+        error: `Retention period cannot exceed ${config.retention.maxRetentionHours} hours`
+      });
+    }
+
+    let maxDownloads: number | undefined;
+    if (req.body.maxDownloads !== undefined && req.body.maxDownloads !== '') {
+      maxDownloads = parseInt(req.body.maxDownloads, 10);
+      if (!Number.isFinite(maxDownloads) || maxDownloads < 1 || maxDownloads > 1000) {
+        return res.status(400).json({
+          error: 'maxDownloads must be a positive integer between 1 and 1000'
+        });
+      }
+    }
+
+    const session = await uploadSessionManager.create({
+      uploadLength,
+      retentionHours,
+      maxDownloads,
+      uploaderIP: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+
+    const uploadUrl = `/api/upload-sessions/${session.id}`;
+    setSessionHeaders(res, 0, uploadLength);
+    res.setHeader('Location', uploadUrl);
+    res.status(201).json({ id: session.id, uploadUrl, offset: 0 });
+  } catch (error) {
+    console.error('Upload session create error:', error);
+    sendSessionError(res, error, 'Failed to create upload session');
+  }
+});
+
+/**
+ * Report how many bytes of the upload the server has
+ * HEAD /api/upload-sessions/:id
+ */
+router.head('/:id', async (req: Request, res: Response) => {
+  try {
+    const session = await uploadSessionManager.get(req.params.id);
+    if (!session) {
+      return res.status(404).end();
+    }
+
+    const offset = await uploadSessionManager.getOffset(session.id);
+    setSessionHeaders(res, offset, session.uploadLength);
+    res.status(200).end();
+  } catch (error) {
+    console.error('Upload session status error:', error);
+    res.status(500).end();
+  }
+});
+
+/**
+ * Append a chunk of ciphertext
+ * PATCH /api/upload-sessions/:id
+ *
+ * Requires Content-Type: application/offset+octet-stream and an Upload-Offset
+ * header equal to the server's current offset (409 otherwise). If the
+ * connection drops mid-chunk, the bytes received so far are kept; the client
+ * issues a HEAD to learn the offset and resends from there.
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const session = await uploadSessionManager.get(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Upload session not found' });
+    }
+
+    if (!req.is(CHUNK_CONTENT_TYPE)) {
+      return res.status(415).json({ error: `Content-Type must be ${CHUNK_CONTENT_TYPE}` });
+    }
+
+    const offset = parseNonNegativeInt(req.headers['upload-offset']);
+    if (offset === undefined) {
+      return res.status(400).json({ error: 'Missing or invalid Upload-Offset header' });
+    }
+
+    const newOffset = await uploadSessionManager.appendChunk(session, offset, req);
+
+    setSessionHeaders(res, newOffset, session.uploadLength);
+    res.status(204).end();
+  } catch (error) {
+    if (req.aborted) {
+      // Client went away mid-chunk; whatever arrived is kept for the resume
+      return;
+    }
+    console.error('Upload session chunk error:', error);
+    sendSessionError(res, error, 'Failed to write chunk');
+  }
+});
+
+/**
+ * Finish an upload session and store the file
+ * POST /api/upload-sessions/:id/finalize
+ *
+ * If the session declared an uploadLength, every byte must have arrived.
+ * Returns the same response as POST /api/upload.
+ */
+router.post('/:id/finalize', async (req: Request, res: Response) => {
+  let partPath: string | undefined;
+  try {
+    const session = await uploadSessionManager.get(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Upload session not found' });
+    }
+
+    const { path, size } = await uploadSessionManager.complete(session);
+    partPath = path;
+
+    const ownerToken = OwnerToken.generate();
+
+    const fileManager = getFileManager();
+    const metadata = await fileManager.storeFileFromPath(
+      path,
+      size,
+      SESSION_FILENAME,
+      SESSION_MIMETYPE,
+      session.retentionHours,
+      session.maxDownloads,
+      session.uploaderIP,
+      session.userAgent,
+      OwnerToken.hash(ownerToken)
+    );
+
+    const response: UploadResponse = {
+      id: metadata.id,
+      downloadUrl: `/api/download/${metadata.id}`,
+      expiresAt: metadata.expiresAt.toISOString(),
+      // Only the database-backed manager stores the hash needed to honour it
+      ownerToken: 'getOwnedMetadata' in fileManager ? ownerToken : undefined
+    };
+
+    res.json(response);
+  } catch (error) {
+    // The session is already detached at this point; don't leak the part file
+    if (partPath) {
+      try { await fsp.unlink(partPath); } catch { /* already gone */ }
+    }
+
+    console.error('Upload session finalize error:', error);
+    sendSessionError(res, error, 'Upload failed');
+  }
+});
+
+/**
+ * Abort an upload session and discard what was received
+ * DELETE /api/upload-sessions/:id
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const session = await uploadSessionManager.get(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Upload session not found' });
+    }
+
+    await uploadSessionManager.remove(session.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Upload session abort error:', error);
+    sendSessionError(res, error, 'Failed to abort upload session');
+  }
+});
+
+export default router;
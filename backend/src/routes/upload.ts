@@ -1,22 +1,21 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
-import { mkdirSync, promises as fsp } from 'fs';
-import { join } from 'path';
+import { promises as fsp } from 'fs';
 import { config } from '../config/config';
 import { UploadResponse } from '../types';
 import { getFileManager } from '../services/fileManagerService';
+import { OwnerToken } from '../services/OwnerToken';
+import { uploadTmpDir } from '../services/UploadSessionManager';
 
 const router = Router();
 
 // Multer writes uploads to a tempdir on the same filesystem as the storage path
 // so the subsequent rename-into-place is atomic. ${UPLOAD_DIR}/.tmp keeps both
 // sides under the same mount and avoids EXDEV fallback in the common case.
-const tmpDir = config.storage.local
-  ? join(config.storage.local.path, '.tmp')
-  : join(process.cwd(), 'uploads', '.tmp');
-mkdirSync(tmpDir, { recursive: true });
+// Resumable upload sessions assemble their .part files in the same directory.
+const tmpDir = uploadTmpDir;
 
-const upload = multer({
+const buildUpload = () => multer({
   storage: multer.diskStorage({
     destination: tmpDir,
     filename: (_req, _file, cb) => {
@@ -38,6 +37,18 @@ const upload = multer({
   }
 });
 
+// The size limit is fixed per multer instance, so follow admin changes to it
+let upload = buildUpload();
+let uploadMaxFileSize = config.retention.maxFileSize;
+
+const receiveFile = (req: Request, res: Response, next: NextFunction) => {
+  if (uploadMaxFileSize !== config.retention.maxFileSize) {
+    upload = buildUpload();
+    uploadMaxFileSize = config.retention.maxFileSize;
+  }
+  upload.single('file')(req, res, next);
+};
+
 const safeUnlink = async (path?: string) => {
   if (!path) return;
   try { await fsp.unlink(path); } catch { /* already gone */ }
@@ -52,7 +63,7 @@ const safeUnlink = async (path?: string) => {
  * the request body to a temp file on disk to keep memory bounded for
  * large uploads, then the storage provider renames it into place.
  */
-router.post('/', upload.single('file'), async (req: Request, res: Response) => {
+router.post('/', receiveFile, async (req: Request, res: Response) => {
   const tempPath = req.file?.path;
   try {
     if (!req.file) {
@@ -81,6 +92,9 @@ router.post('/', upload.single('file'), async (req: Request, res: Response) => {
       }
     }
 
+    // Handed to the uploader once so they can revoke or restrict the file later
+    const ownerToken = OwnerToken.generate();
+
     const fileManager = getFileManager();
     const metadata = await fileManager.storeFileFromPath(
       req.file.path,
@@ -90,13 +104,16 @@ router.post('/', upload.single('file'), async (req: Request, res: Response) => {
       retentionHours,
       maxDownloads,
       req.ip,                // uploaderIP for encrypted metadata
-      req.headers['user-agent'] // userAgent for encrypted metadata
+      req.headers['user-agent'], // userAgent for encrypted metadata
+      OwnerToken.hash(ownerToken)
     );
 
     const response: UploadResponse = {
       id: metadata.id,
       downloadUrl: `/api/download/${metadata.id}`,
-      expiresAt: metadata.expiresAt.toISOString()
+      expiresAt: metadata.expiresAt.toISOString(),
+      // Only the database-backed manager stores the hash needed to honour it
+      ownerToken: 'getOwnedMetadata' in fileManager ? ownerToken : undefined
     };
 
     res.json(response);
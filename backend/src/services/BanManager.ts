@@ -1,7 +1,15 @@
 import { Pool } from 'pg';
+import { isIP } from 'net';
 import { DatabaseConnection } from '../database/connection';
 import { AttackInfo } from '../middleware/attackDetection';
 
+export class BanError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'BanError';
+  }
+}
+
 export interface BanEntry {
   id: string;
   ip: string;
@@ -14,8 +22,30 @@ export interface BanEntry {
   bannedAt: Date;
   expiresAt?: Date;
   isActive: boolean;
+  bannedBy?: string; // admin username; absent for automatic bans
+}
+
+export type BanStatusFilter = 'active' | 'inactive' | 'all';
+
+export interface BanListOptions {
+  search?: string;          // matches IP, reason, category or country
+  status?: BanStatusFilter;
+  banType?: 'permanent' | 'temporary';
+  limit?: number;
+  offset?: number;
 }
 
+export interface ManualBanOptions {
+  reason: string;
+  durationMinutes?: number; // omitted for a permanent ban
+  bannedBy: string;
+  protectIP?: string;       // the requesting admin's address, which the ban must not cover
+}
+
+// Narrowest ranges worth a ban, and the widest an admin may ban in one go
+const MIN_IPV4_PREFIX = 8;
+const MIN_IPV6_PREFIX = 32;
+
 export interface WallOfShameEntry {
   ip: string;
   maskedIP: string; // For privacy: 123.45.67.xxx
@@ -75,7 +105,7 @@ export class BanManager {
 
     const query = `
       SELECT 1 FROM banned_ips
-      WHERE ip = $1
+      WHERE $1::inet <<= ip
       AND is_active = true
       AND (expires_at IS NULL OR expires_at > NOW())
     `;
@@ -377,6 +407,175 @@ export class BanManager {
     }
   }
 
+  /**
+   * Bans for the admin console, newest first
+   */
+  async listBans(options: BanListOptions = {}): Promise<{ bans: BanEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (options.status === 'active') {
+      conditions.push('is_active = true AND (expires_at IS NULL OR expires_at > NOW())');
+    } else if (options.status === 'inactive') {
+      conditions.push('(is_active = false OR expires_at <= NOW())');
+    }
+    if (options.banType) {
+      values.push(options.banType);
+      conditions.push(`ban_type = $${values.length}`);
+    }
+    if (options.search) {
+      values.push(`%${options.search}%`);
+      const n = values.length;
+      conditions.push(`(text(ip) ILIKE $${n} OR reason ILIKE $${n} OR category ILIKE $${n} OR country ILIKE $${n})`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const countResult = await this.pool.query(`SELECT COUNT(*) AS total FROM banned_ips ${where}`, values);
+
+    values.push(options.limit ?? 50, options.offset ?? 0);
+    const result = await this.pool.query(`
+      SELECT * FROM banned_ips
+      ${where}
+      ORDER BY banned_at DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length}
+    `, values);
+
+    return {
+      bans: result.rows.map(row => this.mapRowToBanEntry(row)),
+      total: parseInt(countResult.rows[0].total)
+    };
+  }
+
+  async getBan(id: string): Promise<BanEntry | null> {
+    const result = await this.pool.query('SELECT * FROM banned_ips WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapRowToBanEntry(result.rows[0]) : null;
+  }
+
+  /**
+   * Ban an address or CIDR range on an admin's say-so. An existing ban on
+   * the same target is replaced.
+   */
+  async manualBan(target: string, options: ManualBanOptions): Promise<BanEntry> {
+    const [address, prefix] = target.trim().split('/');
+    const family = isIP(address);
+    if (!family) {
+      throw new BanError('Target must be an IP address or CIDR range', 400);
+    }
+    if (prefix !== undefined) {
+      const bits = Number(prefix);
+      const minimum = family === 4 ? MIN_IPV4_PREFIX : MIN_IPV6_PREFIX;
+      const maximum = family === 4 ? 32 : 128;
+      if (!/^\d+$/.test(prefix) || bits < minimum || bits > maximum) {
+        throw new BanError(`IPv${family} prefix must be from /${minimum} to /${maximum}`, 400);
+      }
+    }
+    if (!options.reason.trim()) {
+      throw new BanError('A reason is required', 400);
+    }
+    if (options.durationMinutes !== undefined && (!Number.isInteger(options.durationMinutes) || options.durationMinutes < 1)) {
+      throw new BanError('durationMinutes must be a positive whole number', 400);
+    }
+
+    // cidr refuses host bits right of the mask, so 10.1.2.3/24 is an error rather than a guess
+    let range: string;
+    try {
+      const result = await this.pool.query('SELECT $1::cidr::inet AS range', [target.trim()]);
+      range = result.rows[0].range;
+    } catch (error) {
+      if ((error as { code?: string }).code === '22P02') {
+        throw new BanError('CIDR range has bits set to the right of the prefix', 400);
+      }
+      throw error;
+    }
+
+    const whitelisted = this.WHITELIST_IPS.filter(ip => isIP(ip.split('/')[0]) === family);
+    const protectIP = options.protectIP?.replace(/^::ffff:/, '');
+    const overlaps = await this.pool.query(
+      'SELECT $1::inet && ANY($2::inet[]) AS whitelisted, ($3::inet IS NOT NULL AND $3::inet <<= $1::inet) AS self',
+      [range, whitelisted, protectIP && isIP(protectIP) === family ? protectIP : null]
+    );
+    if (overlaps.rows[0].whitelisted) {
+      throw new BanError('Target overlaps a whitelisted address', 400);
+    }
+    if (overlaps.rows[0].self) {
+      throw new BanError('Target covers your own address', 400);
+    }
+
+    const permanent = options.durationMinutes === undefined;
+    const query = `
+      INSERT INTO banned_ips (
+        ip, ban_type, reason, category, offending_request,
+        banned_at, expires_at, is_active, banned_by
+      )
+      VALUES ($1, $2, $3, 'manual', '', NOW(), $4, true, $5)
+      ON CONFLICT (ip) DO UPDATE SET
+        ban_type = EXCLUDED.ban_type,
+        reason = EXCLUDED.reason,
+        category = EXCLUDED.category,
+        offending_request = EXCLUDED.offending_request,
+        user_agent = NULL,
+        banned_at = EXCLUDED.banned_at,
+        expires_at = EXCLUDED.expires_at,
+        is_active = true,
+        banned_by = EXCLUDED.banned_by
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      range,
+      permanent ? 'permanent' : 'temporary',
+      options.reason.trim(),
+      permanent ? null : new Date(Date.now() + options.durationMinutes! * 60 * 1000),
+      options.bannedBy
+    ]);
+    console.log(`🔨 MANUAL ${permanent ? 'PERMANENT' : 'TEMPORARY'} BAN: ${range} by ${options.bannedBy}`);
+    return this.mapRowToBanEntry(result.rows[0]);
+  }
+
+  /**
+   * Turn a live temporary ban into a permanent one
+   */
+  async makePermanent(id: string): Promise<BanEntry> {
+    const result = await this.pool.query(`
+      UPDATE banned_ips
+      SET ban_type = 'permanent', expires_at = NULL
+      WHERE id = $1
+      AND ban_type = 'temporary'
+      AND is_active = true
+      AND expires_at > NOW()
+      RETURNING *
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      if (!(await this.getBan(id))) {
+        throw new BanError('Ban not found', 404);
+      }
+      throw new BanError('Only a live temporary ban can be made permanent', 409);
+    }
+    return this.mapRowToBanEntry(result.rows[0]);
+  }
+
+  /**
+   * Lift a ban by id (admin function)
+   */
+  async liftBan(id: string): Promise<BanEntry> {
+    const result = await this.pool.query(`
+      UPDATE banned_ips
+      SET is_active = false
+      WHERE id = $1 AND is_active = true
+      RETURNING *
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      if (!(await this.getBan(id))) {
+        throw new BanError('Ban not found', 404);
+      }
+      throw new BanError('Ban is already lifted', 409);
+    }
+    console.log(`🔓 Manually unbanned IP: ${result.rows[0].ip}`);
+    return this.mapRowToBanEntry(result.rows[0]);
+  }
+
   /**
    * Manually unban an IP (admin function)
    */
@@ -402,6 +601,23 @@ export class BanManager {
     }
   }
 
+  private mapRowToBanEntry(row: any): BanEntry {
+    return {
+      id: row.id,
+      ip: row.ip,
+      banType: row.ban_type,
+      reason: row.reason,
+      category: row.category,
+      offendingRequest: row.offending_request,
+      userAgent: row.user_agent,
+      country: row.country || undefined,
+      bannedAt: row.banned_at,
+      expiresAt: row.expires_at || undefined,
+      isActive: row.is_active && (!row.expires_at || new Date(row.expires_at).getTime() > Date.now()),
+      bannedBy: row.banned_by || undefined
+    };
+  }
+
   /**
    * Get country from IP (placeholder)
    */
@@ -0,0 +1,37 @@
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Owner tokens - let the uploader manage a file after upload
+ * The plaintext token is returned once, at upload time; only its SHA-256
+ * hash is stored, so a database leak doesn't hand out revocation rights.
+ */
+export class OwnerToken {
+  private static readonly TOKEN_LENGTH = 32; // 256 bits
+
+  /**
+   * Generate a new token (base64url, safe for headers and URLs)
+   */
+  static generate(): string {
+    return randomBytes(this.TOKEN_LENGTH).toString('base64url');
+  }
+
+  /**
+   * Hash a token for storage
+   */
+  static hash(token: string): string {
+    return createHash('sha256').update(token, 'utf8').digest('hex');
+  }
+
+  /**
+   * Check a presented token against the stored hash in constant time
+   */
+  static verify(token: string, storedHash: string | null | undefined): boolean {
+    if (!token || !storedHash) {
+      return false;
+    }
+
+    const presented = Buffer.from(this.hash(token), 'hex');
+    const stored = Buffer.from(storedHash, 'hex');
+    return presented.length === stored.length && timingSafeEqual(presented, stored);
+  }
+}
@@ -0,0 +1,319 @@
+import { PoolClient } from 'pg';
+import { config } from '../config/config';
+import { DatabaseConnection } from '../database/connection';
+import {
+  RuntimeConfigRepository,
+  RuntimeConfigVersion,
+  RuntimeSettings,
+  RUNTIME_CONFIG_CHANNEL
+} from '../database/models/RuntimeConfig';
+
+export class RuntimeConfigError extends Error {
+  constructor(message: string, public readonly statusCode: number, public readonly details: string[] = []) {
+    super(message);
+    this.name = 'RuntimeConfigError';
+  }
+}
+
+export interface RuntimeSettingsPatch {
+  retention?: Partial<RuntimeSettings['retention']>;
+  rateLimiting?: Partial<RuntimeSettings['rateLimiting']>;
+}
+
+export interface ConfigChangeAuthor {
+  userId: string;
+  username: string;
+}
+
+const MAX_RETENTION_HOURS = 24 * 365;
+const MIN_FILE_SIZE = 1024 * 1024;
+const MAX_FILE_SIZE = 1024 ** 4;
+const MAX_EXTENSIONS = 100;
+const EXTENSION_PATTERN = /^[a-z0-9]{1,16}$/;
+const MIN_RATE_WINDOW_MS = 1000;
+const MAX_RATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_RATE_REQUESTS = 100000;
+const LISTEN_RETRY_MS = 5000;
+
+function isIntegerIn(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Everything wrong with `settings`, as messages for the admin; empty when valid
+ */
+export function validateSettings(settings: RuntimeSettings): string[] {
+  const errors: string[] = [];
+  const { retention, rateLimiting } = settings;
+
+  if (!isIntegerIn(retention.maxRetentionHours, 1, MAX_RETENTION_HOURS)) {
+    errors.push(`maxRetentionHours must be a whole number from 1 to ${MAX_RETENTION_HOURS}`);
+  }
+  if (!isIntegerIn(retention.defaultRetentionHours, 1, MAX_RETENTION_HOURS)) {
+    errors.push(`defaultRetentionHours must be a whole number from 1 to ${MAX_RETENTION_HOURS}`);
+  } else if (typeof retention.maxRetentionHours === 'number' && retention.defaultRetentionHours > retention.maxRetentionHours) {
+    errors.push('defaultRetentionHours cannot exceed maxRetentionHours');
+  }
+  if (!isIntegerIn(retention.maxFileSize, MIN_FILE_SIZE, MAX_FILE_SIZE)) {
+    errors.push(`maxFileSize must be a whole number of bytes from ${MIN_FILE_SIZE} to ${MAX_FILE_SIZE}`);
+  }
+  if (retention.allowedExtensions !== null) {
+    if (!Array.isArray(retention.allowedExtensions)) {
+      errors.push('allowedExtensions must be a list of extensions, or null to allow all');
+    } else if (retention.allowedExtensions.length > MAX_EXTENSIONS) {
+      errors.push(`allowedExtensions can list at most ${MAX_EXTENSIONS} extensions`);
+    } else {
+      const invalid = retention.allowedExtensions.filter(ext => typeof ext !== 'string' || !EXTENSION_PATTERN.test(ext));
+      if (invalid.length > 0) {
+        errors.push(`Invalid extensions: ${invalid.map(String).join(', ')}`);
+      }
+    }
+  }
+
+  if (!isIntegerIn(rateLimiting.windowMs, MIN_RATE_WINDOW_MS, MAX_RATE_WINDOW_MS)) {
+    errors.push(`rateLimiting.windowMs must be a whole number from ${MIN_RATE_WINDOW_MS} to ${MAX_RATE_WINDOW_MS}`);
+  }
+  if (!isIntegerIn(rateLimiting.maxRequests, 1, MAX_RATE_REQUESTS)) {
+    errors.push(`rateLimiting.maxRequests must be a whole number from 1 to ${MAX_RATE_REQUESTS}`);
+  }
+
+  return errors;
+}
+
+/**
+ * `base` with `patch` laid over it. Extensions are lower-cased without a
+ * leading dot, and an empty list means no restriction.
+ */
+export function mergeSettings(base: RuntimeSettings, patch: RuntimeSettingsPatch): RuntimeSettings {
+  // Only known keys are taken, so a request cannot store anything else
+  const pick = <T extends object>(from: T, over: Partial<T> | undefined): T => {
+    const out = { ...from };
+    for (const key of Object.keys(from) as (keyof T)[]) {
+      if (over && over[key] !== undefined) out[key] = over[key] as T[keyof T];
+    }
+    return out;
+  };
+  const merged: RuntimeSettings = {
+    retention: pick(base.retention, patch.retention),
+    rateLimiting: pick(base.rateLimiting, patch.rateLimiting)
+  };
+
+  const extensions = merged.retention.allowedExtensions;
+  if (Array.isArray(extensions)) {
+    const normalized = extensions.map(ext => typeof ext === 'string' ? ext.trim().replace(/^\./, '').toLowerCase() : ext);
+    merged.retention.allowedExtensions = normalized.length > 0 ? Array.from(new Set(normalized)) : null;
+  }
+
+  return merged;
+}
+
+/**
+ * The editable settings as currently applied to `config`
+ */
+export function appliedSettings(): RuntimeSettings {
+  return {
+    retention: {
+      defaultRetentionHours: config.retention.defaultRetentionHours,
+      maxRetentionHours: config.retention.maxRetentionHours,
+      maxFileSize: config.retention.maxFileSize,
+      allowedExtensions: config.retention.allowedExtensions?.length ? [...config.retention.allowedExtensions] : null
+    },
+    rateLimiting: { ...config.rateLimiting }
+  };
+}
+
+/**
+ * Keeps the admin-editable part of `config` in step with the runtime_config
+ * table. The newest version is applied at startup; changes are written as
+ * new versions and announced with NOTIFY, so every instance reloads them
+ * without a restart. Without a database, settings stay as the environment
+ * set them and cannot be changed.
+ */
+export class RuntimeConfigService {
+  private repo: RuntimeConfigRepository | null = null;
+  private current: RuntimeConfigVersion | null = null;
+  private listener: PoolClient | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  isAvailable(): boolean {
+    return this.repo !== null;
+  }
+
+  getCurrent(): RuntimeConfigVersion | null {
+    return this.current;
+  }
+
+  /**
+   * Load and apply the newest settings, then follow changes. The first run
+   * against an empty table records the environment's settings as version 1.
+   */
+  async initialize(): Promise<void> {
+    const repo = new RuntimeConfigRepository();
+    let latest = await repo.findLatest();
+    if (!latest) {
+      latest = await repo.createVersion({
+        settings: mergeSettings(appliedSettings(), {}),
+        changedByUsername: 'SYSTEM',
+        comment: 'Initial settings from the environment'
+      });
+    }
+
+    this.repo = repo;
+    this.stopped = false;
+    if (latest) this.apply(latest);
+    await this.listen();
+  }
+
+  async update(patch: RuntimeSettingsPatch, author: ConfigChangeAuthor, comment?: string, expectedVersion?: number): Promise<RuntimeConfigVersion> {
+    const repo = this.requireRepo();
+    const base = this.current?.settings ?? appliedSettings();
+    return this.save(repo, mergeSettings(base, patch), author, comment, expectedVersion);
+  }
+
+  /**
+   * Make an earlier version live again, recorded as a new version
+   */
+  async rollback(version: number, author: ConfigChangeAuthor, comment?: string): Promise<RuntimeConfigVersion> {
+    const repo = this.requireRepo();
+    const target = await repo.findByVersion(version);
+    if (!target) {
+      throw new RuntimeConfigError(`Configuration version ${version} not found`, 404);
+    }
+    return this.save(repo, target.settings, author, comment || `Rollback to version ${version}`, undefined, version);
+  }
+
+  async history(limit?: number): Promise<RuntimeConfigVersion[]> {
+    return this.requireRepo().listVersions(limit);
+  }
+
+  /**
+   * Apply the newest stored version if it is newer than the live one
+   */
+  async reload(): Promise<void> {
+    if (!this.repo) return;
+    const latest = await this.repo.findLatest();
+    if (latest && (!this.current || latest.version > this.current.version)) {
+      this.apply(latest);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.listener) {
+      const listener = this.listener;
+      this.listener = null;
+      try {
+        await listener.query(`UNLISTEN ${RUNTIME_CONFIG_CHANNEL}`);
+      } catch {
+        // connection already gone
+      }
+      listener.release();
+    }
+  }
+
+  private requireRepo(): RuntimeConfigRepository {
+    if (!this.repo) {
+      throw new RuntimeConfigError('Configuration store unavailable; settings come from the environment', 503);
+    }
+    return this.repo;
+  }
+
+  private async save(
+    repo: RuntimeConfigRepository,
+    settings: RuntimeSettings,
+    author: ConfigChangeAuthor,
+    comment?: string,
+    expectedVersion?: number,
+    rolledBackFrom?: number
+  ): Promise<RuntimeConfigVersion> {
+    const errors = validateSettings(settings);
+    if (errors.length > 0) {
+      throw new RuntimeConfigError('Invalid configuration', 400, errors);
+    }
+
+    const created = await repo.createVersion({
+      settings,
+      changedBy: author.userId,
+      changedByUsername: author.username,
+      comment,
+      rolledBackFrom
+    }, expectedVersion);
+    if (!created) {
+      throw new RuntimeConfigError('Configuration changed since it was loaded; reload and try again', 409);
+    }
+
+    this.apply(created);
+    return created;
+  }
+
+  private apply(version: RuntimeConfigVersion): void {
+    // A row this build cannot accept is skipped rather than half-applied
+    const errors = validateSettings(version.settings);
+    if (errors.length > 0) {
+      console.error(`⚠️ Ignoring invalid configuration version ${version.version}: ${errors.join('; ')}`);
+      return;
+    }
+
+    const { retention, rateLimiting } = version.settings;
+    config.retention.defaultRetentionHours = retention.defaultRetentionHours;
+    config.retention.maxRetentionHours = retention.maxRetentionHours;
+    config.retention.maxFileSize = retention.maxFileSize;
+    config.retention.allowedExtensions = retention.allowedExtensions ?? undefined;
+    config.rateLimiting.windowMs = rateLimiting.windowMs;
+    config.rateLimiting.maxRequests = rateLimiting.maxRequests;
+    this.current = version;
+  }
+
+  /**
+   * Hold one pooled connection LISTENing for new versions. If it drops,
+   * reconnect after a pause and catch up on anything missed meanwhile.
+   */
+  private async listen(): Promise<void> {
+    if (this.stopped) return;
+    let client: PoolClient | null = null;
+    let attached = false;
+    try {
+      client = await DatabaseConnection.getPool().connect();
+      client.on('notification', msg => {
+        if (msg.channel !== RUNTIME_CONFIG_CHANNEL) return;
+        this.reload().catch(error => console.error('Configuration reload failed:', error));
+      });
+      client.on('error', error => {
+        console.error('Configuration listener lost its connection:', error.message);
+        if (client && this.listener === client) {
+          this.listener = null;
+          client.release(error);
+          this.scheduleListen();
+        }
+      });
+      await client.query(`LISTEN ${RUNTIME_CONFIG_CHANNEL}`);
+      this.listener = client;
+      attached = true;
+      await this.reload();
+    } catch (error) {
+      console.error('Configuration listener failed to start:', (error as Error).message);
+      // Whether LISTEN or the catch-up reload failed, give the client back,
+      // unless the error handler above already has
+      if (client && (!attached || this.listener === client)) {
+        if (this.listener === client) this.listener = null;
+        client.release(error as Error);
+      }
+      this.scheduleListen();
+    }
+  }
+
+  private scheduleListen(): void {
+    if (this.stopped || this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.listen();
+    }, LISTEN_RETRY_MS);
+  }
+}
+
+export const runtimeConfig = new RuntimeConfigService();
@@ -0,0 +1,250 @@
+import { promises as fs, mkdirSync, createWriteStream } from 'fs';
+import { join } from 'path';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
+
+// Multer and upload sessions both write into ${UPLOAD_DIR}/.tmp so the final
+// rename into storage stays on one filesystem (see routes/upload.ts).
+export const uploadTmpDir = config.storage.local
+  ? join(config.storage.local.path, '.tmp')
+  : join(process.cwd(), 'uploads', '.tmp');
+
+// Sessions untouched for this long are considered abandoned and reaped by
+// the cleanup cron.
+const SESSION_TTL_HOURS = parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || '24');
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+export interface UploadSession {
+  id: string;
+  uploadLength?: number; // declared total size; optional (deferred length)
+  retentionHours: number;
+  maxDownloads?: number;
+  uploaderIP?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateUploadSessionData {
+  uploadLength?: number;
+  retentionHours: number;
+  maxDownloads?: number;
+  uploaderIP?: string;
+  userAgent?: string;
+}
+
+export class UploadSessionError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'UploadSessionError';
+  }
+}
+
+/**
+ * Resumable (tus-style) upload sessions. Each session is a `.part` file that
+ * grows by appending chunks at a client-supplied offset, plus a JSON sidecar
+ * with the upload parameters. The current offset is always the size of the
+ * `.part` file on disk, so a chunk cut off mid-transfer keeps whatever bytes
+ * made it and the client resumes from there.
+ */
+export class UploadSessionManager {
+  // Chunks for a session must be appended one at a time, and never while
+  // the session is being completed
+  private activeWrites = new Set<string>();
+  // Sessions removed while a chunk was still being written; that write must
+  // not recreate the sidecar
+  private removedDuringWrite = new Set<string>();
+
+  constructor(private tmpDir: string = uploadTmpDir) {
+    mkdirSync(this.tmpDir, { recursive: true });
+  }
+
+  async create(data: CreateUploadSessionData): Promise<UploadSession> {
+    const now = new Date();
+    const session: UploadSession = {
+      id: uuidv4(),
+      uploadLength: data.uploadLength,
+      retentionHours: data.retentionHours,
+      maxDownloads: data.maxDownloads,
+      uploaderIP: data.uploaderIP,
+      userAgent: data.userAgent,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await fs.writeFile(this.partPath(session.id), Buffer.alloc(0));
+    await this.writeSession(session);
+    return session;
+  }
+
+  async get(id: string): Promise<UploadSession | null> {
+    if (!SESSION_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      const raw = await fs.readFile(this.sessionPath(id), 'utf8');
+      const session = JSON.parse(raw) as UploadSession;
+      session.createdAt = new Date(session.createdAt);
+      session.updatedAt = new Date(session.updatedAt);
+      return session;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Number of bytes received so far
+   */
+  async getOffset(id: string): Promise<number> {
+    const stats = await fs.stat(this.partPath(id));
+    return stats.size;
+  }
+
+  /**
+   * Append a chunk at `offset`. Rejects with 409 if `offset` is not the
+   * current end of the upload, and with 413 if the chunk would push the
+   * upload past its declared length or the server's size limit. Bytes
+   * received before a dropped connection are kept. Returns the new offset.
+   */
+  async appendChunk(session: UploadSession, offset: number, body: Readable): Promise<number> {
+    if (this.activeWrites.has(session.id)) {
+      throw new UploadSessionError('Another chunk is already being written to this session', 409);
+    }
+
+    this.activeWrites.add(session.id);
+    try {
+      const currentOffset = await this.getOffset(session.id);
+      if (offset !== currentOffset) {
+        throw new UploadSessionError(`Offset mismatch: upload is at ${currentOffset}`, 409);
+      }
+
+      const limit = Math.min(session.uploadLength ?? Infinity, config.retention.maxFileSize);
+      let written = currentOffset;
+      const guard = new Transform({
+        transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+          if (written + chunk.length > limit) {
+            callback(new UploadSessionError('Upload exceeds its declared length or the maximum file size', 413));
+            return;
+          }
+          written += chunk.length;
+          callback(null, chunk);
+        }
+      });
+
+      try {
+        await pipeline(body, guard, createWriteStream(this.partPath(session.id), { flags: 'a' }));
+      } finally {
+        if (!this.removedDuringWrite.has(session.id)) {
+          session.updatedAt = new Date();
+          await this.writeSession(session);
+        }
+      }
+
+      if (this.removedDuringWrite.has(session.id)) {
+        throw new UploadSessionError('Upload session was removed', 404);
+      }
+      return this.getOffset(session.id);
+    } finally {
+      this.activeWrites.delete(session.id);
+      this.removedDuringWrite.delete(session.id);
+    }
+  }
+
+  /**
+   * Detach a complete upload from its session. Returns the path of the
+   * assembled file, which the caller hands to the file manager (which
+   * consumes it); the session sidecar is removed.
+   */
+  async complete(session: UploadSession): Promise<{ path: string; size: number }> {
+    if (this.activeWrites.has(session.id)) {
+      throw new UploadSessionError('A chunk is still being written to this session', 409);
+    }
+
+    // Hold the write lock so no chunk can start (and re-save the sidecar)
+    // while the session is being detached
+    this.activeWrites.add(session.id);
+    try {
+      const size = await this.getOffset(session.id);
+      if (session.uploadLength !== undefined && size !== session.uploadLength) {
+        throw new UploadSessionError(`Upload incomplete: ${size} of ${session.uploadLength} bytes received`, 409);
+      }
+      if (size === 0) {
+        throw new UploadSessionError('Upload is empty', 400);
+      }
+
+      await fs.unlink(this.sessionPath(session.id));
+      return { path: this.partPath(session.id), size };
+    } finally {
+      this.activeWrites.delete(session.id);
+      this.removedDuringWrite.delete(session.id);
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    if (this.activeWrites.has(id)) {
+      this.removedDuringWrite.add(id);
+    }
+    await Promise.allSettled([
+      fs.unlink(this.partPath(id)),
+      fs.unlink(this.sessionPath(id))
+    ]);
+  }
+
+  /**
+   * Delete sessions that have seen no activity within the TTL, plus `.part`
+   * files whose sidecar has gone missing. Returns the number removed.
+   */
+  async cleanupAbandonedSessions(): Promise<number> {
+    const cutoff = Date.now() - SESSION_TTL_HOURS * 60 * 60 * 1000;
+    let removed = 0;
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.tmpDir);
+    } catch {
+      return 0;
+    }
+
+    for (const entry of entries) {
+      const match = /^session-(.+)\.part$/.exec(entry);
+      if (!match) continue;
+
+      const id = match[1];
+      if (this.activeWrites.has(id)) continue;
+
+      try {
+        const session = await this.get(id);
+        const lastActivity = session
+          ? session.updatedAt.getTime()
+          : (await fs.stat(this.partPath(id))).mtimeMs;
+
+        if (lastActivity < cutoff) {
+          await this.remove(id);
+          removed++;
+        }
+      } catch {
+        // Skip sessions that vanished mid-scan
+      }
+    }
+
+    return removed;
+  }
+
+  private partPath(id: string): string {
+    return join(this.tmpDir, `session-${id}.part`);
+  }
+
+  private sessionPath(id: string): string {
+    return join(this.tmpDir, `session-${id}.json`);
+  }
+
+  private async writeSession(session: UploadSession): Promise<void> {
+    await fs.writeFile(this.sessionPath(session.id), JSON.stringify(session, null, 2), 'utf8');
+  }
+}
+
+export const uploadSessionManager = new UploadSessionManager();
@@ -1,11 +1,18 @@
 import { StorageManager } from './StorageManager';
-import { FileRepository, CreateFileData, UpdateFileData, DownloadLogData } from '../database/models/File';
+import { FileRepository, CreateFileData, UpdateFileData, DownloadLogData, DownloadLog, FileSearchOptions } from '../database/models/File';
 import { FileMetadata } from '../types';
 import { config } from '../config/config';
 import { v4 as uuidv4 } from 'uuid';
-import { createReadStream, ReadStream } from 'fs';
-import { join } from 'path';
+import { Readable } from 'stream';
+import { StorageRange } from './interfaces';
 import { MetadataEncryption, FileMetadataToEncrypt } from '../services/MetadataEncryption';
+import { OwnerToken } from '../services/OwnerToken';
+
+export interface DownloadReservation {
+  metadata: FileMetadata;
+  downloadId: string | null;
+  resumeToken: string | null; // plaintext, for the client only
+}
 
 export class FileManagerV2 {
   private storageManager: StorageManager;
@@ -31,7 +38,8 @@ export class FileManagerV2 {
     retentionHours: number = config.retention.defaultRetentionHours,
     maxDownloads?: number,
     uploaderIP?: string,
-    userAgent?: string
+    userAgent?: string,
+    ownerTokenHash?: string
   ): Promise<FileMetadata> {
     const fileId = uuidv4();
     const expiresAt = new Date(Date.now() + (retentionHours * 60 * 60 * 1000));
@@ -73,7 +81,8 @@ export class FileManagerV2 {
       storageProvider: config.storage.provider,
       expiresAt,
       maxDownloads,
-      encryptedMetadata: serializedMetadata // Store encrypted metadata
+      encryptedMetadata: serializedMetadata, // Store encrypted metadata
+      ownerTokenHash
     };
 
     const fileMetadata = await this.fileRepository.create(createData);
@@ -95,7 +104,8 @@ export class FileManagerV2 {
     retentionHours: number = config.retention.defaultRetentionHours,
     maxDownloads?: number,
     uploaderIP?: string,
-    userAgent?: string
+    userAgent?: string,
+    ownerTokenHash?: string
   ): Promise<FileMetadata> {
     const fileId = uuidv4();
     const expiresAt = new Date(Date.now() + (retentionHours * 60 * 60 * 1000));
@@ -134,7 +144,8 @@ export class FileManagerV2 {
       storageProvider: config.storage.provider,
       expiresAt,
       maxDownloads,
-      encryptedMetadata: serializedMetadata
+      encryptedMetadata: serializedMetadata,
+      ownerTokenHash
     };
 
     const fileMetadata = await this.fileRepository.create(createData);
@@ -150,6 +161,37 @@ export class FileManagerV2 {
     return this.fileRepository.findById(fileId);
   }
 
+  /**
+   * Get file metadata if `ownerToken` is the token issued at upload
+   */
+  async getOwnedMetadata(fileId: string, ownerToken: string): Promise<FileMetadata | null> {
+    const metadata = await this.fileRepository.findById(fileId);
+    if (!metadata || !OwnerToken.verify(ownerToken, metadata.ownerTokenHash)) {
+      return null;
+    }
+    return metadata;
+  }
+
+  /**
+   * Tighten a file's limits. Lowering maxDownloads to or below the number of
+   * downloads already served deactivates the file.
+   */
+  async updateFileLimits(
+    fileId: string,
+    limits: { expiresAt?: Date; maxDownloads?: number }
+  ): Promise<FileMetadata | null> {
+    const data: UpdateFileData = { ...limits };
+
+    if (limits.maxDownloads !== undefined) {
+      const metadata = await this.fileRepository.findById(fileId);
+      if (metadata && metadata.downloadCount >= limits.maxDownloads) {
+        data.isActive = false;
+      }
+    }
+
+    return this.fileRepository.update(fileId, data);
+  }
+
   /**
    * Get decrypted file metadata by ID
    */
@@ -197,24 +239,19 @@ export class FileManagerV2 {
   }
 
   /**
-   * Get file stream by ID for efficient large file downloads
+   * Get file stream by ID for efficient large file downloads.
+   * Works for every storage provider; pass a range to read part of the file.
+   * Does not check availability: a file whose last slot was just reserved is
+   * already inactive but must still be served.
    */
-  async getFileStream(fileId: string): Promise<ReadStream | null> {
-    const metadata = await this.fileRepository.findActiveById(fileId);
+  async getFileStream(fileId: string, range?: StorageRange): Promise<Readable | null> {
+    const metadata = await this.fileRepository.findById(fileId);
     if (!metadata || !metadata.storagePath) {
       return null;
     }
 
     try {
-      // For local storage, create a read stream directly
-      if (config.storage.provider === 'local' && config.storage.local) {
-        const fullPath = join(config.storage.local.path, metadata.storagePath);
-        return createReadStream(fullPath);
-      }
-
-      // For other storage providers, we'd need to implement streaming
-      // For now, return null to fall back to buffer method
-      return null;
+      return await this.storageManager.retrieveStream(metadata.storagePath, range);
     } catch (error: any) {
       console.error(`Error creating file stream for ${fileId}:`, error);
       return null;
@@ -229,29 +266,110 @@ export class FileManagerV2 {
   }
 
   /**
-   * Increment download counter and log download
+   * Claim a download slot and log the download. Returns null if no slot is
+   * left; see FileRepository.reserveDownloadSlot. The reservation carries a
+   * resume token for the client that took the slot, or null if the download
+   * couldn't be logged.
    */
-  async incrementDownloadCount(
+  async reserveDownloadSlot(
     fileId: string,
     ipAddress?: string | null,
     userAgent?: string | null
-  ): Promise<FileMetadata | null> {
+  ): Promise<DownloadReservation | null> {
+    const metadata = await this.fileRepository.reserveDownloadSlot(fileId);
+    if (!metadata) {
+      return null;
+    }
+
     // Log the download
+    const resumeToken = OwnerToken.generate();
     const logData: DownloadLogData = {
       fileId,
       ipAddress: ipAddress || undefined,
       userAgent: userAgent || undefined,
-      success: true
+      success: true,
+      resumeTokenHash: OwnerToken.hash(resumeToken)
     };
-    
+
+    let reservation: DownloadReservation = { metadata, downloadId: null, resumeToken: null };
     try {
-      await this.fileRepository.logDownload(logData);
+      const downloadId = await this.fileRepository.logDownload(logData);
+      reservation = { metadata, downloadId, resumeToken };
     } catch (error) {
       console.error(`Error logging download for ${fileId}:`, error);
     }
 
-    // Increment counter
-    return this.fileRepository.incrementDownloadCount(fileId);
+    if (!metadata.isActive) {
+      console.log(`🔥 Last download slot taken, file deactivated: ${fileId}`);
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Continue a download with the resume token its last response handed out.
+   * The token is single-use: on success it is replaced by the returned one.
+   * Returns null if the token is unknown, spent, too old, or `start` asks for
+   * bytes already sent; see FileRepository.claimResume.
+   */
+  async resumeDownload(
+    fileId: string,
+    resumeToken: string,
+    start: number,
+    slackBytes: number,
+    windowMinutes: number
+  ): Promise<{ downloadId: string; resumeToken: string } | null> {
+    const nextToken = OwnerToken.generate();
+    const downloadId = await this.fileRepository.claimResume(
+      fileId,
+      OwnerToken.hash(resumeToken),
+      OwnerToken.hash(nextToken),
+      start,
+      slackBytes,
+      windowMinutes
+    );
+    return downloadId ? { downloadId, resumeToken: nextToken } : null;
+  }
+
+  /**
+   * Record where a download's response stopped, so it can resume from there
+   */
+  async recordResumeOffset(downloadId: string, offset: number): Promise<void> {
+    try {
+      await this.fileRepository.setResumeOffset(downloadId, offset);
+    } catch (error) {
+      console.error(`Error recording resume offset for download ${downloadId}:`, error);
+    }
+  }
+
+  /**
+   * Stop a download from being resumed, e.g. after its slot was given back
+   */
+  async revokeResume(downloadId: string): Promise<void> {
+    try {
+      await this.fileRepository.revokeResume(downloadId);
+    } catch (error) {
+      console.error(`Error revoking resume for download ${downloadId}:`, error);
+    }
+  }
+
+  /**
+   * Return a reserved download slot after the download failed server-side,
+   * and log the failure
+   */
+  async releaseDownloadSlot(
+    fileId: string,
+    errorMessage: string,
+    ipAddress?: string | null,
+    userAgent?: string | null
+  ): Promise<void> {
+    try {
+      await this.fileRepository.releaseDownloadSlot(fileId);
+    } catch (error) {
+      console.error(`Error releasing download slot for ${fileId}:`, error);
+    }
+
+    await this.logDownloadError(fileId, errorMessage, ipAddress, userAgent);
   }
 
   /**
@@ -291,8 +409,9 @@ export class FileManagerV2 {
       // Remove from storage
       await this.storageManager.delete(metadata.storagePath);
       
-      // Mark as inactive in database
-      await this.fileRepository.update(fileId, { isActive: false });
+      // Mark as inactive and expired, so a download slot released later
+      // can't bring the record back
+      await this.fileRepository.update(fileId, { isActive: false, expiresAt: new Date() });
       
       console.log(`🗑️ File deleted: ${fileId} (${metadata.filename})`);
       return true;
@@ -302,6 +421,65 @@ export class FileManagerV2 {
     }
   }
 
+  /**
+   * Filtered, paginated listing for the admin panel
+   */
+  async searchFiles(options: FileSearchOptions): Promise<{ files: FileMetadata[]; total: number }> {
+    return this.fileRepository.search(options);
+  }
+
+  async getDownloadLogs(fileId: string, limit?: number): Promise<DownloadLog[]> {
+    return this.fileRepository.findDownloadLogs(fileId, limit);
+  }
+
+  /**
+   * End a file's life now: it stops being served and its stored bytes are
+   * removed, but the record stays for the cleanup sweep
+   */
+  async expireFile(fileId: string): Promise<FileMetadata | null> {
+    const metadata = await this.fileRepository.findById(fileId);
+    if (!metadata) {
+      return null;
+    }
+
+    const updated = await this.fileRepository.update(fileId, { isActive: false, expiresAt: new Date() });
+    if (metadata.storagePath) {
+      try {
+        await this.storageManager.delete(metadata.storagePath);
+      } catch (error: any) {
+        console.error(`Error removing expired file from storage ${fileId}:`, error);
+      }
+    }
+
+    console.log(`⏹️ File expired by admin: ${fileId}`);
+    return updated;
+  }
+
+  /**
+   * Remove a file's stored bytes, record and download logs
+   */
+  async hardDeleteFile(fileId: string): Promise<boolean> {
+    const metadata = await this.fileRepository.findById(fileId);
+    if (!metadata) {
+      return false;
+    }
+
+    if (metadata.storagePath) {
+      try {
+        await this.storageManager.delete(metadata.storagePath);
+      } catch (error: any) {
+        // Already gone from storage; the record still goes
+        console.error(`Error removing file from storage ${fileId}:`, error);
+      }
+    }
+
+    const deleted = await this.fileRepository.hardDelete(fileId);
+    if (deleted) {
+      console.log(`🗑️ File hard-deleted by admin: ${fileId}`);
+    }
+    return deleted;
+  }
+
   /**
    * Cleanup expired files
    */
@@ -1,5 +1,7 @@
-import { StorageProvider, StorageProviderType, StorageConfig } from './interfaces';
+import { Readable } from 'stream';
+import { StorageProvider, StorageProviderType, StorageConfig, StorageRange } from './interfaces';
 import { LocalStorageProvider } from './providers/LocalStorageProvider';
+import { S3StorageProvider } from './providers/S3StorageProvider';
 import { config } from '../config/config';
 
 export class StorageManager {
@@ -22,9 +24,18 @@ export class StorageManager {
         this.defaultProvider = localProvider;
         break;
         
-      // TODO: Add S3, GCS, Azure providers
       case 's3':
-        throw new Error('S3 storage provider not yet implemented');
+        if (!config.storage.s3) {
+          throw new Error('S3 storage configuration is missing (set S3_BUCKET)');
+        }
+
+        const s3Provider = new S3StorageProvider();
+        await s3Provider.initialize(config.storage.s3);
+        this.providers.set('s3', s3Provider);
+        this.defaultProvider = s3Provider;
+        break;
+
+      // TODO: Add GCS, Azure providers
       case 'gcs':
         throw new Error('Google Cloud Storage provider not yet implemented');
       case 'azure':
@@ -97,6 +108,10 @@ export class StorageManager {
     return this.defaultProvider.retrieve(storagePath);
   }
 
+  async retrieveStream(storagePath: string, range?: StorageRange): Promise<Readable> {
+    return this.defaultProvider.retrieveStream(storagePath, range);
+  }
+
   async delete(storagePath: string): Promise<void> {
     return this.defaultProvider.delete(storagePath);
   }
@@ -1,8 +1,10 @@
-import { promises as fs } from 'fs';
+import { promises as fs, createReadStream } from 'fs';
 import { join } from 'path';
+import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 import { FileMetadata } from '../types';
 import { config } from '../config/config';
+import { StorageRange } from './interfaces';
 
 export class FileManager {
   private static readonly METADATA_EXT = '.meta';
@@ -60,8 +62,8 @@ export class FileManager {
    * Store an encrypted file from an existing path (e.g. multer's diskStorage
    * temp file). Avoids buffering the upload in RAM. Source file is consumed
    * on success via rename (with cross-fs copy+unlink fallback).
-   * Extra V2-only parameters (maxDownloads/uploaderIP/userAgent) are accepted
-   * for signature compatibility but not stored by this legacy provider.
+   * Extra V2-only parameters (maxDownloads/uploaderIP/userAgent/ownerTokenHash)
+   * are accepted for signature compatibility but not stored by this legacy provider.
    */
   async storeFileFromPath(
     sourcePath: string,
@@ -71,7 +73,8 @@ export class FileManager {
     retentionHours?: number,
     _maxDownloads?: number,
     _uploaderIP?: string,
-    _userAgent?: string
+    _userAgent?: string,
+    _ownerTokenHash?: string
   ): Promise<FileMetadata> {
     const fileId = uuidv4();
     const uploadDate = new Date();
@@ -139,6 +142,20 @@ export class FileManager {
     }
   }
 
+  /**
+   * Open a read stream over the encrypted file data, optionally limited to
+   * an inclusive byte range
+   */
+  async getFileStream(fileId: string, range?: StorageRange): Promise<Readable | null> {
+    const filePath = join(this.uploadDir, fileId);
+    try {
+      await fs.access(filePath);
+    } catch {
+      return null;
+    }
+    return createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
   /**
    * Check if file exists and is not expired
    */
@@ -1,3 +1,5 @@
+import { Readable } from 'stream';
+
 export interface StorageProvider {
   readonly name: string;
   readonly type: StorageProviderType;
@@ -24,6 +26,13 @@ export interface StorageProvider {
    * Retrieve a file by its storage path
    */
   retrieve(storagePath: string): Promise<Buffer>;
+
+  /**
+   * Open a readable stream over a stored file, optionally limited to a byte
+   * range. Lets callers pipe large files to a response without buffering
+   * them. Rejects with "File not found" if nothing is stored at the path.
+   */
+  retrieveStream(storagePath: string, range?: StorageRange): Promise<Readable>;
   
   /**
    * Delete a file by its storage path
@@ -70,6 +79,7 @@ export interface S3StorageConfig extends StorageConfig {
   secretAccessKey: string;
   endpoint?: string;
   prefix?: string;
+  forcePathStyle?: boolean;
 }
 
 export interface GCSStorageConfig extends StorageConfig {
@@ -93,6 +103,15 @@ export interface StorageMetadata {
   expiresAt?: Date;
 }
 
+/**
+ * Byte range within a stored file. `end` is inclusive (HTTP Range
+ * semantics) and defaults to the last byte of the file.
+ */
+export interface StorageRange {
+  start: number;
+  end?: number;
+}
+
 export interface StorageStats {
   size: number;
   lastModified: Date;
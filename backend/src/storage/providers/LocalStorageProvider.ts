@@ -1,11 +1,13 @@
-import { promises as fs } from 'fs';
+import { promises as fs, createReadStream } from 'fs';
 import { join, dirname } from 'path';
+import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 import {
   StorageProvider,
   StorageProviderType,
   LocalStorageConfig,
   StorageMetadata,
+  StorageRange,
   StorageStats,
   ProviderHealth
 } from '../interfaces';
@@ -151,6 +153,27 @@ export class LocalStorageProvider implements StorageProvider {
     }
   }
 
+  async retrieveStream(storagePath: string, range?: StorageRange): Promise<Readable> {
+    if (!this.config) {
+      throw new Error('Storage provider not initialized');
+    }
+
+    const fullPath = join(this.basePath, storagePath);
+
+    // createReadStream only reports ENOENT asynchronously via 'error', which
+    // would surface after response headers are sent. Check up front instead.
+    try {
+      await fs.access(fullPath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`File not found: ${storagePath}`);
+      }
+      throw error;
+    }
+
+    return createReadStream(fullPath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
   async delete(storagePath: string): Promise<void> {
     if (!this.config) {
       throw new Error('Storage provider not initialized');
@@ -0,0 +1,302 @@
+import { createReadStream, promises as fs } from 'fs';
+import { posix } from 'path';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  HeadBucketCommand
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import {
+  StorageProvider,
+  StorageProviderType,
+  S3StorageConfig,
+  StorageMetadata,
+  StorageRange,
+  StorageStats,
+  ProviderHealth
+} from '../interfaces';
+
+// S3 requires every part except the last to be at least 5 MiB. 8 MiB parts
+// keep a 4 GB upload well under the 10,000-part limit.
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+const MULTIPART_QUEUE_SIZE = 4;
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3';
+  readonly type: StorageProviderType = 's3';
+
+  private config!: S3StorageConfig;
+  private client!: S3Client;
+
+  async initialize(config: S3StorageConfig): Promise<void> {
+    if (!config.bucket) {
+      throw new Error('S3 storage configuration is missing a bucket');
+    }
+    if (!config.accessKeyId || !config.secretAccessKey) {
+      throw new Error('S3 storage configuration is missing credentials');
+    }
+
+    this.config = {
+      ...config,
+      // Custom endpoints (MinIO, Ceph, R2, ...) generally don't support
+      // virtual-hosted-style bucket addressing. Applied after the spread,
+      // since the env config always carries the key, set or not.
+      forcePathStyle: config.forcePathStyle ?? !!config.endpoint,
+      prefix: this.normalizePrefix(config.prefix)
+    };
+
+    this.client = new S3Client({
+      region: this.config.region,
+      endpoint: this.config.endpoint,
+      forcePathStyle: this.config.forcePathStyle,
+      credentials: {
+        accessKeyId: this.config.accessKeyId,
+        secretAccessKey: this.config.secretAccessKey
+      }
+    });
+
+    // Fail fast on a wrong bucket or bad credentials rather than on first upload
+    await this.client.send(new HeadBucketCommand({ Bucket: this.config.bucket }));
+  }
+
+  async store(data: Buffer, filename: string, metadata?: StorageMetadata): Promise<string> {
+    if (!this.client) {
+      throw new Error('Storage provider not initialized');
+    }
+
+    const storagePath = this.generateStoragePath(filename, metadata);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(storagePath),
+      Body: data,
+      ContentLength: data.length,
+      ContentType: 'application/octet-stream',
+      Metadata: this.toObjectMetadata(metadata)
+    }));
+
+    return storagePath;
+  }
+
+  async storeFromPath(sourcePath: string, filename: string, metadata?: StorageMetadata): Promise<string> {
+    if (!this.client) {
+      throw new Error('Storage provider not initialized');
+    }
+
+    const storagePath = this.generateStoragePath(filename, metadata);
+
+    // Multipart upload streamed straight from the temp file, so memory stays
+    // at roughly partSize * queueSize regardless of the upload size.
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.config.bucket,
+        Key: this.objectKey(storagePath),
+        Body: createReadStream(sourcePath),
+        ContentType: 'application/octet-stream',
+        Metadata: this.toObjectMetadata(metadata)
+      },
+      partSize: MULTIPART_PART_SIZE,
+      queueSize: MULTIPART_QUEUE_SIZE,
+      leavePartsOnError: false
+    });
+
+    await upload.done();
+
+    // The source is consumed on success, matching LocalStorageProvider's rename
+    await fs.unlink(sourcePath);
+
+    return storagePath;
+  }
+
+  async retrieve(storagePath: string): Promise<Buffer> {
+    if (!this.client) {
+      throw new Error('Storage provider not initialized');
+    }
+
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(storagePath)
+      }));
+
+      if (!result.Body) {
+        throw new Error(`Empty response body for: ${storagePath}`);
+      }
+
+      return Buffer.from(await result.Body.transformToByteArray());
+    } catch (error: any) {
+      if (this.isNotFound(error)) {
+        throw new Error(`File not found: ${storagePath}`);
+      }
+      throw error;
+    }
+  }
+
+  async retrieveStream(storagePath: string, range?: StorageRange): Promise<Readable> {
+    if (!this.client) {
+      throw new Error('Storage provider not initialized');
+    }
+
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(storagePath),
+        Range: range ? `bytes=${range.start}-${range.end ?? ''}` : undefined
+      }));
+
+      if (!result.Body) {
+        throw new Error(`Empty response body for: ${storagePath}`);
+      }
+
+      // In Node the SDK hands back an IncomingMessage, which is a Readable
+      return result.Body as Readable;
+    } catch (error: any) {
+      if (this.isNotFound(error)) {
+        throw new Error(`File not found: ${storagePath}`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(storagePath: string): Promise<void> {
+    if (!this.client) {
+      throw new Error('Storage provider not initialized');
+    }
+
+    // DeleteObject is idempotent — deleting a missing key is not an error
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(storagePath)
+    }));
+  }
+
+  async exists(storagePath: string): Promise<boolean> {
+    if (!this.client) {
+      throw new Error('Storage provider not initialized');
+    }
+
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(storagePath)
+      }));
+      return true;
+    } catch (error: any) {
+      if (this.isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getStats(storagePath: string): Promise<StorageStats> {
+    if (!this.client) {
+      throw new Error('Storage provider not initialized');
+    }
+
+    try {
+      const head = await this.client.send(new HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(storagePath)
+      }));
+      return {
+        size: head.ContentLength ?? 0,
+        lastModified: head.LastModified ?? new Date(0),
+        exists: true
+      };
+    } catch (error: any) {
+      if (this.isNotFound(error)) {
+        return {
+          size: 0,
+          lastModified: new Date(0),
+          exists: false
+        };
+      }
+      throw error;
+    }
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    const startTime = Date.now();
+
+    try {
+      if (!this.client) {
+        return {
+          status: 'unhealthy',
+          message: 'Storage provider not initialized',
+          lastCheck: new Date()
+        };
+      }
+
+      await this.client.send(new HeadBucketCommand({ Bucket: this.config.bucket }));
+
+      return {
+        status: 'healthy',
+        responseTime: Date.now() - startTime,
+        lastCheck: new Date()
+      };
+    } catch (error: any) {
+      return {
+        status: 'unhealthy',
+        message: error.message,
+        responseTime: Date.now() - startTime,
+        lastCheck: new Date()
+      };
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    // Release the SDK's keep-alive sockets
+    if (this.client) {
+      this.client.destroy();
+    }
+  }
+
+  private generateStoragePath(filename: string, metadata?: StorageMetadata): string {
+    // Same layout as LocalStorageProvider so paths stay provider-agnostic
+    const fileId = metadata?.fileId || uuidv4();
+    const id = fileId.replace(/-/g, '');
+    const safeFilename = this.sanitizeFilename(filename);
+    return posix.join(id.slice(0, 2), id.slice(2, 4), `${fileId}-${safeFilename}`);
+  }
+
+  private objectKey(storagePath: string): string {
+    return `${this.config.prefix}${storagePath}`;
+  }
+
+  private normalizePrefix(prefix?: string): string {
+    if (!prefix) return '';
+    const trimmed = prefix.replace(/^\/+/, '');
+    return trimmed === '' || trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+  }
+
+  private sanitizeFilename(filename: string): string {
+    return filename
+      .replace(/[<>:"/\\|?*]/g, '_')
+      .replace(/\s+/g, '_')
+      .slice(0, 100);
+  }
+
+  private toObjectMetadata(metadata?: StorageMetadata): Record<string, string> | undefined {
+    if (!metadata) return undefined;
+
+    // S3 user metadata travels as x-amz-meta-* headers: ASCII strings only
+    const result: Record<string, string> = {};
+    if (metadata.fileId) result['file-id'] = metadata.fileId;
+    if (metadata.uploadDate) result['upload-date'] = metadata.uploadDate.toISOString();
+    if (metadata.expiresAt) result['expires-at'] = metadata.expiresAt.toISOString();
+    return result;
+  }
+
+  private isNotFound(error: any): boolean {
+    return error?.name === 'NoSuchKey' ||
+      error?.name === 'NotFound' ||
+      error?.$metadata?.httpStatusCode === 404;
+  }
+}
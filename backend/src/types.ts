@@ -15,12 +15,14 @@ export interface FileMetadata {
   createdAt?: Date;
   updatedAt?: Date;
   encryptedMetadata?: string; // Base64 encoded encrypted metadata (Wormhole-inspired)
+  ownerTokenHash?: string; // Never returned to clients
 }
 
 export interface UploadResponse {
   id: string;
   downloadUrl: string;
   expiresAt: string;
+  ownerToken?: string; // Shown once; manages the file via /api/files/:id
 }
 
 export interface DownloadResponse {
@@ -3,6 +3,8 @@ import Layout from './components/Layout'
 import Upload from './components/Upload'
 import Download from './components/Download'
 import Admin from './components/Admin'
+import MyUploads from './components/MyUploads'
+import Keys from './components/Keys'
 
 function App() {
   return (
@@ -10,6 +12,8 @@ function App() {
       <Routes>
         <Route path="/" element={<Upload />} />
         <Route path="/download/:id" element={<Download />} />
+        <Route path="/uploads" element={<MyUploads />} />
+        <Route path="/keys" element={<Keys />} />
         <Route path="/admin" element={<Admin />} />
       </Routes>
     </Layout>
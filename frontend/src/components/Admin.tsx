@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react'
-import { Trash2, RefreshCw, HardDrive, Clock, FileText, AlertTriangle, LogOut, Save, Shield } from 'lucide-react'
+import { Trash2, RefreshCw, HardDrive, Clock, FileText, AlertTriangle, LogOut, Save, Shield, History, RotateCcw } from 'lucide-react'
 import axios from 'axios'
 import AdminLogin from './AdminLogin'
+import AdminFiles from './AdminFiles'
+import AdminBans from './AdminBans'
 
 interface Stats {
   totalFiles: number
@@ -28,6 +30,22 @@ interface Config {
     maxRequests: number
   }
   maxFileSize: number
+  persisted: boolean
+  version: number | null
+  updatedAt: string | null
+  updatedBy: string | null
+}
+
+interface ConfigVersion {
+  version: number
+  settings: {
+    retention: { defaultRetentionHours: number; maxRetentionHours: number; maxFileSize: number; allowedExtensions: string[] | null }
+    rateLimiting: { windowMs: number; maxRequests: number }
+  }
+  changedByUsername?: string
+  comment?: string
+  rolledBackFrom?: number
+  createdAt: string
 }
 
 interface SecuritySummary {
@@ -38,6 +56,12 @@ interface SecuritySummary {
   bans: { permanent: number; temporary: number; total: number }
 }
 
+interface Account {
+  username: string
+  role: string
+  permissions: string[]
+}
+
 const Admin: React.FC = () => {
   const [stats, setStats] = useState<Stats | null>(null)
   const [config, setConfig] = useState<Config | null>(null)
@@ -46,6 +70,7 @@ const Admin: React.FC = () => {
   const [cleanupLoading, setCleanupLoading] = useState(false)
   const [authChecked, setAuthChecked] = useState(false)
   const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [account, setAccount] = useState<Account | null>(null)
   const [cleanupResult, setCleanupResult] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
 
@@ -53,14 +78,21 @@ const Admin: React.FC = () => {
     defaultRetentionHours: 24,
     maxRetentionHours: 168,
     maxFileSize: 4294967296,
+    allowedExtensions: '',
+    rateWindowMinutes: 15,
+    rateMaxRequests: 100,
+    comment: '',
   })
+  const [history, setHistory] = useState<ConfigVersion[] | null>(null)
+  const [rollingBack, setRollingBack] = useState<number | null>(null)
   const [configSaving, setConfigSaving] = useState(false)
   const [configSaved, setConfigSaved] = useState(false)
 
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        await axios.get('/api/admin/auth/me')
+        const response = await axios.get('/api/admin/auth/me')
+        setAccount(response.data.user)
         setIsAuthenticated(true)
       } catch {
         setIsAuthenticated(false)
@@ -75,18 +107,25 @@ const Admin: React.FC = () => {
     setLoading(true)
     setError(null)
     try {
-      const [statsResponse, configResponse, securityResponse] = await Promise.all([
+      const [statsResponse, configResponse, securityResponse, historyResponse] = await Promise.all([
         axios.get('/api/admin/stats'),
         axios.get('/api/admin/config'),
         axios.get('/api/admin/security-summary').catch(() => null),
+        axios.get('/api/admin/config/history?limit=20').catch(() => null),
       ])
       setStats(statsResponse.data)
       setConfig(configResponse.data)
       if (securityResponse?.data) setSecurity(securityResponse.data)
+      setHistory(historyResponse?.data?.versions ?? null)
+      const { retention, rateLimiting } = configResponse.data
       setConfigForm({
-        defaultRetentionHours: configResponse.data.retention.defaultRetentionHours,
-        maxRetentionHours: configResponse.data.retention.maxRetentionHours,
-        maxFileSize: configResponse.data.retention.maxFileSize,
+        defaultRetentionHours: retention.defaultRetentionHours,
+        maxRetentionHours: retention.maxRetentionHours,
+        maxFileSize: retention.maxFileSize,
+        allowedExtensions: (retention.allowedExtensions ?? []).join(', '),
+        rateWindowMinutes: rateLimiting.windowMs / 60000,
+        rateMaxRequests: rateLimiting.maxRequests,
+        comment: '',
       })
     } catch (err) {
       const errorMessage = axios.isAxiosError(err) ? err.response?.data?.error || 'Failed to load data' : 'Failed to load data'
@@ -96,10 +135,34 @@ const Admin: React.FC = () => {
     }
   }
 
+  // File actions change the totals but should not reset an unsaved config form
+  const refreshStats = async () => {
+    try {
+      const response = await axios.get('/api/admin/stats')
+      setStats(response.data)
+    } catch {
+      // the next full refresh will report it
+    }
+  }
+
+  const refreshSecurity = async () => {
+    try {
+      const response = await axios.get('/api/admin/security-summary')
+      setSecurity(response.data)
+    } catch {
+      // the next full refresh will report it
+    }
+  }
+
   useEffect(() => {
-    if (isAuthenticated) fetchData()
+    if (!isAuthenticated) return
+    fetchData()
+    if (!account) axios.get('/api/admin/auth/me').then(r => setAccount(r.data.user)).catch(() => {})
   }, [isAuthenticated])
 
+  // The server enforces these; the page only hides what the role can't use
+  const can = (permission: string) => account?.permissions.includes(permission) ?? false
+
   const handleCleanup = async () => {
     setCleanupLoading(true)
     setCleanupResult(null)
@@ -119,18 +182,45 @@ const Admin: React.FC = () => {
     setConfigSaving(true)
     setConfigSaved(false)
     try {
-      await axios.put('/api/admin/config', configForm)
+      const extensions = configForm.allowedExtensions.split(/[\s,]+/).filter(Boolean)
+      await axios.put('/api/admin/config', {
+        retention: {
+          defaultRetentionHours: configForm.defaultRetentionHours,
+          maxRetentionHours: configForm.maxRetentionHours,
+          maxFileSize: configForm.maxFileSize,
+          allowedExtensions: extensions.length > 0 ? extensions : null,
+        },
+        rateLimiting: {
+          windowMs: Math.round(configForm.rateWindowMinutes * 60000),
+          maxRequests: configForm.rateMaxRequests,
+        },
+        comment: configForm.comment.trim() || undefined,
+        // Refused with 409 if someone else saved since this page loaded
+        version: config?.version ?? undefined,
+      })
       setConfigSaved(true)
       await fetchData()
       setTimeout(() => setConfigSaved(false), 3000)
     } catch (err) {
-      const errorMessage = axios.isAxiosError(err) ? err.response?.data?.error || 'Failed to save configuration' : 'Failed to save configuration'
-      setError(errorMessage)
+      setError(configErrorMessage(err, 'Failed to save configuration'))
     } finally {
       setConfigSaving(false)
     }
   }
 
+  const handleRollback = async (version: number) => {
+    if (!window.confirm(`Restore the settings of version ${version}? This is saved as a new version.`)) return
+    setRollingBack(version)
+    try {
+      await axios.post('/api/admin/config/rollback', { version })
+      await fetchData()
+    } catch (err) {
+      setError(configErrorMessage(err, 'Rollback failed'))
+    } finally {
+      setRollingBack(null)
+    }
+  }
+
   const handleLogout = async () => {
     try {
       await axios.post('/api/admin/auth/logout')
@@ -190,6 +280,11 @@ const Admin: React.FC = () => {
           <p className="text-ink-soft" style={{ fontSize: 13, lineHeight: 1.65 }}>
             Files in flight, storage on disk, retention rules — all set from here.
           </p>
+          {account && (
+            <div className="folio">
+              Signed in as {account.username} <span className="chip">{account.role}</span>
+            </div>
+          )}
         </div>
         <button onClick={handleLogout} className="btn btn-ghost">
           <LogOut className="h-3.5 w-3.5" /> Sign out
@@ -255,10 +350,13 @@ const Admin: React.FC = () => {
         <p className="text-ink-soft mb-4" style={{ fontSize: 13, lineHeight: 1.6 }}>
           Cleanup runs automatically. This button forces it now — useful after a retention change.
         </p>
-        <button onClick={handleCleanup} disabled={cleanupLoading} className="btn btn-primary">
+        <button onClick={handleCleanup} disabled={cleanupLoading || !can('files:cleanup')} className="btn btn-primary">
           {cleanupLoading ? <RefreshCw className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
           {cleanupLoading ? 'Sweeping…' : 'Run sweep now'}
         </button>
+        {account && !can('files:cleanup') && (
+          <span className="folio ml-3">Your role can't run a sweep</span>
+        )}
         {cleanupResult && (
           <div className="strip strip-success mt-4">
             <span className="text-ink" style={{ fontSize: 13 }}>{cleanupResult}</span>
@@ -299,11 +397,55 @@ const Admin: React.FC = () => {
                   className="input"
                 />
               </div>
+              <div>
+                <label className="folio block mb-1.5">Allowed extensions (blank for all)</label>
+                <input
+                  type="text" placeholder="pdf, png, zip"
+                  value={configForm.allowedExtensions}
+                  onChange={e => setConfigForm(p => ({ ...p, allowedExtensions: e.target.value }))}
+                  className="input"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="folio block mb-1.5">Rate window (minutes)</label>
+                  <input
+                    type="number" min={1}
+                    value={configForm.rateWindowMinutes}
+                    onChange={e => setConfigForm(p => ({ ...p, rateWindowMinutes: parseInt(e.target.value) || 1 }))}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="folio block mb-1.5">Requests per window</label>
+                  <input
+                    type="number" min={1}
+                    value={configForm.rateMaxRequests}
+                    onChange={e => setConfigForm(p => ({ ...p, rateMaxRequests: parseInt(e.target.value) || 1 }))}
+                    className="input"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="folio block mb-1.5">Change note (optional)</label>
+                <input
+                  type="text" maxLength={500} placeholder="Why this change"
+                  value={configForm.comment}
+                  onChange={e => setConfigForm(p => ({ ...p, comment: e.target.value }))}
+                  className="input"
+                />
+              </div>
             </div>
 
             <div className="space-y-3">
               <div className="folio">Live settings</div>
               <dl className="telem">
+                <dt>Version</dt>
+                <dd>
+                  {config.version !== null ? `v${config.version}` : <span className="text-ink-faint">environment</span>}
+                  {config.updatedBy && <span className="text-ink-faint"> · {config.updatedBy}</span>}
+                  {config.updatedAt && <span className="text-ink-faint"> · {new Date(config.updatedAt).toLocaleString()}</span>}
+                </dd>
                 <dt>Cleanup cadence</dt>   <dd>{config.retention.cleanupIntervalMinutes} min</dd>
                 <dt>Rate window</dt>       <dd>{config.rateLimiting.windowMs / 60000} min</dd>
                 <dt>Rate ceiling</dt>      <dd>{config.rateLimiting.maxRequests} req</dd>
@@ -323,7 +465,7 @@ const Admin: React.FC = () => {
             </div>
           </div>
           <div className="mt-6 pt-5 border-t border-rule flex items-center gap-3">
-            <button onClick={handleConfigSave} disabled={configSaving} className="btn btn-primary">
+            <button onClick={handleConfigSave} disabled={configSaving || !can('config:update')} className="btn btn-primary">
               {configSaving ? <RefreshCw className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
               {configSaving ? 'Saving…' : 'Save configuration'}
             </button>
@@ -332,10 +474,70 @@ const Admin: React.FC = () => {
                 <span className="led led-on" /> Saved
               </span>
             )}
+            {account && !can('config:update') && (
+              <span className="folio">Read-only for your role</span>
+            )}
+            {!config.persisted && (
+              <span className="folio" style={{ color: 'var(--amber)' }}>No configuration store; settings come from the environment</span>
+            )}
+          </div>
+        </section>
+      )}
+
+      {/* Config history */}
+      {history && history.length > 0 && (
+        <section className="plate">
+          <div className="folio mb-4 flex items-center gap-2">
+            <History className="h-3.5 w-3.5" /> § 02.a′ · Configuration history
           </div>
+          <ul className="space-y-3" style={{ listStyle: 'none', paddingLeft: 0 }}>
+            {history.map(entry => {
+              const { retention, rateLimiting } = entry.settings
+              const live = entry.version === config?.version
+              return (
+                <li key={entry.version} className="flex items-start justify-between gap-4 pb-3 border-b border-rule">
+                  <div style={{ fontSize: 13 }}>
+                    <div className="text-ink">
+                      v{entry.version}
+                      {live && <span className="chip ml-2">live</span>}
+                      <span className="text-ink-faint"> · {entry.changedByUsername || 'unknown'} · {new Date(entry.createdAt).toLocaleString()}</span>
+                    </div>
+                    <div className="text-ink-soft font-mono" style={{ fontSize: 12 }}>
+                      {retention.defaultRetentionHours}h default · {retention.maxRetentionHours}h max · {formatFileSize(retention.maxFileSize)}
+                      {' · '}{retention.allowedExtensions ? retention.allowedExtensions.join(' ') : 'all types'}
+                      {' · '}{rateLimiting.maxRequests} req / {rateLimiting.windowMs / 60000} min
+                    </div>
+                    {entry.comment && (
+                      <div className="text-ink-faint" style={{ fontSize: 12 }}>
+                        {entry.comment}
+                      </div>
+                    )}
+                  </div>
+                  {!live && can('config:update') && (
+                    <button
+                      onClick={() => handleRollback(entry.version)}
+                      disabled={rollingBack !== null}
+                      className="btn btn-secondary btn-sm flex-shrink-0"
+                    >
+                      {rollingBack === entry.version ? <RefreshCw className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                      Restore
+                    </button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
         </section>
       )}
 
+      {can('files:view') && (
+        <AdminFiles canManage={can('files:manage')} formatFileSize={formatFileSize} onChanged={refreshStats} />
+      )}
+
+      {can('bans:view') && (
+        <AdminBans canManage={can('bans:manage')} onChanged={refreshSecurity} />
+      )}
+
       {/* System */}
       <section className="plate">
         <div className="folio mb-4">§ 02.b · House rules</div>
@@ -343,13 +545,21 @@ const Admin: React.FC = () => {
           <li>· Files are auto-purged on the retention schedule.</li>
           <li>· Uploads are rate-limited to discourage abuse.</li>
           <li>· The server never holds decryption keys.</li>
-          <li>· Configuration changes apply immediately.</li>
+          <li>· Configuration changes are versioned and apply to every server immediately.</li>
         </ul>
       </section>
     </div>
   )
 }
 
+// Validation failures come back with one message per problem
+function configErrorMessage(err: unknown, fallback: string): string {
+  if (!axios.isAxiosError(err)) return fallback
+  const data = err.response?.data
+  if (!data?.error) return fallback
+  return data.details?.length ? `${data.error}: ${data.details.join('; ')}` : data.error
+}
+
 interface StatPlateProps {
   icon: React.ReactNode
   label: string
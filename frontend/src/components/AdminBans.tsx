@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Ban, RefreshCw, ChevronLeft, ChevronRight, Unlock, Lock } from 'lucide-react'
+import axios from 'axios'
+
+interface BanEntry {
+  id: string
+  ip: string
+  banType: 'permanent' | 'temporary'
+  reason: string
+  category: string
+  offendingRequest: string
+  country?: string
+  bannedAt: string
+  expiresAt?: string
+  isActive: boolean
+  bannedBy?: string
+}
+
+interface BanForm {
+  ip: string
+  reason: string
+  // Minutes as text so the field can be blank; blank means permanent
+  durationMinutes: string
+}
+
+interface AdminBansProps {
+  canManage: boolean
+  // Called after an action changes the ban counts on the defenses plate
+  onChanged: () => void
+}
+
+const PAGE_SIZE = 25
+
+const EMPTY_FORM: BanForm = { ip: '', reason: '', durationMinutes: '' }
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || fallback : fallback
+
+const AdminBans: React.FC<AdminBansProps> = ({ canManage, onChanged }) => {
+  const [status, setStatus] = useState<'active' | 'inactive' | 'all'>('active')
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [bans, setBans] = useState<BanEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [totalPages, setTotalPages] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState<BanForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await axios.get('/api/admin/bans', {
+        params: { status, search: search || undefined, page, pageSize: PAGE_SIZE },
+      })
+      setBans(response.data.bans)
+      setTotal(response.data.total)
+      setTotalPages(response.data.totalPages)
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load bans'))
+    } finally {
+      setLoading(false)
+    }
+  }, [status, search, page])
+
+  useEffect(() => { load() }, [load])
+
+  const handleBan = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const minutes = form.durationMinutes.trim()
+    if (minutes && !/^\d+$/.test(minutes)) {
+      setError('Duration must be a whole number of minutes, or blank for permanent')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      await axios.post('/api/admin/bans', {
+        ip: form.ip.trim(),
+        reason: form.reason.trim(),
+        ...(minutes ? { durationMinutes: parseInt(minutes) } : {}),
+      })
+      setForm(EMPTY_FORM)
+      await load()
+      onChanged()
+    } catch (err) {
+      setError(errorMessage(err, 'Ban failed'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const act = async (ban: BanEntry, action: () => Promise<unknown>, fallback: string) => {
+    setBusyId(ban.id)
+    setError(null)
+    try {
+      await action()
+      await load()
+      onChanged()
+    } catch (err) {
+      setError(errorMessage(err, fallback))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleUnban = (ban: BanEntry) => {
+    if (!window.confirm(`Lift the ban on ${ban.ip}?`)) return
+    act(ban, () => axios.delete(`/api/admin/bans/${ban.id}`), 'Unban failed')
+  }
+
+  const handleMakePermanent = (ban: BanEntry) => {
+    if (!window.confirm(`Make the ban on ${ban.ip} permanent?`)) return
+    act(ban, () => axios.post(`/api/admin/bans/${ban.id}/permanent`), 'Update failed')
+  }
+
+  return (
+    <section className="plate">
+      <div className="folio mb-4 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2">
+          <Ban className="h-3.5 w-3.5" /> § 02.d · Bans
+        </span>
+        <button onClick={load} disabled={loading} className="btn btn-ghost btn-sm">
+          <RefreshCw className={`h-3 w-3 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </button>
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleBan} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-5 items-end">
+          <div>
+            <label className="folio block mb-1.5">IP or CIDR</label>
+            <input type="text" required placeholder="203.0.113.7 or 203.0.113.0/24" value={form.ip}
+              onChange={e => setForm({ ...form, ip: e.target.value })} className="input" />
+          </div>
+          <div>
+            <label className="folio block mb-1.5">Reason</label>
+            <input type="text" required value={form.reason}
+              onChange={e => setForm({ ...form, reason: e.target.value })} className="input" />
+          </div>
+          <div>
+            <label className="folio block mb-1.5">Minutes (blank = permanent)</label>
+            <input type="number" min={1} value={form.durationMinutes}
+              onChange={e => setForm({ ...form, durationMinutes: e.target.value })} className="input" />
+          </div>
+          <div>
+            <button type="submit" disabled={saving} className="btn btn-primary">
+              {saving ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+              Ban
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-5">
+        <div>
+          <label className="folio block mb-1.5">Status</label>
+          <select value={status} onChange={e => { setStatus(e.target.value as typeof status); setPage(1) }} className="input">
+            <option value="active">In force</option>
+            <option value="inactive">Lifted or expired</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        <div className="md:col-span-3">
+          <label className="folio block mb-1.5">Search</label>
+          <input type="text" placeholder="IP, reason, category, country" value={search}
+            onChange={e => { setSearch(e.target.value); setPage(1) }} className="input" />
+        </div>
+      </div>
+
+      {error && (
+        <div className="strip strip-error mb-4">
+          <span className="text-ink" style={{ fontSize: 13 }}>{error}</span>
+        </div>
+      )}
+
+      <div style={{ overflowX: 'auto' }}>
+        <table className="w-full font-mono" style={{ fontSize: 12, borderCollapse: 'collapse' }}>
+          <thead>
+            <tr className="text-left border-b border-rule">
+              <th className="folio py-2 pr-3">Address</th>
+              <th className="folio py-2 pr-3">Type</th>
+              <th className="folio py-2 pr-3">Reason</th>
+              <th className="folio py-2 pr-3">Banned</th>
+              <th className="folio py-2 pr-3">Expires</th>
+              <th className="folio py-2 pr-3">By</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {bans.map(ban => (
+              <tr key={ban.id} className="border-b border-rule text-ink-soft">
+                <td className="py-2 pr-3 text-ink">{ban.ip}{ban.country && <span className="text-ink-faint"> · {ban.country}</span>}</td>
+                <td className="py-2 pr-3"><span className="chip">{ban.isActive ? ban.banType : 'lifted'}</span></td>
+                <td className="py-2 pr-3" title={ban.offendingRequest || undefined}>
+                  {ban.reason}<span className="text-ink-faint"> · {ban.category}</span>
+                </td>
+                <td className="py-2 pr-3">{new Date(ban.bannedAt).toLocaleString()}</td>
+                <td className="py-2 pr-3">{ban.expiresAt ? new Date(ban.expiresAt).toLocaleString() : '—'}</td>
+                <td className="py-2 pr-3">{ban.bannedBy || 'auto'}</td>
+                <td className="py-2">
+                  {canManage && ban.isActive && (
+                    <div className="flex items-center gap-1.5 justify-end">
+                      {ban.banType === 'temporary' && (
+                        <button onClick={() => handleMakePermanent(ban)} disabled={busyId !== null} className="btn btn-secondary btn-sm" title="Make permanent">
+                          <Lock className="h-3 w-3" />
+                        </button>
+                      )}
+                      <button onClick={() => handleUnban(ban)} disabled={busyId !== null} className="btn btn-secondary btn-sm" title="Lift ban">
+                        {busyId === ban.id ? <RefreshCw className="h-3 w-3 animate-spin" /> : <Unlock className="h-3 w-3" />}
+                      </button>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {bans.length === 0 && !loading && (
+              <tr>
+                <td colSpan={7} className="py-6 text-center text-ink-faint">No bans match</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between">
+        <span className="folio">{total.toLocaleString()} ban{total === 1 ? '' : 's'}</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setPage(p => p - 1)} disabled={page <= 1 || loading} className="btn btn-ghost btn-sm">
+            <ChevronLeft className="h-3 w-3" />
+          </button>
+          <span className="folio">Page {page} of {Math.max(totalPages, 1)}</span>
+          <button onClick={() => setPage(p => p + 1)} disabled={page >= totalPages || loading} className="btn btn-ghost btn-sm">
+            <ChevronRight className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+export default AdminBans
@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { FolderOpen, RefreshCw, ChevronLeft, ChevronRight, Clock, Trash2, TimerOff, X } from 'lucide-react'
+import axios from 'axios'
+
+interface AdminFile {
+  id: string
+  size: number
+  encryptedSize?: number
+  storageProvider?: string
+  createdAt: string
+  expiresAt: string
+  downloadCount: number
+  maxDownloads: number | null
+  isActive: boolean
+  isExpired: boolean
+  hasOwnerToken: boolean
+}
+
+interface DownloadLog {
+  id: string
+  ipAddress?: string
+  userAgent?: string
+  success: boolean
+  errorMessage?: string
+  downloadedAt: string
+}
+
+interface FileDetail extends AdminFile {
+  inStorage: boolean
+  downloadLogs: DownloadLog[]
+}
+
+interface Filters {
+  status: 'all' | 'active' | 'expired' | 'inactive'
+  expiringWithinHours: string
+  minSizeMb: string
+  provider: string
+  minDownloads: string
+  sort: 'created' | 'expires' | 'size' | 'downloads'
+}
+
+interface AdminFilesProps {
+  canManage: boolean
+  formatFileSize: (bytes: number) => string
+  // Called after an action changes what the stats plates show
+  onChanged: () => void
+}
+
+const PAGE_SIZE = 25
+
+const DEFAULT_FILTERS: Filters = {
+  status: 'active',
+  expiringWithinHours: '',
+  minSizeMb: '',
+  provider: '',
+  minDownloads: '',
+  sort: 'created',
+}
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || fallback : fallback
+
+const statusLabel = (file: AdminFile) =>
+  file.isActive ? 'live' : file.isExpired ? 'expired' : 'gone'
+
+const AdminFiles: React.FC<AdminFilesProps> = ({ canManage, formatFileSize, onChanged }) => {
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS)
+  const [page, setPage] = useState(1)
+  const [files, setFiles] = useState<AdminFile[]>([])
+  const [total, setTotal] = useState(0)
+  const [totalPages, setTotalPages] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [detail, setDetail] = useState<FileDetail | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params: Record<string, string | number> = {
+        status: filters.status,
+        sort: filters.sort,
+        page,
+        pageSize: PAGE_SIZE,
+      }
+      if (filters.expiringWithinHours) params.expiringWithinHours = filters.expiringWithinHours
+      if (filters.minSizeMb) params.minSize = Math.round(parseFloat(filters.minSizeMb) * 1024 * 1024)
+      if (filters.provider) params.provider = filters.provider
+      if (filters.minDownloads) params.minDownloads = filters.minDownloads
+
+      const response = await axios.get('/api/admin/files', { params })
+      setFiles(response.data.files)
+      setTotal(response.data.total)
+      setTotalPages(response.data.totalPages)
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load files'))
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page])
+
+  useEffect(() => { load() }, [load])
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+    setPage(1)
+  }
+
+  const openDetail = async (id: string) => {
+    try {
+      const response = await axios.get(`/api/admin/files/${id}`)
+      setDetail(response.data)
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load file'))
+    }
+  }
+
+  // Run an action on one file, then refresh the table and any open detail
+  const act = async (id: string, action: () => Promise<unknown>, fallback: string) => {
+    setBusyId(id)
+    setError(null)
+    try {
+      await action()
+      await load()
+      if (detail?.id === id) {
+        await openDetail(id).catch(() => setDetail(null))
+      }
+      onChanged()
+    } catch (err) {
+      setError(errorMessage(err, fallback))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleExpire = (file: AdminFile) => {
+    if (!window.confirm(`Expire ${file.id.slice(0, 8)} now? Its link stops working and the stored file is removed.`)) return
+    act(file.id, () => axios.post(`/api/admin/files/${file.id}/expire`), 'Expire failed')
+  }
+
+  const handleExtend = (file: AdminFile) => {
+    const answer = window.prompt('Extend by how many hours?', '24')
+    if (!answer) return
+    const hours = parseInt(answer)
+    if (!Number.isInteger(hours) || hours < 1) {
+      setError('Hours must be a positive whole number')
+      return
+    }
+    act(file.id, () => axios.post(`/api/admin/files/${file.id}/extend`, { hours }), 'Extend failed')
+  }
+
+  const handleDelete = async (file: AdminFile) => {
+    if (!window.confirm(`Delete ${file.id.slice(0, 8)} permanently? The record and its download log go too.`)) return
+    await act(file.id, () => axios.delete(`/api/admin/files/${file.id}`), 'Delete failed')
+    if (detail?.id === file.id) setDetail(null)
+  }
+
+  const actions = (file: AdminFile) => canManage && (
+    <div className="flex items-center gap-1.5 justify-end">
+      {file.isActive && (
+        <>
+          <button onClick={() => handleExtend(file)} disabled={busyId !== null} className="btn btn-secondary btn-sm" title="Extend expiry">
+            <Clock className="h-3 w-3" />
+          </button>
+          <button onClick={() => handleExpire(file)} disabled={busyId !== null} className="btn btn-secondary btn-sm" title="Expire now">
+            <TimerOff className="h-3 w-3" />
+          </button>
+        </>
+      )}
+      <button onClick={() => handleDelete(file)} disabled={busyId !== null} className="btn btn-secondary btn-sm" title="Delete permanently">
+        {busyId === file.id ? <RefreshCw className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+      </button>
+    </div>
+  )
+
+  return (
+    <section className="plate">
+      <div className="folio mb-4 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2">
+          <FolderOpen className="h-3.5 w-3.5" /> § 02.c · Files
+        </span>
+        <button onClick={load} disabled={loading} className="btn btn-ghost btn-sm">
+          <RefreshCw className={`h-3 w-3 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-5">
+        <div>
+          <label className="folio block mb-1.5">Status</label>
+          <select value={filters.status} onChange={e => setFilter('status', e.target.value as Filters['status'])} className="input">
+            <option value="all">All</option>
+            <option value="active">Live</option>
+            <option value="expired">Expired, not swept</option>
+            <option value="inactive">Gone</option>
+          </select>
+        </div>
+        <div>
+          <label className="folio block mb-1.5">Expiring within</label>
+          <select value={filters.expiringWithinHours} onChange={e => setFilter('expiringWithinHours', e.target.value)} className="input">
+            <option value="">Any time</option>
+            <option value="1">1 hour</option>
+            <option value="6">6 hours</option>
+            <option value="24">24 hours</option>
+            <option value="72">3 days</option>
+          </select>
+        </div>
+        <div>
+          <label className="folio block mb-1.5">Min size (MB)</label>
+          <input type="number" min={0} value={filters.minSizeMb} onChange={e => setFilter('minSizeMb', e.target.value)} className="input" />
+        </div>
+        <div>
+          <label className="folio block mb-1.5">Provider</label>
+          <input type="text" placeholder="local, s3" value={filters.provider} onChange={e => setFilter('provider', e.target.value.trim())} className="input" />
+        </div>
+        <div>
+          <label className="folio block mb-1.5">Min downloads</label>
+          <input type="number" min={0} value={filters.minDownloads} onChange={e => setFilter('minDownloads', e.target.value)} className="input" />
+        </div>
+        <div>
+          <label className="folio block mb-1.5">Sort by</label>
+          <select value={filters.sort} onChange={e => setFilter('sort', e.target.value as Filters['sort'])} className="input">
+            <option value="created">Newest</option>
+            <option value="expires">Expiry</option>
+            <option value="size">Size</option>
+            <option value="downloads">Downloads</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="strip strip-error mb-4">
+          <span className="text-ink" style={{ fontSize: 13 }}>{error}</span>
+        </div>
+      )}
+
+      {/* Table */}
+      <div style={{ overflowX: 'auto' }}>
+        <table className="w-full font-mono" style={{ fontSize: 12, borderCollapse: 'collapse' }}>
+          <thead>
+            <tr className="text-left border-b border-rule">
+              <th className="folio py-2 pr-3">File</th>
+              <th className="folio py-2 pr-3">Size</th>
+              <th className="folio py-2 pr-3">Uploaded</th>
+              <th className="folio py-2 pr-3">Expires</th>
+              <th className="folio py-2 pr-3">Downloads</th>
+              <th className="folio py-2 pr-3">Status</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {files.map(file => (
+              <tr key={file.id} className="border-b border-rule text-ink-soft">
+                <td className="py-2 pr-3">
+                  <button onClick={() => openDetail(file.id)} className="text-ink underline" title={file.id}>
+                    {file.id.slice(0, 8)}
+                  </button>
+                  {file.storageProvider && <span className="text-ink-faint"> · {file.storageProvider}</span>}
+                </td>
+                <td className="py-2 pr-3">{formatFileSize(file.size)}</td>
+                <td className="py-2 pr-3">{new Date(file.createdAt).toLocaleString()}</td>
+                <td className="py-2 pr-3">{new Date(file.expiresAt).toLocaleString()}</td>
+                <td className="py-2 pr-3">{file.downloadCount}{file.maxDownloads !== null && ` / ${file.maxDownloads}`}</td>
+                <td className="py-2 pr-3"><span className="chip">{statusLabel(file)}</span></td>
+                <td className="py-2">{actions(file)}</td>
+              </tr>
+            ))}
+            {files.length === 0 && !loading && (
+              <tr>
+                <td colSpan={7} className="py-6 text-center text-ink-faint">No files match these filters</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Paging */}
+      <div className="mt-4 flex items-center justify-between">
+        <span className="folio">{total.toLocaleString()} file{total === 1 ? '' : 's'}</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setPage(p => p - 1)} disabled={page <= 1 || loading} className="btn btn-ghost btn-sm">
+            <ChevronLeft className="h-3 w-3" />
+          </button>
+          <span className="folio">Page {page} of {Math.max(totalPages, 1)}</span>
+          <button onClick={() => setPage(p => p + 1)} disabled={page >= totalPages || loading} className="btn btn-ghost btn-sm">
+            <ChevronRight className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+
+      {/* Detail */}
+      {detail && (
+        <div className="mt-6 pt-5 border-t border-rule">
+          <div className="flex items-center justify-between mb-3">
+            <div className="folio">File {detail.id}</div>
+            <button onClick={() => setDetail(null)} className="btn btn-ghost btn-sm" title="Close">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+          <dl className="telem mb-4">
+            <dt>Status</dt>        <dd>{statusLabel(detail)}{!detail.inStorage && <span className="text-ink-faint"> · not in storage</span>}</dd>
+            <dt>Size</dt>          <dd>{formatFileSize(detail.size)}</dd>
+            <dt>Provider</dt>      <dd>{detail.storageProvider || '—'}</dd>
+            <dt>Uploaded</dt>      <dd>{new Date(detail.createdAt).toLocaleString()}</dd>
+            <dt>Expires</dt>       <dd>{new Date(detail.expiresAt).toLocaleString()}</dd>
+            <dt>Downloads</dt>     <dd>{detail.downloadCount}{detail.maxDownloads !== null ? ` of ${detail.maxDownloads}` : ''}</dd>
+            <dt>Owner token</dt>   <dd>{detail.hasOwnerToken ? 'issued' : 'none'}</dd>
+          </dl>
+          <div className="folio mb-2">Download log (latest {detail.downloadLogs.length})</div>
+          {detail.downloadLogs.length === 0 ? (
+            <p className="text-ink-faint" style={{ fontSize: 13 }}>No download attempts yet.</p>
+          ) : (
+            <ul className="font-mono text-ink-soft space-y-1" style={{ fontSize: 12, listStyle: 'none', paddingLeft: 0 }}>
+              {detail.downloadLogs.map(log => (
+                <li key={log.id}>
+                  <span className={log.success ? 'text-led-green' : 'text-led-red'}>{log.success ? '✓' : '✗'}</span>
+                  {' '}{new Date(log.downloadedAt).toLocaleString()}
+                  {log.ipAddress && <> · {log.ipAddress}</>}
+                  {log.errorMessage && <span className="text-ink-faint"> · {log.errorMessage}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default AdminFiles
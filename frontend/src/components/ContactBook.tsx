@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react'
+import { Users, Pencil, Trash2 } from 'lucide-react'
+import { ClientCrypto } from '../crypto/rfc8188'
+import { fingerprint } from '../crypto/identity'
+import { loadContacts, saveContact, removeContact, Contact } from '../crypto/contacts'
+
+/** Saved sender keys (see ../crypto/contacts.ts), with rename and delete. */
+const ContactBook: React.FC = () => {
+  const [contacts, setContacts] = useState<{ contact: Contact; fingerprint: string }[]>([])
+  const [editing, setEditing] = useState<string | null>(null)  // fingerprint being renamed
+  const [draftName, setDraftName] = useState('')
+
+  const refresh = async () => {
+    const loaded = loadContacts()
+    const fps = await Promise.all(loaded.map(c => fingerprint(c.pubkey)))
+    setContacts(loaded.map((contact, i) => ({ contact, fingerprint: fps[i] })))
+  }
+
+  useEffect(() => { refresh() }, [])
+
+  const handleRename = (contact: Contact) => {
+    saveContact(contact.pubkey, draftName)
+    setEditing(null)
+    refresh()
+  }
+
+  const handleRemove = (contact: Contact) => {
+    if (!window.confirm(
+      `Forget ${contact.name}? Their next link will be treated as coming from a new sender.`
+    )) return
+    removeContact(contact.pubkey)
+    refresh()
+  }
+
+  return (
+    <section className="plate">
+      <div className="folio mb-4 flex items-center gap-2">
+        <Users className="h-3.5 w-3.5" /> § 03 · Trusted senders
+      </div>
+
+      {contacts.length === 0 ? (
+        <p className="text-ink-soft" style={{ fontSize: 13 }}>
+          No saved senders. When a signed link arrives from a key you haven&apos;t seen, the
+          download page offers to save it under a name; later links from that key show the name,
+          and a different key using the same name is flagged.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {contacts.map(({ contact, fingerprint: fp }) => (
+            <div key={fp} className="flex items-center gap-3">
+              {editing === fp ? (
+                <input
+                  type="text"
+                  value={draftName}
+                  onChange={e => setDraftName(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter' && ClientCrypto.senderName(draftName)) handleRename(contact) }}
+                  maxLength={ClientCrypto.SENDER_NAME_MAX_LENGTH}
+                  autoFocus
+                  className="input flex-1"
+                />
+              ) : (
+                <div className="flex-1">
+                  <div style={{ fontSize: 14 }}>{contact.name}</div>
+                  <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+                    <span className="font-mono" style={{ color: 'var(--ember)' }}>{fp}</span>
+                    {' '}· saved {new Date(contact.addedAt).toLocaleDateString()}
+                  </div>
+                </div>
+              )}
+              {editing === fp ? (
+                <>
+                  <button
+                    onClick={() => handleRename(contact)}
+                    disabled={!ClientCrypto.senderName(draftName)}
+                    className="btn btn-secondary btn-sm"
+                  >
+                    Save
+                  </button>
+                  <button onClick={() => setEditing(null)} className="btn btn-ghost btn-sm">Cancel</button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => { setEditing(fp); setDraftName(contact.name) }}
+                    className="btn btn-ghost btn-sm"
+                    title="Rename"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  <button onClick={() => handleRemove(contact)} className="btn btn-ghost btn-sm" title="Forget">
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="folio text-ink-faint mt-4" style={{ fontSize: 10 }}>
+        Kept in this browser&apos;s storage only; nothing is sent to the server.
+      </div>
+    </section>
+  )
+}
+
+export default ContactBook
@@ -1,12 +1,182 @@
-import React, { useState, useEffect } from 'react'
-import { useParams, Navigate } from 'react-router-dom'
-import { Download as DownloadIcon, AlertCircle, CheckCircle2, Lock, KeyRound, Fingerprint, ShieldAlert } from 'lucide-react'
-import { ClientCrypto, EnvelopeMetadata } from '../crypto/rfc8188'
-import { verifyAttestation, fingerprint as computeFingerprint } from '../crypto/identity'
+import React, { useState, useEffect, useRef } from 'react'
+import { useParams, Navigate, Link } from 'react-router-dom'
+import { Download as DownloadIcon, AlertCircle, CheckCircle2, Lock, KeyRound, Fingerprint, ShieldAlert, FileText, Archive, UserCheck, UserPlus, RefreshCw, Split, ScanLine, Copy, MessageSquare } from 'lucide-react'
+import { ClientCrypto, EnvelopeMetadata, PassphraseWrap, WrongPassphraseError } from '../crypto/rfc8188'
+import { ManifestEntry, createEntryExtractor, safePathSegments } from '../crypto/archive'
+import { verifyAttestation, verifyRotation, fingerprint as computeFingerprint, loadRecipientIdentity, openSealedKey } from '../crypto/identity'
+import { assessSender, saveContact, followRotation, SenderTrust } from '../crypto/contacts'
+import { KeyShare, combineShares, sameSplit } from '../crypto/shamir'
+import jsQR from 'jsqr'
 import axios from 'axios'
 
 type AttestationStatus = 'none' | 'verifying' | 'valid' | 'invalid'
 
+// Flaky links (mobile, train Wi-Fi) drop long downloads. On a network error
+// mid-body we re-request the remainder with Range + If-Range instead of
+// starting over. Only the first request counts as a download server-side;
+// each response hands out the single-use token that lets us continue it.
+const MAX_RESUME_ATTEMPTS = 5
+
+/**
+ * Fetch the ciphertext as a stream that transparently resumes after network
+ * failures. Throws on a non-OK initial response, like a plain fetch would.
+ */
+async function fetchResumable(url: string): Promise<ReadableStream<Uint8Array>> {
+  const first = await fetch(url)
+  if (!first.ok) {
+    const errorData = await first.json().catch(() => ({}))
+    throw new Error(errorData.error || `HTTP ${first.status}: ${first.statusText}`)
+  }
+  if (!first.body) throw new Error('Response body is not available')
+
+  const etag = first.headers.get('ETag')
+  const canResume = !!etag && first.headers.get('Accept-Ranges') === 'bytes'
+  let resumeToken = first.headers.get('X-Resume-Token')
+  let reader = first.body.getReader()
+  let received = 0
+  let attempts = 0
+
+  const reconnect = async (): Promise<void> => {
+    attempts++
+    await new Promise(resolve => setTimeout(resolve, Math.min(1000 * 2 ** (attempts - 1), 15000)))
+    const res = await fetch(url, {
+      headers: { Range: `bytes=${received}-`, 'If-Range': etag!, 'X-Resume-Token': resumeToken! },
+    })
+    // 200 here means the validator no longer matches — the bytes we already
+    // passed downstream can't be trusted to line up, so give up.
+    if (res.status !== 206 || !res.body) {
+      throw new Error(`Download interrupted and could not be resumed (HTTP ${res.status})`)
+    }
+    resumeToken = res.headers.get('X-Resume-Token')
+    reader = res.body.getReader()
+  }
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        try {
+          const { done, value } = await reader.read()
+          if (done) {
+            controller.close()
+            return
+          }
+          received += value.length
+          controller.enqueue(value)
+          return
+        } catch (e) {
+          if (!canResume || !resumeToken || attempts >= MAX_RESUME_ATTEMPTS) throw e
+          await reconnect()
+        }
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+}
+
+/** Hand a finished in-memory file to the browser's download manager. */
+function saveBlob(parts: Uint8Array[], filename: string, contentType: string) {
+  const blob = new Blob(parts, { type: contentType || 'application/octet-stream' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Set up extraction of the selected folder entries. With the File System
+ * Access API the entries are written straight into a directory the user
+ * picks, recreating the folder structure; otherwise each entry is collected
+ * in memory and offered as its own download. Must be called while the click
+ * that made the selection still counts as a user gesture.
+ */
+async function openExtraction(manifest: ManifestEntry[], selected: Set<number>) {
+  let directory: FileSystemDirectoryHandle | null = null
+  if (window.showDirectoryPicker) {
+    try {
+      directory = await window.showDirectoryPicker({ mode: 'readwrite' })
+    } catch (e: any) {
+      if (e?.name === 'AbortError') throw e
+    }
+  }
+
+  let writer: FileSystemWritableFileStream | null = null
+  let parts: Uint8Array[] = []
+  let extracted = 0
+
+  const extractor = createEntryExtractor(manifest, selected, {
+    onEntryStart: async (entry) => {
+      const segments = safePathSegments(entry.path)
+      if (segments.length === 0) throw new Error(`archive entry has no usable name: ${entry.path}`)
+      if (directory) {
+        let parent = directory
+        for (const segment of segments.slice(0, -1)) {
+          parent = await parent.getDirectoryHandle(segment, { create: true })
+        }
+        const handle = await parent.getFileHandle(segments[segments.length - 1], { create: true })
+        writer = await handle.createWritable()
+      } else {
+        parts = []
+      }
+    },
+    onEntryChunk: async (chunk) => {
+      if (writer) {
+        await writer.write(chunk as BufferSource)
+      } else {
+        parts.push(chunk)
+      }
+    },
+    onEntryEnd: async (entry) => {
+      if (writer) {
+        await writer.close()
+        writer = null
+      } else {
+        const segments = safePathSegments(entry.path)
+        saveBlob(parts, segments[segments.length - 1], entry.type)
+        parts = []
+      }
+      extracted++
+    },
+  })
+
+  return {
+    write: extractor.write,
+    finish: () => {
+      extractor.finish()
+      return extracted
+    },
+  }
+}
+
+/** The key share carried by another link to file `id`, or null if it isn't one. */
+function shareFromLink(link: string, id: string): KeyShare | null {
+  try {
+    const url = new URL(link)
+    if (!url.pathname.endsWith(`/download/${id}`)) return null
+    return ClientCrypto.extractKeysFromUrl(url.hash)?.share ?? null
+  } catch {
+    return null
+  }
+}
+
+/** Read the link in a photo or screenshot of a share link's QR code. */
+async function readQrCode(file: File): Promise<string | null> {
+  const bitmap = await createImageBitmap(file)
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const context = canvas.getContext('2d')
+  if (!context) return null
+  context.drawImage(bitmap, 0, 0)
+  const image = context.getImageData(0, 0, bitmap.width, bitmap.height)
+  return jsQR(image.data, image.width, image.height)?.data ?? null
+}
+
 interface FileInfo {
   filename: string
   size: number
@@ -22,17 +192,49 @@ interface DownloadState {
   // URL fragment params
   keyOrWrapped: Uint8Array | null
   salt: Uint8Array | null
-  passphraseSalt: Uint8Array | null   // null when the link doesn't need a passphrase
+  committed: boolean                      // v3 link: the header must carry the key commitment
+  passphraseWrap: PassphraseWrap | null   // null when the link doesn't need a passphrase
+  ephemeralPubkey: Uint8Array | null  // set when the key is sealed to a recipient key
+
+  // split keys: the shares collected so far; keyOrWrapped is set once there are enough
+  shares: KeyShare[]
+  shareInput: string
+  shareError: string | null
+
+  // this browser's receiving key, for links sealed to a recipient
+  recipientKeyFingerprint: string | null
+  hasRecipientKey: boolean
 
   // user-entered passphrase + per-attempt error
   passphrase: string
   passphraseError: string | null
+  unlocking: boolean   // deriving the wrap key (Argon2id can take a second or two)
 
   // sender attestation
   attestationStatus: AttestationStatus
   senderFingerprint: string | null
+  // the sender's previous key, when the link carries a rotation statement
+  rotatedFrom: string | null
+  rotationInvalid: boolean
+  // SHA-256 of the envelope the sender signed; checked while decrypting
+  contentDigest: Uint8Array | null
+  // the verified sender against the local contact book
+  senderPubkey: Uint8Array | null
+  senderPreviousPubkey: Uint8Array | null  // set only for a verified rotation
+  senderClaimedName: string | null         // the link's unsigned display name
+  senderTrust: SenderTrust | null
+  namesakeFingerprints: string[]            // saved keys under the claimed name, on conflict
+  contactName: string
 
   downloaded: boolean
+  // a typed text secret, decrypted into the page instead of saved
+  message: string | null
+
+  // folder archives: the sealed entry list, and what to pull out of it
+  manifest: ManifestEntry[] | null
+  selection: Set<number>
+  awaitingSelection: boolean
+  extracted: number | null   // entries saved individually; null when the whole file was saved
 }
 
 const Download: React.FC = () => {
@@ -44,13 +246,38 @@ const Download: React.FC = () => {
     error: null,
     keyOrWrapped: null,
     salt: null,
-    passphraseSalt: null,
+    committed: false,
+    passphraseWrap: null,
+    ephemeralPubkey: null,
+    shares: [],
+    shareInput: '',
+    shareError: null,
+    recipientKeyFingerprint: null,
+    hasRecipientKey: false,
     passphrase: '',
     passphraseError: null,
+    unlocking: false,
     attestationStatus: 'none',
     senderFingerprint: null,
+    rotatedFrom: null,
+    rotationInvalid: false,
+    contentDigest: null,
+    senderPubkey: null,
+    senderPreviousPubkey: null,
+    senderClaimedName: null,
+    senderTrust: null,
+    namesakeFingerprints: [],
+    contactName: '',
     downloaded: false,
+    message: null,
+    manifest: null,
+    selection: new Set(),
+    awaitingSelection: false,
+    extracted: null,
   })
+  const [copied, setCopied] = useState(false)
+  // Resolves the pending entry choice: a set of entry indexes, or null for the whole archive
+  const choiceRef = useRef<((choice: Set<number> | null) => void) | null>(null)
 
   useEffect(() => {
     const parsed = ClientCrypto.extractKeysFromUrl()
@@ -64,23 +291,53 @@ const Download: React.FC = () => {
     setState(prev => ({
       ...prev,
       keyOrWrapped: parsed.keyOrWrapped,
+      shares: parsed.share ? [parsed.share] : [],
       salt: parsed.salt,
-      passphraseSalt: parsed.passphraseSalt,
+      committed: parsed.committed,
+      passphraseWrap: parsed.passphraseWrap,
+      ephemeralPubkey: parsed.ephemeralPubkey,
       attestationStatus: parsed.attestation ? 'verifying' : 'none',
     }))
 
+    if (parsed.ephemeralPubkey) {
+      loadRecipientIdentity().then(async (identity) => {
+        const fp = identity ? await computeFingerprint(identity.pubkey) : null
+        setState(prev => ({ ...prev, hasRecipientKey: !!identity, recipientKeyFingerprint: fp }))
+      })
+    }
+
     if (parsed.attestation && id) {
       const att = parsed.attestation
       ;(async () => {
         try {
           const [valid, fp] = await Promise.all([
-            verifyAttestation(id, att.pubkey, att.signature),
+            verifyAttestation(id, att.pubkey, att.signature, att.contentDigest),
             computeFingerprint(att.pubkey),
           ])
+          // A rotation statement only means something under a valid attestation
+          const rotation = valid && att.rotation ? att.rotation : null
+          const [rotationValid, previousFp] = rotation
+            ? await Promise.all([verifyRotation(att.pubkey, rotation), computeFingerprint(rotation.previousPubkey)])
+            : [false, null]
+          const previousPubkey = rotation && rotationValid ? rotation.previousPubkey : null
+          const claimedName = att.name ?? null
+          const trust = valid ? assessSender(att.pubkey, claimedName, previousPubkey) : null
+          const namesakeFingerprints = trust?.status === 'conflict'
+            ? await Promise.all(trust.contacts.map(c => computeFingerprint(c.pubkey)))
+            : []
           setState(prev => ({
             ...prev,
             attestationStatus: valid ? 'valid' : 'invalid',
             senderFingerprint: valid ? fp : null,
+            rotatedFrom: rotationValid ? previousFp : null,
+            rotationInvalid: !!rotation && !rotationValid,
+            contentDigest: valid ? att.contentDigest ?? null : null,
+            senderPubkey: valid ? att.pubkey : null,
+            senderPreviousPubkey: previousPubkey,
+            senderClaimedName: claimedName,
+            senderTrust: trust,
+            namesakeFingerprints,
+            contactName: trust?.status === 'conflict' ? '' : claimedName ?? '',
           }))
         } catch {
           setState(prev => ({ ...prev, attestationStatus: 'invalid', senderFingerprint: null }))
@@ -89,55 +346,155 @@ const Download: React.FC = () => {
     }
   }, [id])
 
+  const handleSaveContact = () => {
+    if (!state.senderPubkey) return
+    const contact = saveContact(state.senderPubkey, state.contactName)
+    setState(prev => ({ ...prev, senderTrust: { status: 'known', contact } }))
+  }
+
+  const handleFollowRotation = () => {
+    if (!state.senderPubkey || !state.senderPreviousPubkey || state.senderTrust?.status !== 'rotated') return
+    const { contact } = state.senderTrust
+    followRotation(state.senderPreviousPubkey, state.senderPubkey)
+    setState(prev => ({ ...prev, senderTrust: { status: 'known', contact: { ...contact, pubkey: state.senderPubkey! } } }))
+  }
+
+  // Add the shares in pasted or scanned links (one or more), and rebuild the
+  // key once enough shares of the split are in.
+  const addShares = (text: string) => {
+    if (!id || state.shares.length === 0) return
+    const shares = [...state.shares]
+    for (const link of text.split(/\s+/).filter(Boolean)) {
+      const share = shareFromLink(link, id)
+      if (!share) {
+        setState(prev => ({ ...prev, shareError: 'That is not a share link for this file.' }))
+        return
+      }
+      if (!sameSplit(share, shares[0])) {
+        setState(prev => ({ ...prev, shareError: 'That link is from a different split of this file.' }))
+        return
+      }
+      if (!shares.some(s => s.x === share.x)) shares.push(share)
+    }
+    if (shares.length === state.shares.length) {
+      setState(prev => ({ ...prev, shareError: 'You already added that share.' }))
+      return
+    }
+    const keyOrWrapped = shares.length >= shares[0].threshold ? combineShares(shares) : null
+    setState(prev => ({ ...prev, shares, keyOrWrapped, shareInput: '', shareError: null }))
+  }
+
+  const handleShareImage = async (file: File | undefined) => {
+    if (!file) return
+    const link = await readQrCode(file).catch(() => null)
+    if (!link) {
+      setState(prev => ({ ...prev, shareError: 'No QR code found in that image.' }))
+      return
+    }
+    addShares(link)
+  }
+
   const handleDownload = async () => {
     if (!id || !state.keyOrWrapped || !state.salt) return
 
     // Resolve the actual file key. If the link is passphrase-locked, unwrap
-    // the key with the user-supplied passphrase first.
+    // the key with the user-supplied passphrase first; if it is sealed to a
+    // recipient, open it with this browser's receiving key. Both happen
+    // before the fetch, so a failure doesn't use up a download.
     let key: Uint8Array
-    if (state.passphraseSalt) {
+    if (state.ephemeralPubkey) {
+      const identity = await loadRecipientIdentity()
+      if (!identity) {
+        setState(prev => ({ ...prev, error: 'This link is sealed to a recipient key, and this browser has none.' }))
+        return
+      }
+      try {
+        key = await openSealedKey(identity, state.keyOrWrapped, state.ephemeralPubkey)
+      } catch (e: any) {
+        setState(prev => ({
+          ...prev,
+          error: `${e.message}. Open it in the browser that holds the key it was sent to.`,
+        }))
+        return
+      }
+    } else if (state.passphraseWrap) {
       if (state.passphrase.length === 0) {
         setState(prev => ({ ...prev, passphraseError: 'Enter the passphrase to unlock.' }))
         return
       }
+      setState(prev => ({ ...prev, unlocking: true, passphraseError: null }))
       try {
         key = await ClientCrypto.unwrapKeyWithPassphrase(
           state.keyOrWrapped,
           state.passphrase,
-          state.passphraseSalt,
+          state.passphraseWrap,
         )
       } catch (e: any) {
-        setState(prev => ({ ...prev, passphraseError: 'Failed to derive key from passphrase.' }))
+        // Authenticated wraps reject a wrong passphrase here, before any download
+        const passphraseError = e instanceof WrongPassphraseError
+          ? 'Wrong passphrase. Try again.'
+          : 'Failed to derive key from passphrase.'
+        setState(prev => ({ ...prev, unlocking: false, passphraseError }))
         return
       }
+      setState(prev => ({ ...prev, unlocking: false }))
     } else {
       key = state.keyOrWrapped
     }
 
-    setState(prev => ({ ...prev, downloading: true, progress: 0, error: null, passphraseError: null }))
+    setState(prev => ({
+      ...prev, downloading: true, progress: 0, error: null, passphraseError: null,
+      manifest: null, awaitingSelection: false, extracted: null,
+    }))
 
     try {
-      const response = await fetch(`/api/download/${id}`)
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`)
-      }
-      if (!response.body) throw new Error('Response body is not available')
+      const body = await fetchResumable(`/api/download/${id}`)
 
       let metadata: EnvelopeMetadata | null = null
       let fileWriter: any = null
+      let extraction: Awaited<ReturnType<typeof openExtraction>> | null = null
+      let extracted: number | null = null
+      let message: string | null = null
       const blobParts: Uint8Array[] = []
       let receivedBytes = 0
 
       const useFileSystemAPI = 'showSaveFilePicker' in window
 
       await ClientCrypto.decryptEnvelopeToSink(
-        response.body,
+        body,
         key,
         state.salt,
         {
           onMetadata: async (m) => {
             metadata = m
+            setState(prev => ({
+              ...prev,
+              fileInfo: { filename: m.filename, size: 0, contentType: m.contentType },
+            }))
+
+            // A text message is collected in memory and shown; nothing to save
+            if (m.message) return
+
+            // A folder archive: decryption pauses here until the recipient
+            // picks entries. The response stays open meanwhile, and a dropped
+            // connection resumes with Range like any other interruption.
+            if (m.manifest && m.manifest.length > 0) {
+              const manifest = m.manifest
+              setState(prev => ({
+                ...prev,
+                manifest,
+                selection: new Set(manifest.map((_, i) => i)),
+                awaitingSelection: true,
+              }))
+              const choice = await new Promise<Set<number> | null>(resolve => { choiceRef.current = resolve })
+              choiceRef.current = null
+              setState(prev => ({ ...prev, awaitingSelection: false }))
+              if (choice) {
+                extraction = await openExtraction(manifest, choice)
+                return
+              }
+            }
+
             if (useFileSystemAPI) {
               try {
                 const handle = await (window as any).showSaveFilePicker({
@@ -152,41 +509,37 @@ const Download: React.FC = () => {
                 if (e?.name === 'AbortError') throw e
               }
             }
-            setState(prev => ({
-              ...prev,
-              fileInfo: { filename: m.filename, size: 0, contentType: m.contentType },
-            }))
           },
           onChunk: async (chunk) => {
             receivedBytes += chunk.length
-            if (fileWriter) {
+            if (extraction) {
+              await extraction.write(chunk)
+            } else if (fileWriter) {
               await fileWriter.write(chunk)
             } else {
               blobParts.push(chunk)
             }
           },
           onComplete: async () => {
-            if (fileWriter) {
+            if (metadata?.message) {
+              const decoder = new TextDecoder()
+              message = blobParts.map(part => decoder.decode(part, { stream: true })).join('') + decoder.decode()
+            } else if (extraction) {
+              extracted = extraction.finish()
+            } else if (fileWriter) {
               await fileWriter.close()
             } else {
               const filename = metadata?.filename ?? `decrypted-file-${id?.substring(0, 8)}`
-              const contentType = metadata?.contentType || 'application/octet-stream'
-              const finalBlob = new Blob(blobParts, { type: contentType })
-              const url = URL.createObjectURL(finalBlob)
-              const a = document.createElement('a')
-              a.href = url
-              a.download = filename
-              document.body.appendChild(a)
-              a.click()
-              a.remove()
-              URL.revokeObjectURL(url)
+              saveBlob(blobParts, filename, metadata?.contentType || 'application/octet-stream')
             }
           },
         },
         (downloaded, decrypted) => {
           const progress = Math.min(95, (decrypted / (downloaded || 1)) * 95)
           setState(prev => ({ ...prev, progress }))
-        }
+        },
+        state.committed,
+        state.contentDigest,
       )
 
       const filename = metadata?.filename ?? `decrypted-file-${id?.substring(0, 8)}`
@@ -198,6 +551,8 @@ const Download: React.FC = () => {
         progress: 100,
         downloaded: true,
         fileInfo: { filename, size: receivedBytes, contentType },
+        extracted,
+        message,
       }))
     } catch (error) {
       console.error('Download error:', error)
@@ -207,10 +562,10 @@ const Download: React.FC = () => {
         error.message.includes('delimiter')
       )
 
-      // A passphrase-locked link that fails AES-GCM auth almost always means
-      // a wrong passphrase. Steer the user back to the passphrase input
+      // A legacy passphrase-locked link that fails AES-GCM auth almost always
+      // means a wrong passphrase. Steer the user back to the passphrase input
       // rather than treating the page as terminally broken.
-      if (state.passphraseSalt && isAuthFailure) {
+      if (state.passphraseWrap?.version === 0 && isAuthFailure) {
         setState(prev => ({
           ...prev,
           downloading: false,
@@ -224,7 +579,13 @@ const Download: React.FC = () => {
       if (axios.isAxiosError(error)) {
         errorMessage = error.response?.data?.error || `HTTP ${error.response?.status}: ${error.message}`
       } else if (error instanceof Error) {
-        if (error.message.includes('salt mismatch') || error.message.includes('OperationError')) {
+        if (error.message.includes('content digest')) {
+          // Folder entries are written as they finish, so some may already be on disk
+          errorMessage = 'The decrypted file does not match what the sender signed. ' +
+            'It was not saved; delete any folder entries that were already extracted.'
+        } else if (error.message.includes('key commitment')) {
+          errorMessage = 'Decryption failed — the stored file was not encrypted with this link\'s key.'
+        } else if (error.message.includes('salt mismatch') || error.message.includes('OperationError')) {
           errorMessage = 'Decryption failed — the link is from a different file or has been tampered with.'
         } else if (error.message.includes('delimiter')) {
           errorMessage = `Decryption failed — record format invalid: ${error.message}`
@@ -238,6 +599,31 @@ const Download: React.FC = () => {
     }
   }
 
+  const handleCopyMessage = async () => {
+    if (state.message === null) return
+    await navigator.clipboard.writeText(state.message)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const toggleEntry = (index: number) => {
+    setState(prev => {
+      const selection = new Set(prev.selection)
+      if (selection.has(index)) selection.delete(index)
+      else selection.add(index)
+      return { ...prev, selection }
+    })
+  }
+
+  const toggleAllEntries = () => {
+    setState(prev => ({
+      ...prev,
+      selection: prev.manifest && prev.selection.size < prev.manifest.length
+        ? new Set(prev.manifest.map((_, i) => i))
+        : new Set(),
+    }))
+  }
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -248,7 +634,9 @@ const Download: React.FC = () => {
 
   if (!id) return <Navigate to="/" replace />
 
-  const passphraseRequired = state.passphraseSalt !== null
+  const passphraseRequired = state.passphraseWrap !== null
+  const kdfDescription = state.passphraseWrap ? ClientCrypto.describeKdf(state.passphraseWrap.kdf) : ''
+  const sealedToRecipient = state.ephemeralPubkey !== null
 
   return (
     <div className="max-w-3xl mx-auto space-y-10">
@@ -284,6 +672,7 @@ const Download: React.FC = () => {
                 <div>
                   ID · {id.substring(0, 8)}…
                   {passphraseRequired && <span className="ml-3" style={{ color: 'var(--ember)' }}>· passphrase required</span>}
+                  {sealedToRecipient && <span className="ml-3" style={{ color: 'var(--ember)' }}>· sealed to a recipient</span>}
                 </div>
                 {state.attestationStatus !== 'none' && (
                   <div className="flex items-center gap-2 mt-1">
@@ -294,10 +683,23 @@ const Download: React.FC = () => {
                       <>
                         <Fingerprint className="h-3 w-3" style={{ color: 'var(--green)' }} />
                         <span style={{ color: 'var(--green)' }}>
-                          Signed by · {state.senderFingerprint}
+                          Signed by ·{' '}
+                          {state.senderTrust?.status === 'known' && <>{state.senderTrust.contact.name} · </>}
+                          {state.senderFingerprint}
                         </span>
                       </>
                     )}
+                    {state.attestationStatus === 'valid' && state.contentDigest && (
+                      <span className="text-ink-faint">
+                        · {state.downloaded ? 'contents match the signature' : 'signature covers the contents'}
+                      </span>
+                    )}
+                    {state.attestationStatus === 'valid' && state.rotatedFrom && (
+                      <span className="text-ink-faint">· new key, handed over by {state.rotatedFrom}</span>
+                    )}
+                    {state.attestationStatus === 'valid' && state.rotationInvalid && (
+                      <span style={{ color: 'var(--red)' }}>· key-rotation statement did NOT verify</span>
+                    )}
                     {state.attestationStatus === 'invalid' && (
                       <>
                         <ShieldAlert className="h-3 w-3" style={{ color: 'var(--red)' }} />
@@ -317,6 +719,142 @@ const Download: React.FC = () => {
             </div>
           </div>
 
+          {state.senderTrust?.status === 'conflict' && (
+            <div className="mt-6 strip strip-error">
+              <ShieldAlert className="h-4 w-4 flex-shrink-0 mt-0.5" style={{ color: 'var(--red)' }} />
+              <div className="text-ink-soft space-y-1" style={{ fontSize: 13 }}>
+                <div className="font-display italic" style={{ fontSize: 16, color: 'var(--red)' }}>
+                  This is not the key you saved for {state.senderTrust.contacts[0].name}.
+                </div>
+                <div>
+                  The link says it is from &ldquo;{state.senderClaimedName}&rdquo;, but it is signed by{' '}
+                  <span className="font-mono">{state.senderFingerprint}</span> and your contact uses{' '}
+                  <span className="font-mono">{state.namesakeFingerprints.join(', ')}</span>.
+                  Anyone can put a name in a link. Unless the sender has told you about a new key
+                  some other way, treat this file as coming from a stranger.
+                </div>
+              </div>
+            </div>
+          )}
+
+          {state.senderTrust?.status === 'rotated' && (
+            <div className="mt-6 strip strip-info">
+              <RefreshCw className="h-4 w-4 flex-shrink-0 mt-0.5" style={{ color: 'var(--blue)' }} />
+              <div className="flex-1 text-ink-soft" style={{ fontSize: 13 }}>
+                {state.senderTrust.contact.name} has moved to a new key, and the key you saved for them
+                signed the handover.
+              </div>
+              <button onClick={handleFollowRotation} className="btn btn-secondary btn-sm">
+                Update contact
+              </button>
+            </div>
+          )}
+
+          {(state.senderTrust?.status === 'new' || state.senderTrust?.status === 'conflict') && (
+            <div className="mt-6 space-y-3">
+              <label className="folio block flex items-center gap-2">
+                <UserPlus className="h-3 w-3" />
+                {state.senderTrust.status === 'new' ? 'First link from this sender' : 'Save this key anyway'}
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={state.contactName}
+                  onChange={e => setState(prev => ({ ...prev, contactName: e.target.value }))}
+                  maxLength={ClientCrypto.SENDER_NAME_MAX_LENGTH}
+                  className="input max-w-md"
+                  placeholder="Name to remember this key by"
+                />
+                <button
+                  onClick={handleSaveContact}
+                  disabled={!ClientCrypto.senderName(state.contactName)}
+                  className="btn btn-secondary"
+                >
+                  Save contact
+                </button>
+              </div>
+              <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+                Confirm the fingerprint with the sender over another channel before saving.
+                Contacts stay in this browser; see <Link to="/keys">Keys</Link>.
+              </div>
+            </div>
+          )}
+
+          {sealedToRecipient && (
+            state.hasRecipientKey ? (
+              <div className="mt-6 folio flex items-center gap-2" style={{ color: 'var(--green)' }}>
+                <UserCheck className="h-3 w-3" />
+                Opens with your receiving key · {state.recipientKeyFingerprint}
+              </div>
+            ) : (
+              <div className="mt-6 strip strip-warn">
+                <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" style={{ color: 'var(--amber)' }} />
+                <div className="text-ink-soft" style={{ fontSize: 13 }}>
+                  This link is sealed to a recipient&apos;s key, and this browser has no{' '}
+                  <Link to="/keys">receiving key</Link>. Open it in the browser where you created yours.
+                </div>
+              </div>
+            )
+          )}
+
+          {state.shares.length > 0 && (
+            <div className="mt-6 space-y-3">
+              <label className="folio block flex items-center gap-2">
+                <Split className="h-3 w-3" />
+                Split key · {Math.min(state.shares.length, state.shares[0].threshold)} of {state.shares[0].threshold} shares
+              </label>
+              {state.keyOrWrapped ? (
+                <div className="folio" style={{ color: 'var(--green)' }}>
+                  Key rebuilt from shares {state.shares.map(s => s.x).sort((a, b) => a - b).join(', ')} of {state.shares[0].total}.
+                </div>
+              ) : (
+                <>
+                  <p className="text-ink-soft" style={{ fontSize: 13 }}>
+                    The sender split the key across {state.shares[0].total} links, and any{' '}
+                    {state.shares[0].threshold} of them open the file. Paste the other links you were
+                    sent, or scan a picture of their QR codes.
+                  </p>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={state.shareInput}
+                      onChange={e => setState(prev => ({ ...prev, shareInput: e.target.value, shareError: null }))}
+                      onKeyDown={e => { if (e.key === 'Enter' && state.shareInput.trim()) addShares(state.shareInput) }}
+                      autoComplete="off"
+                      spellCheck={false}
+                      className="input flex-1"
+                      placeholder="Paste another share link"
+                    />
+                    <button
+                      onClick={() => addShares(state.shareInput)}
+                      disabled={!state.shareInput.trim()}
+                      className="btn btn-secondary"
+                    >
+                      Add
+                    </button>
+                    <label className="btn btn-secondary cursor-pointer" title="Scan a QR code image">
+                      <ScanLine className="h-3.5 w-3.5" /> Scan
+                      <input
+                        type="file"
+                        accept="image/*"
+                        onChange={e => { handleShareImage(e.target.files?.[0]); e.target.value = '' }}
+                        className="hidden"
+                      />
+                    </label>
+                  </div>
+                  {state.shareError && (
+                    <div className="folio" style={{ color: 'var(--red)' }}>
+                      {state.shareError}
+                    </div>
+                  )}
+                  <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+                    Shares are combined in your browser. Fewer than {state.shares[0].threshold} reveal nothing about the key.
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
           {passphraseRequired && (
             <div className="mt-6 space-y-3">
               <label className="folio block flex items-center gap-2">
@@ -327,8 +865,8 @@ const Download: React.FC = () => {
                 type="password"
                 value={state.passphrase}
                 onChange={e => setState(prev => ({ ...prev, passphrase: e.target.value, passphraseError: null }))}
-                onKeyDown={e => { if (e.key === 'Enter' && !state.downloading) handleDownload() }}
-                disabled={state.downloading}
+                onKeyDown={e => { if (e.key === 'Enter' && !state.downloading && !state.unlocking) handleDownload() }}
+                disabled={state.downloading || state.unlocking}
                 autoFocus
                 autoComplete="off"
                 className="input max-w-md"
@@ -340,7 +878,7 @@ const Download: React.FC = () => {
                 </div>
               )}
               <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
-                The passphrase is fed to PBKDF2-SHA256 (600k iterations) to unwrap the file key.
+                The passphrase is fed to {kdfDescription} to unwrap the file key.
                 The passphrase itself never leaves your browser.
               </div>
             </div>
@@ -349,11 +887,17 @@ const Download: React.FC = () => {
           <div className="mt-6">
             <button
               onClick={handleDownload}
-              disabled={state.downloading || !state.keyOrWrapped || (passphraseRequired && state.passphrase.length === 0)}
+              disabled={
+                state.downloading || state.unlocking || !state.keyOrWrapped ||
+                (passphraseRequired && state.passphrase.length === 0) ||
+                (sealedToRecipient && !state.hasRecipientKey)
+              }
               className="btn btn-primary w-full justify-center"
             >
               <DownloadIcon className="h-3.5 w-3.5" />
-              {state.downloading
+              {state.unlocking
+                ? 'Deriving key…'
+                : state.downloading
                 ? 'Working…'
                 : passphraseRequired
                 ? 'Unlock & download'
@@ -361,6 +905,56 @@ const Download: React.FC = () => {
             </button>
           </div>
 
+          {state.awaitingSelection && state.manifest && (
+            <div className="mt-6 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="folio flex items-center gap-2">
+                  <Archive className="h-3 w-3" />
+                  Folder · {state.manifest.length} {state.manifest.length === 1 ? 'file' : 'files'}
+                </div>
+                <button onClick={toggleAllEntries} className="btn btn-ghost btn-sm">
+                  {state.selection.size < state.manifest.length ? 'Select all' : 'Select none'}
+                </button>
+              </div>
+              <div style={{ maxHeight: 320, overflowY: 'auto', border: '1px solid var(--rule)' }}>
+                {state.manifest.map((entry, index) => (
+                  <label
+                    key={index}
+                    className="flex items-center gap-3 cursor-pointer"
+                    style={{ padding: '6px 10px', borderBottom: '1px solid var(--rule-faint)', fontSize: 13 }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={state.selection.has(index)}
+                      onChange={() => toggleEntry(index)}
+                      className="h-3.5 w-3.5 cursor-pointer"
+                      style={{ accentColor: 'var(--ember)' }}
+                    />
+                    <FileText className="h-3 w-3 text-ink-faint flex-shrink-0" />
+                    <span className="flex-1 min-w-0 truncate text-ink">{entry.path}</span>
+                    <span className="folio flex-shrink-0">{formatFileSize(entry.size)}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => choiceRef.current?.(new Set(state.selection))}
+                  disabled={state.selection.size === 0}
+                  className="btn btn-primary flex-1 justify-center"
+                >
+                  <DownloadIcon className="h-3.5 w-3.5" />
+                  Extract {state.selection.size === state.manifest.length ? 'all files' : `${state.selection.size} selected`}
+                </button>
+                <button onClick={() => choiceRef.current?.(null)} className="btn btn-secondary">
+                  <Archive className="h-3.5 w-3.5" /> Save as .zip
+                </button>
+              </div>
+              <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+                Files are written out as the archive decrypts; unselected entries are decrypted and discarded.
+              </div>
+            </div>
+          )}
+
           {state.downloading && (
             <div className="mt-5">
               <div className="flex justify-between folio mb-1">
@@ -373,8 +967,42 @@ const Download: React.FC = () => {
         </section>
       )}
 
+      {/* Post-decrypt: a text message */}
+      {state.downloaded && state.message !== null && (
+        <section className="plate">
+          <div className="folio mb-4 flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <MessageSquare className="h-3.5 w-3.5" /> § 02 · The message
+            </span>
+            <button
+              onClick={handleCopyMessage}
+              className="btn btn-secondary btn-sm"
+              style={copied ? { color: 'var(--green)', borderColor: 'var(--green)' } : undefined}
+            >
+              <Copy className="h-3 w-3" /> {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <pre
+            className="font-mono text-ink"
+            style={{
+              fontSize: 13, lineHeight: 1.6, whiteSpace: 'pre-wrap', overflowWrap: 'anywhere',
+              maxHeight: 480, overflowY: 'auto', padding: '12px 14px', border: '1px solid var(--rule)', margin: 0,
+            }}
+          >
+            {state.message}
+          </pre>
+          <div className="mt-5 strip strip-success">
+            <CheckCircle2 className="h-4 w-4 text-led-green flex-shrink-0 mt-0.5" />
+            <div style={{ fontSize: 13 }}>
+              Decrypted in your browser and kept only on this page. Copy it now: a one-time message
+              is gone from the server, and leaving the page loses it.
+            </div>
+          </div>
+        </section>
+      )}
+
       {/* Post-decrypt */}
-      {state.downloaded && state.fileInfo && (
+      {state.downloaded && state.fileInfo && state.message === null && (
         <section className="plate">
           <div className="folio mb-4">§ 02 · Delivered</div>
           <div className="flex items-start gap-4">
@@ -390,7 +1018,11 @@ const Download: React.FC = () => {
             </div>
             <div className="flex-1 space-y-2">
               <div className="font-display italic text-xl">{state.fileInfo.filename}</div>
-              <div className="folio">{formatFileSize(state.fileInfo.size)} · {state.fileInfo.contentType}</div>
+              <div className="folio">
+                {state.extracted !== null && state.manifest
+                  ? `${state.extracted} of ${state.manifest.length} files extracted`
+                  : `${formatFileSize(state.fileInfo.size)} · ${state.fileInfo.contentType}`}
+              </div>
             </div>
           </div>
           <div className="mt-5 strip strip-success">
@@ -432,16 +1064,44 @@ const Download: React.FC = () => {
           <dt>Decrypt</dt>       <dd>In your browser, never on the server</dd>
           <dt>Key transit</dt>   <dd>URL fragment — not transmitted in HTTP</dd>
           <dt>Filename</dt>      <dd>Sealed inside the envelope, revealed on decrypt</dd>
+          {state.manifest && (
+            <>
+              <dt>Folder</dt>
+              <dd>Streamed ZIP; the file list is sealed in the envelope too</dd>
+            </>
+          )}
+          {state.shares.length > 0 && (
+            <>
+              <dt>Key split</dt>
+              <dd>Shamir secret sharing over GF(2⁸), any {state.shares[0].threshold} of {state.shares[0].total} links</dd>
+            </>
+          )}
+          {sealedToRecipient && (
+            <>
+              <dt>Recipient seal</dt>
+              <dd>X25519 + HKDF-SHA256, AES-256-GCM key wrap</dd>
+            </>
+          )}
           {passphraseRequired && (
             <>
               <dt>Passphrase KDF</dt>
-              <dd>PBKDF2-SHA256, 600 000 iterations</dd>
+              <dd>{kdfDescription}</dd>
             </>
           )}
           {state.attestationStatus !== 'none' && (
             <>
               <dt>Attestation</dt>
-              <dd>Ed25519 signature over the file ID + sender pubkey</dd>
+              <dd>
+                {state.contentDigest
+                  ? 'Ed25519 signature over the file ID, sender pubkey and SHA-256 of the decrypted file + metadata'
+                  : 'Ed25519 signature over the file ID + sender pubkey'}
+              </dd>
+            </>
+          )}
+          {state.rotatedFrom && (
+            <>
+              <dt>Key rotation</dt>
+              <dd>Ed25519 signature by the previous key over the new one</dd>
             </>
           )}
           <dt>Expiry</dt>        <dd>Auto-purge after retention window</dd>
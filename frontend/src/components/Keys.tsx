@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react'
+import { KeyRound, Copy, Trash2, Share2, AlertTriangle } from 'lucide-react'
+import { ClientCrypto } from '../crypto/rfc8188'
+import {
+  loadRecipientIdentity,
+  createRecipientIdentity,
+  clearRecipientIdentity,
+  fingerprint,
+  RecipientIdentity,
+} from '../crypto/identity'
+import { useToast } from '../contexts/ToastContext'
+import ContactBook from './ContactBook'
+
+const Keys: React.FC = () => {
+  const [identity, setIdentity] = useState<RecipientIdentity | null>(null)
+  const [keyFingerprint, setKeyFingerprint] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const { showError, showSuccess } = useToast()
+
+  useEffect(() => {
+    let cancelled = false
+    loadRecipientIdentity().then(async (loaded) => {
+      const fp = loaded ? await fingerprint(loaded.pubkey) : null
+      if (cancelled) return
+      setIdentity(loaded)
+      setKeyFingerprint(fp)
+      setLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [])
+
+  const publicKey = identity ? ClientCrypto.toBase64Url(identity.pubkey) : ''
+  const requestLink = identity ? `${window.location.origin}/?to=${publicKey}` : ''
+
+  const handleGenerate = async () => {
+    if (identity && !window.confirm(
+      'Replace your receiving key? Links already sealed to the current key will no longer open in this browser.'
+    )) return
+
+    setWorking(true)
+    try {
+      const created = await createRecipientIdentity()
+      setIdentity(created)
+      setKeyFingerprint(await fingerprint(created.pubkey))
+      showSuccess('Receiving key ready', 'Share your public key or request link with senders.')
+    } catch (e) {
+      console.error('Recipient key error:', e)
+      showError('Could not create key', 'This browser may not support X25519 in Web Crypto.')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleDelete = () => {
+    if (!window.confirm(
+      'Delete your receiving key? Links sealed to it become permanently unreadable. There is no recovery.'
+    )) return
+    clearRecipientIdentity()
+    setIdentity(null)
+    setKeyFingerprint(null)
+  }
+
+  const handleCopy = async (text: string, what: string) => {
+    await navigator.clipboard.writeText(text)
+    showSuccess(`${what} copied`, 'On the clipboard.')
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-10">
+      <header className="space-y-3">
+        <div className="folio">§ 01 · Keys</div>
+        <h1 className="display">A lock only you can open.</h1>
+        <p className="max-w-2xl text-ink-soft" style={{ fontSize: 13, lineHeight: 1.65 }}>
+          Publish a receiving key and senders can seal a link to it. The link alone is then
+          useless: the file key inside it opens only with the private half, which stays in
+          this browser.
+        </p>
+      </header>
+
+      <section className="plate">
+        <div className="folio mb-4 flex items-center gap-2">
+          <KeyRound className="h-3.5 w-3.5" /> § 02 · Receiving key
+        </div>
+
+        {loading ? (
+          <div className="folio py-4">Loading…</div>
+        ) : !identity ? (
+          <div className="space-y-4">
+            <p className="text-ink-soft" style={{ fontSize: 13 }}>
+              No receiving key in this browser yet. Generating one creates an X25519 keypair;
+              nothing is sent to the server.
+            </p>
+            <button onClick={handleGenerate} disabled={working} className="btn btn-primary">
+              <KeyRound className="h-3.5 w-3.5" /> Generate receiving key
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <dl className="telem">
+              <dt>Fingerprint</dt> <dd style={{ color: 'var(--ember)' }}>{keyFingerprint}</dd>
+              <dt>Algorithm</dt>   <dd>X25519</dd>
+            </dl>
+
+            <div>
+              <div className="folio mb-1">Public key — give this to senders</div>
+              <div className="flex gap-2">
+                <input type="text" value={publicKey} readOnly className="input flex-1" style={{ fontSize: 11 }} />
+                <button onClick={() => handleCopy(publicKey, 'Public key')} className="btn btn-secondary">
+                  <Copy className="h-3.5 w-3.5" /> Copy
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <div className="folio mb-1 flex items-center gap-2">
+                <Share2 className="h-3 w-3" /> Request link — opens the upload page with your key filled in
+              </div>
+              <div className="flex gap-2">
+                <input type="text" value={requestLink} readOnly className="input flex-1" style={{ fontSize: 11 }} />
+                <button onClick={() => handleCopy(requestLink, 'Request link')} className="btn btn-secondary">
+                  <Copy className="h-3.5 w-3.5" /> Copy
+                </button>
+              </div>
+            </div>
+
+            <div className="strip strip-warn">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" style={{ color: 'var(--amber)' }} />
+              <div className="text-ink-soft" style={{ fontSize: 13 }}>
+                The private key lives only in this browser&apos;s storage. Clearing site data, or
+                opening a sealed link in another browser, means the file cannot be decrypted.
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={handleGenerate} disabled={working} className="btn btn-secondary">
+                <KeyRound className="h-3.5 w-3.5" /> Replace key
+              </button>
+              <button onClick={handleDelete} disabled={working} className="btn btn-danger">
+                <Trash2 className="h-3.5 w-3.5" /> Delete key
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <ContactBook />
+
+      <section className="plate">
+        <div className="folio mb-4">§ 04 · The mechanism</div>
+        <dl className="telem">
+          <dt>Agreement</dt>   <dd>X25519 with a fresh ephemeral key per upload</dd>
+          <dt>Wrap</dt>        <dd>HKDF-SHA256, then AES-256-GCM over the file key</dd>
+          <dt>Link carries</dt><dd>Sealed file key + ephemeral public key</dd>
+          <dt>Private key</dt> <dd>This browser only — never the server</dd>
+        </dl>
+      </section>
+    </div>
+  )
+}
+
+export default Keys
@@ -65,8 +65,10 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               <Logo />
             </Link>
             <nav className="flex items-center">
-              <NavLink to="/"      label="Upload" kicker="§ I"  active={location.pathname === '/'} />
-              <NavLink to="/admin" label="Admin"  kicker="§ II" active={location.pathname === '/admin'} />
+              <NavLink to="/"        label="Upload"     kicker="§ I"   active={location.pathname === '/'} />
+              <NavLink to="/uploads" label="My uploads" kicker="§ II"  active={location.pathname === '/uploads'} />
+              <NavLink to="/keys"    label="Keys"       kicker="§ III" active={location.pathname === '/keys'} />
+              <NavLink to="/admin"   label="Admin"      kicker="§ IV"  active={location.pathname === '/admin'} />
               <span
                 className="mx-2 w-px h-7"
                 style={{ background: 'var(--rule)' }}
@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Copy, Trash2, RefreshCw, X, Lock, Unlock, KeyRound, AlertTriangle } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import {
+  HistoryState, historyState, createHistoryPassphrase, unlockHistory, lockHistory, resetHistory,
+  listUploads, removeUpload, UploadRecord,
+} from '../crypto/uploadHistory'
+import { WrongPassphraseError } from '../crypto/rfc8188'
+import { useToast } from '../contexts/ToastContext'
+
+// Server view of a file, from GET /api/files/:id/status
+interface FileStatus {
+  expiresAt: string
+  downloadCount: number
+  maxDownloads: number | null
+  isActive: boolean
+  isExpired: boolean
+}
+
+type LiveStatus =
+  | { state: 'loading' }
+  | { state: 'live'; status: FileStatus }
+  | { state: 'gone' }      // deleted, swept or never stored
+  | { state: 'unknown' }   // no owner token, or the server couldn't be reached
+
+async function fetchStatus(record: UploadRecord): Promise<LiveStatus> {
+  if (!record.ownerToken) return { state: 'unknown' }
+  try {
+    const res = await fetch(`/api/files/${record.id}/status`, {
+      headers: { 'X-Owner-Token': record.ownerToken },
+    })
+    if (res.status === 404) return { state: 'gone' }
+    if (!res.ok) return { state: 'unknown' }
+    return { state: 'live', status: await res.json() }
+  } catch {
+    return { state: 'unknown' }
+  }
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+const formatRemaining = (iso: string): string => {
+  const ms = new Date(iso).getTime() - Date.now()
+  if (ms <= 0) return 'expired'
+  const minutes = Math.floor(ms / 60000)
+  if (minutes < 60) return `in ${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return `in ${hours}h ${minutes % 60}m`
+  return `in ${Math.floor(hours / 24)}d`
+}
+
+const MyUploads: React.FC = () => {
+  const [records, setRecords] = useState<UploadRecord[]>([])
+  const [statuses, setStatuses] = useState<Record<string, LiveStatus>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [access, setAccess] = useState<HistoryState | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [passphraseConfirm, setPassphraseConfirm] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+  const { showError, showSuccess } = useToast()
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const state = await historyState()
+      setAccess(state)
+      if (state !== 'unlocked') {
+        setRecords([])
+        setStatuses({})
+        setLoading(false)
+        return
+      }
+
+      const list = await listUploads()
+      setRecords(list)
+      setStatuses(Object.fromEntries(list.map(r => [r.id, { state: 'loading' } as LiveStatus])))
+      setLoading(false)
+
+      // Status lookups are independent; fill rows in as they arrive
+      await Promise.all(list.map(async (record) => {
+        const status = await fetchStatus(record)
+        setStatuses(prev => ({ ...prev, [record.id]: status }))
+      }))
+    } catch (e) {
+      console.error('Upload history error:', e)
+      setError('Could not open the upload history. Browser storage may be disabled.')
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { refresh() }, [refresh])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (passphrase.length < 8) {
+      showError('Passphrase too short', 'Use at least 8 characters to protect the history.')
+      return
+    }
+    if (passphrase !== passphraseConfirm) {
+      showError('Passphrase mismatch', 'The two passphrase fields do not match.')
+      return
+    }
+    setUnlocking(true)
+    try {
+      await createHistoryPassphrase(passphrase)
+      setPassphrase('')
+      setPassphraseConfirm('')
+      await refresh()
+    } catch (e) {
+      showError('Could not set the passphrase', e instanceof Error ? e.message : 'Browser storage may be disabled')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setUnlocking(true)
+    try {
+      await unlockHistory(passphrase)
+      setPassphrase('')
+      await refresh()
+    } catch (e) {
+      if (e instanceof WrongPassphraseError) {
+        showError('Wrong passphrase', 'That passphrase does not open this history.')
+      } else {
+        showError('Unlock failed', e instanceof Error ? e.message : 'Could not open the history')
+      }
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  const handleLock = async () => {
+    lockHistory()
+    await refresh()
+  }
+
+  const handleReset = async () => {
+    if (!window.confirm('Delete the whole upload history from this browser? The files and their links are not affected.')) return
+    await resetHistory()
+    setPassphrase('')
+    await refresh()
+  }
+
+  const handleCopy = async (record: UploadRecord) => {
+    if (record.shareUrls) {
+      // A split key: the links are only useful together, one per line
+      await navigator.clipboard.writeText(record.shareUrls.join('\n'))
+      showSuccess(`${record.shareUrls.length} share links copied`, record.filename)
+      return
+    }
+    await navigator.clipboard.writeText(record.shareUrl)
+    showSuccess('Link copied', record.filename)
+  }
+
+  const handleForget = async (record: UploadRecord) => {
+    await removeUpload(record.id)
+    setRecords(prev => prev.filter(r => r.id !== record.id))
+  }
+
+  const handleRevoke = async (record: UploadRecord) => {
+    if (!record.ownerToken) return
+    if (!window.confirm(`Delete "${record.filename}" from the server? The share link will stop working.`)) return
+
+    setBusyId(record.id)
+    try {
+      const res = await fetch(`/api/files/${record.id}`, {
+        method: 'DELETE',
+        headers: { 'X-Owner-Token': record.ownerToken },
+      })
+      if (!res.ok && res.status !== 404) {
+        const errorData = await res.json().catch(() => ({}))
+        throw new Error(errorData.error || `HTTP ${res.status}: ${res.statusText}`)
+      }
+      setStatuses(prev => ({ ...prev, [record.id]: { state: 'gone' } }))
+      showSuccess('Link revoked', record.filename)
+    } catch (e) {
+      showError('Revoke failed', e instanceof Error ? e.message : 'Could not revoke the link')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-10">
+      <header className="flex items-end justify-between gap-4 flex-wrap">
+        <div className="space-y-2">
+          <div className="folio">§ 01 · Ledger</div>
+          <h1 className="display">What you've sent.</h1>
+          <p className="text-ink-soft" style={{ fontSize: 13, lineHeight: 1.65 }}>
+            Uploads from this browser only — the server keeps no list. Links and owner
+            tokens are sealed under a passphrase this browser never stores, so a copy of
+            the profile doesn't open them.
+          </p>
+        </div>
+        {access === 'unlocked' && (
+          <div className="flex gap-2">
+            <button onClick={refresh} disabled={loading} className="btn btn-ghost">
+              <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} /> Refresh
+            </button>
+            <button onClick={handleLock} className="btn btn-ghost">
+              <Lock className="h-3.5 w-3.5" /> Lock
+            </button>
+          </div>
+        )}
+      </header>
+
+      {error && (
+        <div className="strip strip-error">
+          <AlertTriangle className="h-4 w-4 text-led-red flex-shrink-0 mt-0.5" />
+          <span className="text-ink" style={{ fontSize: 13 }}>{error}</span>
+        </div>
+      )}
+
+      <section className="plate">
+        <div className="folio mb-4 flex items-center gap-2">
+          <Lock className="h-3.5 w-3.5" /> § 02 · Sealed entries
+        </div>
+
+        {loading ? (
+          <div className="flex items-center gap-2 folio py-6">
+            <RefreshCw className="h-4 w-4 animate-spin" /> Unsealing
+          </div>
+        ) : access === 'unset' ? (
+          <form onSubmit={handleCreate} className="space-y-3">
+            <p className="text-ink-soft" style={{ fontSize: 13 }}>
+              Choose a passphrase to keep a history of what you send. Uploads are recorded
+              while the history is locked; you need the passphrase to read it, and without
+              it the history can't be recovered. Until then nothing is recorded.
+            </p>
+            <div>
+              <label className="folio block mb-1.5">History passphrase</label>
+              <input
+                type="password"
+                value={passphrase}
+                disabled={unlocking}
+                onChange={e => setPassphrase(e.target.value)}
+                className="input max-w-md"
+                autoComplete="new-password"
+                placeholder="At least 8 characters"
+              />
+            </div>
+            <div>
+              <label className="folio block mb-1.5">Confirm passphrase</label>
+              <input
+                type="password"
+                value={passphraseConfirm}
+                disabled={unlocking}
+                onChange={e => setPassphraseConfirm(e.target.value)}
+                className="input max-w-md"
+                autoComplete="new-password"
+                placeholder="Re-enter to confirm"
+              />
+            </div>
+            <button type="submit" disabled={unlocking} className="btn btn-primary">
+              <KeyRound className="h-3.5 w-3.5" /> {unlocking ? 'Sealing…' : 'Keep a history'}
+            </button>
+          </form>
+        ) : access === 'locked' ? (
+          <form onSubmit={handleUnlock} className="space-y-3">
+            <div>
+              <label className="folio block mb-1.5">History passphrase</label>
+              <input
+                type="password"
+                value={passphrase}
+                disabled={unlocking}
+                onChange={e => setPassphrase(e.target.value)}
+                className="input max-w-md"
+                autoComplete="current-password"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button type="submit" disabled={unlocking || passphrase.length === 0} className="btn btn-primary">
+                <Unlock className="h-3.5 w-3.5" /> {unlocking ? 'Unsealing…' : 'Unlock'}
+              </button>
+              <button type="button" onClick={handleReset} disabled={unlocking} className="btn btn-secondary">
+                <Trash2 className="h-3.5 w-3.5" /> Forgot it — start over
+              </button>
+            </div>
+          </form>
+        ) : records.length === 0 ? (
+          <p className="text-ink-soft" style={{ fontSize: 13 }}>
+            Nothing yet. Files you <Link to="/">send</Link> from this browser show up here.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {records.map(record => {
+              const live = statuses[record.id] ?? { state: 'loading' }
+              const expiresAt = live.state === 'live' ? live.status.expiresAt : record.expiresAt
+              const isGone = live.state === 'gone' || (live.state === 'live' && !live.status.isActive)
+
+              let downloads = '—'
+              if (live.state === 'live') {
+                const { downloadCount, maxDownloads } = live.status
+                downloads = maxDownloads === null
+                  ? `${downloadCount} taken · no limit`
+                  : `${Math.max(0, maxDownloads - downloadCount)} of ${maxDownloads} left`
+              }
+
+              return (
+                <div key={record.id} className="strip" style={{ alignItems: 'center', opacity: isGone ? 0.6 : 1 }}>
+                  <span
+                    className={`led ${live.state === 'loading' ? '' : isGone ? 'led-error' : live.state === 'live' ? 'led-on' : 'led-warn'}`}
+                    aria-hidden
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-ink truncate" style={{ fontSize: 13 }}>{record.filename}</div>
+                    <div className="folio mt-1 flex flex-wrap gap-x-3">
+                      <span>{formatFileSize(record.size)}</span>
+                      <span>{new Date(record.uploadedAt).toLocaleString()}</span>
+                      <span>
+                        {live.state === 'gone' ? 'revoked or swept'
+                          : isGone ? 'no longer downloadable'
+                          : `expires ${formatRemaining(expiresAt)}`}
+                      </span>
+                      {!isGone && <span>{downloads}</span>}
+                      {live.state === 'unknown' && <span>status unavailable</span>}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {!isGone && (
+                      <button
+                        onClick={() => handleCopy(record)}
+                        className="btn btn-secondary btn-sm"
+                        title={record.shareUrls ? 'Copy all share links' : 'Copy share link'}
+                      >
+                        <Copy className="h-3 w-3" /> {record.shareUrls ? `${record.shareUrls.length} links` : 'Link'}
+                      </button>
+                    )}
+                    {!isGone && record.ownerToken && (
+                      <button
+                        onClick={() => handleRevoke(record)}
+                        disabled={busyId === record.id}
+                        className="btn btn-danger btn-sm"
+                        title="Delete the file from the server"
+                      >
+                        {busyId === record.id
+                          ? <RefreshCw className="h-3 w-3 animate-spin" />
+                          : <Trash2 className="h-3 w-3" />} Revoke
+                      </button>
+                    )}
+                    <button onClick={() => handleForget(record)} className="btn btn-ghost btn-sm" title="Remove from this list only">
+                      <X className="h-3 w-3" /> Forget
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
+
+export default MyUploads
@@ -0,0 +1,314 @@
+import React, { useState, useEffect } from 'react'
+import { Download as DownloadIcon, Upload as UploadIcon, RefreshCw, QrCode, X } from 'lucide-react'
+import QRCode from 'qrcode'
+import jsQR from 'jsqr'
+import { ClientCrypto, WrongPassphraseError } from '../crypto/rfc8188'
+import {
+  loadSenderIdentity,
+  loadSenderName,
+  saveSenderName,
+  exportSenderIdentity,
+  readIdentityExport,
+  importSenderIdentity,
+  rotateSenderIdentity,
+  fingerprint,
+  IdentityExport,
+  SenderIdentity,
+} from '../crypto/identity'
+import { useToast } from '../contexts/ToastContext'
+
+/**
+ * Manage the sender identity used for attestations: export it (sealed under
+ * a passphrase, as a file or QR code), import one from another browser or
+ * device, or rotate to a new key signed over by the current one.
+ */
+
+type Mode = 'idle' | 'export' | 'import'
+
+interface Props {
+  disabled: boolean
+  onChange: (fingerprint: string | null) => void
+}
+
+/** Read the text of an identity export from a JSON file or a photo/screenshot of its QR code. */
+async function readExportFile(file: File): Promise<string | null> {
+  if (!file.type.startsWith('image/')) return file.text()
+  const bitmap = await createImageBitmap(file)
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const context = canvas.getContext('2d')
+  if (!context) return null
+  context.drawImage(bitmap, 0, 0)
+  const image = context.getImageData(0, 0, bitmap.width, bitmap.height)
+  return jsQR(image.data, image.width, image.height)?.data ?? null
+}
+
+const SenderIdentityPanel: React.FC<Props> = ({ disabled, onChange }) => {
+  const [identity, setIdentity] = useState<SenderIdentity | null>(null)
+  const [previousFingerprint, setPreviousFingerprint] = useState<string | null>(null)
+  const [mode, setMode] = useState<Mode>('idle')
+  const [passphrase, setPassphrase] = useState('')
+  const [passphraseConfirm, setPassphraseConfirm] = useState('')
+  const [exported, setExported] = useState<{ text: string; qr: string } | null>(null)
+  const [pending, setPending] = useState<{ exported: IdentityExport; fingerprint: string } | null>(null)
+  const [working, setWorking] = useState(false)
+  const [name, setName] = useState(() => loadSenderName() ?? '')
+  const { showError, showSuccess } = useToast()
+
+  const refresh = async (loaded: SenderIdentity | null) => {
+    setIdentity(loaded)
+    setPreviousFingerprint(loaded?.rotation ? await fingerprint(loaded.rotation.previousPubkey) : null)
+    onChange(loaded ? await fingerprint(loaded.pubkey) : null)
+  }
+
+  useEffect(() => {
+    loadSenderIdentity().then(refresh)
+  }, [])
+
+  const reset = () => {
+    setMode('idle')
+    setPassphrase('')
+    setPassphraseConfirm('')
+    setExported(null)
+    setPending(null)
+  }
+
+  const handleExport = async () => {
+    if (!identity) return
+    if (passphrase.length < 8) {
+      showError('Passphrase too short', 'Use at least 8 characters to protect the exported key.')
+      return
+    }
+    if (passphrase !== passphraseConfirm) {
+      showError('Passphrase mismatch', 'The two passphrase fields do not match.')
+      return
+    }
+    setWorking(true)
+    try {
+      const text = await exportSenderIdentity(identity, passphrase)
+      const qr = await QRCode.toDataURL(text, { errorCorrectionLevel: 'M', margin: 2, width: 320 })
+      setExported({ text, qr })
+      setPassphrase('')
+      setPassphraseConfirm('')
+    } catch (e) {
+      console.error('Identity export error:', e)
+      showError('Export failed', e instanceof Error ? e.message : 'Could not export the identity.')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleSaveFile = () => {
+    if (!exported) return
+    const url = URL.createObjectURL(new Blob([exported.text], { type: 'application/json' }))
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'whirlcrypt-identity.json'
+    a.click()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
+  const handleChooseFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const text = await readExportFile(file)
+      const parsed = text ? readIdentityExport(text) : null
+      if (!parsed) {
+        showError('Not an identity export', 'Choose a whirlcrypt-identity.json file or a picture of its QR code.')
+        return
+      }
+      setPending({ exported: parsed, fingerprint: await fingerprint(parsed.pubkey) })
+    } catch (e) {
+      console.error('Identity import error:', e)
+      showError('Could not read file', 'The file is not an identity export or a readable QR code.')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!pending) return
+    if (identity && !window.confirm(
+      'Replace the identity in this browser? Recipients who pinned its fingerprint will see a different one.'
+    )) return
+    setWorking(true)
+    try {
+      const imported = await importSenderIdentity(pending.exported, passphrase)
+      await refresh(imported)
+      reset()
+      showSuccess('Identity imported', `Links you sign here now show ${pending.fingerprint}.`)
+    } catch (e) {
+      if (e instanceof WrongPassphraseError) {
+        showError('Wrong passphrase', 'That passphrase does not open this export.')
+      } else {
+        console.error('Identity import error:', e)
+        showError('Import failed', e instanceof Error ? e.message : 'Could not import the identity.')
+      }
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleRotate = async () => {
+    if (!window.confirm(
+      'Rotate to a new key? Signed links will show a new fingerprint, with a statement from the current key ' +
+      'vouching for it. Exports of the current key stay usable, so delete any you no longer trust.'
+    )) return
+    setWorking(true)
+    try {
+      const rotated = await rotateSenderIdentity()
+      await refresh(rotated)
+      reset()
+      showSuccess('Identity rotated', 'Export the new key to your other devices.')
+    } catch (e) {
+      console.error('Identity rotation error:', e)
+      showError('Rotation failed', e instanceof Error ? e.message : 'Could not rotate the identity.')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const busy = disabled || working
+
+  return (
+    <div className="space-y-3 pl-7">
+      <div>
+        <label className="folio block mb-1.5">Name shown to recipients</label>
+        <input
+          type="text"
+          value={name}
+          disabled={disabled}
+          onChange={e => setName(e.target.value)}
+          onBlur={() => saveSenderName(name)}
+          maxLength={ClientCrypto.SENDER_NAME_MAX_LENGTH}
+          className="input max-w-md"
+          placeholder="Optional"
+        />
+        <div className="folio text-ink-faint mt-1" style={{ fontSize: 10 }}>
+          Sent unsigned beside your key. Recipients who saved your key see their own name for
+          it, and are warned if another key uses yours.
+        </div>
+      </div>
+
+      {identity && (
+        <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+          Created {new Date(identity.createdAt).toLocaleDateString()}
+          {previousFingerprint && <> · replaced {previousFingerprint}</>}
+        </div>
+      )}
+
+      {mode === 'idle' && (
+        <div className="flex flex-wrap gap-2">
+          {identity && (
+            <button type="button" onClick={() => setMode('export')} disabled={busy} className="btn btn-secondary">
+              <DownloadIcon className="h-3.5 w-3.5" /> Export
+            </button>
+          )}
+          <button type="button" onClick={() => setMode('import')} disabled={busy} className="btn btn-secondary">
+            <UploadIcon className="h-3.5 w-3.5" /> Import
+          </button>
+          {identity && (
+            <button type="button" onClick={handleRotate} disabled={busy} className="btn btn-secondary">
+              <RefreshCw className="h-3.5 w-3.5" /> Rotate key
+            </button>
+          )}
+        </div>
+      )}
+
+      {mode === 'export' && !exported && (
+        <div className="space-y-3">
+          <div>
+            <label className="folio block mb-1.5">Export passphrase</label>
+            <input
+              type="password"
+              value={passphrase}
+              disabled={busy}
+              onChange={e => setPassphrase(e.target.value)}
+              className="input max-w-md"
+              autoComplete="new-password"
+              placeholder="At least 8 characters"
+            />
+          </div>
+          <div>
+            <label className="folio block mb-1.5">Confirm passphrase</label>
+            <input
+              type="password"
+              value={passphraseConfirm}
+              disabled={busy}
+              onChange={e => setPassphraseConfirm(e.target.value)}
+              className="input max-w-md"
+              autoComplete="new-password"
+              placeholder="Re-enter to confirm"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={handleExport} disabled={busy} className="btn btn-primary">
+              <QrCode className="h-3.5 w-3.5" /> {working ? 'Sealing…' : 'Seal export'}
+            </button>
+            <button type="button" onClick={reset} disabled={working} className="btn btn-secondary">
+              <X className="h-3.5 w-3.5" /> Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'export' && exported && (
+        <div className="space-y-3">
+          <img src={exported.qr} alt="Sealed sender identity" width={200} height={200} style={{ imageRendering: 'pixelated' }} />
+          <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+            Scan or photograph this on the other device, or save the file. Either needs the passphrase to import.
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={handleSaveFile} className="btn btn-secondary">
+              <DownloadIcon className="h-3.5 w-3.5" /> Save file
+            </button>
+            <button type="button" onClick={reset} className="btn btn-secondary">
+              <X className="h-3.5 w-3.5" /> Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'import' && (
+        <div className="space-y-3">
+          {!pending ? (
+            <div>
+              <label className="folio block mb-1.5">Export file, or a photo of its QR code</label>
+              <input
+                type="file"
+                accept="application/json,.json,image/*"
+                disabled={busy}
+                onChange={e => handleChooseFile(e.target.files?.[0])}
+                className="input max-w-md"
+              />
+            </div>
+          ) : (
+            <>
+              <div className="font-mono" style={{ fontSize: 11, color: 'var(--ember)' }}>
+                Identity · {pending.fingerprint}
+              </div>
+              <div>
+                <label className="folio block mb-1.5">Export passphrase</label>
+                <input
+                  type="password"
+                  value={passphrase}
+                  disabled={busy}
+                  onChange={e => setPassphrase(e.target.value)}
+                  className="input max-w-md"
+                  autoComplete="current-password"
+                />
+              </div>
+              <button type="button" onClick={handleImport} disabled={busy || passphrase.length === 0} className="btn btn-primary">
+                <UploadIcon className="h-3.5 w-3.5" /> {working ? 'Unsealing…' : 'Import identity'}
+              </button>
+            </>
+          )}
+          <button type="button" onClick={reset} disabled={working} className="btn btn-secondary">
+            <X className="h-3.5 w-3.5" /> Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SenderIdentityPanel
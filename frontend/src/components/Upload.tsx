@@ -1,75 +1,208 @@
 import React, { useState, useCallback, useEffect } from 'react'
 import { useDropzone } from 'react-dropzone'
-import { FileText, Lock, Share2, AlertCircle, CheckCircle2, Copy, Folder, FolderOpen, Clock, Loader2, Fingerprint } from 'lucide-react'
-import { ClientCrypto } from '../crypto/rfc8188'
-import { loadOrCreateSenderIdentity, loadSenderIdentity, signAttestation, fingerprint } from '../crypto/identity'
-import JSZip from 'jszip'
+import { useSearchParams } from 'react-router-dom'
+import { FileText, Lock, Share2, AlertCircle, CheckCircle2, Copy, Folder, FolderOpen, Clock, Loader2, Fingerprint, KeyRound, Trash2, UserCheck, EyeOff, Split, QrCode, MessageSquare } from 'lucide-react'
+import { ClientCrypto, EnvelopeMetadata, PaddingPolicy, LinkAttestation } from '../crypto/rfc8188'
+import { ARCHIVE_CONTENT_TYPE, buildManifest, archiveSize, zipStream } from '../crypto/archive'
+import { loadOrCreateSenderIdentity, loadSenderIdentity, loadSenderName, signAttestation, fingerprint, parseRecipientKey, sealKeyToRecipient } from '../crypto/identity'
+import QRCode from 'qrcode'
 import axios from 'axios'
 import { useToast } from '../contexts/ToastContext'
+import { UploadResponse } from '../types'
+import { saveUpload } from '../crypto/uploadHistory'
+import SenderIdentityPanel from './SenderIdentityPanel'
 
-type UploadPhase = 'idle' | 'compressing' | 'encrypting' | 'awaiting-server' | 'done'
+type UploadPhase = 'idle' | 'encrypting' | 'awaiting-server' | 'done'
+
+// Ciphertext is sent to a resumable upload session in chunks of this size.
+// It bounds memory to one chunk regardless of file size, and a dropped
+// connection costs at most one chunk's worth of re-sent bytes.
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024
+const MAX_RESUME_ATTEMPTS = 5
+
+// Offered in the key-split picker; the share format allows up to 255
+const MAX_SPLIT_LINKS = 10
+
+// Typed messages are rendered inline by the recipient, so keep them small
+const MESSAGE_MAX_BYTES = 64 * 1024
+const MESSAGE_FILENAME = 'message.txt'
+
+interface ResumableUploadOptions {
+  retentionHours: number
+  maxDownloads?: number
+  onReconnect?: (attempt: number) => void
+}
+
+const readError = async (res: Response): Promise<Error> => {
+  const errorData = await res.json().catch(() => ({}))
+  return new Error(errorData.error || `Upload failed: HTTP ${res.status} ${res.statusText}`)
+}
+
+/**
+ * Upload a ciphertext stream through /api/upload-sessions. Chunks are PATCHed
+ * at the server's offset; after a network error or 5xx the client backs off,
+ * asks the server (HEAD) how far it got and resends only the remainder.
+ */
+async function uploadResumable(
+  ciphertext: AsyncIterable<Uint8Array>,
+  options: ResumableUploadOptions,
+): Promise<UploadResponse> {
+  const created = await fetch('/api/upload-sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ retentionHours: options.retentionHours, maxDownloads: options.maxDownloads }),
+  })
+  if (!created.ok) throw await readError(created)
+  const { uploadUrl } = await created.json() as { uploadUrl: string }
+
+  let offset = 0
+
+  const sendChunk = async (chunk: Uint8Array<ArrayBuffer>): Promise<void> => {
+    const chunkStart = offset
+    let attempts = 0
+    while (offset < chunkStart + chunk.length) {
+      try {
+        const res = await fetch(uploadUrl, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset),
+          },
+          body: chunk.subarray(offset - chunkStart),
+        })
+        if (res.ok) {
+          offset = Number(res.headers.get('Upload-Offset'))
+          continue
+        }
+        // 409 = offset drifted (e.g. a previous attempt landed after all);
+        // re-sync below. Other 4xx are final.
+        if (res.status < 500 && res.status !== 409) throw await readError(res)
+      } catch (e) {
+        if (!(e instanceof TypeError)) throw e // TypeError = network failure
+      }
+
+      attempts++
+      if (attempts > MAX_RESUME_ATTEMPTS) {
+        throw new Error('Upload interrupted and could not be resumed')
+      }
+      options.onReconnect?.(attempts)
+      await new Promise(resolve => setTimeout(resolve, Math.min(1000 * 2 ** (attempts - 1), 15000)))
+
+      try {
+        const head = await fetch(uploadUrl, { method: 'HEAD' })
+        if (head.ok) offset = Number(head.headers.get('Upload-Offset'))
+      } catch {
+        // Still offline; the next PATCH attempt will tell
+      }
+      if (!(offset >= chunkStart && offset <= chunkStart + chunk.length)) {
+        throw new Error('Upload interrupted and the server state no longer matches')
+      }
+    }
+  }
 
-// Feature-detect support for fetch with a ReadableStream body + duplex:'half'.
-// Required for streaming uploads (RAM stays at ~one chunk regardless of file
-// size). Available on Chrome 105+, Edge 105+, Firefox 105+, Safari 16.4+.
-// Older engines fall back to the in-memory Blob path further down.
-const supportsRequestStreams = (() => {
-  let duplexAccessed = false
   try {
-    const req = new Request('http://example.invalid/', {
-      method: 'POST',
-      body: new ReadableStream(),
-      get duplex() {
-        duplexAccessed = true
-        return 'half'
-      },
-    } as any)
-    // request-stream bodies don't auto-set Content-Type
-    return duplexAccessed && !req.headers.has('Content-Type')
-  } catch {
-    return false
+    const buffer = new Uint8Array(UPLOAD_CHUNK_SIZE)
+    let filled = 0
+    for await (const piece of ciphertext) {
+      let pos = 0
+      while (pos < piece.length) {
+        const n = Math.min(piece.length - pos, UPLOAD_CHUNK_SIZE - filled)
+        buffer.set(piece.subarray(pos, pos + n), filled)
+        filled += n
+        pos += n
+        if (filled === UPLOAD_CHUNK_SIZE) {
+          await sendChunk(buffer)
+          filled = 0
+        }
+      }
+    }
+    if (filled > 0) await sendChunk(buffer.subarray(0, filled))
+
+    const finalized = await fetch(`${uploadUrl}/finalize`, { method: 'POST' })
+    if (!finalized.ok) throw await readError(finalized)
+    return await finalized.json()
+  } catch (e) {
+    // Best effort: don't leave a half-written session behind on the server
+    fetch(uploadUrl, { method: 'DELETE' }).catch(() => {})
+    throw e
   }
-})()
+}
 
 interface UploadState {
   file: File | null
   files: File[] | null
   uploading: boolean
   progress: number
-  zipProgress: number
   phase: UploadPhase
   error: string | null
   shareUrl: string | null
+  shareUrls: string[] | null  // one link per key share, when the key was split
+  // Owner token for the last upload, held only in this tab; lets the sender
+  // revoke the link via DELETE /api/files/:id
+  fileId: string | null
+  ownerToken: string | null
+  revoking: boolean
+  revoked: boolean
   retentionHours: number
   burnAfterRead: boolean
+  padding: PaddingPolicy
   passphraseEnabled: boolean
   passphrase: string
   passphraseConfirm: string
+  passphraseKdf: 'argon2id' | 'pbkdf2'
   signingEnabled: boolean
   myFingerprint: string | null
+  // seal the file key to a recipient's X25519 public key instead of a passphrase
+  recipientEnabled: boolean
+  recipientKey: string
+  recipientFingerprint: string | null
+  // split the key across several links, any `splitThreshold` of which open the file
+  splitEnabled: boolean
+  splitThreshold: number
+  splitTotal: number
   isFolder: boolean
   folderName: string | null
+  // a typed text secret instead of a file; the recipient sees it inline
+  textMode: boolean
+  message: string
 }
 
 const UploadPage: React.FC = () => {
+  // A recipient's request link (/?to=<public key>) pre-selects sealing to them
+  const [searchParams] = useSearchParams()
+  const requestedRecipient = searchParams.get('to') ?? ''
   const [state, setState] = useState<UploadState>({
     file: null,
     files: null,
     uploading: false,
     progress: 0,
-    zipProgress: 0,
     phase: 'idle',
     error: null,
     shareUrl: null,
+    shareUrls: null,
+    fileId: null,
+    ownerToken: null,
+    revoking: false,
+    revoked: false,
     retentionHours: 24,
     burnAfterRead: false,
+    padding: 'none',
     passphraseEnabled: false,
     passphrase: '',
     passphraseConfirm: '',
+    passphraseKdf: 'argon2id',
     signingEnabled: false,
     myFingerprint: null,
+    recipientEnabled: requestedRecipient.length > 0,
+    recipientKey: requestedRecipient,
+    recipientFingerprint: null,
+    splitEnabled: false,
+    splitThreshold: 2,
+    splitTotal: 3,
     isFolder: false,
     folderName: null,
+    textMode: false,
+    message: '',
   })
 
   // If a sender identity already exists in localStorage, surface its
@@ -84,7 +217,23 @@ const UploadPage: React.FC = () => {
     })
     return () => { cancelled = true }
   }, [])
+
+  // Show the fingerprint of the entered recipient key so the sender can
+  // compare it with the one the recipient sees on their Keys page.
+  useEffect(() => {
+    let cancelled = false
+    const pubkey = parseRecipientKey(state.recipientKey)
+    if (!pubkey) {
+      setState(prev => ({ ...prev, recipientFingerprint: null }))
+      return
+    }
+    fingerprint(pubkey).then(fp => {
+      if (!cancelled) setState(prev => ({ ...prev, recipientFingerprint: fp }))
+    })
+    return () => { cancelled = true }
+  }, [state.recipientKey])
   const [copied, setCopied] = useState(false)
+  const [shareQr, setShareQr] = useState<{ index: number; dataUrl: string } | null>(null)
   const { showError, showSuccess, showInfo } = useToast()
 
   const calculateTotalSize = (files: File[]): number =>
@@ -107,9 +256,9 @@ const UploadPage: React.FC = () => {
       const isFolder = acceptedFiles.some(f => f.webkitRelativePath)
       if (isFolder) {
         const folderName = extractFolderName(acceptedFiles)
-        setState(prev => ({ ...prev, files: acceptedFiles, file: null, isFolder: true, folderName, error: null, shareUrl: null }))
+        setState(prev => ({ ...prev, files: acceptedFiles, file: null, isFolder: true, folderName, error: null, shareUrl: null, shareUrls: null }))
       } else {
-        setState(prev => ({ ...prev, file: acceptedFiles[0], files: null, isFolder: false, folderName: null, error: null, shareUrl: null }))
+        setState(prev => ({ ...prev, file: acceptedFiles[0], files: null, isFolder: false, folderName: null, error: null, shareUrl: null, shareUrls: null }))
       }
     }
   }, [])
@@ -138,9 +287,9 @@ const UploadPage: React.FC = () => {
       return
     }
     if (files.length === 1) {
-      setState(prev => ({ ...prev, file: files[0], files: null, isFolder: false, folderName: null, error: null, shareUrl: null }))
+      setState(prev => ({ ...prev, file: files[0], files: null, isFolder: false, folderName: null, error: null, shareUrl: null, shareUrls: null }))
     } else {
-      setState(prev => ({ ...prev, files, file: null, isFolder: true, folderName: 'selected-files', error: null, shareUrl: null }))
+      setState(prev => ({ ...prev, files, file: null, isFolder: true, folderName: 'selected-files', error: null, shareUrl: null, shareUrls: null }))
     }
     e.target.value = ''
   }
@@ -154,31 +303,36 @@ const UploadPage: React.FC = () => {
       return
     }
     const folderName = extractFolderName(files)
-    setState(prev => ({ ...prev, files, file: null, isFolder: true, folderName, error: null, shareUrl: null }))
+    setState(prev => ({ ...prev, files, file: null, isFolder: true, folderName, error: null, shareUrl: null, shareUrls: null }))
     showSuccess('Folder selected', `${files.length} files from "${folderName}"`)
     e.target.value = ''
   }
 
-  const handleFolderButtonClick = () => {
-    showInfo('Browser permission', 'Your browser will ask permission to upload multiple files.', 6000)
+  // Text secrets are one-time by default; the sender can untick burn-after-reading
+  const handleStartMessage = () => {
+    setState(prev => ({
+      ...prev, textMode: true, message: '', burnAfterRead: true,
+      file: null, files: null, isFolder: false, folderName: null, error: null, shareUrl: null, shareUrls: null,
+    }))
   }
 
-  const createZipFromFiles = async (files: File[], onProgress?: (p: number) => void): Promise<File> => {
-    const zip = new JSZip()
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i]
-      const relativePath = file.webkitRelativePath || file.name
-      const arrayBuffer = await file.arrayBuffer()
-      zip.file(relativePath, arrayBuffer)
-      onProgress?.((i + 1) / files.length * 100)
-    }
-    const zipBlob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE', compressionOptions: { level: 6 } })
-    const folderName = state.folderName || 'folder'
-    return new File([zipBlob], `${folderName}.zip`, { type: 'application/zip' })
+  const handleFolderButtonClick = () => {
+    showInfo('Browser permission', 'Your browser will ask permission to upload multiple files.', 6000)
   }
 
   const handleUpload = async () => {
-    if (!state.file && !state.files) return
+    if (!state.file && !state.files && !state.textMode) return
+
+    if (state.textMode) {
+      if (state.message.trim().length === 0) {
+        showError('Empty message', 'Type the text you want to send.')
+        return
+      }
+      if (new TextEncoder().encode(state.message).length > MESSAGE_MAX_BYTES) {
+        showError('Message too long', `Messages are limited to ${formatFileSize(MESSAGE_MAX_BYTES)}; send longer text as a file.`)
+        return
+      }
+    }
 
     if (state.passphraseEnabled) {
       if (state.passphrase.length < 8) {
@@ -191,148 +345,166 @@ const UploadPage: React.FC = () => {
       }
     }
 
-    const initialPhase: UploadPhase = state.isFolder ? 'compressing' : 'encrypting'
-    setState(prev => ({ ...prev, uploading: true, progress: 0, zipProgress: 0, phase: initialPhase, error: null }))
-    try {
-      let fileToUpload: File
-      if (state.files && state.isFolder) {
-        setState(prev => ({ ...prev, progress: 5 }))
-        fileToUpload = await createZipFromFiles(state.files, (zipProgress) =>
-          setState(prev => ({ ...prev, zipProgress, progress: 5 + (zipProgress * 0.25) }))
-        )
-        setState(prev => ({ ...prev, progress: 30, zipProgress: 100, phase: 'encrypting' }))
-      } else if (state.file) {
-        fileToUpload = state.file
-        setState(prev => ({ ...prev, progress: 5 }))
-      } else {
-        throw new Error('No file or folder selected')
+    if (state.splitEnabled && !(state.splitThreshold >= 2 && state.splitThreshold <= state.splitTotal)) {
+      showError('Invalid key split', 'The number of links needed must be between 2 and the number of links.')
+      return
+    }
+
+    let recipientPubkey: Uint8Array | null = null
+    if (state.recipientEnabled) {
+      recipientPubkey = parseRecipientKey(state.recipientKey)
+      if (!recipientPubkey) {
+        showError('Invalid recipient key', 'Paste the public key from the recipient\'s Keys page.')
+        return
       }
+    }
 
+    setState(prev => ({ ...prev, uploading: true, progress: 0, phase: 'encrypting', error: null }))
+    try {
       const { key, salt } = await ClientCrypto.generateKeys()
 
       // Filename + MIME type travel inside the encrypted envelope; the server
-      // sees only opaque ciphertext. The on-disk encrypted blob is uploaded
-      // under a generic name so it can't even be inferred from the multipart
-      // headers.
-      const envelopeMetadata = {
-        filename:    fileToUpload.name,
-        contentType: fileToUpload.type || 'application/octet-stream',
-      }
-      const opaqueUploadName = 'whirlcrypt.bin'
-
-      let response: { id: string; downloadUrl: string; expiresAt: string }
-
-      if (supportsRequestStreams) {
-        // Streaming path: pipe encryption straight into the request body.
-        // RAM stays at ~one record (64 KB) regardless of file size.
-        const boundary = '----WhirlcryptBoundary' + Math.random().toString(36).slice(2)
-        const encoder = new TextEncoder()
-
-        const body = new ReadableStream<Uint8Array>({
-          async start(controller) {
-            try {
-              controller.enqueue(encoder.encode(
-                `--${boundary}\r\nContent-Disposition: form-data; name="retentionHours"\r\n\r\n${state.retentionHours}\r\n`
-              ))
-              if (state.burnAfterRead) {
-                controller.enqueue(encoder.encode(
-                  `--${boundary}\r\nContent-Disposition: form-data; name="maxDownloads"\r\n\r\n1\r\n`
-                ))
-              }
-              controller.enqueue(encoder.encode(
-                `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${opaqueUploadName}"\r\nContent-Type: application/octet-stream\r\n\r\n`
-              ))
-              for await (const chunk of ClientCrypto.encryptFileStream(
-                fileToUpload, envelopeMetadata, key, salt, 65536,
-                (progress) => setState(prev => ({ ...prev, progress: 30 + (progress * 0.65) }))
-              )) {
-                controller.enqueue(chunk)
-              }
-              controller.enqueue(encoder.encode(`\r\n--${boundary}--\r\n`))
-              controller.close()
-              // Encryption + body queueing complete; the network may still be
-              // pushing bytes and the server is processing them. Switch to an
-              // indeterminate phase so the UI stops looking frozen at 95%.
-              setState(prev => ({ ...prev, phase: 'awaiting-server' }))
-            } catch (e) {
-              controller.error(e)
-            }
-          },
-        })
+      // sees only opaque ciphertext and stores it under a generic name.
+      // Folders are streamed as a ZIP archive, with the entry list in the
+      // envelope so the recipient can pick out individual files.
+      const onProgress = (progress: number) =>
+        setState(prev => ({ ...prev, progress: 5 + (progress * 0.9) }))
 
-        const uploadResponse = await fetch('/api/upload', {
-          method: 'POST',
-          headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
-          body,
-          // @ts-ignore — duplex required for streaming bodies, not yet in TS lib types
-          duplex: 'half',
-        } as RequestInit)
-        if (!uploadResponse.ok) throw new Error(`Upload failed: ${uploadResponse.statusText}`)
-        response = await uploadResponse.json()
-      } else {
-        // Fallback for engines without request-stream support (Safari <16.4 etc.).
-        // Encrypts to memory, then uploads via FormData. RAM = file size.
-        const encryptedChunks: Uint8Array[] = []
-        for await (const chunk of ClientCrypto.encryptFileStream(
-          fileToUpload, envelopeMetadata, key, salt, 65536,
-          (progress) => setState(prev => ({ ...prev, progress: 30 + (progress * 0.4) }))
-        )) {
-          encryptedChunks.push(chunk)
+      let envelopeMetadata: EnvelopeMetadata
+      let plaintextSize: number
+      let encrypted: AsyncGenerator<Uint8Array, void, unknown>
+      // Signed links cover the plaintext too; the digest is ready once encryption ends
+      let contentDigest: Uint8Array | null = null
+      const onDigest = state.signingEnabled ? (digest: Uint8Array) => { contentDigest = digest } : undefined
+      if (state.textMode) {
+        // Same envelope as a file, flagged so the recipient shows it instead of saving it
+        const body = new TextEncoder().encode(state.message)
+        envelopeMetadata = { filename: MESSAGE_FILENAME, contentType: 'text/plain', message: true }
+        plaintextSize = body.length
+        encrypted = ClientCrypto.encryptEnvelopeStream(
+          [body], body.length, envelopeMetadata, key, salt, 65536, onProgress, state.padding, true, onDigest
+        )
+      } else if (state.files && state.isFolder) {
+        const manifest = buildManifest(state.files)
+        envelopeMetadata = {
+          filename:    `${state.folderName || 'folder'}.zip`,
+          contentType: ARCHIVE_CONTENT_TYPE,
+          manifest,
         }
-        setState(prev => ({ ...prev, progress: 70 }))
-
-        const encryptedBlob = new Blob(encryptedChunks as unknown as BlobPart[], {
-          type: 'application/octet-stream',
-        })
-        const formData = new FormData()
-        formData.append('retentionHours', String(state.retentionHours))
-        if (state.burnAfterRead) formData.append('maxDownloads', '1')
-        formData.append('file', encryptedBlob, opaqueUploadName)
+        plaintextSize = archiveSize(manifest)
+        encrypted = ClientCrypto.encryptEnvelopeStream(
+          zipStream(state.files, 65536), plaintextSize, envelopeMetadata, key, salt, 65536, onProgress, state.padding, true, onDigest
+        )
+      } else if (state.file) {
+        envelopeMetadata = {
+          filename:    state.file.name,
+          contentType: state.file.type || 'application/octet-stream',
+        }
+        plaintextSize = state.file.size
+        encrypted = ClientCrypto.encryptFileStream(
+          state.file, envelopeMetadata, key, salt, 65536, onProgress, state.padding, true, onDigest
+        )
+      } else {
+        throw new Error('No file or folder selected')
+      }
+      setState(prev => ({ ...prev, progress: 5 }))
 
-        // Encryption is done; from here we're at the network's mercy.
+      async function* ciphertext() {
+        yield* encrypted
+        // Encryption is done; the last chunk and the server-side store are
+        // still in flight. Switch to an indeterminate phase so the UI stops
+        // looking frozen at 95%.
         setState(prev => ({ ...prev, phase: 'awaiting-server' }))
-
-        const uploadResponse = await fetch('/api/upload', {
-          method: 'POST',
-          body: formData,
-        })
-        if (!uploadResponse.ok) throw new Error(`Upload failed: ${uploadResponse.statusText}`)
-        response = await uploadResponse.json()
       }
 
-      let attestation: { pubkey: Uint8Array; signature: Uint8Array } | undefined
+      const response = await uploadResumable(ciphertext(), {
+        retentionHours: state.retentionHours,
+        maxDownloads: state.burnAfterRead ? 1 : undefined,
+        onReconnect: (attempt) =>
+          showInfo('Connection lost', `Resuming upload (attempt ${attempt} of ${MAX_RESUME_ATTEMPTS})…`),
+      })
+
+      let attestation: LinkAttestation | undefined
       if (state.signingEnabled) {
         const identity = await loadOrCreateSenderIdentity()
-        const signature = await signAttestation(identity, response.id)
-        attestation = { pubkey: identity.pubkey, signature }
+        const signature = await signAttestation(identity, response.id, contentDigest)
+        attestation = { pubkey: identity.pubkey, signature, rotation: identity.rotation, contentDigest, name: loadSenderName() }
         // Update fingerprint state in case the identity was created just now.
         const fp = await fingerprint(identity.pubkey)
         setState(prev => ({ ...prev, myFingerprint: fp }))
       }
 
-      const shareUrl = await ClientCrypto.generateShareUrl(
-        response.id,
-        key,
-        salt,
-        window.location.origin,
-        {
-          passphrase: state.passphraseEnabled ? state.passphrase : undefined,
-          attestation,
-        },
-      )
-
-      setState(prev => ({ ...prev, uploading: false, progress: 100, zipProgress: 0, phase: 'done', shareUrl, error: null }))
-      showSuccess(state.isFolder ? 'Folder uploaded' : 'File uploaded', 'Encrypted and ready to share.')
+      const sealedKey = recipientPubkey ? await sealKeyToRecipient(key, recipientPubkey) : undefined
+
+      const linkOptions = {
+        passphrase: state.passphraseEnabled ? state.passphrase : undefined,
+        passphraseKdf: state.passphraseKdf === 'argon2id' ? ClientCrypto.DEFAULT_ARGON2ID : ClientCrypto.DEFAULT_PBKDF2,
+        attestation,
+        sealedKey,
+        committed: true,
+      }
+      // A split key gets one link per share and no single link that opens the file
+      const shareUrls = state.splitEnabled
+        ? await ClientCrypto.generateSplitShareUrls(
+          response.id, key, salt, window.location.origin, state.splitThreshold, state.splitTotal, linkOptions,
+        )
+        : null
+      const shareUrl = shareUrls
+        ? shareUrls[0]
+        : await ClientCrypto.generateShareUrl(response.id, key, salt, window.location.origin, linkOptions)
+
+      // Remember it for the "My uploads" page. Best effort: a browser without
+      // IndexedDB, or whose history has no passphrase yet, still gets its link.
+      saveUpload({
+        id: response.id,
+        filename: envelopeMetadata.filename,
+        size: plaintextSize,
+        shareUrl,
+        shareUrls: shareUrls ?? undefined,
+        ownerToken: response.ownerToken ?? null,
+        uploadedAt: new Date().toISOString(),
+        expiresAt: response.expiresAt,
+        maxDownloads: state.burnAfterRead ? 1 : null,
+      }).catch(e => console.warn('Could not record upload locally:', e))
+
+      setState(prev => ({
+        ...prev, uploading: false, progress: 100, phase: 'done', shareUrl, shareUrls, error: null,
+        fileId: response.id, ownerToken: response.ownerToken ?? null, revoking: false, revoked: false,
+      }))
+      setShareQr(null)
+      showSuccess(`${subjectTitle} uploaded`, 'Encrypted and ready to share.')
     } catch (error) {
       console.error('Upload error:', error)
       const errorMessage = axios.isAxiosError(error)
         ? error.response?.data?.error || 'Upload failed'
         : error instanceof Error ? error.message : 'Upload failed'
-      setState(prev => ({ ...prev, uploading: false, progress: 0, zipProgress: 0, phase: 'idle', error: errorMessage }))
+      setState(prev => ({ ...prev, uploading: false, progress: 0, phase: 'idle', error: errorMessage }))
       showError('Upload failed', errorMessage)
     }
   }
 
+  const handleRevoke = async () => {
+    if (!state.fileId || !state.ownerToken) return
+    if (!window.confirm('Delete this file from the server? The share link will stop working.')) return
+
+    setState(prev => ({ ...prev, revoking: true }))
+    try {
+      const res = await fetch(`/api/files/${state.fileId}`, {
+        method: 'DELETE',
+        headers: { 'X-Owner-Token': state.ownerToken },
+      })
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}))
+        throw new Error(errorData.error || `HTTP ${res.status}: ${res.statusText}`)
+      }
+      setState(prev => ({ ...prev, revoking: false, revoked: true }))
+      showSuccess('Link revoked', 'The file has been deleted from the server.')
+    } catch (error) {
+      setState(prev => ({ ...prev, revoking: false }))
+      showError('Revoke failed', error instanceof Error ? error.message : 'Could not revoke the link')
+    }
+  }
+
   const handleCopyLink = async () => {
     if (!state.shareUrl) return
     await navigator.clipboard.writeText(state.shareUrl)
@@ -341,6 +513,22 @@ const UploadPage: React.FC = () => {
     showSuccess('Link copied', 'Share URL on the clipboard.')
   }
 
+  const handleCopyShareLink = async (index: number) => {
+    if (!state.shareUrls) return
+    await navigator.clipboard.writeText(state.shareUrls[index])
+    showSuccess(`Share link ${index + 1} copied`, `Any ${state.splitThreshold} of the ${state.shareUrls.length} links open the file.`)
+  }
+
+  const handleShowShareQr = async (index: number) => {
+    if (!state.shareUrls) return
+    if (shareQr?.index === index) {
+      setShareQr(null)
+      return
+    }
+    const dataUrl = await QRCode.toDataURL(state.shareUrls[index], { errorCorrectionLevel: 'M', margin: 2, width: 320 })
+    setShareQr({ index, dataUrl })
+  }
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -357,7 +545,10 @@ const UploadPage: React.FC = () => {
     { value: 168, label: '7 days' },
   ]
 
-  const hasSelection = !!(state.file || state.files)
+  const hasSelection = !!(state.file || state.files) || state.textMode
+  const subject = state.isFolder ? 'folder' : state.textMode ? 'message' : 'file'
+  const subjectTitle = subject[0].toUpperCase() + subject.slice(1)
+  const selectionSize = state.files ? calculateTotalSize(state.files) : state.file ? state.file.size : 0
 
   return (
     <div className="space-y-10">
@@ -367,7 +558,7 @@ const UploadPage: React.FC = () => {
         <h1 className="display">A private channel, sealed at your end.</h1>
         <p className="max-w-2xl text-ink-soft" style={{ fontSize: 13, lineHeight: 1.65 }}>
           Files are sealed in your browser using the RFC 8188 record stream — keys travel only in the
-          URL fragment, never to the server. Folders are bundled to a ZIP first, then encrypted whole.
+          URL fragment, never to the server. Folders are streamed as a ZIP, with a sealed list of its files so the recipient can take just the ones they need.
         </p>
       </header>
 
@@ -380,7 +571,47 @@ const UploadPage: React.FC = () => {
           className={`tray ${isDragActive ? 'tray-active' : ''} ${hasSelection ? 'tray-locked' : ''}`}
         >
           {hasSelection ? (
-            state.isFolder && state.files ? (
+            state.textMode ? (
+              <div className="space-y-4 text-left">
+                <div className="folio flex items-center gap-2">
+                  <MessageSquare className="h-3.5 w-3.5 text-ember" /> Text message
+                </div>
+                {state.shareUrl ? (
+                  <div className="folio">{Array.from(state.message).length} characters · sealed</div>
+                ) : (
+                  <>
+                    <textarea
+                      value={state.message}
+                      disabled={state.uploading}
+                      onChange={e => setState(prev => ({ ...prev, message: e.target.value }))}
+                      rows={8}
+                      autoFocus
+                      spellCheck={false}
+                      className="input w-full font-mono"
+                      style={{ fontSize: 12, resize: 'vertical' }}
+                      placeholder="A password, a token, a snippet…"
+                    />
+                    <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+                      {formatFileSize(new TextEncoder().encode(state.message).length)} of {formatFileSize(MESSAGE_MAX_BYTES)} ·
+                      shown to the recipient in the page, never saved as a file
+                    </div>
+                  </>
+                )}
+                {!state.uploading && !state.shareUrl && (
+                  <div className="flex gap-2 justify-center pt-1">
+                    <button onClick={handleUpload} disabled={state.message.trim().length === 0} className="btn btn-primary">
+                      <Lock className="h-3.5 w-3.5" /> Encrypt & upload
+                    </button>
+                    <button
+                      onClick={() => setState(prev => ({ ...prev, textMode: false, message: '', error: null }))}
+                      className="btn btn-secondary"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : state.isFolder && state.files ? (
               <div className="space-y-4">
                 <FolderOpen className="mx-auto h-10 w-10 text-ember" />
                 <div className="space-y-1">
@@ -446,6 +677,9 @@ const UploadPage: React.FC = () => {
                     onChange={handleFolderSelect}
                   />
                 </label>
+                <button onClick={handleStartMessage} className="btn btn-secondary">
+                  <MessageSquare className="h-3.5 w-3.5" /> Write a message
+                </button>
               </div>
               <div className="folio text-ink-faint">Max 4 GB total</div>
             </div>
@@ -458,7 +692,7 @@ const UploadPage: React.FC = () => {
             <div>
               <label className="folio block mb-2 flex items-center gap-2">
                 <Clock className="h-3.5 w-3.5" />
-                {state.isFolder ? 'Folder' : 'File'} retention
+                {subjectTitle} retention
               </label>
               <select
                 value={state.retentionHours}
@@ -487,12 +721,51 @@ const UploadPage: React.FC = () => {
                   Burn after reading
                 </span>
                 <span className="block text-ink-faint mt-1" style={{ fontSize: 11, lineHeight: 1.5 }}>
-                  Delete the {state.isFolder ? 'folder' : 'file'} the moment the first download finishes.
+                  Delete the {subject} the moment the first download finishes.
                   Subsequent visits to the link get a 404. Useful for one-shot deliveries.
                 </span>
               </span>
             </label>
 
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={state.padding !== 'none'}
+                disabled={state.uploading}
+                onChange={e => setState(prev => ({ ...prev, padding: e.target.checked ? 'padme' : 'none' }))}
+                className="mt-1 h-3.5 w-3.5 cursor-pointer"
+                style={{ accentColor: 'var(--ember)' }}
+              />
+              <span>
+                <span className="folio block flex items-center gap-2">
+                  <EyeOff className="h-3 w-3" />
+                  Hide exact size
+                </span>
+                <span className="block text-ink-faint mt-1" style={{ fontSize: 11, lineHeight: 1.5 }}>
+                  Pads the encrypted {subject} up to a size bucket, so the
+                  server and anyone watching the transfer learn only a range, not the exact length.
+                  Padding counts toward the upload limit.
+                </span>
+              </span>
+            </label>
+
+            {state.padding !== 'none' && (
+              <div className="space-y-2 pl-7">
+                <select
+                  value={state.padding}
+                  disabled={state.uploading}
+                  onChange={e => setState(prev => ({ ...prev, padding: e.target.value as PaddingPolicy }))}
+                  className="input max-w-md"
+                >
+                  <option value="padme">Padmé buckets — at most ~12% larger</option>
+                  <option value="pow2">Next power of two — coarser, up to 2× larger</option>
+                </select>
+                <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+                  {formatFileSize(selectionSize)} → about {formatFileSize(ClientCrypto.paddedLength(selectionSize, state.padding))} on the server
+                </div>
+              </div>
+            )}
+
             <label className="flex items-start gap-3 cursor-pointer">
               <input
                 type="checkbox"
@@ -503,6 +776,7 @@ const UploadPage: React.FC = () => {
                   passphraseEnabled: e.target.checked,
                   passphrase: e.target.checked ? prev.passphrase : '',
                   passphraseConfirm: e.target.checked ? prev.passphraseConfirm : '',
+                  recipientEnabled: e.target.checked ? false : prev.recipientEnabled,
                 }))}
                 className="mt-1 h-3.5 w-3.5 cursor-pointer"
                 style={{ accentColor: 'var(--ember)' }}
@@ -513,9 +787,10 @@ const UploadPage: React.FC = () => {
                   Lock with passphrase
                 </span>
                 <span className="block text-ink-faint mt-1" style={{ fontSize: 11, lineHeight: 1.5 }}>
-                  XORs the file key with a PBKDF2-derived secret. Recipients must enter the
-                  passphrase before decryption. Defends against URL leakage (screenshots,
-                  link unfurls, screen sharing). Share the passphrase out-of-band.
+                  Wraps the file key with AES-GCM under a key derived from the passphrase.
+                  Recipients must enter it before decryption, and a wrong one is rejected before
+                  anything downloads. Defends against URL leakage (screenshots, link unfurls,
+                  screen sharing). Share the passphrase out-of-band.
                 </span>
               </span>
             </label>
@@ -546,12 +821,131 @@ const UploadPage: React.FC = () => {
                     placeholder="Re-enter to confirm"
                   />
                 </div>
+                <div>
+                  <label className="folio block mb-1.5">Key derivation</label>
+                  <select
+                    value={state.passphraseKdf}
+                    disabled={state.uploading}
+                    onChange={e => setState(prev => ({ ...prev, passphraseKdf: e.target.value as UploadState['passphraseKdf'] }))}
+                    className="input max-w-md"
+                  >
+                    <option value="argon2id">{ClientCrypto.describeKdf(ClientCrypto.DEFAULT_ARGON2ID)} — memory-hard</option>
+                    <option value="pbkdf2">{ClientCrypto.describeKdf(ClientCrypto.DEFAULT_PBKDF2)}</option>
+                  </select>
+                </div>
                 <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
                   Forget the passphrase, lose the file. There is no recovery.
                 </div>
               </div>
             )}
 
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={state.recipientEnabled}
+                disabled={state.uploading}
+                onChange={e => setState(prev => ({
+                  ...prev,
+                  recipientEnabled: e.target.checked,
+                  passphraseEnabled: e.target.checked ? false : prev.passphraseEnabled,
+                }))}
+                className="mt-1 h-3.5 w-3.5 cursor-pointer"
+                style={{ accentColor: 'var(--ember)' }}
+              />
+              <span>
+                <span className="folio block flex items-center gap-2">
+                  <UserCheck className="h-3 w-3" />
+                  Seal to a recipient
+                </span>
+                <span className="block text-ink-faint mt-1" style={{ fontSize: 11, lineHeight: 1.5 }}>
+                  Encrypts the file key to the recipient&apos;s X25519 public key. Only the browser
+                  holding their private key can open the link — a leaked link is useless on its
+                  own. Recipients publish their key from the Keys page.
+                </span>
+              </span>
+            </label>
+
+            {state.recipientEnabled && (
+              <div className="space-y-2 pl-7">
+                <label className="folio block mb-1.5">Recipient public key</label>
+                <input
+                  type="text"
+                  value={state.recipientKey}
+                  disabled={state.uploading}
+                  onChange={e => setState(prev => ({ ...prev, recipientKey: e.target.value }))}
+                  className="input max-w-md"
+                  autoComplete="off"
+                  spellCheck={false}
+                  placeholder="Paste the key the recipient shared"
+                />
+                {state.recipientFingerprint ? (
+                  <div className="font-mono" style={{ fontSize: 11, color: 'var(--ember)' }}>
+                    Recipient fingerprint · {state.recipientFingerprint}
+                  </div>
+                ) : state.recipientKey.length > 0 && (
+                  <div className="folio" style={{ color: 'var(--red)' }}>Not a valid public key.</div>
+                )}
+                <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+                  Check the fingerprint with the recipient out-of-band before sending anything sensitive.
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={state.splitEnabled}
+                disabled={state.uploading}
+                onChange={e => setState(prev => ({ ...prev, splitEnabled: e.target.checked }))}
+                className="mt-1 h-3.5 w-3.5 cursor-pointer"
+                style={{ accentColor: 'var(--ember)' }}
+              />
+              <span>
+                <span className="folio block flex items-center gap-2">
+                  <Split className="h-3 w-3" />
+                  Split the key across several links
+                </span>
+                <span className="block text-ink-faint mt-1" style={{ fontSize: 11, lineHeight: 1.5 }}>
+                  Splits the file key with Shamir secret sharing and puts one share in each link.
+                  The recipient needs a set number of the links to decrypt; fewer reveal nothing
+                  about the key. Send them over different channels so no single leak opens the {subject}.
+                </span>
+              </span>
+            </label>
+
+            {state.splitEnabled && (
+              <div className="flex items-center gap-2 pl-7" style={{ fontSize: 13 }}>
+                <span className="text-ink-soft">Any</span>
+                <select
+                  value={state.splitThreshold}
+                  disabled={state.uploading}
+                  onChange={e => setState(prev => ({ ...prev, splitThreshold: parseInt(e.target.value) }))}
+                  className="input"
+                  style={{ width: 72 }}
+                >
+                  {Array.from({ length: state.splitTotal - 1 }, (_, i) => i + 2).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+                <span className="text-ink-soft">of</span>
+                <select
+                  value={state.splitTotal}
+                  disabled={state.uploading}
+                  onChange={e => {
+                    const splitTotal = parseInt(e.target.value)
+                    setState(prev => ({ ...prev, splitTotal, splitThreshold: Math.min(prev.splitThreshold, splitTotal) }))
+                  }}
+                  className="input"
+                  style={{ width: 72 }}
+                >
+                  {Array.from({ length: MAX_SPLIT_LINKS - 1 }, (_, i) => i + 2).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+                <span className="text-ink-soft">links open it</span>
+              </div>
+            )}
+
             <label className="flex items-start gap-3 cursor-pointer">
               <input
                 type="checkbox"
@@ -582,22 +976,19 @@ const UploadPage: React.FC = () => {
                 )}
               </span>
             </label>
+
+            {state.signingEnabled && (
+              <SenderIdentityPanel
+                disabled={state.uploading}
+                onChange={fp => setState(prev => ({ ...prev, myFingerprint: fp }))}
+              />
+            )}
           </div>
         )}
 
         {/* Progress readout */}
         {state.uploading && (
           <div className="mt-6 space-y-4">
-            {state.phase === 'compressing' && (
-              <div>
-                <div className="flex justify-between folio mb-1">
-                  <span>Compressing folder</span>
-                  <span>{Math.round(state.zipProgress)}%</span>
-                </div>
-                <div className="gauge"><div className="gauge-fill" style={{ width: `${state.zipProgress}%` }} /></div>
-              </div>
-            )}
-
             {state.phase === 'encrypting' && (
               <div>
                 <div className="flex justify-between folio mb-1">
@@ -641,31 +1032,87 @@ const UploadPage: React.FC = () => {
               <CheckCircle2 className="h-5 w-5 text-ember flex-shrink-0 mt-0.5" />
               <div className="flex-1 space-y-3">
                 <div className="font-display italic text-lg text-ink">
-                  {state.isFolder ? 'Folder sealed.' : 'File sealed.'}
+                  {subjectTitle} sealed.
                 </div>
-                <div>
-                  <div className="folio mb-1 flex items-center gap-2">
-                    <Share2 className="h-3 w-3" /> Share link (key in fragment, never sent)
+                {state.shareUrls ? (
+                  <div className="space-y-2">
+                    <div className="folio flex items-center gap-2">
+                      <Split className="h-3 w-3" /> {state.shareUrls.length} share links · any {state.splitThreshold} open the file
+                    </div>
+                    {state.shareUrls.map((url, index) => (
+                      <div key={index} className="space-y-2">
+                        <div className="flex gap-2 items-center">
+                          <span className="folio flex-shrink-0" style={{ width: 18 }}>{index + 1}</span>
+                          <input type="text" value={url} readOnly className="input flex-1" style={{ fontSize: 11 }} />
+                          <button onClick={() => handleCopyShareLink(index)} className="btn btn-secondary btn-sm">
+                            <Copy className="h-3 w-3" /> Copy
+                          </button>
+                          <button onClick={() => handleShowShareQr(index)} className="btn btn-ghost btn-sm" title="Show as QR code">
+                            <QrCode className="h-3 w-3" />
+                          </button>
+                        </div>
+                        {shareQr?.index === index && (
+                          <img src={shareQr.dataUrl} alt={`QR code for share link ${index + 1}`} style={{ width: 220, marginLeft: 26 }} />
+                        )}
+                      </div>
+                    ))}
+                    <div className="folio text-ink-faint" style={{ fontSize: 10 }}>
+                      Send each link to a different person or over a different channel. No single link
+                      opens the file; the recipient pastes or scans the others until enough are in.
+                    </div>
                   </div>
-                  <div className="flex gap-2">
-                    <input type="text" value={state.shareUrl} readOnly className="input flex-1" style={{ fontSize: 11 }} />
-                    <button
-                      onClick={handleCopyLink}
-                      className={`btn ${copied ? 'btn-secondary' : 'btn-secondary'}`}
-                      style={copied ? { color: 'var(--green)', borderColor: 'var(--green)' } : undefined}
-                    >
-                      <Copy className="h-3.5 w-3.5" /> {copied ? 'Copied' : 'Copy'}
-                    </button>
+                ) : (
+                  <div>
+                    <div className="folio mb-1 flex items-center gap-2">
+                      <Share2 className="h-3 w-3" /> Share link (key in fragment, never sent)
+                    </div>
+                    <div className="flex gap-2">
+                      <input type="text" value={state.shareUrl} readOnly className="input flex-1" style={{ fontSize: 11 }} />
+                      <button
+                        onClick={handleCopyLink}
+                        className={`btn ${copied ? 'btn-secondary' : 'btn-secondary'}`}
+                        style={copied ? { color: 'var(--green)', borderColor: 'var(--green)' } : undefined}
+                      >
+                        <Copy className="h-3.5 w-3.5" /> {copied ? 'Copied' : 'Copy'}
+                      </button>
+                    </div>
                   </div>
-                </div>
+                )}
                 <dl className="telem">
                   <dt>Expires</dt>
                   <dd>in {state.retentionHours} hour{state.retentionHours !== 1 ? 's' : ''}</dd>
                   <dt>Cipher</dt>
                   <dd>AES-128-GCM · RFC 8188</dd>
                   <dt>Server sees</dt>
-                  <dd>encrypted bytes only</dd>
+                  <dd>encrypted bytes only{state.padding !== 'none' ? ', padded to a size bucket' : ''}</dd>
+                  {state.recipientEnabled && state.recipientFingerprint && (
+                    <>
+                      <dt>Sealed to</dt>
+                      <dd>{state.recipientFingerprint}</dd>
+                    </>
+                  )}
                 </dl>
+                {state.ownerToken && (
+                  <div>
+                    <div className="folio mb-1 flex items-center gap-2">
+                      <KeyRound className="h-3 w-3" /> Owner token (revokes the link — keep it private)
+                    </div>
+                    {state.revoked ? (
+                      <div className="text-ink-soft" style={{ fontSize: 13 }}>
+                        Revoked. The link no longer works.
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <input type="text" value={state.ownerToken} readOnly className="input flex-1" style={{ fontSize: 11 }} />
+                        <button onClick={handleRevoke} disabled={state.revoking} className="btn btn-danger">
+                          {state.revoking
+                            ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                            : <Trash2 className="h-3.5 w-3.5" />} Revoke
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -680,7 +1127,7 @@ const UploadPage: React.FC = () => {
             <dt>Encryption</dt>      <dd>RFC 8188 record stream, in-browser</dd>
             <dt>Cipher</dt>          <dd>AES-128-GCM, 64KB records</dd>
             <dt>Key custody</dt>     <dd>URL fragment only — never the server</dd>
-            <dt>Folder support</dt>  <dd>Client-side ZIP, then sealed whole</dd>
+            <dt>Folder support</dt>  <dd>Streamed ZIP with a sealed file list</dd>
           </dl>
           <dl className="telem">
             <dt>Expiry</dt>          <dd>Auto-purge after retention window</dd>
@@ -0,0 +1,269 @@
+/**
+ * Streaming ZIP archive for folder uploads.
+ *
+ * Folders are sent as a single envelope whose body is a ZIP archive written
+ * on the fly: each file is read in slices and handed straight to the RFC 8188
+ * encryptor, so memory use stays flat however large the folder is. Entries
+ * are STORED (no compression — most large files are already compressed, and
+ * it keeps the layout predictable), with the CRC-32 carried in a trailing
+ * data descriptor because it is only known once the entry has been read.
+ *
+ * The envelope metadata carries a manifest of the entries. Because the
+ * layout is fully determined by the manifest, the recipient knows where each
+ * entry's bytes sit in the decrypted stream without parsing the archive, and
+ * can extract individual files while decrypting. Saving the whole body still
+ * yields an ordinary .zip that any unzip tool opens.
+ *
+ * Layout, per entry, then once at the end:
+ *
+ *     [ local header (30 + name) ] [ data (size) ] [ data descriptor (16) ]
+ *     ...
+ *     [ central directory (46 + name per entry) ] [ end of central directory (22) ]
+ *
+ * No ZIP64: the archive must stay under 4 GiB and 65 535 entries, which the
+ * upload size limit already implies in practice.
+ */
+
+export const ARCHIVE_CONTENT_TYPE = 'application/zip'
+
+export interface ManifestEntry {
+  path: string   // relative path inside the folder, '/'-separated
+  size: number
+  type: string   // MIME type as reported by the sender's browser; may be ''
+}
+
+const ENCODER = new TextEncoder()
+
+const LOCAL_HEADER_SIG      = 0x04034b50
+const DATA_DESCRIPTOR_SIG   = 0x08074b50
+const CENTRAL_HEADER_SIG    = 0x02014b50
+const END_OF_CENTRAL_SIG    = 0x06054b50
+
+const LOCAL_HEADER_LENGTH    = 30
+const DATA_DESCRIPTOR_LENGTH = 16
+const CENTRAL_HEADER_LENGTH  = 46
+const END_OF_CENTRAL_LENGTH  = 22
+
+// General purpose flags: bit 3 = sizes/CRC in data descriptor, bit 11 = UTF-8 names
+const FLAGS = 0x0808
+const VERSION = 20 // 2.0: needed for data descriptors
+const MAX_UINT32 = 0xffffffff
+const MAX_ENTRIES = 0xffff
+
+let crcTable: Uint32Array | null = null
+
+function crc32Update(crc: number, bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < bytes.length; i++) c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+/** MS-DOS date and time fields, as stored in ZIP headers (local time, 2s resolution). */
+function dosDateTime(timestamp: number): { time: number; date: number } {
+  const d = new Date(timestamp)
+  const year = Math.min(Math.max(d.getFullYear(), 1980), 2107)
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  }
+}
+
+/** Path used for a file inside the archive. */
+function entryPath(file: File): string {
+  return file.webkitRelativePath || file.name
+}
+
+/** Describe the files that `zipStream` will write, in archive order. */
+export function buildManifest(files: File[]): ManifestEntry[] {
+  return files.map(file => ({ path: entryPath(file), size: file.size, type: file.type }))
+}
+
+/** Exact byte length of the archive `zipStream` produces for this manifest. */
+export function archiveSize(manifest: ManifestEntry[]): number {
+  let total = END_OF_CENTRAL_LENGTH
+  for (const entry of manifest) {
+    const nameLength = ENCODER.encode(entry.path).length
+    total += LOCAL_HEADER_LENGTH + nameLength + entry.size + DATA_DESCRIPTOR_LENGTH
+    total += CENTRAL_HEADER_LENGTH + nameLength
+  }
+  return total
+}
+
+/**
+ * Write the files as a ZIP archive, yielding it in pieces no larger than
+ * `sliceSize` (headers aside). Throws before reading any file data if the
+ * archive would need ZIP64.
+ */
+export async function* zipStream(files: File[], sliceSize: number): AsyncGenerator<Uint8Array, void, unknown> {
+  if (files.length > MAX_ENTRIES) {
+    throw new Error(`Too many files for one archive (${files.length}; limit ${MAX_ENTRIES})`)
+  }
+  if (archiveSize(buildManifest(files)) > MAX_UINT32) {
+    throw new Error('Folder is too large to bundle: archives are limited to 4 GB')
+  }
+
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = ENCODER.encode(entryPath(file))
+    const { time, date } = dosDateTime(file.lastModified)
+
+    // Sizes are known up front, so they go in the local header too; only the
+    // CRC waits for the descriptor. This keeps streaming unzip tools happy.
+    const local = new Uint8Array(LOCAL_HEADER_LENGTH + name.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, LOCAL_HEADER_SIG, true)
+    lv.setUint16(4, VERSION, true)
+    lv.setUint16(6, FLAGS, true)
+    lv.setUint16(8, 0, true) // method: stored
+    lv.setUint16(10, time, true)
+    lv.setUint16(12, date, true)
+    lv.setUint32(14, 0, true) // CRC-32: in the data descriptor
+    lv.setUint32(18, file.size, true)
+    lv.setUint32(22, file.size, true)
+    lv.setUint16(26, name.length, true)
+    lv.setUint16(28, 0, true)
+    local.set(name, LOCAL_HEADER_LENGTH)
+    yield local
+
+    let crc = 0
+    let read = 0
+    while (read < file.size) {
+      const end = Math.min(read + sliceSize, file.size)
+      const slice = new Uint8Array(await file.slice(read, end).arrayBuffer())
+      // A file truncated on disk after selection would desynchronise the manifest
+      if (slice.length !== end - read) throw new Error(`${entryPath(file)} changed while it was being read`)
+      crc = crc32Update(crc, slice)
+      read = end
+      yield slice
+    }
+
+    const descriptor = new Uint8Array(DATA_DESCRIPTOR_LENGTH)
+    const dv = new DataView(descriptor.buffer)
+    dv.setUint32(0, DATA_DESCRIPTOR_SIG, true)
+    dv.setUint32(4, crc, true)
+    dv.setUint32(8, file.size, true)
+    dv.setUint32(12, file.size, true)
+    yield descriptor
+
+    const header = new Uint8Array(CENTRAL_HEADER_LENGTH + name.length)
+    const cv = new DataView(header.buffer)
+    cv.setUint32(0, CENTRAL_HEADER_SIG, true)
+    cv.setUint16(4, VERSION, true) // version made by
+    cv.setUint16(6, VERSION, true) // version needed
+    cv.setUint16(8, FLAGS, true)
+    cv.setUint16(10, 0, true)
+    cv.setUint16(12, time, true)
+    cv.setUint16(14, date, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, file.size, true)
+    cv.setUint32(24, file.size, true)
+    cv.setUint16(28, name.length, true)
+    // extra length, comment length, disk, internal/external attributes: all zero
+    cv.setUint32(42, offset, true)
+    header.set(name, CENTRAL_HEADER_LENGTH)
+    central.push(header)
+
+    offset += local.length + file.size + descriptor.length
+  }
+
+  let centralSize = 0
+  for (const header of central) {
+    centralSize += header.length
+    yield header
+  }
+
+  const eocd = new Uint8Array(END_OF_CENTRAL_LENGTH)
+  const ev = new DataView(eocd.buffer)
+  ev.setUint32(0, END_OF_CENTRAL_SIG, true)
+  ev.setUint16(8, files.length, true)
+  ev.setUint16(10, files.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+  yield eocd
+}
+
+/**
+ * Split the path of a manifest entry into safe components for writing to
+ * disk. The manifest comes from the sender, so '..', '.', empty segments and
+ * backslash-separated tricks are dropped rather than trusted.
+ */
+export function safePathSegments(path: string): string[] {
+  return path.split(/[\\/]/).filter(part => part !== '' && part !== '.' && part !== '..')
+}
+
+export interface EntrySink {
+  onEntryStart: (entry: ManifestEntry) => Promise<void> | void
+  onEntryChunk: (chunk: Uint8Array) => Promise<void> | void
+  onEntryEnd:   (entry: ManifestEntry) => Promise<void> | void
+}
+
+/**
+ * Build a chunk consumer that picks the selected entries out of an archive
+ * stream produced by `zipStream`. Feed it the archive bytes in order; it
+ * calls the sink for each selected entry and skips everything else. Entry
+ * positions come from the manifest alone, so nothing is buffered.
+ *
+ * Call the returned `finish` once the stream ends: it throws if the archive
+ * was shorter than the manifest says.
+ */
+export function createEntryExtractor(
+  manifest: ManifestEntry[],
+  selected: Set<number>,
+  sink: EntrySink,
+): { write: (chunk: Uint8Array) => Promise<void>; finish: () => void } {
+  // Absolute [start, end) of each entry's data within the archive
+  const ranges: { start: number; end: number }[] = []
+  let cursor = 0
+  for (const entry of manifest) {
+    const start = cursor + LOCAL_HEADER_LENGTH + ENCODER.encode(entry.path).length
+    ranges.push({ start, end: start + entry.size })
+    cursor = start + entry.size + DATA_DESCRIPTOR_LENGTH
+  }
+
+  let position = 0
+  let index = 0
+  let open = false
+
+  const write = async (chunk: Uint8Array) => {
+    const chunkStart = position
+    const chunkEnd = position + chunk.length
+    position = chunkEnd
+
+    while (index < manifest.length) {
+      const { start, end } = ranges[index]
+      if (start > chunkEnd) break
+      if (selected.has(index)) {
+        const from = Math.max(start, chunkStart)
+        const to = Math.min(end, chunkEnd)
+        // Empty entries have no bytes, so they open and close in one step
+        if (!open && (to > from || end <= chunkEnd)) {
+          await sink.onEntryStart(manifest[index])
+          open = true
+        }
+        if (to > from) await sink.onEntryChunk(chunk.subarray(from - chunkStart, to - chunkStart))
+      }
+      if (end > chunkEnd) break
+      if (open) await sink.onEntryEnd(manifest[index])
+      open = false
+      index++
+    }
+  }
+
+  const finish = () => {
+    if (index < manifest.length) {
+      throw new Error(`archive ended before entry ${manifest[index].path} was complete`)
+    }
+  }
+
+  return { write, finish }
+}
@@ -0,0 +1,131 @@
+import { ClientCrypto } from './rfc8188'
+
+/**
+ * Recipient-side contact book: sender public keys the user has named, kept
+ * in `localStorage` and never sent anywhere. Trust is on first use — the
+ * first link from a key offers to save it under a name, and later links
+ * signed by that key show the name instead of a bare fingerprint.
+ *
+ * Links may also carry the sender's own choice of display name. That name is
+ * unsigned and proves nothing on its own; the book uses it only to catch a
+ * new key that claims the name of a saved contact, which is what an
+ * impersonator would send. A key the saved one signed over to (see the
+ * rotation statement in ./identity.ts) is a handover, not an impersonation.
+ */
+
+const STORAGE_KEY = 'whirlcryptContacts'
+
+export interface Contact {
+  pubkey:  Uint8Array  // raw 32-byte Ed25519 sender key
+  name:    string
+  addedAt: string
+}
+
+interface StoredContact {
+  pubkeyB64u: string
+  name:       string
+  addedAt:    string
+}
+
+/**
+ * How a verified sender key relates to the contact book:
+ *   known    — the key is saved as `contact`
+ *   rotated  — a new key, handed over by the saved `contact`'s key
+ *   conflict — an unsaved key whose claimed name matches saved `contacts`
+ *   new      — never seen; offer to save it
+ */
+export type SenderTrust =
+  | { status: 'known'; contact: Contact }
+  | { status: 'rotated'; contact: Contact }
+  | { status: 'conflict'; contacts: Contact[] }
+  | { status: 'new' }
+
+function readStored(): StoredContact[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function writeStored(stored: StoredContact[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+}
+
+/** Names compare case- and width-insensitively, so "Alice" and "ａｌｉｃｅ" collide. */
+function sameName(a: string, b: string): boolean {
+  return a.normalize('NFKC').toLowerCase() === b.normalize('NFKC').toLowerCase()
+}
+
+/** All saved contacts, sorted by name. */
+export function loadContacts(): Contact[] {
+  return readStored()
+    .map(stored => ({
+      pubkey:  ClientCrypto.fromBase64Url(stored.pubkeyB64u),
+      name:    stored.name,
+      addedAt: stored.addedAt,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/** Save `pubkey` under `name`, renaming it if already saved. */
+export function saveContact(pubkey: Uint8Array, name: string): Contact {
+  const trimmed = ClientCrypto.senderName(name)
+  if (!trimmed) throw new Error('Contact name must be 1–64 characters')
+  const pubkeyB64u = ClientCrypto.toBase64Url(pubkey)
+  const stored = readStored()
+  let entry = stored.find(c => c.pubkeyB64u === pubkeyB64u)
+  if (!entry) {
+    entry = { pubkeyB64u, name: trimmed, addedAt: new Date().toISOString() }
+    stored.push(entry)
+  }
+  entry.name = trimmed
+  writeStored(stored)
+  return { pubkey, name: trimmed, addedAt: entry.addedAt }
+}
+
+/**
+ * Move a contact from its previous key to the key it rotated to. Only call
+ * this once `verifyRotation` has accepted the handover.
+ */
+export function followRotation(previousPubkey: Uint8Array, pubkey: Uint8Array): void {
+  const previousB64u = ClientCrypto.toBase64Url(previousPubkey)
+  const pubkeyB64u = ClientCrypto.toBase64Url(pubkey)
+  const stored = readStored().filter(c => c.pubkeyB64u !== pubkeyB64u)
+  const contact = stored.find(c => c.pubkeyB64u === previousB64u)
+  if (!contact) return
+  contact.pubkeyB64u = pubkeyB64u
+  writeStored(stored)
+}
+
+/** Forget a saved contact. */
+export function removeContact(pubkey: Uint8Array): void {
+  const pubkeyB64u = ClientCrypto.toBase64Url(pubkey)
+  writeStored(readStored().filter(c => c.pubkeyB64u !== pubkeyB64u))
+}
+
+/**
+ * Place a sender whose attestation verified. `previousPubkey` is the key a
+ * *verified* rotation statement came from, if any; `claimedName` is the
+ * link's unsigned display name.
+ */
+export function assessSender(
+  pubkey: Uint8Array,
+  claimedName: string | null,
+  previousPubkey: Uint8Array | null,
+): SenderTrust {
+  const contacts = loadContacts()
+  const same = (a: Uint8Array, b: Uint8Array) => ClientCrypto.toBase64Url(a) === ClientCrypto.toBase64Url(b)
+
+  const contact = contacts.find(c => same(c.pubkey, pubkey))
+  if (contact) return { status: 'known', contact }
+
+  const predecessor = previousPubkey ? contacts.find(c => same(c.pubkey, previousPubkey)) : undefined
+  if (predecessor) return { status: 'rotated', contact: predecessor }
+
+  const namesakes = claimedName ? contacts.filter(c => sameName(c.name, claimedName)) : []
+  if (namesakes.length > 0) return { status: 'conflict', contacts: namesakes }
+
+  return { status: 'new' }
+}
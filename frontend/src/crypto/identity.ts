@@ -1,4 +1,4 @@
-import { ClientCrypto } from './rfc8188'
+import { ClientCrypto, PassphraseKdf, WrongPassphraseError } from './rfc8188'
 
 /**
  * Optional sender identity — a long-lived Ed25519 keypair stored in
@@ -8,19 +8,33 @@ import { ClientCrypto } from './rfc8188'
  * out-of-band ("the box that always sends me builds is Andrei's box").
  *
  * The identity is per-browser; uploading from a different browser/profile
- * yields a different identity unless the user explicitly exports/imports.
+ * yields a different identity unless the user explicitly exports/imports it
+ * (a passphrase-sealed bundle, as a file or QR code; see below). Rotating
+ * the identity signs a "new key" statement with the old key, which attested
+ * links carry so recipients can follow the change.
  *
  * Not a substitute for a real PKI. Useful as a "this came from the same
  * person who sent the previous link" signal when paired with a manually
  * verified first-contact fingerprint.
+ *
+ * Also holds the optional recipient key (X25519), which lets senders seal a
+ * link so only this browser can open it. See the section at the bottom.
  */
 
 const STORAGE_KEY = 'whirlcryptSenderIdentity'
 
+/** The previous key's signature over the switch to the current one. */
+export interface RotationStatement {
+  previousPubkey: Uint8Array
+  signature:      Uint8Array
+}
+
 export interface SenderIdentity {
   privateJwk: JsonWebKey
   publicJwk:  JsonWebKey
   pubkey:     Uint8Array  // raw 32-byte Ed25519 public key
+  createdAt:  string
+  rotation:   RotationStatement | null  // set when this key replaced an earlier one
 }
 
 interface StoredIdentity {
@@ -28,6 +42,7 @@ interface StoredIdentity {
   publicJwk:  JsonWebKey
   pubkeyB64u: string
   createdAt:  string
+  rotation?:  { previousPubkeyB64u: string; signatureB64u: string }
 }
 
 /** Load the sender identity from `localStorage`, or `null` if none exists. */
@@ -40,14 +55,37 @@ export async function loadSenderIdentity(): Promise<SenderIdentity | null> {
       privateJwk: stored.privateJwk,
       publicJwk:  stored.publicJwk,
       pubkey:     ClientCrypto.fromBase64Url(stored.pubkeyB64u),
+      createdAt:  stored.createdAt,
+      rotation:   stored.rotation
+        ? {
+            previousPubkey: ClientCrypto.fromBase64Url(stored.rotation.previousPubkeyB64u),
+            signature:      ClientCrypto.fromBase64Url(stored.rotation.signatureB64u),
+          }
+        : null,
     }
   } catch {
     return null
   }
 }
 
-/** Create and persist a fresh Ed25519 identity. */
-export async function createSenderIdentity(): Promise<SenderIdentity> {
+/** Persist `identity` as this browser's sender identity, replacing any existing one. */
+function storeSenderIdentity(identity: SenderIdentity): void {
+  const stored: StoredIdentity = {
+    privateJwk: identity.privateJwk,
+    publicJwk:  identity.publicJwk,
+    pubkeyB64u: ClientCrypto.toBase64Url(identity.pubkey),
+    createdAt:  identity.createdAt,
+  }
+  if (identity.rotation) {
+    stored.rotation = {
+      previousPubkeyB64u: ClientCrypto.toBase64Url(identity.rotation.previousPubkey),
+      signatureB64u:      ClientCrypto.toBase64Url(identity.rotation.signature),
+    }
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+}
+
+async function generateSenderKeypair(): Promise<{ privateJwk: JsonWebKey; publicJwk: JsonWebKey; pubkey: Uint8Array }> {
   const keypair = (await crypto.subtle.generateKey(
     { name: 'Ed25519' } as any,
     true,
@@ -56,15 +94,18 @@ export async function createSenderIdentity(): Promise<SenderIdentity> {
   const privateJwk = await crypto.subtle.exportKey('jwk', keypair.privateKey)
   const publicJwk  = await crypto.subtle.exportKey('jwk', keypair.publicKey)
   if (!publicJwk.x) throw new Error('Ed25519 public JWK missing x')
-  const pubkey = ClientCrypto.fromBase64Url(publicJwk.x)
-  const stored: StoredIdentity = {
-    privateJwk,
-    publicJwk,
-    pubkeyB64u: publicJwk.x,
-    createdAt:  new Date().toISOString(),
+  return { privateJwk, publicJwk, pubkey: ClientCrypto.fromBase64Url(publicJwk.x) }
+}
+
+/** Create and persist a fresh Ed25519 identity. */
+export async function createSenderIdentity(): Promise<SenderIdentity> {
+  const identity: SenderIdentity = {
+    ...await generateSenderKeypair(),
+    createdAt: new Date().toISOString(),
+    rotation:  null,
   }
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
-  return { privateJwk, publicJwk, pubkey }
+  storeSenderIdentity(identity)
+  return identity
 }
 
 /** Get the existing identity, or create one if none exists. */
@@ -74,44 +115,60 @@ export async function loadOrCreateSenderIdentity(): Promise<SenderIdentity> {
   return createSenderIdentity()
 }
 
-/** Permanently delete the local identity (e.g., for "rotate keys" UX). */
+/** Permanently delete the local identity. */
 export function clearSenderIdentity(): void {
   localStorage.removeItem(STORAGE_KEY)
 }
 
+const NAME_STORAGE_KEY = 'whirlcryptSenderName'
+
+/**
+ * The display name attested links carry alongside the key, or `null`. It is
+ * a per-browser preference, not part of the identity, so it is neither
+ * exported nor signed.
+ */
+export function loadSenderName(): string | null {
+  return ClientCrypto.senderName(localStorage.getItem(NAME_STORAGE_KEY))
+}
+
+/** Set (or, with an empty name, clear) the display name for attested links. */
+export function saveSenderName(name: string): void {
+  const normalised = ClientCrypto.senderName(name)
+  if (normalised) localStorage.setItem(NAME_STORAGE_KEY, normalised)
+  else localStorage.removeItem(NAME_STORAGE_KEY)
+}
+
 /**
  * Build the canonical attestation bytes that get signed/verified.
  * The pubkey is included to prevent signature reuse with a different
- * pubkey in the URL fragment.
+ * pubkey in the URL fragment. With a content digest (SHA-256 of the
+ * envelope plaintext, see `ClientCrypto.encryptEnvelopeStream`) the
+ * signature also covers what the file contains, not only which file id it
+ * was uploaded as:
+ *
+ *   whirlcrypt:v2|<fileId>|<pubkey>                 — file id only (older links)
+ *   whirlcrypt:attest2|<fileId>|<pubkey>|<digest>   — file id and content
  */
-function attestationBytes(fileId: string, pubkey: Uint8Array): Uint8Array {
-  const message = `whirlcrypt:v2|${fileId}|${ClientCrypto.toBase64Url(pubkey)}`
+function attestationBytes(fileId: string, pubkey: Uint8Array, contentDigest?: Uint8Array | null): Uint8Array {
+  const message = contentDigest
+    ? `whirlcrypt:attest2|${fileId}|${ClientCrypto.toBase64Url(pubkey)}|${ClientCrypto.toBase64Url(contentDigest)}`
+    : `whirlcrypt:v2|${fileId}|${ClientCrypto.toBase64Url(pubkey)}`
   return new TextEncoder().encode(message)
 }
 
-/** Sign an attestation over (fileId, pubkey) with the sender identity. */
-export async function signAttestation(
-  identity: SenderIdentity,
-  fileId: string,
-): Promise<Uint8Array> {
+async function ed25519Sign(privateJwk: JsonWebKey, payload: Uint8Array): Promise<Uint8Array> {
   const privateKey = await crypto.subtle.importKey(
     'jwk',
-    identity.privateJwk,
+    privateJwk,
     { name: 'Ed25519' } as any,
     false,
     ['sign'],
   )
-  const payload = attestationBytes(fileId, identity.pubkey)
   const sig = await crypto.subtle.sign('Ed25519', privateKey, payload as BufferSource)
   return new Uint8Array(sig)
 }
 
-/** Verify an attestation. Returns `true` iff the signature is valid. */
-export async function verifyAttestation(
-  fileId: string,
-  pubkey: Uint8Array,
-  signature: Uint8Array,
-): Promise<boolean> {
+async function ed25519Verify(pubkey: Uint8Array, signature: Uint8Array, payload: Uint8Array): Promise<boolean> {
   if (pubkey.length !== 32) return false
   if (signature.length !== 64) return false
   try {
@@ -122,7 +179,6 @@ export async function verifyAttestation(
       false,
       ['verify'],
     )
-    const payload = attestationBytes(fileId, pubkey)
     return crypto.subtle.verify(
       'Ed25519',
       publicKey,
@@ -134,6 +190,204 @@ export async function verifyAttestation(
   }
 }
 
+/** Sign an attestation over (fileId, pubkey[, contentDigest]) with the sender identity. */
+export async function signAttestation(
+  identity: SenderIdentity,
+  fileId: string,
+  contentDigest?: Uint8Array | null,
+): Promise<Uint8Array> {
+  return ed25519Sign(identity.privateJwk, attestationBytes(fileId, identity.pubkey, contentDigest))
+}
+
+/**
+ * Verify an attestation. Returns `true` iff the signature is valid. A valid
+ * signature with a `contentDigest` only vouches for the file once the
+ * decrypted plaintext has been checked against that digest.
+ */
+export async function verifyAttestation(
+  fileId: string,
+  pubkey: Uint8Array,
+  signature: Uint8Array,
+  contentDigest?: Uint8Array | null,
+): Promise<boolean> {
+  return ed25519Verify(pubkey, signature, attestationBytes(fileId, pubkey, contentDigest))
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Rotation
+//
+// Rotating replaces the identity with a fresh keypair, and the old key signs
+// `whirlcrypt:rotate1|<old pubkey>|<new pubkey>`. Attested links from the new
+// key carry that statement, so a recipient who knew the old fingerprint can
+// see the new one was handed over by it rather than merely claimed.
+// ──────────────────────────────────────────────────────────────────────────
+
+function rotationBytes(previousPubkey: Uint8Array, pubkey: Uint8Array): Uint8Array {
+  const message = `whirlcrypt:rotate1|${ClientCrypto.toBase64Url(previousPubkey)}|${ClientCrypto.toBase64Url(pubkey)}`
+  return new TextEncoder().encode(message)
+}
+
+/** Replace the sender identity with a new keypair, signed over by the current one. */
+export async function rotateSenderIdentity(): Promise<SenderIdentity> {
+  const current = await loadSenderIdentity()
+  if (!current) throw new Error('No sender identity to rotate')
+  const next = await generateSenderKeypair()
+  const signature = await ed25519Sign(current.privateJwk, rotationBytes(current.pubkey, next.pubkey))
+  const identity: SenderIdentity = {
+    ...next,
+    createdAt: new Date().toISOString(),
+    rotation:  { previousPubkey: current.pubkey, signature },
+  }
+  storeSenderIdentity(identity)
+  return identity
+}
+
+/** Verify that `previousPubkey` signed the hand-over to `pubkey`. */
+export async function verifyRotation(
+  pubkey: Uint8Array,
+  rotation: RotationStatement,
+): Promise<boolean> {
+  return ed25519Verify(rotation.previousPubkey, rotation.signature, rotationBytes(rotation.previousPubkey, pubkey))
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Export / import
+//
+// The export is a small JSON document, written to a file or shown as a QR
+// code for another device to scan. The private key (with the creation date
+// and any rotation statement) is sealed with AES-256-GCM under a key derived
+// from a passphrase, the same way v1 passphrase links wrap a file key; the
+// public key and KDF parameters are bound in as AAD.
+// ──────────────────────────────────────────────────────────────────────────
+
+const IDENTITY_EXPORT_TYPE = 'whirlcrypt-sender-identity'
+const IDENTITY_EXPORT_VERSION = 1
+const IDENTITY_EXPORT_SALT_LENGTH = 16
+// Each export derives a fresh key from a fresh salt, so a zero nonce is safe
+const IDENTITY_EXPORT_IV = new Uint8Array(12)
+
+/** A parsed identity export, before the passphrase has been applied. */
+export interface IdentityExport {
+  pubkey: Uint8Array
+  kdf:    PassphraseKdf
+  salt:   Uint8Array
+  sealed: Uint8Array
+}
+
+interface SealedIdentity {
+  d:         string
+  createdAt: string
+  rotation?: { previousPubkeyB64u: string; signatureB64u: string }
+}
+
+async function identityExportKey(passphrase: string, exported: Omit<IdentityExport, 'sealed'>): Promise<{ key: CryptoKey; aad: Uint8Array }> {
+  const raw = await ClientCrypto.derivePassphraseKey(passphrase, exported.salt, exported.kdf, 32)
+  const key = await crypto.subtle.importKey('raw', raw as BufferSource, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+  const aad = new TextEncoder().encode(
+    `whirlcrypt:identity${IDENTITY_EXPORT_VERSION}|${ClientCrypto.toBase64Url(exported.pubkey)}|${ClientCrypto.kdfDescriptor(exported.kdf)}`,
+  )
+  return { key, aad }
+}
+
+/** Seal the sender identity under `passphrase`, as JSON text for a file or QR code. */
+export async function exportSenderIdentity(
+  identity: SenderIdentity,
+  passphrase: string,
+  kdf: PassphraseKdf = ClientCrypto.DEFAULT_ARGON2ID,
+): Promise<string> {
+  if (!identity.privateJwk.d) throw new Error('Ed25519 private JWK missing d')
+  const salt = ClientCrypto.generateRandomBytes(IDENTITY_EXPORT_SALT_LENGTH)
+  const { key, aad } = await identityExportKey(passphrase, { pubkey: identity.pubkey, kdf, salt })
+  const contents: SealedIdentity = { d: identity.privateJwk.d, createdAt: identity.createdAt }
+  if (identity.rotation) {
+    contents.rotation = {
+      previousPubkeyB64u: ClientCrypto.toBase64Url(identity.rotation.previousPubkey),
+      signatureB64u:      ClientCrypto.toBase64Url(identity.rotation.signature),
+    }
+  }
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: IDENTITY_EXPORT_IV as BufferSource, additionalData: aad as BufferSource },
+    key,
+    new TextEncoder().encode(JSON.stringify(contents)) as BufferSource,
+  )
+  return JSON.stringify({
+    type:    IDENTITY_EXPORT_TYPE,
+    version: IDENTITY_EXPORT_VERSION,
+    pubkey:  ClientCrypto.toBase64Url(identity.pubkey),
+    kdf,
+    salt:    ClientCrypto.toBase64Url(salt),
+    sealed:  ClientCrypto.toBase64Url(new Uint8Array(sealed)),
+  })
+}
+
+/**
+ * Parse exported identity text (from a file or a scanned QR code). Returns
+ * `null` if it isn't one, or its KDF parameters are out of bounds.
+ */
+export function readIdentityExport(text: string): IdentityExport | null {
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed?.type !== IDENTITY_EXPORT_TYPE || parsed.version !== IDENTITY_EXPORT_VERSION) return null
+    const kdf = parsed.kdf as PassphraseKdf
+    const valid = kdf?.name === 'pbkdf2'
+      ? Number.isInteger(kdf.iterations)
+      : kdf?.name === 'argon2id' && [kdf.memoryKiB, kdf.iterations, kdf.parallelism].every(Number.isInteger)
+    if (!valid || !ClientCrypto.kdfWithinBounds(kdf)) return null
+    const pubkey = ClientCrypto.fromBase64Url(parsed.pubkey)
+    const salt = ClientCrypto.fromBase64Url(parsed.salt)
+    const sealed = ClientCrypto.fromBase64Url(parsed.sealed)
+    if (pubkey.length !== 32 || salt.length !== IDENTITY_EXPORT_SALT_LENGTH) return null
+    return { pubkey, kdf, salt, sealed }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Unseal an identity export and make it this browser's sender identity.
+ * Throws `WrongPassphraseError` if the passphrase doesn't open it.
+ */
+export async function importSenderIdentity(exported: IdentityExport, passphrase: string): Promise<SenderIdentity> {
+  const { key, aad } = await identityExportKey(passphrase, exported)
+  let contents: SealedIdentity
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: IDENTITY_EXPORT_IV as BufferSource, additionalData: aad as BufferSource },
+      key,
+      exported.sealed as BufferSource,
+    )
+    contents = JSON.parse(new TextDecoder().decode(plain)) as SealedIdentity
+  } catch {
+    throw new WrongPassphraseError()
+  }
+
+  const x = ClientCrypto.toBase64Url(exported.pubkey)
+  const identity: SenderIdentity = {
+    privateJwk: { kty: 'OKP', crv: 'Ed25519', d: contents.d, x, key_ops: ['sign'], ext: true },
+    publicJwk:  { kty: 'OKP', crv: 'Ed25519', x, key_ops: ['verify'], ext: true },
+    pubkey:     exported.pubkey,
+    createdAt:  contents.createdAt,
+    rotation:   contents.rotation
+      ? {
+          previousPubkey: ClientCrypto.fromBase64Url(contents.rotation.previousPubkeyB64u),
+          signature:      ClientCrypto.fromBase64Url(contents.rotation.signatureB64u),
+        }
+      : null,
+  }
+
+  // The private half must match the public key it claims
+  const probe = new TextEncoder().encode('whirlcrypt:identity-import')
+  if (!await ed25519Verify(identity.pubkey, await ed25519Sign(identity.privateJwk, probe), probe)) {
+    throw new Error('The exported private key does not match its public key')
+  }
+  if (identity.rotation && !await verifyRotation(identity.pubkey, identity.rotation)) {
+    identity.rotation = null
+  }
+
+  storeSenderIdentity(identity)
+  return identity
+}
+
 /**
  * Compute a stable display fingerprint for a pubkey: the first 8 bytes of
  * SHA-256, formatted as 4 groups of 4 hex characters separated by dashes
@@ -146,3 +400,167 @@ export async function fingerprint(pubkey: Uint8Array): Promise<string> {
   for (let i = 0; i < 8; i++) hex += bytes[i].toString(16).padStart(2, '0')
   return hex.match(/.{4}/g)!.join('-')
 }
+
+// ──────────────────────────────────────────────────────────────────────────
+// Recipient key (X25519)
+//
+// A separate, long-lived X25519 keypair a recipient publishes so senders can
+// seal the file key to it. The sender generates an ephemeral X25519 keypair
+// per upload, derives a wrap key from the ECDH shared secret with HKDF, and
+// encrypts the file key under it with AES-GCM. The link then carries the
+// sealed key and the ephemeral public key: useless without the recipient's
+// private key, which never leaves their browser.
+//
+// Kept apart from the Ed25519 sender identity: a Web Crypto key is bound to
+// one algorithm, and a recipient key can be replaced without changing the
+// sender fingerprint other people have pinned.
+// ──────────────────────────────────────────────────────────────────────────
+
+const RECIPIENT_STORAGE_KEY = 'whirlcryptRecipientIdentity'
+const RECIPIENT_WRAP_INFO = new TextEncoder().encode('whirlcrypt:v2|recipient-wrap')
+// Each wrap key is derived from a fresh ephemeral keypair and used exactly
+// once, so a fixed all-zero GCM nonce is safe here.
+const RECIPIENT_WRAP_IV = new Uint8Array(12)
+
+export interface RecipientIdentity {
+  privateJwk: JsonWebKey
+  publicJwk:  JsonWebKey
+  pubkey:     Uint8Array  // raw 32-byte X25519 public key
+}
+
+/** Load the recipient key from `localStorage`, or `null` if none exists. */
+export async function loadRecipientIdentity(): Promise<RecipientIdentity | null> {
+  const raw = localStorage.getItem(RECIPIENT_STORAGE_KEY)
+  if (!raw) return null
+  try {
+    const stored = JSON.parse(raw) as StoredIdentity
+    return {
+      privateJwk: stored.privateJwk,
+      publicJwk:  stored.publicJwk,
+      pubkey:     ClientCrypto.fromBase64Url(stored.pubkeyB64u),
+    }
+  } catch {
+    return null
+  }
+}
+
+/** Create and persist a fresh X25519 recipient key, replacing any existing one. */
+export async function createRecipientIdentity(): Promise<RecipientIdentity> {
+  const keypair = (await crypto.subtle.generateKey(
+    { name: 'X25519' } as any,
+    true,
+    ['deriveBits'],
+  )) as CryptoKeyPair
+  const privateJwk = await crypto.subtle.exportKey('jwk', keypair.privateKey)
+  const publicJwk  = await crypto.subtle.exportKey('jwk', keypair.publicKey)
+  if (!publicJwk.x) throw new Error('X25519 public JWK missing x')
+  const pubkey = ClientCrypto.fromBase64Url(publicJwk.x)
+  const stored: StoredIdentity = {
+    privateJwk,
+    publicJwk,
+    pubkeyB64u: publicJwk.x,
+    createdAt:  new Date().toISOString(),
+  }
+  localStorage.setItem(RECIPIENT_STORAGE_KEY, JSON.stringify(stored))
+  return { privateJwk, publicJwk, pubkey }
+}
+
+/** Permanently delete the local recipient key. Links sealed to it become unreadable. */
+export function clearRecipientIdentity(): void {
+  localStorage.removeItem(RECIPIENT_STORAGE_KEY)
+}
+
+/**
+ * Parse a published recipient key (base64url, 32 bytes). Returns `null` if
+ * the text isn't one.
+ */
+export function parseRecipientKey(text: string): Uint8Array | null {
+  try {
+    const pubkey = ClientCrypto.fromBase64Url(text.trim())
+    return pubkey.length === 32 ? pubkey : null
+  } catch {
+    return null
+  }
+}
+
+function importX25519Public(pubkey: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', pubkey as BufferSource, { name: 'X25519' } as any, false, [])
+}
+
+/**
+ * Derive the AES-GCM wrap key from an X25519 shared secret. Both public keys
+ * go into the HKDF salt so the wrap key is bound to this exact pair.
+ */
+async function recipientWrapKey(
+  privateKey: CryptoKey,
+  peerPublic: Uint8Array,
+  ephemeralPubkey: Uint8Array,
+  recipientPubkey: Uint8Array,
+): Promise<CryptoKey> {
+  const shared = await crypto.subtle.deriveBits(
+    { name: 'X25519', public: await importX25519Public(peerPublic) } as any,
+    privateKey,
+    256,
+  )
+  const hkdfKey = await crypto.subtle.importKey('raw', shared, { name: 'HKDF' }, false, ['deriveKey'])
+  const salt = new Uint8Array(64)
+  salt.set(ephemeralPubkey, 0)
+  salt.set(recipientPubkey, 32)
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: salt as BufferSource, info: RECIPIENT_WRAP_INFO as BufferSource },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/** Seal a file key to a recipient's public key. */
+export async function sealKeyToRecipient(
+  fileKey: Uint8Array,
+  recipientPubkey: Uint8Array,
+): Promise<{ sealed: Uint8Array; ephemeralPubkey: Uint8Array }> {
+  const ephemeral = (await crypto.subtle.generateKey(
+    { name: 'X25519' } as any,
+    true,
+    ['deriveBits'],
+  )) as CryptoKeyPair
+  const ephemeralPubkey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey))
+  const wrapKey = await recipientWrapKey(ephemeral.privateKey, recipientPubkey, ephemeralPubkey, recipientPubkey)
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: RECIPIENT_WRAP_IV as BufferSource },
+    wrapKey,
+    fileKey as BufferSource,
+  )
+  return { sealed: new Uint8Array(sealed), ephemeralPubkey }
+}
+
+/**
+ * Recover a file key sealed to this browser's recipient key. Throws if the
+ * link was sealed to a different key (AES-GCM authentication fails), before
+ * any ciphertext is fetched.
+ */
+export async function openSealedKey(
+  identity: RecipientIdentity,
+  sealed: Uint8Array,
+  ephemeralPubkey: Uint8Array,
+): Promise<Uint8Array> {
+  const privateKey = await crypto.subtle.importKey(
+    'jwk',
+    identity.privateJwk,
+    { name: 'X25519' } as any,
+    false,
+    ['deriveBits'],
+  )
+  const wrapKey = await recipientWrapKey(privateKey, ephemeralPubkey, ephemeralPubkey, identity.pubkey)
+  try {
+    const fileKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: RECIPIENT_WRAP_IV as BufferSource },
+      wrapKey,
+      sealed as BufferSource,
+    )
+    return new Uint8Array(fileKey)
+  } catch {
+    throw new Error('This link was sealed to a different recipient key')
+  }
+}
@@ -1,4 +1,6 @@
 import { DEFAULT_RECORD_SIZE, SALT_LENGTH, KEY_LENGTH, TAG_LENGTH } from '../types'
+import { ManifestEntry } from './archive'
+import { KeyShare, splitSecret, encodeShare, decodeShare } from './shamir'
 
 /**
  * RFC 8188 — Encrypted Content-Encoding for HTTP — client-side implementation
@@ -10,7 +12,8 @@ import { DEFAULT_RECORD_SIZE, SALT_LENGTH, KEY_LENGTH, TAG_LENGTH } from '../typ
  *     the final record, which may be shorter.
  *   - Each record's plaintext is `data || delimiter || zero-or-more 0x00`.
  *     delimiter = 0x01 for non-terminal records, 0x02 for the terminal record.
- *   - We use idlen = 0 (no key-id field).
+ *   - Uncommitted streams use idlen = 0. Committed streams (v3 links) carry
+ *     a 32-byte key commitment in the key-id field; see below.
  *
  * Key derivation (RFC 8188 §2.2, HKDF-SHA-256):
  *   PRK   = HKDF-Extract(salt, IKM)
@@ -20,11 +23,32 @@ import { DEFAULT_RECORD_SIZE, SALT_LENGTH, KEY_LENGTH, TAG_LENGTH } from '../typ
  * Per-record nonce: NONCE XOR SEQ where SEQ is a 96-bit big-endian counter
  * starting at 0 and incremented for each record.
  *
+ * Key commitment: AES-GCM is not key-committing, so a crafted ciphertext can
+ * authenticate under many keys at once — a partitioning oracle against
+ * passphrase-derived keys. Committed streams put
+ *
+ *   CK     = HKDF-Expand(PRK, "whirlcrypt: key commitment\0", 32)
+ *   COMMIT = HMAC-SHA-256(CK, "whirlcrypt:commit1")
+ *
+ * in the header's key-id field, and the decryptor checks it against its key
+ * before opening any record.
+ *
  * Filename and MIME type are carried inside the encrypted envelope as a
  * length-prefixed JSON header at the start of the plaintext stream:
  *
  *     [ 4-byte BE length N ] [ N bytes of UTF-8 JSON metadata ] [ file bytes ]
  *
+ * Folder uploads add a `manifest` listing the archive's entries (see
+ * ./archive.ts); the file bytes are then a streamed ZIP archive. A typed
+ * text secret sets `message` (and `text/plain`), and is shown to the
+ * recipient in the page rather than saved.
+ *
+ * Optional size-hiding padding (RFC 8188 §2): after the last plaintext byte
+ * the stream continues with zero padding, so the ciphertext length only
+ * reveals which size bucket the plaintext falls in. Padding sits after the
+ * delimiter in the final records (and in whole padding-only records when
+ * there is a lot of it); the decryptor strips it like any other padding.
+ *
  * The server therefore sees only opaque ciphertext; the URL fragment carries
  * only the key and salt (base64url encoded).
  */
@@ -34,10 +58,76 @@ const ENCODER = new TextEncoder()
 const DECODER = new TextDecoder()
 const INFO_CONTENT_ENCODING = ENCODER.encode('Content-Encoding: aes128gcm\0')
 const INFO_NONCE            = ENCODER.encode('Content-Encoding: nonce\0')
+const INFO_COMMITMENT       = ENCODER.encode('whirlcrypt: key commitment\0')
+const COMMITMENT_LABEL      = ENCODER.encode('whirlcrypt:commit1')
+const COMMITMENT_LENGTH     = 32
+
+// Upper bound on the JSON metadata block. Large enough for the manifest of a
+// folder with tens of thousands of entries; anything bigger is corruption.
+const MAX_METADATA_LENGTH = 0x1000000
+const CONTENT_DIGEST_LENGTH = 32
 
 export interface EnvelopeMetadata {
   filename: string
   contentType: string
+  manifest?: ManifestEntry[]   // present when the body is a folder archive
+  message?: boolean            // a typed text secret: shown inline rather than saved
+}
+
+/**
+ * Size-hiding padding applied to the whole plaintext stream (metadata
+ * included):
+ *   - 'pow2'  — round up to the next power of two (up to 100% overhead)
+ *   - 'padme' — Padmé buckets (at most ~12% overhead, leaks O(log log n) bits)
+ */
+export type PaddingPolicy = 'none' | 'pow2' | 'padme'
+
+/**
+ * How a passphrase was turned into a wrap key. Memory is in KiB, matching
+ * Argon2's own parameter.
+ */
+export type PassphraseKdf =
+  | { name: 'pbkdf2'; iterations: number }
+  | { name: 'argon2id'; memoryKiB: number; iterations: number; parallelism: number }
+
+export interface PassphraseWrap {
+  version: number   // 0 = legacy XOR wrap (read-only), 1 = AES-GCM wrap
+  kdf: PassphraseKdf
+  salt: Uint8Array
+}
+
+/**
+ * Sender attestation carried by a link. `rotation`, when present, is the
+ * previous sender key's signed hand-over to `pubkey` (see ./identity.ts).
+ * `contentDigest`, when present, is the SHA-256 of the envelope plaintext,
+ * which the signature then covers too (checked as the file decrypts).
+ * `name` is the display name the sender chose. It is not signed: recipients
+ * key trust on `pubkey` and only use the name to spot a key that claims to
+ * be someone they already know (see ./contacts.ts).
+ */
+export interface LinkAttestation {
+  pubkey: Uint8Array
+  signature: Uint8Array
+  rotation?: { previousPubkey: Uint8Array; signature: Uint8Array } | null
+  contentDigest?: Uint8Array | null
+  name?: string | null
+}
+
+/** How `generateShareUrl` / `generateSplitShareUrls` protect and annotate a link. */
+export interface ShareUrlOptions {
+  passphrase?: string
+  passphraseKdf?: PassphraseKdf
+  attestation?: LinkAttestation
+  sealedKey?: { sealed: Uint8Array; ephemeralPubkey: Uint8Array }
+  committed?: boolean
+}
+
+/** The passphrase doesn't unlock this link (v1 wraps detect this up front). */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('wrong passphrase')
+    this.name = 'WrongPassphraseError'
+  }
 }
 
 export class ClientCrypto {
@@ -91,14 +181,41 @@ export class ClientCrypto {
     return nonce
   }
 
+  /** Key commitment carried in the key-id field of committed streams. */
+  static async keyCommitment(salt: Uint8Array, key: Uint8Array): Promise<Uint8Array> {
+    const ck = await this.hkdf(salt, key, INFO_COMMITMENT, COMMITMENT_LENGTH)
+    const hmacKey = await crypto.subtle.importKey('raw', ck as BufferSource, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+    return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, COMMITMENT_LABEL as BufferSource))
+  }
+
   // ────────────────────────────────────────────────────────────────────────
   // Encryption
   // ────────────────────────────────────────────────────────────────────────
 
+  /** Length a plaintext of `length` bytes is padded to under `policy`. */
+  static paddedLength(length: number, policy: PaddingPolicy): number {
+    if (policy === 'none' || length < 2) return length
+    if (policy === 'pow2') return 2 ** Math.ceil(Math.log2(length))
+    // Padmé (Nikitin et al., PETS 2019): keep only the top
+    // floor(log2(E)) + 1 bits of the length's exponent E, rounding up.
+    // Plain arithmetic rather than bit ops, which are 32-bit in JS.
+    const e = Math.floor(Math.log2(length))
+    const s = Math.floor(Math.log2(e)) + 1
+    const step = 2 ** (e - s)
+    return Math.ceil(length / step) * step
+  }
+
   /**
    * Encrypt a plaintext byte stream into RFC 8188 records. Yields the header
    * first, then one Uint8Array per encrypted record. The final record always
    * carries the 0x02 terminal delimiter (even when the plaintext is empty).
+   *
+   * With a padding policy, zero padding is appended once the plaintext ends
+   * (its length is only known then). Padding takes the same room in a record
+   * as data would, so the ciphertext is exactly as long as that of an
+   * unpadded plaintext of the padded length.
+   *
+   * With `committed`, the header carries the key commitment (for v3 links).
    */
   static async *encryptStream(
     plaintext: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
@@ -106,33 +223,39 @@ export class ClientCrypto {
     salt: Uint8Array,
     rs: number = DEFAULT_RECORD_SIZE,
     onBytes?: (bytes: number) => void,
+    padding: PaddingPolicy = 'none',
+    committed = false,
   ): AsyncGenerator<Uint8Array, void, unknown> {
     if (rs < 18) throw new Error('record size must be >= 18 (RFC 8188 §2)')
     const cek       = await this.deriveCEK(salt, key)
     const nonceBase = await this.deriveNonceBase(salt, key)
     const cryptoKey = await crypto.subtle.importKey('raw', cek as BufferSource, { name: ALGORITHM }, false, ['encrypt'])
 
-    // Header: salt || rs || idlen=0
-    const header = new Uint8Array(SALT_LENGTH + 5)
+    // Header: salt || rs || idlen || keyid (the commitment, if any)
+    const keyid = committed ? await this.keyCommitment(salt, key) : new Uint8Array(0)
+    const header = new Uint8Array(SALT_LENGTH + 5 + keyid.length)
     header.set(salt, 0)
     new DataView(header.buffer, SALT_LENGTH, 4).setUint32(0, rs, false)
-    header[SALT_LENGTH + 4] = 0
+    header[SALT_LENGTH + 4] = keyid.length
+    header.set(keyid, SALT_LENGTH + 5)
     yield header
 
     // Per record: plaintext = data || delimiter, ciphertext = plaintext + 16 (tag)
     // We aim for ciphertext == rs, so plaintext budget = rs - 16, of which we
     // reserve 1 byte for the delimiter, leaving rs - 17 bytes for data.
     const dataBudget = rs - TAG_LENGTH - 1
-    const plain = new Uint8Array(rs - TAG_LENGTH) // filled as data || delimiter (no 0x00 padding)
+    const plain = new Uint8Array(rs - TAG_LENGTH) // filled as data || delimiter || 0x00 padding
     let dataInPlain = 0
+    let padInPlain = 0
     let seq = 0
     let totalBytes = 0
 
     const flush = async (isLast: boolean): Promise<Uint8Array> => {
       plain[dataInPlain] = isLast ? 2 : 1
+      plain.fill(0, dataInPlain + 1, dataInPlain + 1 + padInPlain)
       // .slice() copies; .subarray() would share the underlying buffer with
       // `plain`, which we mutate before the encrypt promise's microtask runs.
-      const recordPlain = plain.slice(0, dataInPlain + 1)
+      const recordPlain = plain.slice(0, dataInPlain + 1 + padInPlain)
       const nonce = this.recordNonce(nonceBase, seq)
       const encrypted = await crypto.subtle.encrypt(
         { name: ALGORITHM, iv: nonce as BufferSource },
@@ -141,6 +264,7 @@ export class ClientCrypto {
       )
       seq++
       dataInPlain = 0
+      padInPlain = 0
       return new Uint8Array(encrypted)
     }
 
@@ -160,6 +284,15 @@ export class ClientCrypto {
       }
     }
 
+    // Fill the rest of the current record, then whole records, with padding
+    let remainingPad = this.paddedLength(totalBytes, padding) - totalBytes
+    while (remainingPad > 0) {
+      const take = Math.min(dataBudget - dataInPlain - padInPlain, remainingPad)
+      padInPlain   += take
+      remainingPad -= take
+      if (dataInPlain + padInPlain === dataBudget) yield await flush(false)
+    }
+
     // Always emit a terminal record (may be empty).
     yield await flush(true)
     if (onBytes) onBytes(totalBytes)
@@ -169,6 +302,9 @@ export class ClientCrypto {
    * Encrypt a File. Prepends a length-prefixed JSON metadata block to the
    * plaintext stream so the recipient learns the filename and MIME type only
    * after successful decryption (the server never sees them).
+   *
+   * `onDigest` receives the envelope's content digest once the stream ends;
+   * see `encryptEnvelopeStream`.
    */
   static async *encryptFileStream(
     file: File,
@@ -177,30 +313,75 @@ export class ClientCrypto {
     salt: Uint8Array,
     rs: number = DEFAULT_RECORD_SIZE,
     onProgress?: (progress: number) => void,
+    padding: PaddingPolicy = 'none',
+    committed = false,
+    onDigest?: (digest: Uint8Array) => void,
+  ): AsyncGenerator<Uint8Array, void, unknown> {
+    const fileChunks = (async function* () {
+      let offset = 0
+      const sliceSize = rs // size of file slices read into memory at a time
+      while (offset < file.size) {
+        const end = Math.min(offset + sliceSize, file.size)
+        yield new Uint8Array(await file.slice(offset, end).arrayBuffer())
+        offset = end
+      }
+    })()
+
+    yield* this.encryptEnvelopeStream(fileChunks, file.size, metadata, key, salt, rs, onProgress, padding, committed, onDigest)
+  }
+
+  /**
+   * Encrypt an envelope whose body is produced on the fly (e.g. a folder
+   * archive). `bodySize` is only used for progress reporting.
+   *
+   * With `onDigest`, the envelope plaintext (metadata header and body,
+   * without padding) is hashed with SHA-256 as it streams through, and the
+   * digest is passed to `onDigest` after the last record. A sender
+   * attestation over that digest vouches for the exact bytes and metadata.
+   */
+  static async *encryptEnvelopeStream(
+    body: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+    bodySize: number,
+    metadata: EnvelopeMetadata,
+    key: Uint8Array,
+    salt: Uint8Array,
+    rs: number = DEFAULT_RECORD_SIZE,
+    onProgress?: (progress: number) => void,
+    padding: PaddingPolicy = 'none',
+    committed = false,
+    onDigest?: (digest: Uint8Array) => void,
   ): AsyncGenerator<Uint8Array, void, unknown> {
     const metaBytes = ENCODER.encode(JSON.stringify(metadata))
-    if (metaBytes.length > 0xffffffff) throw new Error('metadata too large')
+    if (metaBytes.length > MAX_METADATA_LENGTH) throw new Error('metadata too large')
     const prefix = new Uint8Array(4 + metaBytes.length)
     new DataView(prefix.buffer).setUint32(0, metaBytes.length, false)
     prefix.set(metaBytes, 4)
 
-    const totalPlaintextBytes = prefix.length + file.size
+    const totalPlaintextBytes = prefix.length + bodySize
     const onBytes = onProgress
-      ? (b: number) => onProgress(totalPlaintextBytes ? (b / totalPlaintextBytes) * 100 : 100)
+      ? (b: number) => onProgress(totalPlaintextBytes ? Math.min(100, (b / totalPlaintextBytes) * 100) : 100)
       : undefined
 
-    const fileChunks = (async function* () {
+    const hasher = onDigest ? await this.createContentDigest() : null
+    const chunks = (async function* () {
+      hasher?.update(prefix)
       yield prefix
-      let offset = 0
-      const sliceSize = rs // size of file slices read into memory at a time
-      while (offset < file.size) {
-        const end = Math.min(offset + sliceSize, file.size)
-        yield new Uint8Array(await file.slice(offset, end).arrayBuffer())
-        offset = end
+      for await (const chunk of body) {
+        hasher?.update(chunk)
+        yield chunk
       }
     })()
 
-    yield* this.encryptStream(fileChunks, key, salt, rs, onBytes)
+    yield* this.encryptStream(chunks, key, salt, rs, onBytes, padding, committed)
+    if (hasher && onDigest) onDigest(hasher.digest('binary'))
+  }
+
+  /** Incremental SHA-256 for envelope content digests (Web Crypto has no streaming hash). */
+  private static async createContentDigest() {
+    const { createSHA256 } = await import('hash-wasm')
+    const hasher = await createSHA256()
+    hasher.init()
+    return hasher
   }
 
   // ────────────────────────────────────────────────────────────────────────
@@ -213,11 +394,16 @@ export class ClientCrypto {
    * `sink.onChunk(plaintext)` with the data portion of each record (without
    * delimiter or padding), then `sink.onComplete()` at end of stream.
    *
+   * With `committed` (v3 links), the header must carry this key's
+   * commitment; it is checked before any record is decrypted.
+   *
    * Throws on:
    *   - salt mismatch
+   *   - missing or mismatched key commitment, when `committed`
    *   - invalid record size in header
    *   - record with delimiter other than 0x01 or 0x02
    *   - stream that ends without a terminal (0x02) record
+   *   - data after the terminal record
    */
   static async decryptToSink(
     stream: ReadableStream<Uint8Array>,
@@ -228,6 +414,7 @@ export class ClientCrypto {
       onComplete?: () => Promise<void> | void
     },
     onProgress?: (downloaded: number, decrypted: number) => void,
+    committed = false,
   ): Promise<void> {
     const reader = stream.getReader()
     let buffer = new Uint8Array(0)
@@ -286,6 +473,13 @@ export class ClientCrypto {
           for (let i = 0; i < salt.length; i++) {
             if (headerSalt[i] !== salt[i]) throw new Error('salt mismatch')
           }
+          if (committed) {
+            if (idlen !== COMMITMENT_LENGTH) throw new Error('key commitment missing')
+            const expected = await this.keyCommitment(salt, key)
+            let diff = 0
+            for (let i = 0; i < COMMITMENT_LENGTH; i++) diff |= buffer[SALT_LENGTH + 5 + i] ^ expected[i]
+            if (diff !== 0) throw new Error('key commitment mismatch')
+          }
           const cek = await this.deriveCEK(salt, key)
           nonceBase = await this.deriveNonceBase(salt, key)
           cryptoKey = await crypto.subtle.importKey('raw', cek as BufferSource, { name: ALGORITHM }, false, ['decrypt'])
@@ -300,7 +494,7 @@ export class ClientCrypto {
           const enc = buffer.slice(0, rs)
           const { data, isLast } = await decryptRecord(enc)
           totalDecrypted += data.length
-          await sink.onChunk(data)
+          if (data.length > 0) await sink.onChunk(data) // padding-only records carry no data
           buffer = buffer.slice(rs)
           if (isLast) sawTerminal = true
           if (onProgress) onProgress(totalDownloaded, totalDecrypted)
@@ -312,13 +506,14 @@ export class ClientCrypto {
         if (headerParsed && cryptoKey && nonceBase && !sawTerminal && buffer.length > TAG_LENGTH) {
           const { data, isLast } = await decryptRecord(buffer)
           totalDecrypted += data.length
-          await sink.onChunk(data)
+          if (data.length > 0) await sink.onChunk(data)
           buffer = new Uint8Array(0)
           if (!isLast) throw new Error('stream ended without terminal record')
           sawTerminal = true
           if (onProgress) onProgress(totalDownloaded, totalDecrypted)
         }
         if (!sawTerminal) throw new Error('stream ended without terminal record')
+        if (buffer.length > 0) throw new Error('data after terminal record')
         if (sink.onComplete) await sink.onComplete()
         return
       }
@@ -329,6 +524,10 @@ export class ClientCrypto {
    * Decrypt a stream and split out the embedded metadata (filename + MIME type)
    * from the file bytes. Calls `onMetadata` once after the metadata header has
    * been read in full, then `onChunk` for each subsequent file-data chunk.
+   *
+   * With `contentDigest` (from an attested link), the decrypted envelope is
+   * hashed as it streams and must match before `onComplete` is called;
+   * otherwise this throws 'content digest mismatch'.
    */
   static async decryptEnvelopeToSink(
     stream: ReadableStream<Uint8Array>,
@@ -340,7 +539,10 @@ export class ClientCrypto {
       onComplete?: () => Promise<void> | void
     },
     onProgress?: (downloaded: number, decrypted: number) => void,
+    committed = false,
+    contentDigest?: Uint8Array | null,
   ): Promise<void> {
+    const hasher = contentDigest ? await this.createContentDigest() : null
     const lengthPrefix = new Uint8Array(4)
     let lengthFilled = 0
     let metadataLen = -1
@@ -349,6 +551,7 @@ export class ClientCrypto {
 
     await this.decryptToSink(stream, key, salt, {
       onChunk: async (data) => {
+        hasher?.update(data)
         let offset = 0
 
         if (metadataLen < 0) {
@@ -360,7 +563,7 @@ export class ClientCrypto {
           offset += take
           if (lengthFilled === 4) {
             metadataLen = new DataView(lengthPrefix.buffer).getUint32(0, false)
-            if (metadataLen > 0x40000) throw new Error(`metadata length implausibly large: ${metadataLen}`)
+            if (metadataLen > MAX_METADATA_LENGTH) throw new Error(`metadata length implausibly large: ${metadataLen}`)
             metadataBuf = new Uint8Array(metadataLen)
           }
         }
@@ -387,8 +590,16 @@ export class ClientCrypto {
           await callbacks.onChunk(data.subarray(offset))
         }
       },
-      onComplete: callbacks.onComplete,
-    }, onProgress)
+      onComplete: async () => {
+        if (hasher && contentDigest) {
+          const actual = hasher.digest('binary')
+          let diff = actual.length ^ contentDigest.length
+          for (let i = 0; i < Math.min(actual.length, contentDigest.length); i++) diff |= actual[i] ^ contentDigest[i]
+          if (diff !== 0) throw new Error('content digest mismatch')
+        }
+        if (callbacks.onComplete) await callbacks.onComplete()
+      },
+    }, onProgress, committed)
 
     if (metadataLen < 0 || metadataFilled < metadataLen) {
       throw new Error('stream ended before metadata header was complete')
@@ -396,25 +607,90 @@ export class ClientCrypto {
   }
 
   // ────────────────────────────────────────────────────────────────────────
-  // Optional passphrase wrap (PBKDF2-SHA256)
+  // Optional passphrase wrap
   //
-  // When a sender opts in, the actual AES key is XOR'd with a key derived
-  // from a passphrase via PBKDF2-SHA256 (600k iterations, OWASP). The URL
-  // fragment carries the wrapped key and the per-upload passphrase salt;
-  // the recipient enters the passphrase to recover the real key.
+  // When a sender opts in, the actual AES key is wrapped under a key derived
+  // from a passphrase. The URL fragment carries the wrapped key, the
+  // per-upload passphrase salt and the KDF parameters; the recipient enters
+  // the passphrase to recover the real key.
   //
   // This defends against URL-leakage paths the sender doesn't control —
   // browser screenshots, screen-share, link unfurls, referer leaks, etc.
-  // Wrong passphrases yield a wrong key, which then fails AES-GCM auth
-  // on the first record (no oracle, no leak).
+  //
+  // Wrap versions:
+  //   0 (legacy, read-only) — file key XOR PBKDF2-SHA256(600k) output. A
+  //     wrong passphrase yields a wrong key that only fails AES-GCM auth on
+  //     the first record, i.e. after the download has started.
+  //   1 — AES-256-GCM over the file key, with the KDF parameters as AAD, so
+  //     a wrong passphrase (or tampered parameters) fails immediately and
+  //     nothing is fetched. The KDF is PBKDF2-SHA256 or Argon2id (WASM).
   // ────────────────────────────────────────────────────────────────────────
 
   static readonly PBKDF2_ITERATIONS = 600_000
   static readonly PBKDF2_SALT_LENGTH = 16
+  static readonly PASSPHRASE_WRAP_VERSION = 1
+
+  // Argon2id defaults: RFC 9106's memory-constrained profile with a single
+  // lane, since the WASM build runs on one thread anyway.
+  static readonly DEFAULT_ARGON2ID: PassphraseKdf = { name: 'argon2id', memoryKiB: 65536, iterations: 3, parallelism: 1 }
+  static readonly DEFAULT_PBKDF2: PassphraseKdf = { name: 'pbkdf2', iterations: 600_000 }
 
-  /** Derive a 16-byte wrap key from a passphrase. */
-  static async derivePassphraseKey(passphrase: string, salt: Uint8Array): Promise<Uint8Array> {
+  // A key wrapped with AES-GCM — sealed to a recipient's X25519 key (see
+  // ./identity.ts) or under a v1 passphrase wrap — is key bytes plus a tag.
+  static readonly SEALED_KEY_LENGTH = KEY_LENGTH + TAG_LENGTH
+  static readonly X25519_KEY_LENGTH = 32
+
+  /**
+   * Bounds on KDF parameters read from a link (or an identity export). The
+   * fragment is attacker-controlled, so absurd values are rejected rather
+   * than left to hang or exhaust the recipient's tab.
+   */
+  static kdfWithinBounds(kdf: PassphraseKdf): boolean {
+    if (kdf.name === 'pbkdf2') {
+      return kdf.iterations >= 100_000 && kdf.iterations <= 10_000_000
+    }
+    return kdf.memoryKiB >= 8192 && kdf.memoryKiB <= 1_048_576 &&
+      kdf.iterations >= 1 && kdf.iterations <= 16 &&
+      kdf.parallelism >= 1 && kdf.parallelism <= 8
+  }
+
+  /** Canonical text form of the KDF parameters, bound into the wrap as AAD. */
+  static kdfDescriptor(kdf: PassphraseKdf): string {
+    return kdf.name === 'pbkdf2'
+      ? `pbkdf2-sha256|i=${kdf.iterations}`
+      : `argon2id|m=${kdf.memoryKiB}|t=${kdf.iterations}|p=${kdf.parallelism}`
+  }
+
+  /** Human-readable summary of a KDF, for the UI. */
+  static describeKdf(kdf: PassphraseKdf): string {
+    return kdf.name === 'pbkdf2'
+      ? `PBKDF2-SHA256, ${kdf.iterations.toLocaleString()} iterations`
+      : `Argon2id, ${Math.round(kdf.memoryKiB / 1024)} MiB, ${kdf.iterations} passes`
+  }
+
+  /** Derive a wrap key of `length` bytes from a passphrase. */
+  static async derivePassphraseKey(
+    passphrase: string,
+    salt: Uint8Array,
+    kdf: PassphraseKdf = this.DEFAULT_PBKDF2,
+    length: number = KEY_LENGTH,
+  ): Promise<Uint8Array> {
     const passphraseBytes = ENCODER.encode(passphrase.normalize('NFKC'))
+
+    if (kdf.name === 'argon2id') {
+      // Loaded on demand: the WASM module is only needed for passphrase links
+      const { argon2id } = await import('hash-wasm')
+      return argon2id({
+        password: passphraseBytes,
+        salt,
+        parallelism: kdf.parallelism,
+        iterations: kdf.iterations,
+        memorySize: kdf.memoryKiB,
+        hashLength: length,
+        outputType: 'binary',
+      })
+    }
+
     const baseKey = await crypto.subtle.importKey(
       'raw',
       passphraseBytes as BufferSource,
@@ -426,43 +702,143 @@ export class ClientCrypto {
       {
         name: 'PBKDF2',
         salt: salt as BufferSource,
-        iterations: this.PBKDF2_ITERATIONS,
+        iterations: kdf.iterations,
         hash: 'SHA-256',
       },
       baseKey,
-      KEY_LENGTH * 8,
+      length * 8,
     )
     return new Uint8Array(bits)
   }
 
-  /** XOR-wrap the file key with a passphrase-derived key. */
+  private static async passphraseWrapKey(passphrase: string, wrap: PassphraseWrap): Promise<CryptoKey> {
+    const raw = await this.derivePassphraseKey(passphrase, wrap.salt, wrap.kdf, 32)
+    return crypto.subtle.importKey('raw', raw as BufferSource, { name: ALGORITHM }, false, ['encrypt', 'decrypt'])
+  }
+
+  private static passphraseWrapAad(wrap: PassphraseWrap): Uint8Array {
+    return ENCODER.encode(`whirlcrypt:pw${wrap.version}|${this.kdfDescriptor(wrap.kdf)}`)
+  }
+
+  /**
+   * Wrap the file key with a passphrase-derived key (current wrap version).
+   * The wrap key comes from a fresh random salt and is used once, so a fixed
+   * all-zero GCM nonce is safe.
+   */
   static async wrapKeyWithPassphrase(
     fileKey: Uint8Array,
     passphrase: string,
-  ): Promise<{ wrapped: Uint8Array; passphraseSalt: Uint8Array }> {
-    const passphraseSalt = this.generateRandomBytes(this.PBKDF2_SALT_LENGTH)
-    const wrapKey = await this.derivePassphraseKey(passphrase, passphraseSalt)
-    const wrapped = new Uint8Array(fileKey.length)
-    for (let i = 0; i < fileKey.length; i++) wrapped[i] = fileKey[i] ^ wrapKey[i]
-    return { wrapped, passphraseSalt }
+    kdf: PassphraseKdf = this.DEFAULT_ARGON2ID,
+  ): Promise<{ wrapped: Uint8Array; wrap: PassphraseWrap }> {
+    const wrap: PassphraseWrap = {
+      version: this.PASSPHRASE_WRAP_VERSION,
+      kdf,
+      salt: this.generateRandomBytes(this.PBKDF2_SALT_LENGTH),
+    }
+    const wrapKey = await this.passphraseWrapKey(passphrase, wrap)
+    const wrapped = await crypto.subtle.encrypt(
+      { name: ALGORITHM, iv: new Uint8Array(12), additionalData: this.passphraseWrapAad(wrap) as BufferSource },
+      wrapKey,
+      fileKey as BufferSource,
+    )
+    return { wrapped: new Uint8Array(wrapped), wrap }
   }
 
-  /** Unwrap a wrapped key using the passphrase. */
+  /**
+   * Unwrap a wrapped key using the passphrase. For v1 wraps a wrong
+   * passphrase throws `WrongPassphraseError` here; legacy XOR wraps can't
+   * tell, and return a key that fails on the first record instead.
+   */
   static async unwrapKeyWithPassphrase(
     wrapped: Uint8Array,
     passphrase: string,
-    passphraseSalt: Uint8Array,
+    wrap: PassphraseWrap,
   ): Promise<Uint8Array> {
-    const wrapKey = await this.derivePassphraseKey(passphrase, passphraseSalt)
-    const fileKey = new Uint8Array(wrapped.length)
-    for (let i = 0; i < wrapped.length; i++) fileKey[i] = wrapped[i] ^ wrapKey[i]
-    return fileKey
+    if (wrap.version === 0) {
+      const wrapKey = await this.derivePassphraseKey(passphrase, wrap.salt, wrap.kdf)
+      const fileKey = new Uint8Array(wrapped.length)
+      for (let i = 0; i < wrapped.length; i++) fileKey[i] = wrapped[i] ^ wrapKey[i]
+      return fileKey
+    }
+
+    const wrapKey = await this.passphraseWrapKey(passphrase, wrap)
+    try {
+      const fileKey = await crypto.subtle.decrypt(
+        { name: ALGORITHM, iv: new Uint8Array(12), additionalData: this.passphraseWrapAad(wrap) as BufferSource },
+        wrapKey,
+        wrapped as BufferSource,
+      )
+      return new Uint8Array(fileKey)
+    } catch {
+      throw new WrongPassphraseError()
+    }
+  }
+
+  /** Fragment params for a passphrase wrap (appended after `k` and `s`). */
+  private static passphraseWrapParams(wrap: PassphraseWrap): string {
+    let params = `&ps=${this.toBase64Url(wrap.salt)}`
+    if (wrap.version === 0) return params
+    params += `&pw=${wrap.version}&kdf=${wrap.kdf.name}`
+    if (wrap.kdf.name === 'pbkdf2') {
+      params += `&ki=${wrap.kdf.iterations}`
+    } else {
+      params += `&km=${wrap.kdf.memoryKiB}&kt=${wrap.kdf.iterations}&kp=${wrap.kdf.parallelism}`
+    }
+    return params
+  }
+
+  /**
+   * Parse passphrase wrap params from the fragment. A `ps` without `pw` is a
+   * legacy XOR wrap. Returns `null` if the params are malformed, out of
+   * bounds, or from a newer wrap version than this client knows.
+   */
+  private static parsePassphraseWrap(params: URLSearchParams, salt: Uint8Array): PassphraseWrap | null {
+    const pw = params.get('pw')
+    if (pw === null) {
+      return { version: 0, kdf: { name: 'pbkdf2', iterations: this.PBKDF2_ITERATIONS }, salt }
+    }
+    if (pw !== String(this.PASSPHRASE_WRAP_VERSION)) return null
+
+    const int = (name: string): number => {
+      const value = params.get(name)
+      return value !== null && /^\d+$/.test(value) ? parseInt(value, 10) : NaN
+    }
+    let kdf: PassphraseKdf
+    switch (params.get('kdf')) {
+      case 'pbkdf2':
+        kdf = { name: 'pbkdf2', iterations: int('ki') }
+        break
+      case 'argon2id':
+        kdf = { name: 'argon2id', memoryKiB: int('km'), iterations: int('kt'), parallelism: int('kp') }
+        break
+      default:
+        return null
+    }
+    if (!this.kdfWithinBounds(kdf)) return null
+    return { version: this.PASSPHRASE_WRAP_VERSION, kdf, salt }
   }
 
   // ────────────────────────────────────────────────────────────────────────
   // URL fragment encoding (key + salt)
   // ────────────────────────────────────────────────────────────────────────
 
+  // Link version for files whose header carries a key commitment
+  static readonly COMMITTED_LINK_VERSION = 3
+
+  static readonly SENDER_NAME_MAX_LENGTH = 64
+
+  /**
+   * Normalise a sender display name for a link: trimmed, at most
+   * SENDER_NAME_MAX_LENGTH characters and free of control characters.
+   * Anything else yields `null`, so a malformed name is dropped rather than
+   * failing the link.
+   */
+  static senderName(name: string | null | undefined): string | null {
+    const trimmed = name?.trim()
+    if (!trimmed || Array.from(trimmed).length > this.SENDER_NAME_MAX_LENGTH) return null
+    return /[\u0000-\u001f\u007f-\u009f]/.test(trimmed) ? null : trimmed
+  }
+
   /** Encode bytes as base64url with no padding. */
   static toBase64Url(bytes: Uint8Array): string {
     let s = ''
@@ -485,78 +861,181 @@ export class ClientCrypto {
    * server). Filename and content-type are inside the encrypted envelope.
    *
    *   #v=2&k=<key>&s=<salt>                       — open
-   *   #v=2&k=<wrapped>&s=<salt>&ps=<pp_salt>      — passphrase-locked
+   *   #v=2&k=<wrapped>&s=<salt>&ps=<pp_salt>&pw=1&kdf=argon2id&km=..&kt=..&kp=..
+   *   #v=2&k=<wrapped>&s=<salt>&ps=<pp_salt>&pw=1&kdf=pbkdf2&ki=..
+   *                                               — passphrase-locked
+   *   #v=2&k=<wrapped>&s=<salt>&ps=<pp_salt>      — passphrase-locked, legacy XOR wrap
    *   #v=2&k=...&s=...&pk=<pubkey>&sig=<sig>      — sender-attested
+   *   #v=2&k=...&s=...&pk=..&sig=..&rot=<old pubkey || sig>
+   *                                               — sender-attested, key rotated
+   *   #v=2&k=...&s=...&pk=..&sig=..&h=<digest>    — sender-attested, content signed too
+   *   #v=2&k=...&s=...&pk=..&sig=..&sn=<name>     — sender-attested, with a display name
+   *   #v=2&k=<sealed>&s=<salt>&epk=<ephemeral>    — sealed to a recipient key
+   *   #v=2&share=<share>&s=<salt>...              — one of a split key's shares;
+   *                                                 see generateSplitShareUrls
    *
-   * The flags compose: a link can be both passphrase-locked and attested.
+   * Attestation composes with either lock; passphrase and recipient sealing
+   * are alternatives. A sealed `k` is produced by `sealKeyToRecipient` in
+   * ./identity.ts and passed in as `sealedKey`.
+   *
+   * `committed` marks a file encrypted with a key commitment: the link is
+   * then `#v=3&…` with the same parameters, and recipients insist on the
+   * commitment. v2 links keep working without one.
    */
   static async generateShareUrl(
     fileId: string,
     key: Uint8Array,
     salt: Uint8Array,
     baseUrl: string,
-    options?: {
-      passphrase?: string
-      attestation?: { pubkey: Uint8Array; signature: Uint8Array }
-    },
+    options?: ShareUrlOptions,
   ): Promise<string> {
+    const { kBytes, extra } = await this.linkParams(key, options)
+    const k = this.toBase64Url(kBytes)
+    const s = this.toBase64Url(salt)
+    const v = options?.committed ? this.COMMITTED_LINK_VERSION : 2
+    return `${baseUrl}/download/${fileId}#v=${v}&k=${k}&s=${s}${extra}`
+  }
+
+  /**
+   * Build `total` share URLs for one upload, any `threshold` of which open
+   * it. The link's `k` value — the key, or its passphrase wrap or recipient
+   * seal — is split with Shamir secret sharing (./shamir.ts), and each URL
+   * carries one share in place of `k`; every other parameter is the same on
+   * all of them. Recipients combine shares back into `k` and carry on as
+   * with an ordinary link.
+   */
+  static async generateSplitShareUrls(
+    fileId: string,
+    key: Uint8Array,
+    salt: Uint8Array,
+    baseUrl: string,
+    threshold: number,
+    total: number,
+    options?: ShareUrlOptions,
+  ): Promise<string[]> {
+    const { kBytes, extra } = await this.linkParams(key, options)
+    const s = this.toBase64Url(salt)
+    const v = options?.committed ? this.COMMITTED_LINK_VERSION : 2
+    return splitSecret(kBytes, threshold, total).map(share =>
+      `${baseUrl}/download/${fileId}#v=${v}&share=${this.toBase64Url(encodeShare(share))}&s=${s}${extra}`)
+  }
+
+  /** The `k` value for a link, and the parameters after `s`. */
+  private static async linkParams(
+    key: Uint8Array,
+    options?: ShareUrlOptions,
+  ): Promise<{ kBytes: Uint8Array; extra: string }> {
     let kBytes = key
     let extra = ''
+    if (options?.sealedKey) {
+      if (options.passphrase) throw new Error('a link cannot be both passphrase-locked and sealed to a recipient')
+      kBytes = options.sealedKey.sealed
+      extra += `&epk=${this.toBase64Url(options.sealedKey.ephemeralPubkey)}`
+    }
     if (options?.passphrase && options.passphrase.length > 0) {
-      const { wrapped, passphraseSalt } = await this.wrapKeyWithPassphrase(key, options.passphrase)
+      const { wrapped, wrap } = await this.wrapKeyWithPassphrase(key, options.passphrase, options.passphraseKdf)
       kBytes = wrapped
-      extra += `&ps=${this.toBase64Url(passphraseSalt)}`
+      extra += this.passphraseWrapParams(wrap)
     }
     if (options?.attestation) {
       extra += `&pk=${this.toBase64Url(options.attestation.pubkey)}`
       extra += `&sig=${this.toBase64Url(options.attestation.signature)}`
+      const rotation = options.attestation.rotation
+      if (rotation) {
+        const rot = new Uint8Array(rotation.previousPubkey.length + rotation.signature.length)
+        rot.set(rotation.previousPubkey, 0)
+        rot.set(rotation.signature, rotation.previousPubkey.length)
+        extra += `&rot=${this.toBase64Url(rot)}`
+      }
+      const digest = options.attestation.contentDigest
+      if (digest) extra += `&h=${this.toBase64Url(digest)}`
+      const name = this.senderName(options.attestation.name)
+      if (name) extra += `&sn=${encodeURIComponent(name)}`
     }
-    const k = this.toBase64Url(kBytes)
-    const s = this.toBase64Url(salt)
-    return `${baseUrl}/download/${fileId}#v=2&k=${k}&s=${s}${extra}`
+    return { kBytes, extra }
   }
 
   /**
-   * Read the v2 key params from the URL fragment. The returned `keyOrWrapped`
-   * is either the actual file key (when `passphraseSalt` is `null`) or a
-   * wrapped key that needs `unwrapKeyWithPassphrase` to be applied first.
+   * Read the v2/v3 key params from the URL fragment. The returned `keyOrWrapped`
+   * is the actual file key when both `passphraseWrap` and `ephemeralPubkey`
+   * are `null`; otherwise it is wrapped and needs `unwrapKeyWithPassphrase`
+   * or `openSealedKey` (./identity.ts) applied first.
+   *
+   * A link from a split key has `keyOrWrapped: null` and its `share` set;
+   * `combineShares` (./shamir.ts) over enough shares yields `keyOrWrapped`.
+   * Pass `hash` to read a link other than the current page's.
    *
    * Returns `null` if the fragment is missing, malformed, or a v1 (legacy)
-   * link from before the wire-format migration.
+   * link from before the wire-format migration. (The link version `v` is
+   * the record format — `committed` is set for v3 — and passphrase wraps
+   * carry their own version in `pw`.)
    */
-  static extractKeysFromUrl(): {
-    keyOrWrapped: Uint8Array
+  static extractKeysFromUrl(hash: string = window.location.hash): {
+    keyOrWrapped: Uint8Array | null
+    share: KeyShare | null
     salt: Uint8Array
-    passphraseSalt: Uint8Array | null
-    attestation: { pubkey: Uint8Array; signature: Uint8Array } | null
+    committed: boolean
+    passphraseWrap: PassphraseWrap | null
+    ephemeralPubkey: Uint8Array | null
+    attestation: LinkAttestation | null
   } | null {
-    const fragment = window.location.hash.substring(1)
+    const fragment = hash.substring(1)
     const params = new URLSearchParams(fragment)
-    if (params.get('v') !== '2') return null
+    const v = params.get('v')
+    if (v !== '2' && v !== String(this.COMMITTED_LINK_VERSION)) return null
+    const committed = v !== '2'
     const k = params.get('k')
+    const shareParam = params.get('share')
     const s = params.get('s')
-    if (!k || !s) return null
+    // Exactly one of the key and a share of it
+    if (!k === !shareParam || !s) return null
     try {
-      const keyOrWrapped = this.fromBase64Url(k)
       const salt = this.fromBase64Url(s)
-      if (keyOrWrapped.length !== KEY_LENGTH || salt.length !== SALT_LENGTH) return null
+      if (salt.length !== SALT_LENGTH) return null
+      const epkParam = params.get('epk')
       const psParam = params.get('ps')
-      let passphraseSalt: Uint8Array | null = null
+      let ephemeralPubkey: Uint8Array | null = null
+      if (epkParam) {
+        if (psParam) return null
+        ephemeralPubkey = this.fromBase64Url(epkParam)
+        if (ephemeralPubkey.length !== this.X25519_KEY_LENGTH) return null
+      }
+      let passphraseWrap: PassphraseWrap | null = null
       if (psParam) {
-        passphraseSalt = this.fromBase64Url(psParam)
+        const passphraseSalt = this.fromBase64Url(psParam)
         if (passphraseSalt.length !== this.PBKDF2_SALT_LENGTH) return null
+        passphraseWrap = this.parsePassphraseWrap(params, passphraseSalt)
+        if (!passphraseWrap) return null
       }
+      const expectedKeyLength = ephemeralPubkey || (passphraseWrap && passphraseWrap.version > 0)
+        ? this.SEALED_KEY_LENGTH
+        : KEY_LENGTH
+      const keyOrWrapped = k ? this.fromBase64Url(k) : null
+      if (keyOrWrapped && keyOrWrapped.length !== expectedKeyLength) return null
+      const share = shareParam ? decodeShare(this.fromBase64Url(shareParam), expectedKeyLength) : null
+      if (shareParam && !share) return null
       const pkParam  = params.get('pk')
       const sigParam = params.get('sig')
-      let attestation: { pubkey: Uint8Array; signature: Uint8Array } | null = null
+      const rotParam = params.get('rot')
+      let attestation: LinkAttestation | null = null
       if (pkParam && sigParam) {
         const pubkey = this.fromBase64Url(pkParam)
         const signature = this.fromBase64Url(sigParam)
         if (pubkey.length === 32 && signature.length === 64) {
-          attestation = { pubkey, signature }
+          // A malformed rotation statement is dropped, like a malformed attestation
+          const rot = rotParam ? this.fromBase64Url(rotParam) : null
+          const rotation = rot && rot.length === 96
+            ? { previousPubkey: rot.slice(0, 32), signature: rot.slice(32) }
+            : null
+          // A malformed digest drops the attestation: the signature can't be checked without it
+          const hParam = params.get('h')
+          const contentDigest = hParam ? this.fromBase64Url(hParam) : null
+          if (!contentDigest || contentDigest.length === CONTENT_DIGEST_LENGTH) {
+            attestation = { pubkey, signature, rotation, contentDigest, name: this.senderName(params.get('sn')) }
+          }
         }
       }
-      return { keyOrWrapped, salt, passphraseSalt, attestation }
+      return { keyOrWrapped, share, salt, committed, passphraseWrap, ephemeralPubkey, attestation }
     } catch {
       return null
     }
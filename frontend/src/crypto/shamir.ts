@@ -0,0 +1,134 @@
+/**
+ * Shamir secret sharing over GF(2^8), used to split a link's key into N
+ * shares of which any K rebuild it. Each byte of the secret is the constant
+ * term of its own random polynomial of degree K−1; share `x` holds every
+ * polynomial evaluated at `x`. Fewer than K shares reveal nothing about the
+ * secret.
+ *
+ * A share on the wire (base64url in a link's `share` param):
+ *
+ *     [ set id (8) ] [ K (1) ] [ N (1) ] [ x (1) ] [ y (secret length) ]
+ *
+ * The set id is random per split, so shares of different splits are never
+ * mixed up. The field uses the AES polynomial x^8 + x^4 + x^3 + x + 1, as
+ * does the CLI (backend/src/encryption/shamir.ts).
+ */
+
+export interface KeyShare {
+  setId:     Uint8Array  // random, shared by every share of one split
+  threshold: number      // K: shares needed to rebuild the secret
+  total:     number      // N: shares produced
+  x:         number      // this share's evaluation point, 1..N
+  y:         Uint8Array  // one byte per secret byte
+}
+
+export const SHARE_SET_ID_LENGTH = 8
+export const MAX_SHARES = 255
+const SHARE_HEADER_LENGTH = SHARE_SET_ID_LENGTH + 3
+
+// log/exp tables for GF(2^8) with generator 3
+const EXP = new Uint8Array(510)
+const LOG = new Uint8Array(256)
+{
+  let value = 1
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = EXP[i + 255] = value
+    LOG[value] = i
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0)
+  }
+}
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]
+}
+
+function div(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]]
+}
+
+/** Split `secret` into `total` shares, any `threshold` of which rebuild it. */
+export function splitSecret(secret: Uint8Array, threshold: number, total: number): KeyShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(total) || threshold < 2 || threshold > total || total > MAX_SHARES) {
+    throw new Error(`need 2 ≤ threshold ≤ shares ≤ ${MAX_SHARES}`)
+  }
+  const setId = crypto.getRandomValues(new Uint8Array(SHARE_SET_ID_LENGTH))
+  const shares: KeyShare[] = []
+  for (let x = 1; x <= total; x++) {
+    shares.push({ setId, threshold, total, x, y: new Uint8Array(secret.length) })
+  }
+  // Coefficients 1..K−1 of each byte's polynomial; the constant term is the byte itself
+  const coefficients = crypto.getRandomValues(new Uint8Array(secret.length * (threshold - 1)))
+  for (let i = 0; i < secret.length; i++) {
+    for (const share of shares) {
+      // Horner's rule, highest coefficient first
+      let y = 0
+      for (let j = threshold - 2; j >= 0; j--) {
+        y = mul(y, share.x) ^ coefficients[i * (threshold - 1) + j]
+      }
+      share.y[i] = mul(y, share.x) ^ secret[i]
+    }
+  }
+  return shares
+}
+
+/** Whether two shares come from the same split, and so can be combined. */
+export function sameSplit(a: KeyShare, b: KeyShare): boolean {
+  return a.setId.length === b.setId.length &&
+    a.setId.every((byte, i) => byte === b.setId[i]) &&
+    a.threshold === b.threshold &&
+    a.total === b.total &&
+    a.y.length === b.y.length
+}
+
+/**
+ * Rebuild the secret from at least `threshold` shares of one split. Throws if
+ * the shares come from different splits, repeat a point or are too few.
+ */
+export function combineShares(shares: KeyShare[]): Uint8Array {
+  if (shares.length === 0) throw new Error('no shares')
+  const [first] = shares
+  if (!shares.every(share => sameSplit(share, first))) throw new Error('shares belong to different splits')
+  if (new Set(shares.map(s => s.x)).size !== shares.length) throw new Error('duplicate share')
+  if (shares.length < first.threshold) {
+    throw new Error(`need ${first.threshold} shares, have ${shares.length}`)
+  }
+
+  // Lagrange interpolation at x = 0 over exactly K shares
+  const used = shares.slice(0, first.threshold)
+  const secret = new Uint8Array(first.y.length)
+  for (const share of used) {
+    let basis = 1
+    for (const other of used) {
+      if (other.x !== share.x) basis = mul(basis, div(other.x, other.x ^ share.x))
+    }
+    for (let i = 0; i < secret.length; i++) secret[i] ^= mul(basis, share.y[i])
+  }
+  return secret
+}
+
+/** Serialise a share for a link. */
+export function encodeShare(share: KeyShare): Uint8Array {
+  const out = new Uint8Array(SHARE_HEADER_LENGTH + share.y.length)
+  out.set(share.setId, 0)
+  out[SHARE_SET_ID_LENGTH] = share.threshold
+  out[SHARE_SET_ID_LENGTH + 1] = share.total
+  out[SHARE_SET_ID_LENGTH + 2] = share.x
+  out.set(share.y, SHARE_HEADER_LENGTH)
+  return out
+}
+
+/** Parse a serialised share; `null` unless it is well-formed with a `secretLength`-byte value. */
+export function decodeShare(bytes: Uint8Array, secretLength: number): KeyShare | null {
+  if (bytes.length !== SHARE_HEADER_LENGTH + secretLength) return null
+  const threshold = bytes[SHARE_SET_ID_LENGTH]
+  const total = bytes[SHARE_SET_ID_LENGTH + 1]
+  const x = bytes[SHARE_SET_ID_LENGTH + 2]
+  if (threshold < 2 || threshold > total || x < 1 || x > total) return null
+  return {
+    setId: bytes.slice(0, SHARE_SET_ID_LENGTH),
+    threshold,
+    total,
+    x,
+    y: bytes.slice(SHARE_HEADER_LENGTH),
+  }
+}
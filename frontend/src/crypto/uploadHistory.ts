@@ -0,0 +1,291 @@
+/**
+ * Local record of files uploaded from this browser, for the "My uploads"
+ * page. Each entry holds the share link (which carries the file key) and the
+ * owner token, so the history is locked behind a passphrase the browser
+ * never stores.
+ *
+ * Entries are sealed to an X25519 public key: a fresh AES-256-GCM key per
+ * entry, itself sealed with `sealKeyToRecipient` (see ./identity.ts). That
+ * lets an upload be recorded while the history is locked. The private half
+ * is kept only sealed under a key derived from the passphrase (Argon2id by
+ * default), so the profile holds the salt, KDF parameters, public key and
+ * sealed private key, none of which open an entry. Once unlocked, the private
+ * key lives in this page's memory until it is locked or reloaded.
+ *
+ * Only the file id is stored in the clear, as the record key. Forgetting the
+ * passphrase loses the history; nothing is kept server-side.
+ */
+
+import { ClientCrypto, PassphraseKdf, WrongPassphraseError } from './rfc8188'
+import { RecipientIdentity, sealKeyToRecipient, openSealedKey } from './identity'
+
+const DB_NAME = 'whirlcrypt'
+const DB_VERSION = 1
+const KEY_STORE = 'keys'
+const UPLOAD_STORE = 'uploads'
+const HISTORY_VAULT_ID = 'upload-history-vault'
+// The device-bound AES key earlier versions sealed entries under. It sits in
+// the profile next to the entries, so it is dropped once a passphrase is set.
+const LEGACY_KEY_ID = 'upload-history'
+
+const VAULT_VERSION = 1
+const VAULT_SALT_LENGTH = 16
+// Each vault derives a fresh key from a fresh salt, so a zero nonce is safe
+const VAULT_IV = new Uint8Array(12)
+const RECORD_KEY_LENGTH = 32
+
+export interface UploadRecord {
+  id: string
+  filename: string
+  size: number
+  shareUrl: string
+  shareUrls?: string[]  // every share link, when the key was split; shareUrl is the first
+  ownerToken: string | null
+  uploadedAt: string
+  expiresAt: string
+  maxDownloads: number | null
+}
+
+/** What the profile holds for a passphrase-locked history. */
+export interface HistoryVault {
+  version: number
+  kdf: PassphraseKdf
+  salt: Uint8Array
+  pubkey: Uint8Array            // X25519; entries are sealed to it
+  sealedPrivateKey: Uint8Array  // its private half, under the passphrase
+}
+
+export interface SealedRecord {
+  id: string
+  iv: Uint8Array
+  ciphertext: ArrayBuffer
+  // Absent on entries sealed under the legacy device key
+  sealedKey?: Uint8Array
+  ephemeralPubkey?: Uint8Array
+}
+
+export type HistoryState = 'unset' | 'locked' | 'unlocked'
+
+// Set while unlocked; never written anywhere
+let unlocked: RecipientIdentity | null = null
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(KEY_STORE)) db.createObjectStore(KEY_STORE)
+        if (!db.objectStoreNames.contains(UPLOAD_STORE)) db.createObjectStore(UPLOAD_STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call retry if opening failed (e.g. private mode quirks)
+    dbPromise.catch(() => { dbPromise = null })
+  }
+  return dbPromise
+}
+
+function run<T>(storeName: string, mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode)
+    const request = op(tx.objectStore(storeName))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  }))
+}
+
+async function vaultKey(passphrase: string, vault: Omit<HistoryVault, 'sealedPrivateKey'>): Promise<{ key: CryptoKey; aad: Uint8Array }> {
+  const raw = await ClientCrypto.derivePassphraseKey(passphrase, vault.salt, vault.kdf, 32)
+  const key = await crypto.subtle.importKey('raw', raw as BufferSource, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+  const aad = new TextEncoder().encode(
+    `whirlcrypt:history${vault.version}|${ClientCrypto.toBase64Url(vault.pubkey)}|${ClientCrypto.kdfDescriptor(vault.kdf)}`,
+  )
+  return { key, aad }
+}
+
+/** Make a new history keypair, its private half sealed under `passphrase`. */
+export async function createVault(
+  passphrase: string,
+  kdf: PassphraseKdf = ClientCrypto.DEFAULT_ARGON2ID,
+): Promise<{ vault: HistoryVault; identity: RecipientIdentity }> {
+  const keypair = (await crypto.subtle.generateKey({ name: 'X25519' } as any, true, ['deriveBits'])) as CryptoKeyPair
+  const privateJwk = await crypto.subtle.exportKey('jwk', keypair.privateKey)
+  const publicJwk = await crypto.subtle.exportKey('jwk', keypair.publicKey)
+  if (!privateJwk.d || !publicJwk.x) throw new Error('X25519 JWK missing d or x')
+  const pubkey = ClientCrypto.fromBase64Url(publicJwk.x)
+
+  const unsealed = { version: VAULT_VERSION, kdf, salt: ClientCrypto.generateRandomBytes(VAULT_SALT_LENGTH), pubkey }
+  const { key, aad } = await vaultKey(passphrase, unsealed)
+  const sealedPrivateKey = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: VAULT_IV as BufferSource, additionalData: aad as BufferSource },
+    key,
+    ClientCrypto.fromBase64Url(privateJwk.d) as BufferSource,
+  )
+  return {
+    vault: { ...unsealed, sealedPrivateKey: new Uint8Array(sealedPrivateKey) },
+    identity: { privateJwk, publicJwk, pubkey },
+  }
+}
+
+/** Recover the history keypair. Throws `WrongPassphraseError` if `passphrase` doesn't open it. */
+export async function openVault(vault: HistoryVault, passphrase: string): Promise<RecipientIdentity> {
+  const { key, aad } = await vaultKey(passphrase, vault)
+  let d: Uint8Array
+  try {
+    d = new Uint8Array(await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: VAULT_IV as BufferSource, additionalData: aad as BufferSource },
+      key,
+      vault.sealedPrivateKey as BufferSource,
+    ))
+  } catch {
+    throw new WrongPassphraseError()
+  }
+  const x = ClientCrypto.toBase64Url(vault.pubkey)
+  return {
+    privateJwk: { kty: 'OKP', crv: 'X25519', d: ClientCrypto.toBase64Url(d), x, key_ops: ['deriveBits'], ext: true },
+    publicJwk: { kty: 'OKP', crv: 'X25519', x, key_ops: [], ext: true },
+    pubkey: vault.pubkey,
+  }
+}
+
+/** Seal an entry to the history's public key. */
+export async function sealRecord(record: UploadRecord, pubkey: Uint8Array): Promise<SealedRecord> {
+  const recordKey = ClientCrypto.generateRandomBytes(RECORD_KEY_LENGTH)
+  const { sealed, ephemeralPubkey } = await sealKeyToRecipient(recordKey, pubkey)
+  const key = await crypto.subtle.importKey('raw', recordKey as BufferSource, { name: 'AES-GCM' }, false, ['encrypt'])
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  // The id is bound as AAD so sealed entries can't be swapped between ids
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(record.id) },
+    key,
+    new TextEncoder().encode(JSON.stringify(record)),
+  )
+  return { id: record.id, iv, ciphertext, sealedKey: sealed, ephemeralPubkey }
+}
+
+/** Open an entry with the unlocked history key, or `null` if it won't open. */
+export async function openRecord(sealed: SealedRecord, identity: RecipientIdentity): Promise<UploadRecord | null> {
+  if (!sealed.sealedKey || !sealed.ephemeralPubkey) return null
+  try {
+    const recordKey = await openSealedKey(identity, sealed.sealedKey, sealed.ephemeralPubkey)
+    const key = await crypto.subtle.importKey('raw', recordKey as BufferSource, { name: 'AES-GCM' }, false, ['decrypt'])
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.iv as BufferSource, additionalData: new TextEncoder().encode(sealed.id) },
+      key,
+      sealed.ciphertext,
+    )
+    return JSON.parse(new TextDecoder().decode(plaintext)) as UploadRecord
+  } catch {
+    // Sealed to a history key that no longer exists; unreadable, skip it
+    return null
+  }
+}
+
+async function openLegacyRecord(sealed: SealedRecord, key: CryptoKey): Promise<UploadRecord | null> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.iv as BufferSource, additionalData: new TextEncoder().encode(sealed.id) },
+      key,
+      sealed.ciphertext,
+    )
+    return JSON.parse(new TextDecoder().decode(plaintext)) as UploadRecord
+  } catch {
+    return null
+  }
+}
+
+function loadVault(): Promise<HistoryVault | undefined> {
+  return run<HistoryVault | undefined>(KEY_STORE, 'readonly', s => s.get(HISTORY_VAULT_ID))
+}
+
+/** Whether the history has a passphrase yet, and if so whether it is unlocked. */
+export async function historyState(): Promise<HistoryState> {
+  if (unlocked) return 'unlocked'
+  return (await loadVault()) ? 'locked' : 'unset'
+}
+
+/**
+ * Lock the history behind `passphrase` and unlock it. Entries sealed under
+ * the legacy device key are moved across and that key is deleted.
+ */
+export async function createHistoryPassphrase(
+  passphrase: string,
+  kdf: PassphraseKdf = ClientCrypto.DEFAULT_ARGON2ID,
+): Promise<void> {
+  const { vault, identity } = await createVault(passphrase, kdf)
+  // `add` fails if another tab set a passphrase first
+  try {
+    await run(KEY_STORE, 'readwrite', s => s.add(vault, HISTORY_VAULT_ID))
+  } catch {
+    throw new Error('This browser\'s upload history already has a passphrase')
+  }
+
+  const legacyKey = await run<CryptoKey | undefined>(KEY_STORE, 'readonly', s => s.get(LEGACY_KEY_ID))
+  if (legacyKey) {
+    const sealed = await run<SealedRecord[]>(UPLOAD_STORE, 'readonly', s => s.getAll())
+    for (const entry of sealed.filter(e => !e.sealedKey)) {
+      const record = await openLegacyRecord(entry, legacyKey)
+      if (record) {
+        const resealed = await sealRecord(record, vault.pubkey)
+        await run(UPLOAD_STORE, 'readwrite', s => s.put(resealed))
+      } else {
+        await run(UPLOAD_STORE, 'readwrite', s => s.delete(entry.id))
+      }
+    }
+    await run(KEY_STORE, 'readwrite', s => s.delete(LEGACY_KEY_ID))
+  }
+
+  unlocked = identity
+}
+
+/** Unlock the history for this page. Throws `WrongPassphraseError` on a wrong passphrase. */
+export async function unlockHistory(passphrase: string): Promise<void> {
+  const vault = await loadVault()
+  if (!vault) throw new Error('The upload history has no passphrase yet')
+  unlocked = await openVault(vault, passphrase)
+}
+
+/** Drop the unlocked key from memory. */
+export function lockHistory(): void {
+  unlocked = null
+}
+
+/** Delete the whole history and its passphrase, e.g. after the passphrase is forgotten. */
+export async function resetHistory(): Promise<void> {
+  unlocked = null
+  await run(UPLOAD_STORE, 'readwrite', s => s.clear())
+  await run(KEY_STORE, 'readwrite', s => s.delete(HISTORY_VAULT_ID))
+  await run(KEY_STORE, 'readwrite', s => s.delete(LEGACY_KEY_ID))
+}
+
+/**
+ * Remember an upload made from this browser. Works while locked; throws if
+ * the history has no passphrase yet, since there is nothing to seal to.
+ */
+export async function saveUpload(record: UploadRecord): Promise<void> {
+  const vault = await loadVault()
+  if (!vault) throw new Error('The upload history has no passphrase yet')
+  const sealed = await sealRecord(record, vault.pubkey)
+  await run(UPLOAD_STORE, 'readwrite', s => s.put(sealed))
+}
+
+/** All remembered uploads, newest first. The history must be unlocked. */
+export async function listUploads(): Promise<UploadRecord[]> {
+  const identity = unlocked
+  if (!identity) throw new Error('The upload history is locked')
+  const sealed = await run<SealedRecord[]>(UPLOAD_STORE, 'readonly', s => s.getAll())
+  const records = await Promise.all(sealed.map(entry => openRecord(entry, identity)))
+  return records
+    .filter((r): r is UploadRecord => r !== null)
+    .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt))
+}
+
+/** Forget an upload locally. Does not touch the file on the server. */
+export async function removeUpload(id: string): Promise<void> {
+  await run(UPLOAD_STORE, 'readwrite', s => s.delete(id))
+}
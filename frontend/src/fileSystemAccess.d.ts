@@ -0,0 +1,12 @@
+// showDirectoryPicker is Chromium-only, so TypeScript's DOM lib leaves it out;
+// the handle types it returns are already there.
+
+interface DirectoryPickerOptions {
+  id?: string
+  mode?: 'read' | 'readwrite'
+  startIn?: FileSystemHandle | 'desktop' | 'documents' | 'downloads' | 'music' | 'pictures' | 'videos'
+}
+
+interface Window {
+  showDirectoryPicker?: (options?: DirectoryPickerOptions) => Promise<FileSystemDirectoryHandle>
+}
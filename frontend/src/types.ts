@@ -13,6 +13,7 @@ export interface UploadResponse {
   id: string;
   downloadUrl: string;
   expiresAt: string;
+  ownerToken?: string;
 }
 
 export interface DownloadResponse {
@@ -0,0 +1,486 @@
+/**
+ * Runs the v2 wire-format conformance vectors (shared/src/conformance/vectors.ts)
+ * against every implementation in the repo:
+ *
+ *   - browser:  frontend ClientCrypto, identity and key-splitting helpers
+ *               (Web Crypto, as in the browser; Node provides the same API)
+ *   - streams:  backend RFC8188EncryptStream/DecryptStream, envelope,
+ *               ShareLink and key splitting, as used by the CLI
+ *   - buffer:   backend RFC8188Crypto.encrypt/decrypt
+ *
+ * Usage: npm run test:conformance   (exits non-zero on any failure)
+ */
+
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import {
+  patternBytes, VECTOR_KEY, VECTOR_SALT, RFC_VECTORS, RECORD_VECTORS, REJECT_VECTORS,
+  VECTOR_COMMITMENT, COMMITTED_VECTORS, COMMITMENT_REJECT_VECTORS,
+  ENVELOPE_VECTORS, ENVELOPE_REJECT_VECTORS, KDF_VECTORS, FRAGMENT_VECTORS,
+  ATTESTATION_VECTORS, ATTESTATION_PUBKEY, ATTESTATION_FINGERPRINT, ROTATION_VECTORS, SHARE_VECTORS,
+  PaddingPolicy, PassphraseKdf, FragmentVector
+} from '../shared/src/conformance/vectors';
+import { ClientCrypto } from '../frontend/src/crypto/rfc8188';
+import { verifyAttestation, verifyRotation, fingerprint } from '../frontend/src/crypto/identity';
+import * as browserShamir from '../frontend/src/crypto/shamir';
+import { RFC8188Crypto, RFC8188EncryptStream, RFC8188DecryptStream } from '../backend/src/encryption/rfc8188';
+import { encodeEnvelopeHeader, EnvelopeDecodeStream, EnvelopeMetadata } from '../backend/src/encryption/envelope';
+import { ShareLink } from '../backend/src/encryption/share-link';
+import * as nodeShamir from '../backend/src/encryption/shamir';
+
+type ParsedFragment = NonNullable<FragmentVector['expect']>;
+
+/**
+ * One implementation under test. Methods it does not provide are reported
+ * as skipped for that implementation rather than failed.
+ */
+interface Target {
+  name: string;
+  encrypt?: (plaintext: Uint8Array, key: Uint8Array, salt: Uint8Array, rs: number, padding: PaddingPolicy, committed?: boolean) => Promise<Uint8Array>;
+  decrypt: (ciphertext: Uint8Array, key: Uint8Array, committed?: boolean) => Promise<Uint8Array>;
+  encryptEnvelope?: (metadata: EnvelopeMetadata, body: Uint8Array, key: Uint8Array, salt: Uint8Array) => Promise<Uint8Array>;
+  decryptEnvelope?: (ciphertext: Uint8Array, key: Uint8Array, contentDigest?: Uint8Array) => Promise<{ metadata: EnvelopeMetadata; body: Uint8Array }>;
+  envelopeDigest?: (metadata: EnvelopeMetadata, body: Uint8Array, key: Uint8Array, salt: Uint8Array) => Promise<Uint8Array>;
+  derivePassphraseKey?: (passphrase: string, salt: Uint8Array, kdf: PassphraseKdf, length: number) => Promise<Uint8Array>;
+  parseFragment?: (fragment: string) => ParsedFragment | null;
+  unlock?: (fragment: string, passphrase: string) => Promise<Uint8Array>;
+  verifyAttestation?: (fileId: string, pubkey: Uint8Array, signature: Uint8Array, contentDigest?: Uint8Array) => Promise<boolean>;
+  verifyRotation?: (pubkey: Uint8Array, previousPubkey: Uint8Array, signature: Uint8Array) => Promise<boolean>;
+  fingerprint?: (pubkey: Uint8Array) => Promise<string>;
+  splitSecret?: (secret: Uint8Array, threshold: number, total: number) => Promise<Uint8Array[]>;
+  combineShares?: (shares: Uint8Array[]) => Promise<Uint8Array>;
+}
+
+/** Thrown by a target for a vector it has no way to run */
+class SkipError extends Error {}
+
+const ENVELOPE_RECORD_SIZE = 65536;
+const CHUNK_SIZE = 997; // deliberately unaligned with every record size
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const fromHex = (value: string) => new Uint8Array(Buffer.from(value, 'hex'));
+const sha256 = (bytes: Uint8Array) => createHash('sha256').update(bytes).digest('hex');
+
+// A serialised key share: set id, K, N and x, then one byte per secret byte
+const SHARE_HEADER_LENGTH = 11;
+
+/** Decode serialised shares for a target's combineShares; a malformed one throws */
+function decodeShares<S>(shares: Uint8Array[], decode: (bytes: Uint8Array, secretLength: number) => S | null): S[] {
+  return shares.map(bytes => {
+    const share = decode(bytes, bytes.length - SHARE_HEADER_LENGTH);
+    if (!share) throw new Error('malformed share');
+    return share;
+  });
+}
+
+function chunks(bytes: Uint8Array): Uint8Array[] {
+  const out: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) out.push(bytes.subarray(i, i + CHUNK_SIZE));
+  return out;
+}
+
+async function collect(source: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: Buffer[] = [];
+  for await (const part of source) parts.push(Buffer.from(part));
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+function webStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  const pieces = chunks(bytes);
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const piece of pieces) controller.enqueue(piece);
+      controller.close();
+    }
+  });
+}
+
+function parsedToHex(parsed: {
+  keyOrWrapped: Uint8Array | null;
+  share: { setId: Uint8Array; threshold: number; total: number; x: number; y: Uint8Array } | null;
+  salt: Uint8Array;
+  committed: boolean;
+  passphraseWrap: { version: number; kdf: PassphraseKdf; salt: Uint8Array } | null;
+  ephemeralPubkey: Uint8Array | null;
+  attestation: {
+    pubkey: Uint8Array;
+    signature: Uint8Array;
+    rotation?: { previousPubkey: Uint8Array; signature: Uint8Array } | null;
+    contentDigest?: Uint8Array | null;
+    name?: string | null;
+  } | null;
+}): ParsedFragment {
+  const rotation = parsed.attestation?.rotation;
+  const share = parsed.share;
+  return {
+    keyOrWrappedHex: parsed.keyOrWrapped ? hex(parsed.keyOrWrapped) : null,
+    shareHex: share
+      ? hex(share.setId) + hex(new Uint8Array([share.threshold, share.total, share.x])) + hex(share.y)
+      : null,
+    saltHex: hex(parsed.salt),
+    committed: parsed.committed,
+    passphraseWrap: parsed.passphraseWrap
+      ? { version: parsed.passphraseWrap.version, kdf: parsed.passphraseWrap.kdf, saltHex: hex(parsed.passphraseWrap.salt) }
+      : null,
+    ephemeralPubkeyHex: parsed.ephemeralPubkey ? hex(parsed.ephemeralPubkey) : null,
+    attestation: parsed.attestation
+      ? {
+          pubkeyHex: hex(parsed.attestation.pubkey),
+          signatureHex: hex(parsed.attestation.signature),
+          rotation: rotation ? { previousPubkeyHex: hex(rotation.previousPubkey), signatureHex: hex(rotation.signature) } : null,
+          contentDigestHex: parsed.attestation.contentDigest ? hex(parsed.attestation.contentDigest) : null,
+          name: parsed.attestation.name ?? null
+        }
+      : null
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Targets
+// ──────────────────────────────────────────────────────────────────────────
+
+// extractKeysFromUrl reads the fragment from window.location
+const browserGlobals = globalThis as unknown as { window?: { location: { hash: string } } };
+
+function browserFragment(fragment: string) {
+  browserGlobals.window = { location: { hash: `#${fragment}` } };
+  return ClientCrypto.extractKeysFromUrl();
+}
+
+const browser: Target = {
+  name: 'browser',
+  encrypt: (plaintext, key, salt, rs, padding, committed) =>
+    collect(ClientCrypto.encryptStream(chunks(plaintext), key, salt, rs, undefined, padding, committed)),
+  decrypt: async (ciphertext, key, committed) => {
+    const out: Uint8Array[] = [];
+    await ClientCrypto.decryptToSink(webStream(ciphertext), key, ciphertext.subarray(0, 16), {
+      onChunk: chunk => { out.push(new Uint8Array(chunk)); }
+    }, undefined, committed);
+    return new Uint8Array(Buffer.concat(out));
+  },
+  encryptEnvelope: (metadata, body, key, salt) =>
+    collect(ClientCrypto.encryptEnvelopeStream(chunks(body), body.length, metadata, key, salt, ENVELOPE_RECORD_SIZE)),
+  decryptEnvelope: async (ciphertext, key, contentDigest) => {
+    let metadata: EnvelopeMetadata | null = null;
+    const out: Uint8Array[] = [];
+    await ClientCrypto.decryptEnvelopeToSink(webStream(ciphertext), key, ciphertext.subarray(0, 16), {
+      onMetadata: value => { metadata = value; },
+      onChunk: chunk => { out.push(new Uint8Array(chunk)); }
+    }, undefined, false, contentDigest);
+    return { metadata: metadata!, body: new Uint8Array(Buffer.concat(out)) };
+  },
+  envelopeDigest: async (metadata, body, key, salt) => {
+    let digest: Uint8Array | null = null;
+    await collect(ClientCrypto.encryptEnvelopeStream(
+      chunks(body), body.length, metadata, key, salt, ENVELOPE_RECORD_SIZE, undefined, 'none', false, value => { digest = value; }
+    ));
+    if (!digest) throw new Error('no digest reported');
+    return digest;
+  },
+  derivePassphraseKey: (passphrase, salt, kdf, length) => ClientCrypto.derivePassphraseKey(passphrase, salt, kdf, length),
+  parseFragment: fragment => {
+    const parsed = browserFragment(fragment);
+    return parsed ? parsedToHex(parsed) : null;
+  },
+  unlock: async (fragment, passphrase) => {
+    const parsed = browserFragment(fragment);
+    if (!parsed?.passphraseWrap) throw new Error('not a passphrase link');
+    if (!parsed.keyOrWrapped) throw new Error('a split-key link');
+    return ClientCrypto.unwrapKeyWithPassphrase(parsed.keyOrWrapped, passphrase, parsed.passphraseWrap);
+  },
+  verifyAttestation: (fileId, pubkey, signature, contentDigest) => verifyAttestation(fileId, pubkey, signature, contentDigest),
+  verifyRotation: (pubkey, previousPubkey, signature) => verifyRotation(pubkey, { previousPubkey, signature }),
+  fingerprint: pubkey => fingerprint(pubkey),
+  splitSecret: async (secret, threshold, total) =>
+    browserShamir.splitSecret(secret, threshold, total).map(browserShamir.encodeShare),
+  combineShares: async shares => browserShamir.combineShares(decodeShares(shares, browserShamir.decodeShare))
+};
+
+const streams: Target = {
+  name: 'streams',
+  encrypt: (plaintext, key, salt, rs, padding, committed) =>
+    collect(Readable.from(chunks(plaintext).map(c => Buffer.from(c)))
+      .pipe(new RFC8188EncryptStream(Buffer.from(key), Buffer.from(salt), { recordSize: rs, padding, committed }))),
+  decrypt: (ciphertext, key, committed) =>
+    collect(Readable.from(chunks(ciphertext).map(c => Buffer.from(c)))
+      .pipe(new RFC8188DecryptStream(Buffer.from(key), { committed }))),
+  encryptEnvelope: (metadata, body, key, salt) =>
+    collect(Readable.from([encodeEnvelopeHeader(metadata), ...chunks(body).map(c => Buffer.from(c))])
+      .pipe(new RFC8188EncryptStream(Buffer.from(key), Buffer.from(salt), { recordSize: ENVELOPE_RECORD_SIZE }))),
+  decryptEnvelope: async (ciphertext, key, contentDigest) => {
+    const envelope = new EnvelopeDecodeStream({ contentDigest: contentDigest && Buffer.from(contentDigest) });
+    const decrypt = new RFC8188DecryptStream(Buffer.from(key));
+    decrypt.on('error', error => envelope.destroy(error));
+    const body = await collect(Readable.from(chunks(ciphertext).map(c => Buffer.from(c))).pipe(decrypt).pipe(envelope));
+    return { metadata: envelope.envelopeMetadata!, body };
+  },
+  derivePassphraseKey: async (passphrase, salt, kdf, length) =>
+    ShareLink.derivePassphraseKey(passphrase, Buffer.from(salt), kdf, length),
+  parseFragment: fragment => {
+    const parsed = ShareLink.parse(`https://whirlcrypt.test/download/conformance#${fragment}`);
+    return parsed ? parsedToHex(parsed) : null;
+  },
+  unlock: async (fragment, passphrase) => {
+    const parsed = ShareLink.parse(`https://whirlcrypt.test/download/conformance#${fragment}`);
+    if (!parsed?.passphraseWrap) throw new Error('not a passphrase link');
+    if (!parsed.keyOrWrapped) throw new Error('a split-key link');
+    return ShareLink.unwrapKeyWithPassphrase(parsed.keyOrWrapped, passphrase, parsed.passphraseWrap);
+  },
+  verifyAttestation: async (fileId, pubkey, signature, contentDigest) =>
+    ShareLink.verifyAttestation(fileId, {
+      pubkey: Buffer.from(pubkey),
+      signature: Buffer.from(signature),
+      contentDigest: contentDigest && Buffer.from(contentDigest)
+    }),
+  verifyRotation: async (pubkey, previousPubkey, signature) =>
+    ShareLink.verifyRotation(Buffer.from(pubkey), { previousPubkey: Buffer.from(previousPubkey), signature: Buffer.from(signature) }),
+  fingerprint: async pubkey => ShareLink.fingerprint(Buffer.from(pubkey)),
+  splitSecret: async (secret, threshold, total) =>
+    nodeShamir.splitSecret(Buffer.from(secret), threshold, total).map(nodeShamir.encodeShare),
+  combineShares: async shares =>
+    nodeShamir.combineShares(decodeShares(shares, (bytes, length) => nodeShamir.decodeShare(Buffer.from(bytes), length)))
+};
+
+const buffer: Target = {
+  name: 'buffer',
+  // The buffer API has neither padding nor key commitment
+  encrypt: async (plaintext, key, salt, rs, padding, committed) => {
+    if (padding !== 'none' || committed) throw new SkipError();
+    return RFC8188Crypto.encrypt(Buffer.from(plaintext), Buffer.from(key), Buffer.from(salt), rs);
+  },
+  decrypt: async (ciphertext, key, committed) => {
+    if (committed) throw new SkipError();
+    return RFC8188Crypto.decrypt(Buffer.from(ciphertext), Buffer.from(key));
+  }
+};
+
+const TARGETS = [browser, streams, buffer];
+
+// ──────────────────────────────────────────────────────────────────────────
+// Runner
+// ──────────────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let skipped = 0;
+const failures: string[] = [];
+
+async function check(section: string, name: string, target: Target, run: () => Promise<void>): Promise<void> {
+  const label = `${section} › ${name} [${target.name}]`;
+  try {
+    await run();
+    passed++;
+  } catch (error) {
+    if (error instanceof SkipError) {
+      skipped++;
+      return;
+    }
+    failures.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function expectEqual(actual: unknown, expected: unknown, what: string): void {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) throw new Error(`${what}: expected ${e}, got ${a}`);
+}
+
+async function expectRejects(run: () => Promise<unknown>, what: string): Promise<void> {
+  try {
+    await run();
+  } catch {
+    return;
+  }
+  throw new Error(`${what} was accepted`);
+}
+
+function need<K extends keyof Target>(target: Target, method: K): NonNullable<Target[K]> {
+  const fn = target[method];
+  if (!fn) throw new SkipError();
+  return fn as NonNullable<Target[K]>;
+}
+
+async function main(): Promise<void> {
+  const key = fromHex(VECTOR_KEY);
+  const salt = fromHex(VECTOR_SALT);
+
+  const ciphertexts = new Map<string, { ciphertext: Uint8Array; key: Uint8Array }>();
+  for (const vector of RFC_VECTORS) {
+    ciphertexts.set(vector.name, { ciphertext: ClientCrypto.fromBase64Url(vector.ciphertextB64u), key: ClientCrypto.fromBase64Url(vector.keyB64u) });
+  }
+  for (const vector of RECORD_VECTORS) {
+    // Reference ciphertext from the vector-checked browser encoder
+    ciphertexts.set(vector.name, { ciphertext: await browser.encrypt!(patternBytes(vector.length), key, salt, vector.recordSize, vector.padding), key });
+  }
+  for (const vector of COMMITTED_VECTORS) {
+    ciphertexts.set(vector.name, { ciphertext: await browser.encrypt!(patternBytes(vector.length), key, salt, vector.recordSize, vector.padding, true), key });
+  }
+
+  for (const target of TARGETS) {
+    for (const vector of RFC_VECTORS) {
+      const { ciphertext, key: rfcKey } = ciphertexts.get(vector.name)!;
+      await check('rfc8188', `${vector.name}: decrypt`, target, async () => {
+        expectEqual(Buffer.from(await target.decrypt(ciphertext, rfcKey)).toString('utf8'), vector.plaintext, 'plaintext');
+      });
+      if (vector.reproducible) {
+        await check('rfc8188', `${vector.name}: encrypt`, target, async () => {
+          const encrypted = await need(target, 'encrypt')(new TextEncoder().encode(vector.plaintext), rfcKey, ciphertext.subarray(0, 16), 4096, 'none');
+          expectEqual(ClientCrypto.toBase64Url(encrypted), vector.ciphertextB64u, 'ciphertext');
+        });
+      }
+    }
+
+    for (const vector of RECORD_VECTORS) {
+      await check('records', `${vector.name}: encrypt`, target, async () => {
+        const encrypted = await need(target, 'encrypt')(patternBytes(vector.length), key, salt, vector.recordSize, vector.padding);
+        expectEqual(encrypted.length, vector.ciphertextLength, 'ciphertext length');
+        expectEqual(sha256(encrypted), vector.ciphertextSha256, 'ciphertext SHA-256');
+      });
+      await check('records', `${vector.name}: decrypt`, target, async () => {
+        const decrypted = await target.decrypt(ciphertexts.get(vector.name)!.ciphertext, key);
+        expectEqual(hex(decrypted), hex(patternBytes(vector.length)), 'plaintext');
+      });
+    }
+
+    for (const vector of REJECT_VECTORS) {
+      await check('reject', vector.name, target, async () => {
+        const base = ciphertexts.get(vector.base);
+        if (!base) throw new Error(`unknown base vector ${vector.base}`);
+        await expectRejects(() => target.decrypt(vector.mutate(base.ciphertext), base.key), 'corrupted ciphertext');
+      });
+    }
+
+    for (const vector of COMMITTED_VECTORS) {
+      await check('commitment', `${vector.name}: encrypt`, target, async () => {
+        const encrypted = await need(target, 'encrypt')(patternBytes(vector.length), key, salt, vector.recordSize, vector.padding, true);
+        expectEqual(hex(encrypted.subarray(21, 53)), VECTOR_COMMITMENT, 'commitment');
+        expectEqual(encrypted.length, vector.ciphertextLength, 'ciphertext length');
+        expectEqual(sha256(encrypted), vector.ciphertextSha256, 'ciphertext SHA-256');
+      });
+      for (const committed of [true, false]) {
+        // A v2 reader skips the key id like any other
+        await check('commitment', `${vector.name}: decrypt${committed ? '' : ' without checking'}`, target, async () => {
+          const decrypted = await target.decrypt(ciphertexts.get(vector.name)!.ciphertext, key, committed);
+          expectEqual(hex(decrypted), hex(patternBytes(vector.length)), 'plaintext');
+        });
+      }
+    }
+
+    for (const vector of COMMITMENT_REJECT_VECTORS) {
+      await check('commitment', `reject: ${vector.name}`, target, async () => {
+        const base = ciphertexts.get(vector.base);
+        if (!base) throw new Error(`unknown base vector ${vector.base}`);
+        const mutated = vector.mutate(base.ciphertext);
+        // The records still authenticate; only the commitment check may fail
+        await target.decrypt(mutated, base.key, false);
+        await expectRejects(() => target.decrypt(mutated, base.key, true), 'uncommitted ciphertext');
+      });
+    }
+
+    for (const vector of ENVELOPE_VECTORS) {
+      const body = patternBytes(vector.bodyLength);
+      await check('envelope', `${vector.name}: encrypt`, target, async () => {
+        const encrypted = await need(target, 'encryptEnvelope')(vector.metadata, body, key, salt);
+        expectEqual(sha256(encrypted), vector.ciphertextSha256, 'ciphertext SHA-256');
+        const plaintext = await target.decrypt(encrypted, key);
+        expectEqual(hex(plaintext.subarray(0, vector.headerHex.length / 2)), vector.headerHex, 'envelope header');
+      });
+      await check('envelope', `${vector.name}: decrypt`, target, async () => {
+        const encrypted = await browser.encryptEnvelope!(vector.metadata, body, key, salt);
+        const opened = await need(target, 'decryptEnvelope')(encrypted, key);
+        expectEqual(opened.metadata, vector.metadata, 'metadata');
+        expectEqual(sha256(opened.body), sha256(body), 'body SHA-256');
+      });
+      await check('envelope', `${vector.name}: content digest`, target, async () => {
+        expectEqual(hex(await need(target, 'envelopeDigest')(vector.metadata, body, key, salt)), vector.contentDigest, 'content digest');
+      });
+      await check('envelope', `${vector.name}: decrypt against digest`, target, async () => {
+        const decryptEnvelope = need(target, 'decryptEnvelope');
+        const encrypted = await browser.encryptEnvelope!(vector.metadata, body, key, salt);
+        const digest = fromHex(vector.contentDigest);
+        await decryptEnvelope(encrypted, key, digest);
+        digest[31] ^= 1;
+        await expectRejects(() => decryptEnvelope(encrypted, key, digest), 'content digest mismatch');
+      });
+    }
+
+    for (const vector of ENVELOPE_REJECT_VECTORS) {
+      await check('envelope', `reject: ${vector.name}`, target, async () => {
+        const decryptEnvelope = need(target, 'decryptEnvelope');
+        const encrypted = await browser.encrypt!(fromHex(vector.plaintextHex), key, salt, ENVELOPE_RECORD_SIZE, 'none');
+        await expectRejects(() => decryptEnvelope(encrypted, key), 'malformed envelope');
+      });
+    }
+
+    for (const vector of KDF_VECTORS) {
+      await check('kdf', vector.name, target, async () => {
+        const derived = await need(target, 'derivePassphraseKey')(vector.passphrase, fromHex(vector.saltHex), vector.kdf, vector.length);
+        expectEqual(hex(derived), vector.derivedHex, 'derived key');
+      });
+    }
+
+    for (const vector of FRAGMENT_VECTORS) {
+      await check('fragment', vector.name, target, async () => {
+        expectEqual(need(target, 'parseFragment')(vector.fragment), vector.expect, 'parsed fragment');
+      });
+      if (vector.unlock) {
+        const { passphrase, fileKeyHex, wrongPassphrase } = vector.unlock;
+        await check('fragment', `${vector.name}: unlock`, target, async () => {
+          const unlock = need(target, 'unlock');
+          expectEqual(hex(await unlock(vector.fragment, passphrase)), fileKeyHex, 'file key');
+          // A legacy wrap cannot detect a wrong passphrase, but must not yield the key
+          const wrong = await unlock(vector.fragment, wrongPassphrase).catch(() => null);
+          if (wrong && hex(wrong) === fileKeyHex) throw new Error('wrong passphrase unlocked the key');
+        });
+      }
+    }
+
+    for (const vector of ATTESTATION_VECTORS) {
+      await check('attestation', vector.name, target, async () => {
+        const contentDigest = vector.contentDigestHex ? fromHex(vector.contentDigestHex) : undefined;
+        const valid = await need(target, 'verifyAttestation')(vector.fileId, fromHex(vector.pubkeyHex), fromHex(vector.signatureHex), contentDigest);
+        expectEqual(valid, vector.valid, 'signature validity');
+      });
+    }
+    for (const vector of ROTATION_VECTORS) {
+      await check('rotation', vector.name, target, async () => {
+        const verify = need(target, 'verifyRotation');
+        const valid = await verify(fromHex(vector.pubkeyHex), fromHex(vector.previousPubkeyHex), fromHex(vector.signatureHex));
+        expectEqual(valid, vector.valid, 'rotation validity');
+      });
+    }
+    for (const vector of SHARE_VECTORS) {
+      await check('shares', vector.name, target, async () => {
+        const combine = need(target, 'combineShares');
+        const shares = vector.sharesHex.map(fromHex);
+        if (vector.secretHex === null) {
+          await expectRejects(() => combine(shares), 'mismatched shares');
+        } else {
+          expectEqual(hex(await combine(shares)), vector.secretHex, 'secret');
+        }
+      });
+    }
+    for (const other of TARGETS) {
+      await check('shares', `split 3 of 5, combined by ${other.name}`, target, async () => {
+        const shares = await need(target, 'splitSecret')(key, 3, 5);
+        const combine = need(other, 'combineShares');
+        expectEqual(shares.length, 5, 'share count');
+        for (const picked of [[0, 1, 2], [4, 2, 0], [1, 3, 4]]) {
+          expectEqual(hex(await combine(picked.map(i => shares[i]))), VECTOR_KEY, `secret from shares ${picked.join(', ')}`);
+        }
+        await expectRejects(() => combine([shares[3], shares[1]]), 'two shares of a 3-of-5 split');
+      });
+    }
+    await check('attestation', 'fingerprint', target, async () => {
+      expectEqual(await need(target, 'fingerprint')(fromHex(ATTESTATION_PUBKEY)), ATTESTATION_FINGERPRINT, 'fingerprint');
+    });
+  }
+
+  console.log(`${passed} passed, ${skipped} skipped, ${failures.length} failed`);
+  for (const failure of failures) console.log(`  ✗ ${failure}`);
+  process.exit(failures.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
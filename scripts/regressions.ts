@@ -0,0 +1,144 @@
+/**
+ * Regression checks for behaviour that once went wrong. Download routes run
+ * in-process against a temporary upload directory and no database; the
+ * browser's upload history sealing runs on Node's Web Crypto, as in
+ * conformance.ts.
+ *
+ * Usage: npm run test:regressions   (exits non-zero on any failure)
+ */
+
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import express from 'express';
+import downloadRouter from '../backend/src/routes/download';
+import { setFileManager } from '../backend/src/services/fileManagerService';
+import { FileManager } from '../backend/src/storage/fileManager';
+import { WrongPassphraseError } from '../frontend/src/crypto/rfc8188';
+import { createVault, openVault, sealRecord, openRecord, UploadRecord } from '../frontend/src/crypto/uploadHistory';
+
+let passed = 0;
+const failures: string[] = [];
+
+async function check(section: string, name: string, run: () => Promise<void>): Promise<void> {
+  try {
+    await run();
+    passed++;
+  } catch (error) {
+    failures.push(`${section} › ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function expectEqual(actual: unknown, expected: unknown, what: string): void {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) throw new Error(`${what}: expected ${e}, got ${a}`);
+}
+
+/** Serve the download routes on an ephemeral port for the length of `run` */
+async function withDownloadServer(run: (base: string) => Promise<void>): Promise<void> {
+  const app = express();
+  app.use('/api/download', downloadRouter);
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}/api/download`);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+async function main(): Promise<void> {
+  const uploadDir = await fs.mkdtemp(join(tmpdir(), 'whirlcrypt-regressions-'));
+  const legacy = new FileManager(uploadDir);
+  setFileManager(legacy);
+
+  const body = Buffer.alloc(4096, 7);
+  const store = async (expired: boolean) => {
+    const metadata = await legacy.storeFile(body, 'sample.bin', 'application/octet-stream', 1);
+    if (expired) {
+      metadata.expiresAt = new Date(Date.now() - 60_000);
+      await fs.writeFile(join(uploadDir, `${metadata.id}.meta`), JSON.stringify(metadata, null, 2));
+    }
+    return metadata.id;
+  };
+  const downloadCount = async (id: string) => (await legacy.getMetadata(id))?.downloadCount;
+
+  try {
+    await withDownloadServer(async base => {
+      await check('download', 'legacy manager: expired file is not served for a Range past byte 0', async () => {
+        const id = await store(true);
+        const res = await fetch(`${base}/${id}`, { headers: { Range: 'bytes=1-' } });
+        await res.arrayBuffer();
+        expectEqual(res.status, 404, 'status');
+        expectEqual(await downloadCount(id), 0, 'download count');
+      });
+
+      await check('download', 'legacy manager: a Range past byte 0 counts as a download', async () => {
+        const id = await store(false);
+        const res = await fetch(`${base}/${id}`, { headers: { Range: 'bytes=1-' } });
+        const received = Buffer.from(await res.arrayBuffer());
+        expectEqual(res.status, 206, 'status');
+        expectEqual(received.length, body.length - 1, 'body length');
+        expectEqual(await downloadCount(id), 1, 'download count');
+      });
+    });
+  } finally {
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  }
+
+  const record: UploadRecord = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    filename: 'report.pdf',
+    size: 4096,
+    shareUrl: 'https://whirlcrypt.example/download/123e4567-e89b-12d3-a456-426614174000#k=secret-file-key',
+    ownerToken: 'secret-owner-token',
+    uploadedAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 3_600_000).toISOString(),
+    maxDownloads: 1
+  };
+  const passphrase = 'correct horse battery staple';
+  const { vault } = await createVault(passphrase);
+  const sealed = await sealRecord(record, vault.pubkey);
+
+  await check('upload history', 'stored data holds no plaintext', async () => {
+    const stored = Buffer.concat([
+      Buffer.from(vault.sealedPrivateKey), Buffer.from(sealed.ciphertext),
+      Buffer.from(sealed.sealedKey!), Buffer.from(sealed.iv)
+    ]).toString('latin1');
+    for (const secret of ['secret-file-key', 'secret-owner-token', 'report.pdf']) {
+      if (stored.includes(secret)) throw new Error(`${secret} is stored in the clear`);
+    }
+  });
+
+  await check('upload history', 'a wrong passphrase does not open the vault', async () => {
+    const opened = await openVault(vault, 'incorrect horse battery staple').catch(error => error);
+    if (!(opened instanceof WrongPassphraseError)) throw new Error('wrong passphrase was accepted');
+  });
+
+  await check('upload history', 'a record does not open without the passphrase-held key', async () => {
+    // Everything else on disk is public: a fresh keypair stands in for a guess
+    const { identity: other } = await createVault('another passphrase', { name: 'pbkdf2', iterations: 100_000 });
+    expectEqual(await openRecord(sealed, other), null, 'record opened with another key');
+  });
+
+  await check('upload history', 'the passphrase opens the record', async () => {
+    const identity = await openVault(vault, passphrase);
+    expectEqual(await openRecord(sealed, identity), record, 'record');
+  });
+
+  await check('upload history', 'a record does not open under another id', async () => {
+    const identity = await openVault(vault, passphrase);
+    expectEqual(await openRecord({ ...sealed, id: 'another-id' }, identity), null, 'swapped record');
+  });
+
+  console.log(`${passed} passed, ${failures.length} failed`);
+  for (const failure of failures) console.log(`  ✗ ${failure}`);
+  process.exit(failures.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
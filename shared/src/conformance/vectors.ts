@@ -0,0 +1,567 @@
+/**
+ * Conformance vectors for the v2 wire format.
+ *
+ * The browser (frontend/src/crypto) and the server tools (backend/src/encryption)
+ * implement the format separately. These vectors pin down the bytes both must
+ * produce and accept, so the two cannot drift apart unnoticed. Run them with
+ * `npm run test:conformance` from the repository root (scripts/conformance.ts).
+ *
+ * All byte strings are lowercase hex unless named `...B64u`. Large outputs are
+ * pinned by length and SHA-256 rather than spelled out.
+ */
+
+export type PaddingPolicy = 'none' | 'pow2' | 'padme';
+
+/** Deterministic plaintext: byte i is (i * 31 + 7) mod 256 */
+export function patternBytes(length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  for (let i = 0; i < length; i++) out[i] = (i * 31 + 7) & 0xff;
+  return out;
+}
+
+// Fixed key material for the generated vectors
+export const VECTOR_KEY = '000102030405060708090a0b0c0d0e0f';
+export const VECTOR_SALT = '101112131415161718191a1b1c1d1e1f';
+
+// ──────────────────────────────────────────────────────────────────────────
+// RFC 8188 §3 examples. The §3.1 ciphertext (salt, key and plaintext as in
+// the RFC) is cross-checked against the http_ece reference implementation.
+// ──────────────────────────────────────────────────────────────────────────
+
+export interface RfcVector {
+  name: string;
+  keyB64u: string;
+  plaintext: string;         // UTF-8
+  ciphertextB64u: string;    // header included
+  reproducible: boolean;     // false when the example uses a key id or padding our encoders never write
+}
+
+export const RFC_VECTORS: RfcVector[] = [
+  {
+    name: 'RFC 8188 §3.1 (single record)',
+    keyB64u: 'yqdlZ-tYemfogSmv7Ws5PQ',
+    plaintext: 'I am the walrus',
+    ciphertextB64u: 'I1BsxtFZZFJnNNSkShw5KQAAEAAA3BFBLYEdEFyBxq18q7Bb38vBSCbEQ6ix7a-6c_DqmZo',
+    reproducible: true
+  },
+  {
+    name: 'RFC 8188 §3.2 (multiple records, key id, padding)',
+    keyB64u: 'BO3ZVPxUlnLORbVGMpbT1Q',
+    plaintext: 'I am the walrus',
+    ciphertextB64u: 'uNCkWiNYzKTnBN9ji3-qWAAAABkCYTHOG8chz_gnvgOqdGYovxyjuqRyJFjEDyoF1Fvkj6hQPdPHI51OEUKEpgz3SsLWIqS_uA',
+    reproducible: false
+  }
+];
+
+// ──────────────────────────────────────────────────────────────────────────
+// Record layout: VECTOR_KEY, VECTOR_SALT, patternBytes(length)
+// ──────────────────────────────────────────────────────────────────────────
+
+export interface RecordVector {
+  name: string;
+  recordSize: number;
+  length: number;
+  padding: PaddingPolicy;
+  ciphertextLength: number;
+  ciphertextSha256: string;
+}
+
+export const RECORD_VECTORS: RecordVector[] = [
+  { name: 'rs 18, empty', recordSize: 18, length: 0, padding: 'none', ciphertextLength: 38, ciphertextSha256: '95505c934af3d4893d21d2860914a25b04b8b0046359a09e35a7e82b81c5cd05' },
+  { name: 'rs 18, one byte per record', recordSize: 18, length: 3, padding: 'none', ciphertextLength: 92, ciphertextSha256: '1dd824641203cd7a15c4118e34f1af71363ec12af7fe5f9dbe11627640e20467' },
+  { name: 'rs 100, empty', recordSize: 100, length: 0, padding: 'none', ciphertextLength: 38, ciphertextSha256: '5044f68602493e3df96ee199c46db58ac637a7057dc7817d394dfdac93102c34' },
+  { name: 'rs 100, one short of a record', recordSize: 100, length: 82, padding: 'none', ciphertextLength: 120, ciphertextSha256: '2780bb83af2a29b33032f0f10437dadc70a4e96cb7cc79a41c9499519da5c431' },
+  { name: 'rs 100, exactly one record', recordSize: 100, length: 83, padding: 'none', ciphertextLength: 138, ciphertextSha256: 'f730016f1816038b846eabacff12b93a52619784b6aa3f58f0e96fcbe0cd813f' },
+  { name: 'rs 100, one past a record', recordSize: 100, length: 84, padding: 'none', ciphertextLength: 139, ciphertextSha256: 'e481f482995646cf18cba34733529b10023ccb0ccac995da0fc3eb867ba861ce' },
+  { name: 'rs 100, exactly two records', recordSize: 100, length: 166, padding: 'none', ciphertextLength: 238, ciphertextSha256: '80982b754e6d463ef6c1c892e6a482d8f915ab190f3fa2ecfdcad54bd4ebf992' },
+  { name: 'rs 100, several records', recordSize: 100, length: 500, padding: 'none', ciphertextLength: 640, ciphertextSha256: 'c55cc4ac4777e329bf4a530f423178bc6354171874f146dcd2e4146ee985b1be' },
+  { name: 'rs 65536, empty', recordSize: 65536, length: 0, padding: 'none', ciphertextLength: 38, ciphertextSha256: 'd99e0259dc660062ebfceb5ce171c6e1fc82e533d9effd8c97ebf95e6c71ef8c' },
+  { name: 'rs 65536, exactly one record', recordSize: 65536, length: 65519, padding: 'none', ciphertextLength: 65574, ciphertextSha256: '80174016f3b20be6b5d71ac5c7573d4d193ced12c853a98af9a09be72fbd9dce' },
+  { name: 'rs 65536, one past a record', recordSize: 65536, length: 65520, padding: 'none', ciphertextLength: 65575, ciphertextSha256: '0380f47eab5e867318deed836a0d69bf2ca3b327fc62fc0b2dae1667b33e95e2' },
+  { name: 'rs 65536, several records', recordSize: 65536, length: 200000, padding: 'none', ciphertextLength: 200089, ciphertextSha256: 'b3db784d7a2c54579e8f328222116f0df874c4e4e5e192b7b02e8175efa80e8c' },
+  { name: 'rs 100, padme', recordSize: 100, length: 1000, padding: 'padme', ciphertextLength: 1266, ciphertextSha256: '93d3c733e1b15f8f598986f87cda4c6fe7b9d5b3ffd1b5c39941099450ae481f' },
+  { name: 'rs 100, pow2', recordSize: 100, length: 300, padding: 'pow2', ciphertextLength: 652, ciphertextSha256: '1ea00bf89460d576420106449c168b5b667fdbce0c4cc57810449632d7e0ebdf' },
+  { name: 'rs 100, pow2 into whole padding records', recordSize: 100, length: 170, padding: 'pow2', ciphertextLength: 345, ciphertextSha256: '75081b490a2113fb22eac94c6ca01c77c30ae6e270aa725cd39473a2644ad027' },
+  { name: 'rs 65536, padme', recordSize: 65536, length: 100000, padding: 'padme', ciphertextLength: 100407, ciphertextSha256: '0b4ec7fd0983a15474522c7c6d6b267c56d4c1b8aa55ff82a805b7ecba1eddd1' }
+];
+
+/**
+ * Corruptions of a valid ciphertext that every decryptor must reject.
+ * `base` names a RECORD_VECTORS or RFC_VECTORS entry.
+ */
+export interface RejectVector {
+  name: string;
+  base: string;
+  mutate: (ciphertext: Uint8Array) => Uint8Array;
+}
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const flipByte = (index: number) => (ciphertext: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(ciphertext);
+  out[index < 0 ? out.length + index : index] ^= 0x01;
+  return out;
+};
+
+// 'rs 100, several records' is a 21-byte header, six full records, then a 19-byte terminal record
+export const REJECT_VECTORS: RejectVector[] = [
+  { name: 'terminal record dropped', base: 'rs 100, several records', mutate: ct => ct.slice(0, 621) },
+  { name: 'truncated inside a record', base: 'rs 100, several records', mutate: ct => ct.slice(0, 600) },
+  { name: 'header record size below 18', base: 'rs 100, several records', mutate: ct => {
+    const out = new Uint8Array(ct);
+    out.set([0, 0, 0, 17], 16);
+    return out;
+  } },
+  { name: 'ciphertext byte flipped', base: 'rs 100, several records', mutate: flipByte(30) },
+  { name: 'tag byte flipped', base: 'rs 100, several records', mutate: flipByte(-1) },
+  { name: 'records reordered', base: 'rs 100, several records', mutate: ct =>
+    concatBytes(ct.slice(0, 21), ct.slice(121, 221), ct.slice(21, 121), ct.slice(221)) },
+  { name: 'salt changed', base: 'rs 100, exactly two records', mutate: flipByte(0) },
+  { name: 'data after a full-size terminal record', base: 'RFC 8188 §3.2 (multiple records, key id, padding)', mutate: ct =>
+    concatBytes(ct, new Uint8Array(20)) }
+];
+
+// ──────────────────────────────────────────────────────────────────────────
+// Key commitment (v3 links): the header's key id is
+// HMAC-SHA-256(HKDF-Expand(PRK, "whirlcrypt: key commitment\0", 32), "whirlcrypt:commit1")
+// ──────────────────────────────────────────────────────────────────────────
+
+// Commitment for VECTOR_KEY and VECTOR_SALT
+export const VECTOR_COMMITMENT = '64f222254aebf64aabe454d4e04d3b8baa93e1242443ed2fee756e6b306862bf';
+
+// Same layout as RECORD_VECTORS, written with the commitment in the header
+export const COMMITTED_VECTORS: RecordVector[] = [
+  { name: 'committed, rs 100, empty', recordSize: 100, length: 0, padding: 'none', ciphertextLength: 70, ciphertextSha256: '65001eb5d335e6930479f7f6b4e326399c84a8520f97e4e448d558603bfe3bdf' },
+  { name: 'committed, rs 100, several records', recordSize: 100, length: 500, padding: 'none', ciphertextLength: 672, ciphertextSha256: '32fe647aa89deadbf649ae8e34d64f580861e2383f6a52a367c04c810bb476d3' },
+  { name: 'committed, rs 65536, several records', recordSize: 65536, length: 200000, padding: 'none', ciphertextLength: 200121, ciphertextSha256: '325079de50ed24a15e5a9dc9c73763a625c46725f656ef0c655ef71f8a96312d' }
+];
+
+/**
+ * Ciphertexts a decryptor must reject when it requires a commitment, even
+ * where the records themselves authenticate. `base` may also name a
+ * COMMITTED_VECTORS entry.
+ */
+export const COMMITMENT_REJECT_VECTORS: RejectVector[] = [
+  { name: 'no commitment in the header', base: 'rs 100, several records', mutate: ct => ct },
+  { name: 'commitment stripped', base: 'committed, rs 100, several records', mutate: ct =>
+    concatBytes(ct.slice(0, 20), new Uint8Array([0]), ct.slice(53)) },
+  { name: 'commitment byte flipped', base: 'committed, rs 100, several records', mutate: flipByte(21) },
+  { name: 'truncated commitment', base: 'committed, rs 100, several records', mutate: ct => {
+    const out = concatBytes(ct.slice(0, 52), ct.slice(53));
+    out[20] = 31;
+    return out;
+  } }
+];
+
+// ──────────────────────────────────────────────────────────────────────────
+// Envelope: [4-byte BE length][JSON metadata][body], encrypted at rs 65536
+// ──────────────────────────────────────────────────────────────────────────
+
+export interface EnvelopeVector {
+  name: string;
+  metadata: { filename: string; contentType: string; manifest?: { path: string; size: number; type: string }[] };
+  bodyLength: number;        // body is patternBytes(bodyLength)
+  headerHex: string;         // length prefix + JSON, as it starts the plaintext
+  ciphertextSha256: string;
+  contentDigest: string;     // SHA-256 of header + body, as signed by `h=` attestations
+}
+
+export const ENVELOPE_VECTORS: EnvelopeVector[] = [
+  {
+    name: 'plain file',
+    metadata: { filename: 'report.pdf', contentType: 'application/pdf' },
+    bodyLength: 1000,
+    headerHex: '000000397b2266696c656e616d65223a227265706f72742e706466222c22636f6e74656e7454797065223a226170706c69636174696f6e2f706466227d',
+    ciphertextSha256: 'e49e588df919e8bba0c78d47a5f3098467928f6346a00e9e247c588f33fd153f',
+    contentDigest: 'b1d7e6cf8cc9d76a51753f2d149afeac075277eeb8a680e3d202495f2e28abd6'
+  },
+  {
+    name: 'non-ASCII filename, empty body',
+    metadata: { filename: 'résumé 📄.txt', contentType: 'text/plain' },
+    bodyLength: 0,
+    headerHex: '0000003b7b2266696c656e616d65223a2272c3a973756dc3a920f09f93842e747874222c22636f6e74656e7454797065223a22746578742f706c61696e227d',
+    ciphertextSha256: '16e214102fd68ff5b6e5d4141b5a0e6fd85cbc6cd40c55e01e0f88454421c9d5',
+    contentDigest: 'bbe96d0f83552b3c5942caa4ae6da86d3424538008bb6b5d21ab2c5404e51934'
+  },
+  {
+    name: 'folder manifest, body spans records',
+    metadata: {
+      filename: 'photos.zip',
+      contentType: 'application/zip',
+      manifest: [
+        { path: 'photos/a.jpg', size: 3, type: 'image/jpeg' },
+        { path: 'photos/sub/b.txt', size: 0, type: '' }
+      ]
+    },
+    bodyLength: 70000,
+    headerHex: '000000aa7b2266696c656e616d65223a2270686f746f732e7a6970222c22636f6e74656e7454797065223a226170706c69636174696f6e2f7a6970222c226d616e6966657374223a5b7b2270617468223a2270686f746f732f612e6a7067222c2273697a65223a332c2274797065223a22696d6167652f6a706567227d2c7b2270617468223a2270686f746f732f7375622f622e747874222c2273697a65223a302c2274797065223a22227d5d7d',
+    ciphertextSha256: '0742fa0c1d7d840531121e0329505ae6b42e48c4998a8788ea8c62992b794327',
+    contentDigest: '58c0d5d619b087322a195f2b0341f7be2d66056ba877b715e8f3bfe895f76bfc'
+  }
+];
+
+/** Decrypted plaintexts that are not valid envelopes */
+export const ENVELOPE_REJECT_VECTORS: { name: string; plaintextHex: string }[] = [
+  { name: 'metadata length above the 16 MiB cap', plaintextHex: '010000017b7d' },
+  { name: 'stream ends inside the metadata', plaintextHex: '000000107b2266696c656e616d65' },
+  { name: 'stream ends inside the length prefix', plaintextHex: '0000' },
+  { name: 'metadata is not JSON', plaintextHex: '00000003616263' }
+];
+
+// ──────────────────────────────────────────────────────────────────────────
+// Passphrase key derivation and wrapped-key fragments
+// ──────────────────────────────────────────────────────────────────────────
+
+export type PassphraseKdf =
+  | { name: 'pbkdf2'; iterations: number }
+  | { name: 'argon2id'; memoryKiB: number; iterations: number; parallelism: number };
+
+export interface KdfVector {
+  name: string;
+  passphrase: string;
+  saltHex: string;
+  kdf: PassphraseKdf;
+  length: number;
+  derivedHex: string;
+}
+
+export const KDF_VECTORS: KdfVector[] = [
+  {
+    name: 'PBKDF2-SHA256, wrap key length',
+    passphrase: 'correct horse battery staple',
+    saltHex: '202122232425262728292a2b2c2d2e2f',
+    kdf: { name: 'pbkdf2', iterations: 100000 },
+    length: 32,
+    derivedHex: '755bdcc1aecb0353bb5b2c8e62415e75425edd23484314719aa14e2bd1432351'
+  },
+  {
+    name: 'PBKDF2-SHA256, legacy XOR length',
+    passphrase: 'correct horse battery staple',
+    saltHex: '202122232425262728292a2b2c2d2e2f',
+    kdf: { name: 'pbkdf2', iterations: 600000 },
+    length: 16,
+    derivedHex: '7e5a418e0ee349197a01a04c30212590'
+  },
+  {
+    name: 'Argon2id',
+    passphrase: 'correct horse battery staple',
+    saltHex: '303132333435363738393a3b3c3d3e3f',
+    kdf: { name: 'argon2id', memoryKiB: 8192, iterations: 2, parallelism: 1 },
+    length: 32,
+    derivedHex: '340595f2733133ea892d43907b09fa6948e1c4881d4c9aaf107645f2677a3b57'
+  },
+  {
+    name: 'NFKC normalisation: fullwidth input',
+    passphrase: 'Ｐａｓｓ',
+    saltHex: '202122232425262728292a2b2c2d2e2f',
+    kdf: { name: 'pbkdf2', iterations: 100000 },
+    length: 32,
+    derivedHex: 'd0f420185b7c4442624d8f47f9749cfe833e138297d832735b4259f4a75d5ca7'
+  },
+  {
+    name: 'NFKC normalisation: ASCII input',
+    passphrase: 'Pass',
+    saltHex: '202122232425262728292a2b2c2d2e2f',
+    kdf: { name: 'pbkdf2', iterations: 100000 },
+    length: 32,
+    derivedHex: 'd0f420185b7c4442624d8f47f9749cfe833e138297d832735b4259f4a75d5ca7'
+  }
+];
+
+/**
+ * A share-link fragment and what parsing it must yield. `null` expectations
+ * are links every implementation must refuse.
+ */
+export interface FragmentVector {
+  name: string;
+  fragment: string;          // without the leading '#'
+  expect: null | {
+    keyOrWrappedHex: string | null;  // null for a split-key link
+    shareHex: string | null;         // the link's key share (`share`)
+    saltHex: string;
+    committed: boolean;      // v3 link
+    passphraseWrap: null | { version: number; kdf: PassphraseKdf; saltHex: string };
+    ephemeralPubkeyHex: string | null;
+    attestation: null | {
+      pubkeyHex: string;
+      signatureHex: string;
+      rotation: null | { previousPubkeyHex: string; signatureHex: string };
+      contentDigestHex: string | null;   // `h`
+      name: string | null;               // unsigned display name (`sn`)
+    };
+  };
+  // For passphrase-locked links: the passphrase and the file key it unlocks
+  unlock?: { passphrase: string; fileKeyHex: string; wrongPassphrase: string };
+}
+
+// The passphrase-locked links below wrap this key with 'open sesame' and
+// passphrase salt PASSPHRASE_SALT
+export const FILE_KEY = '0f0e0d0c0b0a09080706050403020100';
+
+const OPEN = { keyOrWrappedHex: VECTOR_KEY, shareHex: null, saltHex: VECTOR_SALT, committed: false, passphraseWrap: null, ephemeralPubkeyHex: null, attestation: null };
+const PASSPHRASE_SALT = '404142434445464748494a4b4c4d4e4f';
+// Key shares, also combined in SHARE_VECTORS below
+const SPLIT_SHARES = [
+  '5051525354555657020301013748c8132398dd404a7028f395e707',
+  '5051525354555657020302026d968e2a4921a8988ffe4de926c71f',
+  '5051525354555657020303035bdc453d6fbf72d0cc846e16be2e17'
+];
+const WRAPPED_SPLIT_SHARES = [
+  'a0a1a2a3a4a5a6a7030501d45c3eaa4e22e81b3b3aaff8a3560b1791d4d2e04767b38cbf8e17adcd928027',
+  'a0a1a2a3a4a5a6a703050209c3e752f5f6e6d77fd9015cbdb7b9b7b81a535ab665e116f735b57a2b7fa844',
+  'a0a1a2a3a4a5a6a7030503db306607816bc416e1eb0cdf1dec7015314f14557a95118b2654ac961bde18b4',
+  'a0a1a2a3a4a5a6a7030504ee0510a2239629a6d3532ddddd52d1ded16839043f4c6387c72071faa4ffba51',
+  'a0a1a2a3a4a5a6a70305053cf691f7570b0b674d61205e7d09187c583d7e0bf3bc931a16416816945e0aa1'
+];
+const ATTESTED = {
+  pubkeyHex: '2152f8d19b791d24453242e15f2eab6cb7cffa7b6a5ed30097960e069881db12',
+  signatureHex: '465f8f49d012c49240769a4e2dccd2bd4b0a9299987ab3d4698cd470d74cd9ed015e8fdc0c0bb9a7f3079cff0ff0aa2cb8635272c941f202c94d99fe790a8c03',
+  rotation: null,
+  contentDigestHex: null,
+  name: null
+};
+
+export const FRAGMENT_VECTORS: FragmentVector[] = [
+  { name: 'open link', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw', expect: OPEN },
+  {
+    name: 'passphrase, PBKDF2 wrap',
+    fragment: 'v=2&k=Bq-__zq_ytqlCKJ7Aw3CtRiBle-Ll0MRbu8OQf0zMNc&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw&pw=1&kdf=pbkdf2&ki=100000',
+    expect: {
+      ...OPEN,
+      keyOrWrappedHex: '06afbfff3abfcadaa508a27b030dc2b5188195ef8b9743116eef0e41fd3330d7',
+      passphraseWrap: { version: 1, kdf: { name: 'pbkdf2', iterations: 100000 }, saltHex: PASSPHRASE_SALT }
+    },
+    unlock: { passphrase: 'open sesame', fileKeyHex: FILE_KEY, wrongPassphrase: 'open sesame!' }
+  },
+  {
+    name: 'passphrase, Argon2id wrap',
+    fragment: 'v=2&k=pzkPcoV75elAZbypF1b1eZSPjG2_3l_AZuoekMtLBY0&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw&pw=1&kdf=argon2id&km=8192&kt=2&kp=1',
+    expect: {
+      ...OPEN,
+      keyOrWrappedHex: 'a7390f72857be5e94065bca91756f579948f8c6dbfde5fc066ea1e90cb4b058d',
+      passphraseWrap: { version: 1, kdf: { name: 'argon2id', memoryKiB: 8192, iterations: 2, parallelism: 1 }, saltHex: PASSPHRASE_SALT }
+    },
+    unlock: { passphrase: 'open sesame', fileKeyHex: FILE_KEY, wrongPassphrase: 'Open sesame' }
+  },
+  {
+    name: 'passphrase, legacy XOR wrap',
+    fragment: 'v=2&k=FMuRKoE6pmf7ArB_Xh193Q&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw',
+    expect: {
+      ...OPEN,
+      keyOrWrappedHex: '14cb912a813aa667fb02b07f5e1d7ddd',
+      passphraseWrap: { version: 0, kdf: { name: 'pbkdf2', iterations: 600000 }, saltHex: PASSPHRASE_SALT }
+    },
+    unlock: { passphrase: 'open sesame', fileKeyHex: FILE_KEY, wrongPassphrase: 'open' }
+  },
+  {
+    name: 'sealed to a recipient',
+    fragment: 'v=2&k=Bq-__zq_ytqlCKJ7Aw3CtRiBle-Ll0MRbu8OQf0zMNc&s=EBESExQVFhcYGRobHB0eHw&epk=Ivwpd5Lwtv_Av8_bftsMCqFOAlo2XsDjQuhuOCnLdLY',
+    expect: { ...OPEN, keyOrWrappedHex: '06afbfff3abfcadaa508a27b030dc2b5188195ef8b9743116eef0e41fd3330d7', ephemeralPubkeyHex: '22fc297792f0b6ffc0bfcfdb7edb0c0aa14e025a365ec0e342e86e3829cb74b6' }
+  },
+  {
+    name: 'sender-attested',
+    fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&pk=IVL40Zt5HSRFMkLhXy6rbLfP-ntqXtMAl5YOBpiB2xI&sig=Rl-PSdASxJJAdppOLczSvUsKkpmYerPUaYzUcNdM2e0BXo_cDAu5p_MHnP8P8KosuGNScslB8gLJTZn-eQqMAw',
+    expect: { ...OPEN, attestation: ATTESTED }
+  },
+  {
+    name: 'sender-attested, key rotated',
+    fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&pk=IVL40Zt5HSRFMkLhXy6rbLfP-ntqXtMAl5YOBpiB2xI&sig=Rl-PSdASxJJAdppOLczSvUsKkpmYerPUaYzUcNdM2e0BXo_cDAu5p_MHnP8P8KosuGNScslB8gLJTZn-eQqMAw&rot=Ivwpd5Lwtv_Av8_bftsMCqFOAlo2XsDjQuhuOCnLdLaB0jkLk-cjptLclD8omkLkpJwlzBl55BRCAEqOF4SGvv7W7y4QH-u9T6A5BswCLy_dKPiEVB3EU56QKw7oKr0K',
+    expect: {
+      ...OPEN,
+      attestation: {
+        ...ATTESTED,
+        rotation: {
+          previousPubkeyHex: '22fc297792f0b6ffc0bfcfdb7edb0c0aa14e025a365ec0e342e86e3829cb74b6',
+          signatureHex: '81d2390b93e723a6d2dc943f289a42e4a49c25cc1979e41442004a8e178486befed6ef2e101febbd4fa03906cc022f2fdd28f884541dc4539e902b0ee82abd0a'
+        }
+      }
+    }
+  },
+  { name: 'committed open link', fragment: 'v=3&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw', expect: { ...OPEN, committed: true } },
+  {
+    name: 'committed, passphrase, Argon2id wrap',
+    fragment: 'v=3&k=pzkPcoV75elAZbypF1b1eZSPjG2_3l_AZuoekMtLBY0&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw&pw=1&kdf=argon2id&km=8192&kt=2&kp=1',
+    expect: {
+      ...OPEN,
+      committed: true,
+      keyOrWrappedHex: 'a7390f72857be5e94065bca91756f579948f8c6dbfde5fc066ea1e90cb4b058d',
+      passphraseWrap: { version: 1, kdf: { name: 'argon2id', memoryKiB: 8192, iterations: 2, parallelism: 1 }, saltHex: PASSPHRASE_SALT }
+    },
+    unlock: { passphrase: 'open sesame', fileKeyHex: FILE_KEY, wrongPassphrase: 'open sesame ' }
+  },
+  {
+    name: 'sender-attested, content digest',
+    fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&pk=IVL40Zt5HSRFMkLhXy6rbLfP-ntqXtMAl5YOBpiB2xI&sig=Rl-PSdASxJJAdppOLczSvUsKkpmYerPUaYzUcNdM2e0BXo_cDAu5p_MHnP8P8KosuGNScslB8gLJTZn-eQqMAw&h=sdfmz4zJ12pRdT8tFJr-rAdSd-64poDj0gJJXy4oq9Y',
+    expect: { ...OPEN, attestation: { ...ATTESTED, contentDigestHex: 'b1d7e6cf8cc9d76a51753f2d149afeac075277eeb8a680e3d202495f2e28abd6' } }
+  },
+  { name: 'malformed content digest drops the attestation', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&pk=IVL40Zt5HSRFMkLhXy6rbLfP-ntqXtMAl5YOBpiB2xI&sig=Rl-PSdASxJJAdppOLczSvUsKkpmYerPUaYzUcNdM2e0BXo_cDAu5p_MHnP8P8KosuGNScslB8gLJTZn-eQqMAw&h=sdfmz4zJ12pRdT8tFJr-rAdSd-64poDj0gJJXy4oq9', expect: OPEN },
+  { name: 'sender-attested, with a display name', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&pk=IVL40Zt5HSRFMkLhXy6rbLfP-ntqXtMAl5YOBpiB2xI&sig=Rl-PSdASxJJAdppOLczSvUsKkpmYerPUaYzUcNdM2e0BXo_cDAu5p_MHnP8P8KosuGNScslB8gLJTZn-eQqMAw&sn=%20Zo%C3%AB+K.%20', expect: { ...OPEN, attestation: { ...ATTESTED, name: 'Zoë K.' } } },
+  { name: 'display name over 64 characters is dropped', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&pk=IVL40Zt5HSRFMkLhXy6rbLfP-ntqXtMAl5YOBpiB2xI&sig=Rl-PSdASxJJAdppOLczSvUsKkpmYerPUaYzUcNdM2e0BXo_cDAu5p_MHnP8P8KosuGNScslB8gLJTZn-eQqMAw&sn=xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx', expect: { ...OPEN, attestation: ATTESTED } },
+  { name: 'display name with a control character is dropped', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&pk=IVL40Zt5HSRFMkLhXy6rbLfP-ntqXtMAl5YOBpiB2xI&sig=Rl-PSdASxJJAdppOLczSvUsKkpmYerPUaYzUcNdM2e0BXo_cDAu5p_MHnP8P8KosuGNScslB8gLJTZn-eQqMAw&sn=Zo%0Ae', expect: { ...OPEN, attestation: ATTESTED } },
+  { name: 'display name without an attestation is ignored', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&sn=Zoe', expect: OPEN },
+  { name: 'malformed rotation statement is dropped', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&pk=IVL40Zt5HSRFMkLhXy6rbLfP-ntqXtMAl5YOBpiB2xI&sig=Rl-PSdASxJJAdppOLczSvUsKkpmYerPUaYzUcNdM2e0BXo_cDAu5p_MHnP8P8KosuGNScslB8gLJTZn-eQqMAw&rot=Ivwpd5Lwtv_Av8_bftsMCqFOAlo2XsDjQuhuOCnLdLY', expect: { ...OPEN, attestation: ATTESTED } },
+  { name: 'split key, share 2 of 3', fragment: 'v=3&share=UFFSU1RVVlcCAwICbZaOKkkhqJiP_k3pJscf&s=EBESExQVFhcYGRobHB0eHw', expect: { ...OPEN, keyOrWrappedHex: null, shareHex: SPLIT_SHARES[1], committed: true } },
+  {
+    name: 'split key, passphrase-locked, share 1 of 5',
+    fragment: 'v=2&share=oKGio6SlpqcDBQHUXD6qTiLoGzs6r_ijVgsXkdTS4Edns4y_jhetzZKAJw&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw&pw=1&kdf=pbkdf2&ki=100000',
+    expect: {
+      ...OPEN,
+      keyOrWrappedHex: null,
+      shareHex: WRAPPED_SPLIT_SHARES[0],
+      passphraseWrap: { version: 1, kdf: { name: 'pbkdf2', iterations: 100000 }, saltHex: PASSPHRASE_SALT }
+    }
+  },
+  { name: 'malformed attestation is ignored', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw&pk=IVL40Zt5HSRFMkLhXy6rbLfP-ntqXtMAl5YOBpiB2xI&sig=AAAA', expect: OPEN },
+  { name: 'v4 link', fragment: 'v=4&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw', expect: null },
+  { name: 'v1 link', fragment: 'v=1&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0eHw', expect: null },
+  { name: 'missing salt', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw', expect: null },
+  { name: 'short salt', fragment: 'v=2&k=AAECAwQFBgcICQoLDA0ODw&s=EBESExQVFhcYGRobHB0e', expect: null },
+  { name: 'open link with a 32-byte key', fragment: 'v=2&k=Bq-__zq_ytqlCKJ7Aw3CtRiBle-Ll0MRbu8OQf0zMNc&s=EBESExQVFhcYGRobHB0eHw', expect: null },
+  { name: 'unknown wrap version', fragment: 'v=2&k=Bq-__zq_ytqlCKJ7Aw3CtRiBle-Ll0MRbu8OQf0zMNc&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw&pw=2&kdf=pbkdf2&ki=100000', expect: null },
+  { name: 'unknown KDF', fragment: 'v=2&k=Bq-__zq_ytqlCKJ7Aw3CtRiBle-Ll0MRbu8OQf0zMNc&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw&pw=1&kdf=scrypt', expect: null },
+  { name: 'Argon2id memory below bounds', fragment: 'v=2&k=pzkPcoV75elAZbypF1b1eZSPjG2_3l_AZuoekMtLBY0&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw&pw=1&kdf=argon2id&km=1024&kt=2&kp=1', expect: null },
+  { name: 'PBKDF2 iterations above bounds', fragment: 'v=2&k=Bq-__zq_ytqlCKJ7Aw3CtRiBle-Ll0MRbu8OQf0zMNc&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw&pw=1&kdf=pbkdf2&ki=20000000', expect: null },
+  { name: 'key and share together', fragment: 'v=3&k=AAECAwQFBgcICQoLDA0ODw&share=UFFSU1RVVlcCAwICbZaOKkkhqJiP_k3pJscf&s=EBESExQVFhcYGRobHB0eHw', expect: null },
+  { name: 'share point above the share count', fragment: 'v=3&share=UFFSU1RVVlcCAwQBN0jIEyOY3UBKcCjzlecH&s=EBESExQVFhcYGRobHB0eHw', expect: null },
+  { name: 'share with a threshold of one', fragment: 'v=3&share=UFFSU1RVVlcBAwEBN0jIEyOY3UBKcCjzlecH&s=EBESExQVFhcYGRobHB0eHw', expect: null },
+  { name: 'share of a wrapped key on an open link', fragment: 'v=3&share=oKGio6SlpqcDBQHUXD6qTiLoGzs6r_ijVgsXkdTS4Edns4y_jhetzZKAJw&s=EBESExQVFhcYGRobHB0eHw', expect: null },
+  { name: 'passphrase and recipient seal together', fragment: 'v=2&k=Bq-__zq_ytqlCKJ7Aw3CtRiBle-Ll0MRbu8OQf0zMNc&s=EBESExQVFhcYGRobHB0eHw&ps=QEFCQ0RFRkdISUpLTE1OTw&pw=1&kdf=pbkdf2&ki=100000&epk=Ivwpd5Lwtv_Av8_bftsMCqFOAlo2XsDjQuhuOCnLdLY', expect: null }
+];
+
+// ──────────────────────────────────────────────────────────────────────────
+// Sender attestation: Ed25519 over `whirlcrypt:v2|<fileId>|<pubkey b64u>`,
+// or `whirlcrypt:attest2|<fileId>|<pubkey b64u>|<content digest b64u>`
+// ──────────────────────────────────────────────────────────────────────────
+
+export interface AttestationVector {
+  name: string;
+  fileId: string;
+  pubkeyHex: string;
+  signatureHex: string;
+  contentDigestHex?: string;  // signed as `whirlcrypt:attest2|<fileId>|<pubkey>|<digest b64u>`
+  valid: boolean;
+}
+
+// Ed25519 key from the seed 0x42 × 32; signatures are deterministic
+export const ATTESTATION_PUBKEY = '2152f8d19b791d24453242e15f2eab6cb7cffa7b6a5ed30097960e069881db12';
+export const ATTESTATION_FINGERPRINT = '3097-e2de-e2cb-4a34';
+const ATTESTATION_SIGNATURE = '465f8f49d012c49240769a4e2dccd2bd4b0a9299987ab3d4698cd470d74cd9ed015e8fdc0c0bb9a7f3079cff0ff0aa2cb8635272c941f202c94d99fe790a8c03';
+// Over the 'plain file' envelope's content digest
+const CONTENT_ATTESTATION_DIGEST = 'b1d7e6cf8cc9d76a51753f2d149afeac075277eeb8a680e3d202495f2e28abd6';
+const CONTENT_ATTESTATION_SIGNATURE = '2ff56088ab22b45335f93d3b23e46083730ade5b0c39544f1b304e6748c5c507053a11aab7d4db29e08c0f69d6561b2115e8b8a1353677596e9b42551c02f107';
+
+export const ATTESTATION_VECTORS: AttestationVector[] = [
+  { name: 'valid signature', fileId: 'Xq3vT9kLm2Pw', pubkeyHex: ATTESTATION_PUBKEY, signatureHex: ATTESTATION_SIGNATURE, valid: true },
+  { name: 'different file id', fileId: 'Xq3vT9kLm2Px', pubkeyHex: ATTESTATION_PUBKEY, signatureHex: ATTESTATION_SIGNATURE, valid: false },
+  { name: 'signature presented with another key', fileId: 'Xq3vT9kLm2Pw', pubkeyHex: '22fc297792f0b6ffc0bfcfdb7edb0c0aa14e025a365ec0e342e86e3829cb74b6', signatureHex: ATTESTATION_SIGNATURE, valid: false },
+  {
+    name: 'signature byte flipped',
+    fileId: 'Xq3vT9kLm2Pw',
+    pubkeyHex: ATTESTATION_PUBKEY,
+    signatureHex: '475f' + ATTESTATION_SIGNATURE.slice(4),
+    valid: false
+  },
+  {
+    name: 'content digest signed',
+    fileId: 'Xq3vT9kLm2Pw',
+    pubkeyHex: ATTESTATION_PUBKEY,
+    signatureHex: CONTENT_ATTESTATION_SIGNATURE,
+    contentDigestHex: CONTENT_ATTESTATION_DIGEST,
+    valid: true
+  },
+  {
+    name: 'different content digest',
+    fileId: 'Xq3vT9kLm2Pw',
+    pubkeyHex: ATTESTATION_PUBKEY,
+    signatureHex: CONTENT_ATTESTATION_SIGNATURE,
+    contentDigestHex: 'bbe96d0f83552b3c5942caa4ae6da86d3424538008bb6b5d21ab2c5404e51934',
+    valid: false
+  },
+  {
+    name: 'content signature with the digest stripped',
+    fileId: 'Xq3vT9kLm2Pw',
+    pubkeyHex: ATTESTATION_PUBKEY,
+    signatureHex: CONTENT_ATTESTATION_SIGNATURE,
+    valid: false
+  },
+  {
+    name: 'file-id-only signature with a digest added',
+    fileId: 'Xq3vT9kLm2Pw',
+    pubkeyHex: ATTESTATION_PUBKEY,
+    signatureHex: ATTESTATION_SIGNATURE,
+    contentDigestHex: CONTENT_ATTESTATION_DIGEST,
+    valid: false
+  }
+];
+
+// ──────────────────────────────────────────────────────────────────────────
+// Key rotation: the previous key signs
+// `whirlcrypt:rotate1|<previous pubkey b64u>|<new pubkey b64u>`
+// ──────────────────────────────────────────────────────────────────────────
+
+export interface RotationVector {
+  name: string;
+  pubkeyHex: string;
+  previousPubkeyHex: string;
+  signatureHex: string;
+  valid: boolean;
+}
+
+// The seed 0x43 × 32 key hands over to ATTESTATION_PUBKEY
+const ROTATION_PREVIOUS_PUBKEY = '22fc297792f0b6ffc0bfcfdb7edb0c0aa14e025a365ec0e342e86e3829cb74b6';
+const ROTATION_SIGNATURE = '81d2390b93e723a6d2dc943f289a42e4a49c25cc1979e41442004a8e178486befed6ef2e101febbd4fa03906cc022f2fdd28f884541dc4539e902b0ee82abd0a';
+
+export const ROTATION_VECTORS: RotationVector[] = [
+  { name: 'valid hand-over', pubkeyHex: ATTESTATION_PUBKEY, previousPubkeyHex: ROTATION_PREVIOUS_PUBKEY, signatureHex: ROTATION_SIGNATURE, valid: true },
+  { name: 'keys swapped', pubkeyHex: ROTATION_PREVIOUS_PUBKEY, previousPubkeyHex: ATTESTATION_PUBKEY, signatureHex: ROTATION_SIGNATURE, valid: false },
+  {
+    name: 'signed by the new key instead of the previous one',
+    pubkeyHex: ATTESTATION_PUBKEY,
+    previousPubkeyHex: ROTATION_PREVIOUS_PUBKEY,
+    signatureHex: '2cfdd1ae2e185a87b8df6d92e08315576348c51122cbb8764fb3a44a548c39fab3799896e40c4453a0b83546b412561f486921a08b5eeb33f5ef449bac2a980c',
+    valid: false
+  },
+  {
+    name: 'signature byte flipped',
+    pubkeyHex: ATTESTATION_PUBKEY,
+    previousPubkeyHex: ROTATION_PREVIOUS_PUBKEY,
+    signatureHex: '80' + ROTATION_SIGNATURE.slice(2),
+    valid: false
+  }
+];
+
+// ──────────────────────────────────────────────────────────────────────────
+// Key splitting: Shamir secret sharing over GF(2^8) (AES polynomial 0x11b).
+// A share is [set id (8)][K][N][x][y], and any K shares of one set rebuild
+// the link's `k` value by Lagrange interpolation at x = 0.
+// ──────────────────────────────────────────────────────────────────────────
+
+export interface ShareVector {
+  name: string;
+  sharesHex: string[];
+  secretHex: string | null;  // null: every implementation must refuse to combine them
+}
+
+// SPLIT_SHARES split VECTOR_KEY 2-of-3; WRAPPED_SPLIT_SHARES split the
+// PBKDF2-wrapped key from the fragment vectors 3-of-5
+const WRAPPED_KEY = '06afbfff3abfcadaa508a27b030dc2b5188195ef8b9743116eef0e41fd3330d7';
+
+export const SHARE_VECTORS: ShareVector[] = [
+  { name: '2 of 3, shares 1 and 2', sharesHex: [SPLIT_SHARES[0], SPLIT_SHARES[1]], secretHex: VECTOR_KEY },
+  { name: '2 of 3, shares 3 and 1', sharesHex: [SPLIT_SHARES[2], SPLIT_SHARES[0]], secretHex: VECTOR_KEY },
+  { name: '2 of 3, all shares', sharesHex: SPLIT_SHARES, secretHex: VECTOR_KEY },
+  { name: '3 of 5, shares 5, 2 and 3', sharesHex: [WRAPPED_SPLIT_SHARES[4], WRAPPED_SPLIT_SHARES[1], WRAPPED_SPLIT_SHARES[2]], secretHex: WRAPPED_KEY },
+  { name: '3 of 5, shares 1 to 4', sharesHex: WRAPPED_SPLIT_SHARES.slice(0, 4), secretHex: WRAPPED_KEY },
+  { name: '3 of 5, too few shares', sharesHex: [WRAPPED_SPLIT_SHARES[0], WRAPPED_SPLIT_SHARES[3]], secretHex: null },
+  { name: 'the same share twice', sharesHex: [SPLIT_SHARES[1], SPLIT_SHARES[1]], secretHex: null },
+  { name: 'shares from different splits', sharesHex: [SPLIT_SHARES[0], WRAPPED_SPLIT_SHARES[1], WRAPPED_SPLIT_SHARES[2]], secretHex: null },
+  { name: 'same set id, different threshold', sharesHex: [SPLIT_SHARES[0], '5051525354555657030302026d968e2a4921a8988ffe4de926c71f'], secretHex: null }
+];